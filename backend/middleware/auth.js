@@ -1,4 +1,8 @@
 const jwt = require("jsonwebtoken");
+const mongoose = require("mongoose");
+const Classroom = require("../models/Classroom");
+const Assignment = require("../models/Assignment");
+const { classroomRole, hasPermission } = require("../utils/classroomStaff");
 
 /**
  * Middleware: Authenticate user via JWT.
@@ -59,8 +63,84 @@ const requireStudent = (req, res, next) => {
     next();
 };
 
+/**
+ * Middleware: Authorize access for admin role.
+ * 
+ * - Ensures the authenticated user has role 'admin'.
+ * - Responds with 403 Forbidden if not an admin.
+ * 
+ * @access Private (Admins only)
+ */
+const requireAdmin = (req, res, next) => {
+    if (req.role !== "admin") {
+        return res.status(403).json({ error: "Access denied: Admins only." });
+    }
+    next();
+};
+
+/*
+ * Classroom resolvers for requireClassroomAccess. Each returns the id of the classroom
+ * behind the request, or null when the referenced resource does not exist.
+ */
+const classroomFromParam = (param) => async (req) => req.params[param];
+
+const classroomFromBody = (field) => async (req) => req.body?.[field];
+
+const classroomFromAssignment = (param) => async (req) => {
+    const assignmentId = req.params[param];
+    if (!mongoose.isValidObjectId(assignmentId)) return null;
+    const assignment = await Assignment.findById(assignmentId).select("classroomId").lean();
+    return assignment ? assignment.classroomId : null;
+};
+
+/**
+ * Middleware factory: Authorize access to the classroom behind a route.
+ * 
+ * - Resolves the classroom with `resolveClassroomId` (see the classroomFrom* resolvers).
+ * - Responds with 404 Not Found if the resource or its classroom does not exist.
+ * - Responds with 403 Forbidden if the user is not on the classroom's staff, or their
+ *   role lacks `permission` (see utils/classroomStaff).
+ * - On success: attaches the classroom document to `req.classroom` and the user's role
+ *   to `req.classroomRole`.
+ * 
+ * Must run after `authenticate` (and after body parsing such as multer for body resolvers).
+ * 
+ * @param {Function} resolveClassroomId - async (req) => classroom id or null
+ * @param {{ permission?: string, notFound?: string }} [options]
+ * @access Private (Classroom staff only)
+ */
+const requireClassroomAccess = (resolveClassroomId, { permission = "view", notFound = "Classroom not found" } = {}) => async (req, res, next) => {
+    try {
+        const classroomId = await resolveClassroomId(req);
+        const classroom = mongoose.isValidObjectId(classroomId) ? await Classroom.findById(classroomId) : null;
+        if (!classroom) {
+            return res.status(404).json({ error: notFound });
+        }
+
+        const role = classroomRole(classroom, req.userId);
+        if (!role) {
+            return res.status(403).json({ error: "Access denied: You do not have access to this classroom." });
+        }
+        if (!hasPermission(role, permission)) {
+            return res.status(403).json({ error: "Access denied: Your classroom role does not allow this action." });
+        }
+
+        req.classroom = classroom;
+        req.classroomRole = role;
+        next();
+    } catch (err) {
+        console.error("Classroom Access Error:", err);
+        return res.status(500).json({ error: "Server error" });
+    }
+};
+
 module.exports = {
     authenticate,
     requireTeacher,
     requireStudent,
+    requireAdmin,
+    requireClassroomAccess,
+    classroomFromParam,
+    classroomFromBody,
+    classroomFromAssignment,
 };
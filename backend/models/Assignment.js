@@ -1,5 +1,105 @@
 const mongoose = require("mongoose");
 
+// Passage shared with a matched submission, as character offsets (end exclusive)
+// into this submission's text (source*) and the matched submission's text (matched*)
+const matchedPassageSchema = new mongoose.Schema({
+    sourceStart: Number,
+    sourceEnd: Number,
+    matchedStart: Number,
+    matchedEnd: Number,
+    wordCount: Number
+}, { _id: false });
+
+// Where a match came from: a classmate in this assignment, a corpus entry from another
+// assignment/term the teacher owns, or a document in the teacher's reference library
+// (labels are copied for the report)
+const matchSourceFields = {
+    sourceType: { type: String, enum: ["classmate", "corpus", "reference"], default: "classmate" },
+    corpusEntryId: { type: mongoose.Schema.Types.ObjectId, ref: "CorpusEntry" },
+    referenceDocumentId: { type: mongoose.Schema.Types.ObjectId, ref: "ReferenceDocument" },
+    sourceAssignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment" },
+    sourceAssignmentTitle: String,
+    sourceClassroomName: String,
+    sourceTerm: String,
+    matchedName: String
+};
+
+// How one page of a submission was read: from the document's text layer or by OCR
+const extractionPageSchema = new mongoose.Schema({
+    page: Number,
+    method: { type: String, enum: ["text", "ocr"] },
+    confidence: Number, // 0-1, OCR pages only
+    characters: Number
+}, { _id: false });
+
+// The file a student uploaded, kept by utils/fileStorage ("storage" names the backend)
+const storedFileSchema = new mongoose.Schema({
+    storage: { type: String, enum: ["gridfs", "local"] },
+    key: String,
+    contentType: String,
+    size: Number
+}, { _id: false });
+
+const extractionSchema = new mongoose.Schema({
+    extractor: String,
+    ocrProvider: String,
+    pages: { type: [extractionPageSchema], default: [] }
+}, { _id: false });
+
+// One upload by a student. Every attempt is kept; the submission's own file/text fields
+// mirror the attempt being assessed (the latest unless the teacher picked another).
+// Each attempt's text and signature are stored in the SubmissionAttempt collection.
+const attemptSchema = new mongoose.Schema({
+    attemptNumber: { type: Number, required: true },
+    submittedAt: Date,
+    late: { type: Boolean, default: false },
+    latePenalty: { type: Number, default: 0 }, // Percent deducted for lateness (utils/deadlines)
+    fileName: String,
+    fileSize: Number,
+    originalFile: { type: storedFileSchema, default: undefined },
+    extraction: { type: extractionSchema, default: undefined },
+    wordCount: Number
+});
+
+// Marks a teacher gave a submission, for the attempt that was assessed at the time.
+// The late penalty is applied when the grade is read (see utils/grading).
+const sectionMarkSchema = new mongoose.Schema({
+    section: String,
+    scored: Number
+}, { _id: false });
+
+// The rubric level a teacher picked for one criterion, with feedback for the student
+const criterionScoreSchema = new mongoose.Schema({
+    criterion: String,
+    level: String,
+    points: Number,
+    feedback: { type: String, default: "" }
+}, { _id: false });
+
+const gradeSchema = new mongoose.Schema({
+    attemptNumber: Number,
+    score: Number, // Raw marks before the late penalty
+    sectionMarks: { type: [sectionMarkSchema], default: [] },
+    criterionScores: { type: [criterionScoreSchema], default: [] }, // When graded with a rubric
+    gradedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    graderName: String,
+    gradedAt: Date
+}, { _id: false });
+
+// A teacher's comment on a range of a submission's extracted text. Offsets index the text
+// of the attempt named by attemptNumber (see utils/annotations).
+const annotationSchema = new mongoose.Schema({
+    attemptNumber: { type: Number, required: true },
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+    quote: String, // The annotated text, so it can be shown without the attempt's text
+    category: { type: String, enum: ["citation-needed", "suspicious", "good-point", "comment"], default: "comment" },
+    comment: { type: String, default: "" },
+    authorId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    authorName: String,
+    createdAt: { type: Date, default: Date.now }
+});
+
 const submissionSchema = new mongoose.Schema({
     studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     name: String,
@@ -8,25 +108,85 @@ const submissionSchema = new mongoose.Schema({
     submittedAt: { type: Date },
     fileName: String,
     fileSize: { type: Number },
+    originalFile: { type: storedFileSchema, default: undefined },
     extractedText: String,
+    extraction: { type: extractionSchema, default: undefined },
+    attempts: { type: [attemptSchema], default: [] },
+    checkedAttempt: { type: Number, default: null }, // Attempt pinned for checking; null = latest
     plagiarismPercent: { type: Number }, 
     wordCount: Number,
     teacherRemark: { type: String, default: "No remarks" }, 
     minHashSignature: { type: [Number], default: [] },
     late: { type: Boolean, default: false }, 
+    latePenalty: { type: Number, default: 0 },
+    grade: { type: gradeSchema, default: undefined },
+    annotations: { type: [annotationSchema], default: [] },
 
     topMatches: [{
         matchedStudentId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
-        matchedText: String,
-        plagiarismPercent: Number
+        matchedText: String, // Excerpt of the matched passages, not the whole submission
+        plagiarismPercent: Number,
+        passages: { type: [matchedPassageSchema], default: [] },
+        ...matchSourceFields
     }],
 
     allMatches: [{
         matchedStudentId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
-        plagiarismPercent: Number
+        plagiarismPercent: Number,
+        ...matchSourceFields
     }],
 });
 
+// One edit of an assignment's details. Values are stored as display strings
+// (dates in ISO format, question files by name) so the audit reads the same later.
+const editChangeSchema = new mongoose.Schema({
+    field: String,
+    from: String,
+    to: String
+}, { _id: false });
+
+const editSchema = new mongoose.Schema({
+    editedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    editorName: String,
+    editedAt: { type: Date, default: Date.now },
+    changes: { type: [editChangeSchema], default: [] }
+});
+
+// One part of an assignment's marks, e.g. "Question 1" or "Presentation"
+const gradingSectionSchema = new mongoose.Schema({
+    name: { type: String, required: true },
+    maxMarks: { type: Number, required: true, min: 0 },
+    criteria: { type: String, default: "" }
+}, { _id: false });
+
+// Copy of a rubric from the teacher's library (see models/Rubric), attached to an assignment
+const rubricLevelSchema = new mongoose.Schema({
+    label: String,
+    points: Number,
+    descriptor: String
+}, { _id: false });
+
+const rubricCriterionSchema = new mongoose.Schema({
+    name: String,
+    description: String,
+    levels: { type: [rubricLevelSchema], default: [] }
+}, { _id: false });
+
+const assignmentRubricSchema = new mongoose.Schema({
+    rubricId: { type: mongoose.Schema.Types.ObjectId, ref: "Rubric" },
+    name: String,
+    criteria: { type: [rubricCriterionSchema], default: [] }
+}, { _id: false });
+
+// A different deadline for one student (accommodations, medical leave)
+const extensionSchema = new mongoose.Schema({
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    deadline: { type: Date, required: true },
+    reason: { type: String, default: "" },
+    grantedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    grantedAt: { type: Date, default: Date.now }
+});
+
 const assignmentSchema = new mongoose.Schema({
     classroomId: { type: mongoose.Schema.Types.ObjectId, ref: "Classroom", required: true },
     type: { type: String, enum: ["Assignment", "Exam"], required: true },
@@ -39,9 +199,60 @@ const assignmentSchema = new mongoose.Schema({
         originalName: String
     },
     canSubmitLate: { type: Boolean, default: true }, 
-    submissionGuidelines: { type: [String], default: [] }, 
+
+    // When late work is allowed: the cutoff after which submissions close (null = never)
+    // and the penalty taken off the mark. See utils/deadlines.
+    latePolicy: {
+        cutoff: { type: Date, default: null },
+        penaltyType: { type: String, enum: ["none", "percent-per-day", "flat"], default: "none" },
+        penaltyValue: { type: Number, min: 0, max: 100, default: 0 },
+        maxPenalty: { type: Number, min: 0, max: 100, default: 100 }
+    },
+    extensions: { type: [extensionSchema], default: [] },
+    maxAttempts: { type: Number, min: 1, default: null }, // null = unlimited resubmissions
+    submissionGuidelines: { type: [String], default: [] }, // Ordered; inline markdown (**bold**, *italic*, `code`, [links](url))
+
+    // Checked when a student submits (see utils/submissionRules); null / empty = not enforced
+    submissionRules: {
+        minWords: { type: Number, min: 1, default: null },
+        maxWords: { type: Number, min: 1, default: null },
+        allowedFileTypes: { type: [String], default: [] },
+        maxPages: { type: Number, min: 1, default: null }
+    },
+
+    // Labels used when this assignment's submissions are compared from other assignments
+    term: { type: String, default: "" },
+    tags: { type: [String], default: [] },
+
+    // Which prior corpora to compare against. Empty filter arrays mean "any".
+    corpusSettings: {
+        enabled: { type: Boolean, default: false },
+        classroomIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "Classroom" }],
+        tags: { type: [String], default: [] },
+        years: { type: [Number], default: [] }
+    },
+
+    // LSH candidate selection for plagiarism checks. Explicit bands/rows take precedence
+    // over threshold; when both are unset the global default threshold is used.
+    lshSettings: {
+        threshold: { type: Number, min: 0, max: 1 },
+        bands: Number,
+        rows: Number
+    },
+
+    // Maximum marks, optionally split into sections (mark distribution) with criteria
+    // describing what earns the marks, or set by an attached rubric. Grades are shown to
+    // students once released.
+    grading: {
+        maxMarks: { type: Number, min: 0, default: 100 },
+        sections: { type: [gradingSectionSchema], default: [] },
+        rubric: { type: assignmentRubricSchema, default: null }, // When set, its total is maxMarks
+        released: { type: Boolean, default: false },
+        releasedAt: { type: Date, default: null }
+    },
 
     submissions: [submissionSchema],
+    editHistory: { type: [editSchema], default: [] },
     createdAt: { type: Date, default: Date.now }
 });
 
@@ -0,0 +1,15 @@
+const mongoose = require("mongoose");
+
+// Plagiarism checks a teacher started in a calendar month, per check type. Job documents
+// expire after a week, so monthly totals are counted here (see utils/jobQueue).
+const CheckUsageSchema = new mongoose.Schema({
+  teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  type: { type: String, enum: ["classroom-check", "upload-check", "online-check"], required: true },
+  month: { type: Number, required: true },
+  year: { type: Number, required: true },
+  count: { type: Number, default: 0 }
+});
+
+CheckUsageSchema.index({ teacherId: 1, year: 1, month: 1, type: 1 }, { unique: true });
+
+module.exports = mongoose.model("CheckUsage", CheckUsageSchema);
@@ -4,11 +4,20 @@ const classroomSchema = new mongoose.Schema({
   name: { type: String, required: true },
   description: String,
   teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  // Co-teachers and teaching assistants (the owner is teacherId); see utils/classroomStaff
+  staff: [{
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    role: { type: String, enum: ["co-teacher", "ta"], required: true },
+    name: String,
+    email: String,
+    addedAt: { type: Date, default: Date.now }
+  }],
 
   students: [{
     studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     name: String,
-    email: String
+    email: String,
+    studentNumber: String // Institution's ID for the student, from roster imports
   }],
 
   assignments: [{ type: mongoose.Schema.Types.ObjectId, ref: "Assignment" }],
@@ -19,6 +28,21 @@ const classroomSchema = new mongoose.Schema({
   numExams: { type: Number, default: 0 },
 
   classCode: { type: String, unique: true }, 
+  // How students may join with the class code (or the join link built from it)
+  joinSettings: {
+    enabled: { type: Boolean, default: true },
+    expiresAt: { type: Date, default: null }, // null = never
+    maxUses: { type: Number, min: 1, default: null }, // null = unlimited
+    uses: { type: Number, default: 0 }, // Joins and join requests since the code was generated
+    requireApproval: { type: Boolean, default: false }
+  },
+  // Students who used the code while approval is required, waiting for a teacher
+  pendingJoins: [{
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    name: String,
+    email: String,
+    requestedAt: { type: Date, default: Date.now }
+  }],
 
   blockedUsers: [{
     userId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
@@ -0,0 +1,22 @@
+const mongoose = require("mongoose");
+
+/**
+ * ClassroomInvite Schema
+ * An emailed invitation to join a classroom, either on its staff (co-teacher/ta) or as a
+ * student from a roster import. The invitee accepts it through the link in the email
+ * while signed in with the invited address. Only the SHA-256 hash of the invitation
+ * token is stored.
+ */
+const ClassroomInviteSchema = new mongoose.Schema({
+    classroomId: { type: mongoose.Schema.Types.ObjectId, ref: "Classroom", required: true, index: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, enum: ["co-teacher", "ta", "student"], required: true },
+    // Roster details for student invitations, copied onto the enrollment
+    name: String,
+    studentNumber: String,
+    tokenHash: { type: String, required: true, unique: true },
+    invitedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    expiresAt: { type: Date, required: true, expires: 0 },
+}, { timestamps: true });
+
+module.exports = mongoose.model("ClassroomInvite", ClassroomInviteSchema);
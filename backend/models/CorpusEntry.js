@@ -0,0 +1,32 @@
+const mongoose = require("mongoose");
+
+/**
+ * CorpusEntry Schema
+ * One submitted document kept in a teacher's cross-assignment corpus, so later
+ * plagiarism checks can compare against prior assignments, sections and terms.
+ */
+const CorpusEntrySchema = new mongoose.Schema({
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment", required: true },
+    classroomId: { type: mongoose.Schema.Types.ObjectId, ref: "Classroom", required: true },
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+
+    // Denormalized labels so reports still name the source after renames or deletion
+    studentName: String,
+    assignmentTitle: String,
+    classroomName: String,
+    term: String,
+    year: Number,
+    tags: { type: [String], default: [] },
+
+    fileName: String,
+    extractedText: String,
+    minHashSignature: { type: [Number], default: [] },
+    submittedAt: Date,
+}, { timestamps: true });
+
+CorpusEntrySchema.index({ assignmentId: 1, studentId: 1 }, { unique: true });
+CorpusEntrySchema.index({ teacherId: 1, classroomId: 1, year: 1 });
+CorpusEntrySchema.index({ teacherId: 1, tags: 1 });
+
+module.exports = mongoose.model("CorpusEntry", CorpusEntrySchema);
@@ -0,0 +1,22 @@
+const mongoose = require("mongoose");
+
+/**
+ * GuidelineTemplate Schema
+ * A teacher's reusable set of submission guidelines and the submission rules that go
+ * with them (word counts, file types, page limit), applied when authoring an assignment.
+ */
+const GuidelineTemplateSchema = new mongoose.Schema({
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    guidelines: { type: [String], default: [] },
+    submissionRules: {
+        minWords: { type: Number, min: 1, default: null },
+        maxWords: { type: Number, min: 1, default: null },
+        allowedFileTypes: { type: [String], default: [] },
+        maxPages: { type: Number, min: 1, default: null },
+    },
+}, { timestamps: true });
+
+GuidelineTemplateSchema.index({ teacherId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model("GuidelineTemplate", GuidelineTemplateSchema);
@@ -0,0 +1,28 @@
+const mongoose = require("mongoose");
+
+/**
+ * OidcLogin Schema
+ * One single sign-on attempt. It holds the PKCE verifier, state and nonce while the user
+ * is at the identity provider, then a hashed one-time ticket the frontend exchanges for
+ * a session (or, for a new account, for a session once a role has been chosen).
+ */
+const OidcLoginSchema = new mongoose.Schema({
+    state: { type: String, required: true, unique: true },
+    nonce: { type: String, required: true },
+    codeVerifier: { type: String, required: true },
+    bindingHash: { type: String, required: true }, // Hash of the cookie set on the browser that started the sign-in
+
+    // Set once the provider has redirected back
+    ticketHash: { type: String, index: true, sparse: true },
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User" }, // Existing (possibly just linked) account
+    profile: {                                                       // Identity for an account still to be created
+        issuer: String,
+        subject: String,
+        email: String,
+        name: String,
+    },
+
+    expiresAt: { type: Date, required: true, expires: 0 },
+}, { timestamps: true });
+
+module.exports = mongoose.model("OidcLogin", OidcLoginSchema);
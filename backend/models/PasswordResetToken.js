@@ -0,0 +1,15 @@
+const mongoose = require("mongoose");
+
+/**
+ * PasswordResetToken Schema
+ * A single-use password reset link sent by email. Only the SHA-256 hash of the token
+ * is stored, so a leaked database cannot be used to reset passwords.
+ */
+const PasswordResetTokenSchema = new mongoose.Schema({
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true, expires: 0 }, // MongoDB removes the token once it expires
+    usedAt: { type: Date, default: null },
+}, { timestamps: true });
+
+module.exports = mongoose.model("PasswordResetToken", PasswordResetTokenSchema);
@@ -0,0 +1,36 @@
+const mongoose = require("mongoose");
+
+// One step of a job's pipeline (e.g. "extract", "compare"), with item-level progress
+const jobStageSchema = new mongoose.Schema({
+    name: { type: String, required: true },
+    label: String,
+    status: { type: String, enum: ["pending", "running", "done", "skipped", "failed"], default: "pending" },
+    completed: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+}, { _id: false });
+
+/**
+ * PlagiarismJob Schema
+ * A classroom check, upload check or online check run in the background.
+ * Clients poll the job for progress instead of waiting on the original request.
+ */
+const PlagiarismJobSchema = new mongoose.Schema({
+    type: { type: String, enum: ["classroom-check", "upload-check", "online-check"], required: true },
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment" },
+
+    status: { type: String, enum: ["queued", "running", "succeeded", "failed"], default: "queued" },
+    stages: { type: [jobStageSchema], default: [] },
+    progress: { type: Number, default: 0 }, // Overall 0-100
+    result: mongoose.Schema.Types.Mixed,    // Response payload once succeeded
+    error: String,
+
+    startedAt: Date,
+    finishedAt: Date,
+    createdAt: { type: Date, default: Date.now, expires: 60 * 60 * 24 * 7 }, // Keep job history for a week
+});
+
+PlagiarismJobSchema.index({ teacherId: 1, type: 1, createdAt: -1 });
+PlagiarismJobSchema.index({ assignmentId: 1, status: 1 });
+
+module.exports = mongoose.model("PlagiarismJob", PlagiarismJobSchema);
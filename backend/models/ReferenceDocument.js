@@ -0,0 +1,25 @@
+const mongoose = require("mongoose");
+
+/**
+ * ReferenceDocument Schema
+ * A document in a teacher's reference library (textbook chapters, model answers,
+ * past papers, known essay-mill samples). Every upload check and classroom
+ * plagiarism run of the teacher is compared against it.
+ */
+const ReferenceDocumentSchema = new mongoose.Schema({
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    title: { type: String, required: true },
+    category: {
+        type: String,
+        enum: ["textbook", "model-answer", "past-paper", "essay-mill", "other"],
+        default: "other",
+    },
+    fileName: String,
+    fileSize: Number,
+    extractedText: { type: String, required: true },
+    wordCount: Number,
+}, { timestamps: true });
+
+ReferenceDocumentSchema.index({ teacherId: 1, createdAt: -1 });
+
+module.exports = mongoose.model("ReferenceDocument", ReferenceDocumentSchema);
@@ -0,0 +1,20 @@
+const mongoose = require("mongoose");
+
+/**
+ * RefreshToken Schema
+ * One refresh token of a signed-in session. Tokens rotate on every refresh; all tokens of
+ * one sign-in share a `family`, so a session can be revoked as a whole. Only the SHA-256
+ * hash of the token is stored.
+ */
+const RefreshTokenSchema = new mongoose.Schema({
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    family: { type: String, required: true, index: true },
+    userAgent: String,
+
+    rotatedAt: { type: Date, default: null }, // Exchanged for a newer token of the same family
+    revokedAt: { type: Date, default: null }, // Session ended (logout, password change, reuse detected)
+    expiresAt: { type: Date, required: true, expires: 0 },
+}, { timestamps: true });
+
+module.exports = mongoose.model("RefreshToken", RefreshTokenSchema);
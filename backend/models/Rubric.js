@@ -0,0 +1,30 @@
+const mongoose = require("mongoose");
+
+// One performance level of a criterion, e.g. "Excellent" worth 4 points
+const levelSchema = new mongoose.Schema({
+    label: { type: String, required: true },
+    points: { type: Number, required: true, min: 0 },
+    descriptor: { type: String, default: "" }
+}, { _id: false });
+
+const criterionSchema = new mongoose.Schema({
+    name: { type: String, required: true },
+    description: { type: String, default: "" },
+    levels: { type: [levelSchema], default: [] }
+}, { _id: false });
+
+/**
+ * Rubric Schema
+ * A teacher's reusable marking rubric. Attaching it to an assignment copies the criteria
+ * onto the assignment, so later edits here do not change how existing work was graded.
+ */
+const RubricSchema = new mongoose.Schema({
+    teacherId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, default: "" },
+    criteria: { type: [criterionSchema], default: [] },
+}, { timestamps: true });
+
+RubricSchema.index({ teacherId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model("Rubric", RubricSchema);
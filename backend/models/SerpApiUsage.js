@@ -6,4 +6,9 @@ const SerpApiUsageSchema = new mongoose.Schema({
   count: { type: Number, default: 0 }
 });
 
-module.exports = mongoose.model("SerpApiUsage", SerpApiUsageSchema);
+const SerpApiUsage = mongoose.model("SerpApiUsage", SerpApiUsageSchema);
+
+// Searches allowed per calendar month on the SerpAPI plan
+SerpApiUsage.MONTHLY_LIMIT = 90;
+
+module.exports = SerpApiUsage;
@@ -0,0 +1,19 @@
+const mongoose = require("mongoose");
+
+/**
+ * SubmissionAttempt Schema
+ * Text and MinHash signature of one attempt by a student. They are kept outside the
+ * Assignment document, which only holds each attempt's file details, so a class with
+ * many resubmissions cannot grow an assignment past MongoDB's document size limit.
+ */
+const SubmissionAttemptSchema = new mongoose.Schema({
+    assignmentId: { type: mongoose.Schema.Types.ObjectId, ref: "Assignment", required: true },
+    studentId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    attemptNumber: { type: Number, required: true },
+    extractedText: String,
+    minHashSignature: { type: [Number], default: [] },
+}, { timestamps: true });
+
+SubmissionAttemptSchema.index({ assignmentId: 1, studentId: 1, attemptNumber: 1 }, { unique: true });
+
+module.exports = mongoose.model("SubmissionAttempt", SubmissionAttemptSchema);
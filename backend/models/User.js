@@ -2,13 +2,25 @@ const mongoose = require("mongoose");
 
 /**
  * User Schema
- * Stores user info for authentication and role-based access (teacher/student)
+ * Stores user info for authentication and role-based access (teacher/student/admin)
  */
 const UserSchema = new mongoose.Schema({
     name: { type: String, required: true }, 
     email: { type: String, required: true, unique: true, lowercase: true }, 
     password: { type: String, required: true }, 
-    role: { type: String, enum: ["teacher", "student"], required: true } 
+    role: { type: String, enum: ["teacher", "student", "admin"], required: true },
+    // Set by an admin; suspended users cannot sign in or refresh their session
+    suspendedAt: { type: Date, default: null },
+    suspensionReason: String,
+    // Single sign-on identities linked to this account (OpenID Connect issuer + subject)
+    oidcAccounts: [{
+        issuer: { type: String, required: true },
+        subject: { type: String, required: true },
+        linkedAt: { type: Date, default: Date.now },
+        _id: false
+    }]
 }, { timestamps: true });
 
+UserSchema.index({ "oidcAccounts.issuer": 1, "oidcAccounts.subject": 1 }, { sparse: true });
+
 module.exports = mongoose.model("User", UserSchema);
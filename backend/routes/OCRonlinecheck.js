@@ -1,13 +1,11 @@
 // Import necessary modules and libraries
 const express = require("express");
 const multer = require("multer");
-const path = require("path");
 const fs = require("fs/promises");
-const pdfParse = require("pdf-parse");
-const mammoth = require("mammoth");
-const { extractTextFromImage } = require("../utils/ocr");
+const { extractText, isSupportedFile, supportedExtensions } = require("../utils/extractors");
 const OCRonlinecheck = require("../models/OCRonlinecheck");
 const OCresult = require("../models/OCresult");
+const PlagiarismJob = require("../models/PlagiarismJob");
 const SerpApiUsage = require("../models/SerpApiUsage");
 const fetch = require("node-fetch");
 const PDFDocument = require("pdfkit");
@@ -16,6 +14,7 @@ require("dotenv").config();
 
 // Middleware for authentication and role check
 const { authenticate, requireTeacher } = require("../middleware/auth");
+const { enqueueJob } = require("../utils/jobQueue");
 
 const router = express.Router();
 
@@ -36,8 +35,8 @@ const checkApiLimit = async (req, res, next) => {
         await usage.save();
     }
 
-    if (usage.count >= 90) {
-        return res.status(429).json({ error: "Monthly search limit (90) reached. Try again next month." });
+    if (usage.count >= SerpApiUsage.MONTHLY_LIMIT) {
+        return res.status(429).json({ error: `Monthly search limit (${SerpApiUsage.MONTHLY_LIMIT}) reached. Try again next month.` });
     }
 
     req.apiUsage = usage;
@@ -91,110 +90,80 @@ const calculateSimilarity = (text1, text2) => {
 };
 
 /**
- * POST /online-check
- * Uploads a file, extracts text (via OCR or parsing), performs online search for plagiarism,
- * calculates similarity, generates and stores a detailed PDF report
+ * Maps a similarity percentage to a Low/Moderate/High level
  */
-router.post("/online-check", authenticate, requireTeacher, checkApiLimit, upload.single("file"), async (req, res) => {
-    try {
-        if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+const getSimilarityLevel = (similarity) => {
+    if (similarity < 50) return "Low";
+    if (similarity < 75) return "Moderate";
+    return "High";
+};
 
-        const teacherId = req.userId;
+/**
+ * Runs an online check inside a background job
+ * Extracts text (via OCR or parsing), performs online search for plagiarism,
+ * calculates similarity, generates and stores a detailed PDF report
+ * @param {string} teacherId - Teacher running the check
+ * @param {Object} file - Multer file, deleted once processed
+ * @param {Object} apiUsage - This month's SerpApiUsage document
+ * @param {Object} progress - Job progress reporter
+ * @returns {Promise<Object>} Overall score and top matches
+ */
+const runOnlineCheck = async (teacherId, file, apiUsage, progress) => {
+    const filePath = file.path;
 
+    try {
         // Clean up previous records for this teacher
         await OCRonlinecheck.deleteMany({ teacherId });
         await OCresult.deleteMany({ teacherId });
 
-        const file = req.file;
-        const filePath = file.path;
-        const fileExt = path.extname(file.originalname).toLowerCase();
-        let extractedText = "";
-
-        try {
-            // Extract text based on file type
-            if (fileExt === ".pdf") {
-                const pdfData = await pdfParse(await fs.readFile(filePath));
-                extractedText = pdfData.text;
-            } else if (fileExt === ".docx") {
-                const docData = await mammoth.extractRawText({ path: filePath });
-                extractedText = docData.value;
-            } else if ([".png", ".jpg", ".jpeg"].includes(fileExt)) {
-                extractedText = await extractTextFromImage(filePath);
-            } else {
-                await fs.unlink(filePath); // Delete unsupported file
-                return res.status(400).json({ error: `Unsupported file format: ${file.originalname}` });
-            }
-
-            if (!extractedText.trim()) throw new Error(`No text extracted from ${file.originalname}.`);
-
-            // Chunk text and search each chunk online
-            const textChunks = chunkText(extractedText);
-            let matchesWithSimilarity = [];
-
-            for (const chunk of textChunks) {
-                const searchResults = await searchOnlineForPlagiarism(chunk);
-                searchResults.forEach((match) => {
-                    const similarity = calculateSimilarity(chunk, match.snippet);
-                    matchesWithSimilarity.push({ ...match, similarity });
-                });
-            }
-
-            // Sort matches by descending similarity
-            matchesWithSimilarity.sort((a, b) => b.similarity - a.similarity);
-
-            // Increment API usage counter
-            req.apiUsage.count += 1;
-            await req.apiUsage.save();
-
-            // Save extracted data and matches in MongoDB
-            const newCheck = new OCRonlinecheck({
-                teacherId,
-                fileName: file.originalname,
-                extractedText,
-                matches: matchesWithSimilarity,
-                checkedAt: new Date(),
-            });
-            await newCheck.save();
+        // Extract text based on file type
+        await progress.start("extract", 1);
+        const extraction = await extractText(file);
+        const extractedText = extraction.text;
+
+        if (!extractedText.trim()) throw new Error(`No text extracted from ${file.originalname}.`);
+        await progress.finish("extract");
 
-            // Generate PDF report
+        // Chunk text and search each chunk online
+        const textChunks = chunkText(extractedText);
+        let matchesWithSimilarity = [];
+
+        await progress.start("search", textChunks.length);
+        for (const chunk of textChunks) {
+            const searchResults = await searchOnlineForPlagiarism(chunk);
+            searchResults.forEach((match) => {
+                const similarity = calculateSimilarity(chunk, match.snippet);
+                matchesWithSimilarity.push({ ...match, similarity });
+            });
+            await progress.advance("search");
+        }
+        await progress.finish("search");
+
+        // Sort matches by descending similarity
+        matchesWithSimilarity.sort((a, b) => b.similarity - a.similarity);
+
+        // Increment API usage counter
+        apiUsage.count += 1;
+        await apiUsage.save();
+
+        // Save extracted data and matches in MongoDB
+        const newCheck = new OCRonlinecheck({
+            teacherId,
+            fileName: file.originalname,
+            extractedText,
+            matches: matchesWithSimilarity,
+            checkedAt: new Date(),
+        });
+        await newCheck.save();
+
+        // Generate PDF report
+        await progress.start("report", 1);
+        const pdfBuffer = await new Promise((resolve, reject) => {
             const doc = new PDFDocument({ margin: 50 });
             let pdfBuffers = [];
             doc.on("data", pdfBuffers.push.bind(pdfBuffers));
-            doc.on("end", async () => {
-                const pdfBuffer = Buffer.concat(pdfBuffers);
-
-                // Save PDF report
-                const newReport = new OCresult({
-                    teacherId,
-                    results: matchesWithSimilarity,
-                    reportFile: pdfBuffer,
-                    createdAt: new Date(),
-                });
-                await newReport.save();
-
-                // Determine overall plagiarism score
-                const overallScore = matchesWithSimilarity.length > 0
-                    ? matchesWithSimilarity.reduce((max, match) => Math.max(max, match.similarity), 0)
-                    : 0;
-
-                const getSimilarityLevel = (similarity) => {
-                    if (similarity < 50) return "Low";
-                    if (similarity < 75) return "Moderate";
-                    return "High";
-                };
-
-                // Respond with summary
-                res.json({
-                    message: "Online plagiarism check completed. Report saved.",
-                    score: overallScore,
-                    matches: matchesWithSimilarity.slice(0, 3).map(match => ({
-                        title: match.title,
-                        link: match.link,
-                        similarity: match.similarity,
-                        level: getSimilarityLevel(match.similarity),
-                    })),
-                });
-            });
+            doc.on("end", () => resolve(Buffer.concat(pdfBuffers)));
+            doc.on("error", reject);
 
             // Start writing to the PDF document
             doc.fontSize(18).text("Online Plagiarism Report", { align: "center", underline: true }).moveDown();
@@ -218,9 +187,75 @@ router.post("/online-check", authenticate, requireTeacher, checkApiLimit, upload
             });
 
             doc.end();
-        } finally {
-            await fs.unlink(filePath); // Clean up temp file
+        });
+
+        // Save PDF report
+        const newReport = new OCresult({
+            teacherId,
+            results: matchesWithSimilarity,
+            reportFile: pdfBuffer,
+            createdAt: new Date(),
+        });
+        await newReport.save();
+
+        // Determine overall plagiarism score
+        const overallScore = matchesWithSimilarity.length > 0
+            ? matchesWithSimilarity.reduce((max, match) => Math.max(max, match.similarity), 0)
+            : 0;
+
+        return {
+            message: "Online plagiarism check completed. Report saved.",
+            score: overallScore,
+            extraction: { ocrProvider: extraction.ocrProvider, pages: extraction.pages },
+            matches: matchesWithSimilarity.slice(0, 3).map(match => ({
+                title: match.title,
+                link: match.link,
+                similarity: match.similarity,
+                level: getSimilarityLevel(match.similarity),
+            })),
+        };
+    } finally {
+        await fs.unlink(filePath).catch(() => {}); // Clean up temp file
+    }
+};
+
+/**
+ * POST /online-check
+ * Uploads a file and queues the online check as a background job;
+ * progress and results are read from /api/jobs/:jobId
+ */
+router.post("/online-check", authenticate, requireTeacher, checkApiLimit, upload.single("file"), async (req, res) => {
+    try {
+        if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+
+        const teacherId = req.userId;
+        const file = req.file;
+
+        if (!isSupportedFile(file)) {
+            await fs.unlink(file.path); // Delete unsupported file
+            return res.status(400).json({
+                error: `Unsupported file format: ${file.originalname}. Supported formats: ${supportedExtensions().join(", ")}`
+            });
+        }
+
+        // A run replaces the teacher's previous results, so two at once would overwrite each other
+        const activeJob = await PlagiarismJob.findOne({ teacherId, type: "online-check", status: { $in: ["queued", "running"] } });
+        if (activeJob) {
+            await fs.unlink(file.path);
+            return res.status(409).json({ error: "An online check is already running.", jobId: activeJob._id });
         }
+
+        const job = await enqueueJob({
+            type: "online-check",
+            teacherId,
+            stages: [
+                ["extract", "Extracting text"],
+                ["search", "Searching the web"],
+                ["report", "Generating report"],
+            ],
+        }, (progress) => runOnlineCheck(teacherId, file, req.apiUsage, progress));
+
+        res.status(202).json({ message: "Online plagiarism check queued.", jobId: job._id, status: job.status });
     } catch (error) {
         console.error("Error in online-check:", error);
         res.status(500).json({ error: "Internal Server Error" });
@@ -1,14 +1,15 @@
 // Import required modules
 const express = require("express");
 const multer = require("multer");
-const path = require("path");
 const fs = require("fs/promises");
-const pdfParse = require("pdf-parse");
-const mammoth = require("mammoth");
-const { extractTextFromImage } = require("../utils/ocr");
+const { extractText, isSupportedFile, supportedExtensions } = require("../utils/extractors");
+const { findReferenceMatches } = require("../utils/referenceLibrary");
+const { excerptPassages } = require("../utils/alignment");
 const UCresult = require("../models/UCresult");
+const PlagiarismJob = require("../models/PlagiarismJob");
 const OCRuploadcheck = require("../models/OCRuploadcheck");
 const PDFDocument = require("pdfkit");
+const { enqueueJob } = require("../utils/jobQueue");
 const { authenticate, requireTeacher } = require("../middleware/auth");
 
 const router = express.Router();
@@ -43,19 +44,18 @@ const highlightMatches = (text, reference) => {
 };
 
 /**
- * POST /upload-and-check
- * - Accepts multiple files (PDF, DOCX, images)
+ * Runs an upload check inside a background job
  * - Extracts text using OCR or parsers
  * - Compares text pairwise to detect similarity
+ * - Compares each file against the teacher's reference library
  * - Generates and stores a PDF plagiarism report
+ * @param {string} teacherId - Teacher running the check
+ * @param {Array} files - Multer files, deleted once processed
+ * @param {Object} progress - Job progress reporter
+ * @returns {Promise<Object>} Comparison results
  */
-router.post("/upload-and-check", authenticate, requireTeacher, upload.array("files", 10), async (req, res) => {
+const runUploadCheck = async (teacherId, files, progress) => {
     try {
-        if (!req.files || req.files.length === 0)
-            return res.status(400).json({ error: "No files uploaded" });
-
-        const teacherId = req.userId;
-
         // Clean up any previous data
         await OCRuploadcheck.deleteMany({ teacherId });
         await UCresult.deleteMany({ teacherId });
@@ -63,51 +63,39 @@ router.post("/upload-and-check", authenticate, requireTeacher, upload.array("fil
         let extractedTexts = [];
 
         // Extract text from all uploaded files
-        for (const file of req.files) {
-            const filePath = file.path;
-            const fileExt = path.extname(file.originalname).toLowerCase();
-            let extractedText = "";
+        await progress.start("extract", files.length);
+        const extractions = [];
+        for (const file of files) {
+            let storedText;
 
             try {
-                if (fileExt === ".pdf") {
-                    const pdfData = await pdfParse(await fs.readFile(filePath));
-                    extractedText = pdfData.text;
-                } else if (fileExt === ".docx") {
-                    const docData = await mammoth.extractRawText({ path: filePath });
-                    extractedText = docData.value;
-                } else if ([".png", ".jpg", ".jpeg"].includes(fileExt)) {
-                    extractedText = await extractTextFromImage(filePath);
-                } else {
-                    throw new Error(`Unsupported file format: ${file.originalname}`);
-                }
+                const extraction = await extractText(file);
+                const extractedText = extraction.text;
+                extractions.push({ fileName: file.originalname, ocrProvider: extraction.ocrProvider, pages: extraction.pages });
 
                 if (!extractedText.trim())
                     throw new Error(`No text extracted from ${file.originalname}`);
 
                 // Save to DB for further comparison
-                const storedText = await OCRuploadcheck.create({
+                storedText = await OCRuploadcheck.create({
                     teacherId,
                     fileName: file.originalname,
                     extractedText: extractedText.trim().toLowerCase(),
                 });
-
-                extractedTexts.push(storedText);
             } catch (error) {
                 console.error(`Error processing ${file.originalname}:`, error);
-                return res.status(500).json({ error: `Error processing ${file.originalname}` });
-            } finally {
-                // Delete temp file after processing
-                try {
-                    await fs.unlink(filePath);
-                } catch (err) {
-                    console.error(`Failed to delete temp file: ${filePath}`, err);
-                }
+                throw new Error(`Error processing ${file.originalname}`);
             }
+
+            extractedTexts.push(storedText);
+            await progress.advance("extract");
         }
+        await progress.finish("extract");
 
         let results = [];
 
         // Compare all pairs of uploaded documents for similarity
+        await progress.start("compare", (extractedTexts.length * (extractedTexts.length - 1)) / 2);
         for (let i = 0; i < extractedTexts.length; i++) {
             for (let j = i + 1; j < extractedTexts.length; j++) {
                 const text1 = extractedTexts[i].extractedText;
@@ -125,51 +113,138 @@ router.post("/upload-and-check", authenticate, requireTeacher, upload.array("fil
                     text1: highlightedText1,
                     text2: highlightedText2
                 });
+                await progress.advance("compare");
             }
         }
+        await progress.finish("compare");
+
+        // Compare each uploaded document against the teacher's reference library
+        await progress.start("references", extractedTexts.length);
+        const referenceMatches = await findReferenceMatches(
+            teacherId,
+            extractedTexts.map((stored, index) => ({ id: index, text: stored.extractedText }))
+        );
+
+        for (const { id, reference, similarity, passages } of referenceMatches) {
+            const { fileName, extractedText: text1 } = extractedTexts[id];
+            const excerpt = excerptPassages(reference.extractedText, passages);
+            const percent = similarity * 100;
+
+            results.push({
+                file1: fileName,
+                file2: reference.title,
+                source: "reference",
+                referenceId: reference._id,
+                referenceCategory: reference.category,
+                similarity: `${percent.toFixed(2)}%`,
+                level: percent >= 80 ? "High" : percent >= 50 ? "Medium" : "Low",
+                text1: highlightMatches(text1, excerpt),
+                text2: highlightMatches(excerpt, text1)
+            });
+        }
+        await progress.finish("references");
 
         // Generate a PDF report summarizing all comparisons
-        const doc = new PDFDocument({ margin: 50 });
-        let pdfBuffers = [];
-        doc.on("data", pdfBuffers.push.bind(pdfBuffers));
-        doc.on("end", async () => {
-            const pdfBuffer = Buffer.concat(pdfBuffers);
+        await progress.start("report", 1);
+        const pdfBuffer = await new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ margin: 50 });
+            let pdfBuffers = [];
+            doc.on("data", pdfBuffers.push.bind(pdfBuffers));
+            doc.on("end", () => resolve(Buffer.concat(pdfBuffers)));
+            doc.on("error", reject);
+
+            // PDF content setup
+            doc.fontSize(18).text("Plagiarism Report", { align: "center", underline: true }).moveDown();
+            doc.fontSize(14).text(`Generated on: ${new Date().toLocaleString()}`, { align: "left" }).moveDown();
 
-            // Save the report to DB
-            await UCresult.create({ teacherId, results, reportFile: pdfBuffer });
+            results.forEach((result, index) => {
+                doc.fillColor("black").fontSize(18).text(`Comparison ${index + 1}`, { bold: true }).moveDown();
+                doc.fillColor("blue").fontSize(12).text(`File 1: ${result.file1}`);
+                doc.text(result.source === "reference"
+                    ? `Reference: ${result.file2} (${result.referenceCategory})`
+                    : `File 2: ${result.file2}`);
+                doc.fillColor("black").text(`Similarity: ${result.similarity} (${result.level})`).moveDown();
+
+                doc.fillColor("red").fontSize(14).text("Matched Content:").moveDown();
+                doc.fillColor("black").font("Courier");
+
+                // Text from file 1 with highlights
+                doc.fillColor("blue").fontSize(14).text(`Matched Content from ${result.file1}:`).moveDown();
+                result.text1.forEach(word => {
+                    doc.fillColor(word.highlight ? "red" : "black").text(word.text, { continued: true });
+                });
+                doc.moveDown(2);
+
+                // Text from file 2 with highlights
+                doc.fillColor("blue").text(`Matched Content from ${result.file2}:`).moveDown();
+                result.text2.forEach(word => {
+                    doc.fillColor(word.highlight ? "red" : "black").text(word.text, { continued: true });
+                });
+                doc.moveDown(2);
+            });
 
-            res.json({ message: "Plagiarism check completed", results });
+            doc.end();
         });
 
-        // PDF content setup
-        doc.fontSize(18).text("Plagiarism Report", { align: "center", underline: true }).moveDown();
-        doc.fontSize(14).text(`Generated on: ${new Date().toLocaleString()}`, { align: "left" }).moveDown();
+        // Save the report to DB
+        await UCresult.create({ teacherId, results, reportFile: pdfBuffer });
+
+        return { message: "Plagiarism check completed", results, extractions };
+    } finally {
+        // Delete temp files once the job is done, whether it succeeded or not
+        for (const file of files) {
+            try {
+                await fs.unlink(file.path);
+            } catch (err) {
+                if (err.code !== "ENOENT") console.error(`Failed to delete temp file: ${file.path}`, err);
+            }
+        }
+    }
+};
 
-        results.forEach((result, index) => {
-            doc.fillColor("black").fontSize(18).text(`Comparison ${index + 1}`, { bold: true }).moveDown();
-            doc.fillColor("blue").fontSize(12).text(`File 1: ${result.file1}`);
-            doc.text(`File 2: ${result.file2}`);
-            doc.fillColor("black").text(`Similarity: ${result.similarity} (${result.level})`).moveDown();
+/**
+ * POST /upload-and-check
+ * - Accepts multiple files in any format with a registered extractor
+ *   (PDF, Word, OpenDocument, RTF, PowerPoint, text, Markdown, images)
+ * - Queues the check as a background job and responds with its id;
+ *   progress and results are read from /api/jobs/:jobId
+ */
+router.post("/upload-and-check", authenticate, requireTeacher, upload.array("files", 10), async (req, res) => {
+    try {
+        if (!req.files || req.files.length === 0)
+            return res.status(400).json({ error: "No files uploaded" });
 
-            doc.fillColor("red").fontSize(14).text("Matched Content:").moveDown();
-            doc.fillColor("black").font("Courier");
+        const teacherId = req.userId;
+        const files = req.files;
 
-            // Text from file 1 with highlights
-            doc.fillColor("blue").fontSize(14).text(`Matched Content from ${result.file1}:`).moveDown();
-            result.text1.forEach(word => {
-                doc.fillColor(word.highlight ? "red" : "black").text(word.text, { continued: true });
+        // Reject the whole batch up front rather than failing halfway through the job
+        const unsupported = files.filter(file => !isSupportedFile(file));
+        if (unsupported.length > 0) {
+            await Promise.all(files.map(file => fs.unlink(file.path).catch(() => {})));
+            return res.status(400).json({
+                error: `Unsupported file format: ${unsupported.map(file => file.originalname).join(", ")}. Supported formats: ${supportedExtensions().join(", ")}`
             });
-            doc.moveDown(2);
+        }
 
-            // Text from file 2 with highlights
-            doc.fillColor("blue").text(`Matched Content from ${result.file2}:`).moveDown();
-            result.text2.forEach(word => {
-                doc.fillColor(word.highlight ? "red" : "black").text(word.text, { continued: true });
-            });
-            doc.moveDown(2);
-        });
+        // A run replaces the teacher's previous results, so two at once would overwrite each other
+        const activeJob = await PlagiarismJob.findOne({ teacherId, type: "upload-check", status: { $in: ["queued", "running"] } });
+        if (activeJob) {
+            await Promise.all(files.map(file => fs.unlink(file.path).catch(() => {})));
+            return res.status(409).json({ error: "An upload check is already running.", jobId: activeJob._id });
+        }
+
+        const job = await enqueueJob({
+            type: "upload-check",
+            teacherId,
+            stages: [
+                ["extract", "Extracting text"],
+                ["compare", "Comparing documents"],
+                ["references", "Comparing reference library"],
+                ["report", "Generating report"],
+            ],
+        }, (progress) => runUploadCheck(teacherId, files, progress));
 
-        doc.end();
+        res.status(202).json({ message: "Plagiarism check queued", jobId: job._id, status: job.status });
     } catch (error) {
         console.error("Plagiarism Check Error:", error);
         res.status(500).json({ error: "Internal Server Error" });
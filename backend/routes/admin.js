@@ -0,0 +1,299 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const User = require("../models/User");
+const Classroom = require("../models/Classroom");
+const ClassroomInvite = require("../models/ClassroomInvite");
+const Assignment = require("../models/Assignment");
+const CorpusEntry = require("../models/CorpusEntry");
+const SerpApiUsage = require("../models/SerpApiUsage");
+const { authenticate, requireAdmin } = require("../middleware/auth");
+const { revokeAllSessions } = require("../utils/session");
+
+const router = express.Router();
+
+// Every admin route requires a signed-in admin
+router.use(authenticate, requireAdmin);
+
+const MAX_PAGE_SIZE = 100;
+const USER_ROLES = ["student", "teacher", "admin"];
+
+// Literal, case-insensitive match for user-entered search text
+const searchPattern = (text) => new RegExp(text.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+
+const pagination = (query) => {
+    const page = Math.max(parseInt(query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || 25, 1), MAX_PAGE_SIZE);
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+const formatUser = (user) => ({
+    id: user._id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    suspendedAt: user.suspendedAt || null,
+    suspensionReason: user.suspensionReason || null,
+    createdAt: user.createdAt,
+});
+
+/**
+ * @route   GET /overview
+ * @desc    Platform totals: users per role, suspended accounts, classrooms, assignments
+ *          and this month's SerpAPI searches
+ * @access  Private (Admin)
+ */
+router.get("/overview", async (req, res) => {
+    try {
+        const now = new Date();
+        const [roleCounts, suspended, classrooms, assignments, usage] = await Promise.all([
+            User.aggregate([{ $group: { _id: "$role", count: { $sum: 1 } } }]),
+            User.countDocuments({ suspendedAt: { $ne: null } }),
+            Classroom.countDocuments(),
+            Assignment.countDocuments(),
+            SerpApiUsage.findOne({ month: now.getMonth() + 1, year: now.getFullYear() }).lean(),
+        ]);
+
+        const users = { teacher: 0, student: 0, admin: 0 };
+        roleCounts.forEach(r => { users[r._id] = r.count; });
+
+        res.status(200).json({
+            users,
+            suspended,
+            classrooms,
+            assignments,
+            serpApi: { used: usage ? usage.count : 0, limit: SerpApiUsage.MONTHLY_LIMIT },
+        });
+    } catch (error) {
+        console.error("Admin Overview Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   GET /users
+ * @desc    List and search users. Optional filters: ?search= (name or email),
+ *          ?role=, ?status=active|suspended, ?page=, ?limit=
+ * @access  Private (Admin)
+ */
+router.get("/users", async (req, res) => {
+    try {
+        const { search, role, status } = req.query;
+        const { page, limit, skip } = pagination(req.query);
+
+        // Query values reach the filter as-is, so anything but a known role string is refused
+        if (role !== undefined && !USER_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(", ")}` });
+        }
+
+        const filter = {};
+        if (typeof search === "string" && search.trim()) {
+            const pattern = searchPattern(search);
+            filter.$or = [{ name: pattern }, { email: pattern }];
+        }
+        if (role) filter.role = role;
+        if (status === "suspended") filter.suspendedAt = { $ne: null };
+        if (status === "active") filter.suspendedAt = null;
+
+        const [users, total] = await Promise.all([
+            User.find(filter).select("name email role suspendedAt suspensionReason createdAt")
+                .sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+            User.countDocuments(filter),
+        ]);
+
+        res.status(200).json({ users: users.map(formatUser), total, page, pages: Math.ceil(total / limit) });
+    } catch (error) {
+        console.error("Admin List Users Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /users/:userId/suspend
+ * @desc    Suspend an account and sign it out everywhere. Access tokens already issued
+ *          stay valid until they expire (ACCESS_TOKEN_TTL).
+ * @access  Private (Admin)
+ */
+router.post("/users/:userId/suspend", async (req, res) => {
+    try {
+        const { userId } = req.params;
+        if (!mongoose.isValidObjectId(userId)) {
+            return res.status(404).json({ error: "User not found" });
+        }
+        if (userId === req.userId) {
+            return res.status(400).json({ error: "You cannot suspend your own account" });
+        }
+
+        const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+        const user = await User.findByIdAndUpdate(
+            userId,
+            { suspendedAt: new Date(), suspensionReason: reason || undefined },
+            { new: true }
+        );
+        if (!user) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        await revokeAllSessions(user._id);
+
+        res.status(200).json({ message: `${user.name} has been suspended`, user: formatUser(user) });
+    } catch (error) {
+        console.error("Admin Suspend User Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /users/:userId/reactivate
+ * @desc    Lift an account's suspension
+ * @access  Private (Admin)
+ */
+router.post("/users/:userId/reactivate", async (req, res) => {
+    try {
+        const { userId } = req.params;
+        const user = mongoose.isValidObjectId(userId)
+            ? await User.findByIdAndUpdate(userId, { suspendedAt: null, $unset: { suspensionReason: 1 } }, { new: true })
+            : null;
+        if (!user) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        res.status(200).json({ message: `${user.name} has been reactivated`, user: formatUser(user) });
+    } catch (error) {
+        console.error("Admin Reactivate User Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   GET /classrooms
+ * @desc    List and search classrooms with their owners. Optional filters: ?search= (name or
+ *          class code), ?orphaned=true (owner deleted or suspended), ?page=, ?limit=
+ * @access  Private (Admin)
+ */
+router.get("/classrooms", async (req, res) => {
+    try {
+        const { search, orphaned } = req.query;
+        const { page, limit, skip } = pagination(req.query);
+
+        const pipeline = [];
+        if (typeof search === "string" && search.trim()) {
+            const pattern = searchPattern(search);
+            pipeline.push({ $match: { $or: [{ name: pattern }, { classCode: pattern }] } });
+        }
+        pipeline.push(
+            { $lookup: { from: User.collection.name, localField: "teacherId", foreignField: "_id", as: "owner" } },
+            { $unwind: { path: "$owner", preserveNullAndEmptyArrays: true } }
+        );
+        if (orphaned === "true") {
+            pipeline.push({ $match: { $or: [{ owner: null }, { "owner.suspendedAt": { $ne: null } }] } });
+        }
+        pipeline.push(
+            { $sort: { createdAt: -1 } },
+            { $facet: { items: [{ $skip: skip }, { $limit: limit }], total: [{ $count: "count" }] } }
+        );
+
+        const [{ items, total }] = await Classroom.aggregate(pipeline);
+        const count = total.length ? total[0].count : 0;
+
+        res.status(200).json({
+            classrooms: items.map(c => ({
+                id: c._id,
+                name: c.name,
+                classCode: c.classCode,
+                owner: c.owner
+                    ? { id: c.owner._id, name: c.owner.name, email: c.owner.email, suspended: !!c.owner.suspendedAt }
+                    : null,
+                staff: (c.staff || []).length,
+                students: c.numStudents || 0,
+                assignments: (c.numAssignments || 0) + (c.numExams || 0),
+                createdAt: c.createdAt,
+            })),
+            total: count,
+            page,
+            pages: Math.ceil(count / limit),
+        });
+    } catch (error) {
+        console.error("Admin List Classrooms Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /classrooms/:classroomId/transfer
+ * @desc    Make another teacher the owner of a classroom. The previous owner can stay on
+ *          as a co-teacher (keepPreviousOwner). The classroom's corpus entries move with it.
+ * @access  Private (Admin)
+ */
+router.post("/classrooms/:classroomId/transfer", async (req, res) => {
+    try {
+        const { classroomId } = req.params;
+        const { keepPreviousOwner } = req.body;
+        const email = typeof req.body.newOwnerEmail === "string" ? req.body.newOwnerEmail.trim().toLowerCase() : "";
+
+        const classroom = mongoose.isValidObjectId(classroomId) ? await Classroom.findById(classroomId) : null;
+        if (!classroom) {
+            return res.status(404).json({ error: "Classroom not found" });
+        }
+
+        const newOwner = email ? await User.findOne({ email }) : null;
+        if (!newOwner) {
+            return res.status(404).json({ error: "No account found with that email" });
+        }
+        if (newOwner.role !== "teacher") {
+            return res.status(400).json({ error: "Classrooms can only be owned by teacher accounts" });
+        }
+        if (newOwner.suspendedAt) {
+            return res.status(400).json({ error: "This teacher's account is suspended" });
+        }
+        if (classroom.teacherId.equals(newOwner._id)) {
+            return res.status(400).json({ error: "This teacher already owns the classroom" });
+        }
+
+        const previousOwner = await User.findById(classroom.teacherId);
+
+        classroom.teacherId = newOwner._id;
+        classroom.staff = classroom.staff.filter(s => !s.userId.equals(newOwner._id));
+        if (keepPreviousOwner && previousOwner && previousOwner.role === "teacher") {
+            classroom.staff.push({
+                userId: previousOwner._id,
+                role: "co-teacher",
+                name: previousOwner.name,
+                email: previousOwner.email,
+            });
+        }
+        await classroom.save();
+
+        // The corpus is scoped to the owner, so the classroom's documents follow it
+        await CorpusEntry.updateMany({ classroomId: classroom._id }, { teacherId: newOwner._id });
+        await ClassroomInvite.deleteMany({ classroomId: classroom._id, email: newOwner.email });
+
+        res.status(200).json({
+            message: `${classroom.name} now belongs to ${newOwner.name}`,
+            owner: { id: newOwner._id, name: newOwner.name, email: newOwner.email, suspended: false },
+        });
+    } catch (error) {
+        console.error("Admin Transfer Classroom Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   GET /serp-usage
+ * @desc    SerpAPI searches per month (most recent first) against the monthly limit
+ * @access  Private (Admin)
+ */
+router.get("/serp-usage", async (req, res) => {
+    try {
+        const months = await SerpApiUsage.find().sort({ year: -1, month: -1 }).limit(12).lean();
+
+        res.status(200).json({
+            limit: SerpApiUsage.MONTHLY_LIMIT,
+            months: months.map(m => ({ year: m.year, month: m.month, count: m.count })),
+        });
+    } catch (error) {
+        console.error("Admin SerpAPI Usage Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+module.exports = router;
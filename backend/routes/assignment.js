@@ -4,11 +4,40 @@ const path = require("path");
 const Classroom = require("../models/Classroom");
 const Assignment = require("../models/Assignment");
 const { calculateJaccardSimilarity } = require("../utils/similarity");
-const { findCandidatePairs } = require("../utils/lsh");
+const { findAlignedPassages, excerptPassages } = require("../utils/alignment");
+const { findCandidatePairs, resolveLshConfig, getSCurve, candidateProbability } = require("../utils/lsh");
+const { NUM_PERMUTATIONS } = require("../utils/minhash");
+const { indexAssignment, buildCorpusFilter, findCorpusMatches } = require("../utils/corpus");
+const { findReferenceMatches } = require("../utils/referenceLibrary");
+const ReferenceDocument = require("../models/ReferenceDocument");
+const PlagiarismJob = require("../models/PlagiarismJob");
+const SubmissionAttempt = require("../models/SubmissionAttempt");
+const { enqueueJob } = require("../utils/jobQueue");
+const { removeStoredFile, sendStoredFile } = require("../utils/fileStorage");
+const { applyAttempt, loadAttemptText, assessedAttempt, findAttempt, ensureLegacyAttempt, storedFilesOf } = require("../utils/attempts");
+const { diffWords } = require("../utils/textDiff");
+const { permissionsOf } = require("../utils/classroomStaff");
+const { refreshLateness, findExtension, moveDeadline, scheduleError } = require("../utils/deadlines");
+const { supportedExtensions } = require("../utils/extractors");
+const { parseGuidelines, parseSubmissionRules, formatSubmissionRules, describeSubmissionRules } = require("../utils/submissionRules");
+const { parseGradingScheme, parseMarks, formatGradingScheme, formatGrade, hasGrades } = require("../utils/grading");
+const { rubricMaxPoints } = require("../utils/rubrics");
+const { parseAnnotation, parseAnnotationNote, formatAnnotation, annotationsOf } = require("../utils/annotations");
+const Rubric = require("../models/Rubric");
 const User = require("../models/User");
-const { authenticate, requireTeacher, requireStudent } = require("../middleware/auth");
+const {
+    authenticate,
+    requireTeacher,
+    requireStudent,
+    requireClassroomAccess,
+    classroomFromAssignment,
+    classroomFromBody,
+} = require("../middleware/auth");
 const router = express.Router();
 
+// Teacher routes on an assignment are limited to the staff of its classroom, by role permission
+const requireAssignmentAccess = (permission) => requireClassroomAccess(classroomFromAssignment("assignmentId"), { permission, notFound: "Assignment not found" });
+
 // Multer Setup for In-Memory Storage
 const storage = multer.memoryStorage();
 
@@ -48,7 +77,7 @@ function multerErrorHandler(middleware) {
     };
 }
 
-router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandler(upload.single("file")), async (req, res) => {
+router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandler(upload.single("file")), requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageAssignments" }), async (req, res) => {
     try {
         const {
             type,
@@ -56,7 +85,10 @@ router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandl
             description,
             deadline,
             classroomId,
-            canSubmitLate
+            canSubmitLate,
+            maxAttempts,
+            submissionGuidelines,
+            submissionRules
         } = req.body;
         const teacherId = req.userId;
 
@@ -70,8 +102,23 @@ router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandl
             return res.status(400).json({ error: "Deadline must be a valid future date" });
         }
 
-        const classroom = await Classroom.findById(classroomId);
-        if (!classroom) return res.status(404).json({ error: "Classroom not found" });
+        const classroom = req.classroom;
+
+        // Attempt limit: empty means unlimited resubmissions
+        const maxAttemptsValue = maxAttempts === undefined || maxAttempts === null || maxAttempts === "" ? null : Number(maxAttempts);
+        if (maxAttemptsValue !== null && (!Number.isInteger(maxAttemptsValue) || maxAttemptsValue < 1)) {
+            return res.status(400).json({ error: "Max attempts must be a whole number of at least 1" });
+        }
+
+        // Guidelines and submission rules shown to students and enforced on upload
+        const parsedGuidelines = parseGuidelines(submissionGuidelines ?? []);
+        if (parsedGuidelines.error) {
+            return res.status(400).json({ error: parsedGuidelines.error });
+        }
+        const parsedRules = parseSubmissionRules(submissionRules ?? {}, supportedExtensions());
+        if (parsedRules.error) {
+            return res.status(400).json({ error: parsedRules.error });
+        }
 
         // Check for duplicate assignment title within the same classroom and type
         const existingAssignment = await Assignment.findOne({
@@ -119,6 +166,9 @@ router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandl
             questionFile,
             submissions,
             canSubmitLate: canSubmitLate !== undefined ? canSubmitLate : true,
+            maxAttempts: maxAttemptsValue,
+            submissionGuidelines: parsedGuidelines.guidelines,
+            submissionRules: parsedRules.rules,
         });
 
         await newAssignment.save();
@@ -145,6 +195,8 @@ router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandl
                 submissions: `0/${classroom.numStudents}`,
                 hasFile: !!newAssignment.questionFile, // Indicate if file was uploaded
                 canSubmitLate: newAssignment.canSubmitLate,
+                submissionGuidelines: newAssignment.submissionGuidelines,
+                submissionRules: formatSubmissionRules(newAssignment.submissionRules),
             }
         });
     } catch (error) {
@@ -156,8 +208,28 @@ router.post("/create-assignment", authenticate, requireTeacher, multerErrorHandl
     }
 });
 
+// Picks the source labels of a match (classmate or prior corpus) for API responses
+const formatMatchSource = (match) => ({
+    sourceType: match.sourceType || "classmate",
+    corpusEntryId: match.corpusEntryId || null,
+    sourceAssignmentId: match.sourceAssignmentId || null,
+    sourceAssignmentTitle: match.sourceAssignmentTitle || null,
+    sourceClassroomName: match.sourceClassroomName || null,
+    sourceTerm: match.sourceTerm || null,
+    referenceDocumentId: match.referenceDocumentId || null,
+});
+
+// Late settings as shown to staff (see utils/deadlines)
+const formatLatePolicy = (assignment) => ({
+    canSubmitLate: assignment.canSubmitLate,
+    cutoff: assignment.latePolicy?.cutoff || null,
+    penaltyType: assignment.latePolicy?.penaltyType || "none",
+    penaltyValue: assignment.latePolicy?.penaltyValue || 0,
+    maxPenalty: assignment.latePolicy?.maxPenalty ?? 100,
+});
+
 // View Assignment Route
-router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res) => {
+router.get("/view/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
     try {
         const { assignmentId } = req.params;
 
@@ -207,7 +279,9 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
                     matchedStudentId: match.matchedStudentId ? match.matchedStudentId._id : null, // Get _id from populated object
                     matchedText: match.matchedText,
                     plagiarismPercent: match.plagiarismPercent,
-                    name: match.matchedStudentId ? match.matchedStudentId.name : 'Unknown Match', // Use populated name
+                    passages: match.passages || [],
+                    ...formatMatchSource(match),
+                    name: match.matchedStudentId ? match.matchedStudentId.name : match.matchedName || 'Unknown Match', // Use populated name
                     email: match.matchedStudentId ? match.matchedStudentId.email : 'N/A',     // Use populated email
                 }));
 
@@ -215,7 +289,8 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
                 allMatchesWithDetails = (submission.allMatches || []).map(match => ({
                     matchedStudentId: match.matchedStudentId ? match.matchedStudentId._id : null, // Get _id from populated object
                     plagiarismPercent: match.plagiarismPercent,
-                    name: match.matchedStudentId ? match.matchedStudentId.name : 'Unknown Match', // Use populated name
+                    ...formatMatchSource(match),
+                    name: match.matchedStudentId ? match.matchedStudentId.name : match.matchedName || 'Unknown Match', // Use populated name
                     email: match.matchedStudentId ? match.matchedStudentId.email : 'N/A',     // Use populated email
                 }));
 
@@ -226,11 +301,20 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
                     email: student.email, 
                     status: "Submitted",
                     submittedDate: submission.submittedAt,
+                    late: submission.late || false,
+                    latePenalty: submission.latePenalty || 0,
+                    extensionDeadline: findExtension(assignment, student.studentId)?.deadline || null,
                     fileName: submission.fileName || "Uploaded",
                     plagiarismPercent: submission.plagiarismPercent ?? "Not checked",
                     wordCount: submission.wordCount,
                     extractedText: submission.extractedText,
+                    extraction: submission.extraction,
+                    hasOriginalFile: !!submission.originalFile?.key,
+                    attemptCount: submission.attempts?.length || 1,
+                    checkedAttempt: submission.checkedAttempt || null,
                     teacherRemark: submission.teacherRemark,
+                    grade: formatGrade(assignment, submission),
+                    annotations: annotationsOf(submission, assessedAttempt(submission)?.attemptNumber ?? 1),
                     isChecked,
                     topMatches: topMatchesWithDetails, // Use the processed data
                     allMatches: allMatchesWithDetails, // Use the processed data
@@ -243,6 +327,7 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
                     email: student.email,
                     status: "Pending",
                     submittedDate: null,
+                    extensionDeadline: findExtension(assignment, student.studentId)?.deadline || null,
                     fileName: "No submission",
                     plagiarismPercent: "—",
                     wordCount: submission ? submission.wordCount : null, // Ensure wordCount is passed even if not submitted, if needed. Otherwise, set null or 0.
@@ -265,11 +350,27 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
             checked,
             studentSubmissions,
             canSubmitLate: assignment.canSubmitLate, 
+            latePolicy: formatLatePolicy(assignment),
+            maxAttempts: assignment.maxAttempts || null,
+            grading: formatGradingScheme(assignment.grading),
             questionFile: !!assignment.questionFile, 
+            submissionGuidelines: assignment.submissionGuidelines || [],
+            submissionRules: formatSubmissionRules(assignment.submissionRules),
+            editHistory: (assignment.editHistory || []).slice().reverse().map(edit => ({
+                id: edit._id,
+                editorName: edit.editorName,
+                editedAt: edit.editedAt,
+                changes: edit.changes,
+            })),
+            lshSettings: resolveLshConfig(assignment.lshSettings),
+            term: assignment.term || "",
+            tags: assignment.tags || [],
             classroomId: {
                 _id: assignment.classroomId._id,
                 name: assignment.classroomId.name
-            }
+            },
+            myRole: req.classroomRole,
+            permissions: permissionsOf(req.classroomRole),
         });
     } catch (error) {
         console.error("Error fetching assignment view:", error);
@@ -277,8 +378,248 @@ router.get("/view/:assignmentId", authenticate, requireTeacher, async (req, res)
     }
 });
 
+// Loads what a plagiarism check needs and whether there is enough to compare
+const prepareCheck = async (assignment) => {
+    // Filter for submissions that are submitted, have extracted text, and a MinHash signature
+    const allSubmissions = assignment.submissions.filter(
+        (sub) => sub.submitted && sub.extractedText && sub.minHashSignature && sub.minHashSignature.length > 0
+    );
+
+    // A single submission can still be checked when prior corpora or the teacher's
+    // reference library are compared against
+    const classroom = await Classroom.findById(assignment.classroomId);
+    const corpusEnabled = !!assignment.corpusSettings?.enabled;
+    const hasReferences = !!classroom && !!(await ReferenceDocument.exists({ teacherId: classroom.teacherId }));
+    const enough = allSubmissions.length >= (corpusEnabled || hasReferences ? 1 : 2);
+
+    return { allSubmissions, classroom, corpusEnabled, hasReferences, enough };
+};
+
+// Runs the plagiarism check of an assignment inside a background job and returns the job result
+const runPlagiarismCheck = async (assignmentId, progress) => {
+    const assignment = await Assignment.findById(assignmentId);
+    if (!assignment) {
+        throw new Error("Assignment not found");
+    }
+
+    const { allSubmissions, classroom, corpusEnabled, hasReferences, enough } = await prepareCheck(assignment);
+    if (!enough) {
+        throw new Error("Not enough valid submissions with generated signatures to check plagiarism.");
+    }
+
+    // Prepare data for LSH: only need the _id and signature, plus student info for processing
+    const signaturesWithIds = allSubmissions.map(sub => ({
+        submissionId: sub._id.toString(), // Convert ObjectId to string for map keys and LSH
+        studentId: sub.studentId.toString(), // Also include studentId for direct mapping
+        signature: sub.minHashSignature,
+        extractedText: sub.extractedText, // Keep extractedText here for direct access
+        name: sub.name,
+        email: sub.email,
+    }));
+
+    // Find candidate pairs using LSH with this assignment's banding
+    await progress.start("candidates", allSubmissions.length);
+    const lshConfig = resolveLshConfig(assignment.lshSettings);
+    const candidatePairs = findCandidatePairs(signaturesWithIds, lshConfig);
+    await progress.finish("candidates");
+    const totalPairs = (allSubmissions.length * (allSubmissions.length - 1)) / 2;
+
+    // Create a map for quick lookup of submission data by its submission._id string
+    const submissionDataMap = new Map(signaturesWithIds.map(sub => [sub.submissionId, sub]));
+
+    // Map to store plagiarism results for each student (by studentId string)
+    const plagiarismResults = new Map();
+
+    // Helper to update results for a student
+    // Stores `matchedStudentId`, `plagiarismPercent` and, for corpus/reference matches, the source labels
+    const updateStudentResults = (currentStudentId, otherStudentId, simValue, source = {}) => {
+        if (!plagiarismResults.has(currentStudentId)) {
+            plagiarismResults.set(currentStudentId, {
+                allMatches: [],
+                maxSimilarity: 0 // Keep as 0-1 decimal for internal max tracking
+            });
+        }
+        const studentRes = plagiarismResults.get(currentStudentId);
+        studentRes.allMatches.push({
+            matchedStudentId: otherStudentId,
+            plagiarismPercent: parseFloat((simValue * 100).toFixed(2)),
+            sourceType: "classmate",
+            ...source,
+        });
+        studentRes.maxSimilarity = Math.max(studentRes.maxSimilarity, simValue);
+    };
+
+    // Perform precise similarity check ONLY on candidate pairs
+    await progress.start("compare", candidatePairs.length);
+    for (const [id1, id2] of candidatePairs) {
+        await progress.advance("compare");
+        const subData1 = submissionDataMap.get(id1);
+        const subData2 = submissionDataMap.get(id2);
+
+        if (!subData1 || !subData2) {
+            console.warn(`Missing submission data for candidate pair IDs: ${id1}, ${id2}`);
+            continue; // Skip if data is unexpectedly missing
+        }
+
+        // Calculate similarity (returns a decimal between 0 and 1)
+        const similarity = calculateJaccardSimilarity(subData1.extractedText, subData2.extractedText);
+
+        // Update plagiarism info for subData1's student
+        updateStudentResults(
+            subData1.studentId, // Current student ID
+            subData2.studentId, // Matched student ID
+            similarity
+        );
+
+        // Update plagiarism info for subData2's student (symmetric comparison)
+        updateStudentResults(
+            subData2.studentId, // Current student ID
+            subData1.studentId, // Matched student ID
+            similarity
+        );
+    }
+
+    await progress.finish("compare");
+
+    // Compare against the teacher's prior assignments/terms when enabled
+    const corpusEntriesById = new Map();
+    let corpusSummary = null;
+
+    if (corpusEnabled && classroom) {
+        await progress.start("corpus", 1);
+        const { matches, corpusSize, pairsEvaluated } = await findCorpusMatches(
+            signaturesWithIds,
+            buildCorpusFilter(classroom.teacherId, assignment),
+            lshConfig
+        );
+
+        for (const { studentId, entry, similarity } of matches) {
+            corpusEntriesById.set(entry._id.toString(), entry);
+            updateStudentResults(studentId, entry.studentId.toString(), similarity, {
+                sourceType: "corpus",
+                corpusEntryId: entry._id,
+                sourceAssignmentId: entry.assignmentId,
+                sourceAssignmentTitle: entry.assignmentTitle,
+                sourceClassroomName: entry.classroomName,
+                sourceTerm: entry.term,
+                matchedName: entry.studentName,
+            });
+        }
+        corpusSummary = { corpusSize, pairsEvaluated, matchesFound: matches.length };
+        await progress.finish("corpus");
+    } else {
+        await progress.skip("corpus");
+    }
+
+    // Compare against the teacher's reference library (textbooks, model answers, ...)
+    const referencesById = new Map();
+    if (hasReferences) {
+        await progress.start("references", 1);
+        const matches = await findReferenceMatches(
+            classroom.teacherId,
+            signaturesWithIds.map(sub => ({ id: sub.studentId, text: sub.extractedText }))
+        );
+
+        for (const { id, reference, similarity } of matches) {
+            referencesById.set(reference._id.toString(), reference);
+            updateStudentResults(id, null, similarity, {
+                sourceType: "reference",
+                referenceDocumentId: reference._id,
+                matchedName: reference.title,
+            });
+        }
+        await progress.finish("references");
+    } else {
+        await progress.skip("references");
+    }
+
+    //  Update each submission in the database based on calculated results ---
+    // Each result is written only to the version of the submission that was checked: a student
+    // who resubmitted while the job ran keeps the new upload (and no stale results) until the
+    // next check
+    const resultWrites = [];
+    const writeResults = (submission, fields) => resultWrites.push({
+        updateOne: {
+            filter: { _id: assignment._id },
+            update: { $set: Object.fromEntries(Object.entries(fields).map(([key, value]) => [`submissions.$[checked].${key}`, value])) },
+            arrayFilters: [{ "checked._id": submission._id, "checked.submittedAt": submission.submittedAt ?? null }],
+        },
+    });
+
+    await progress.start("save", assignment.submissions.length);
+    for (const submission of assignment.submissions) {
+        await progress.advance("save");
+        const studentIdString = submission.studentId.toString();
+        const studentResult = plagiarismResults.get(studentIdString);
+
+        if (studentResult) {
+            // Sort allMatches by plagiarism percentage descending
+            // Note: allMatches now contains the 0-100 percentage
+            studentResult.allMatches.sort((a, b) => b.plagiarismPercent - a.plagiarismPercent);
+
+            // Slice for top 3 matches and align the passages shared with each one,
+            // so the report can highlight exactly what overlaps in both texts
+            const topMatchesFormatted = studentResult.allMatches.slice(0, 3).map((match) => {
+                // Classmate text comes from this assignment, corpus and reference text from their own documents
+                let matchedFullText = '';
+                if (match.sourceType === "corpus") {
+                    matchedFullText = corpusEntriesById.get(match.corpusEntryId.toString())?.extractedText || '';
+                } else if (match.sourceType === "reference") {
+                    matchedFullText = referencesById.get(match.referenceDocumentId.toString())?.extractedText || '';
+                } else {
+                    const matchedStudentOriginalData = signaturesWithIds.find(s => s.studentId === match.matchedStudentId);
+                    matchedFullText = matchedStudentOriginalData ? matchedStudentOriginalData.extractedText : '';
+                }
+                const passages = findAlignedPassages(submission.extractedText, matchedFullText);
+
+                return {
+                    ...match,
+                    matchedText: excerptPassages(matchedFullText, passages),
+                    passages,
+                };
+            });
+
+            // The main plagiarismPercent should also be 0-100
+            // The `allMatches` entries already match the schema, assign directly
+            // wordCount is not re-calculated here as it's set during submission
+            writeResults(submission, {
+                plagiarismPercent: parseFloat((studentResult.maxSimilarity * 100).toFixed(2)),
+                topMatches: topMatchesFormatted,
+                allMatches: studentResult.allMatches,
+            });
+        } else {
+            // If a submission was not part of any candidate pair (e.g., very unique, or fewer than 2 total)
+            writeResults(submission, { plagiarismPercent: 0, topMatches: [], allMatches: [] });
+        }
+    }
+
+    if (resultWrites.length > 0) {
+        await Assignment.bulkWrite(resultWrites);
+    }
+
+    // Keep the corpus current so later assignments can compare against this one
+    const checked = await Assignment.findById(assignmentId);
+    if (classroom && checked) {
+        await indexAssignment(checked, classroom);
+    }
+
+    return {
+        message: "Plagiarism check completed using LSH for efficiency.",
+        totalSubmissions: allSubmissions.length,
+        candidatesChecked: candidatePairs.length, // Number of pairs LSH identified
+        totalPairs,
+        pairsEvaluated: candidatePairs.length,
+        pairsPruned: totalPairs - candidatePairs.length,
+        lsh: { bands: lshConfig.bands, rows: lshConfig.rows, threshold: lshConfig.threshold },
+        corpus: corpusSummary,
+        referencesMatched: referencesById.size,
+        checkedAt: new Date(),
+    };
+};
+
 // Check Plagiarism
-router.post("/check-plagiarism/:assignmentId", authenticate, requireTeacher, async (req, res) => {
+// Queues the check as a background job; progress and the result are read from /api/jobs/:jobId
+router.post("/check-plagiarism/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
     const { assignmentId } = req.params;
 
     try {
@@ -288,136 +629,204 @@ router.post("/check-plagiarism/:assignmentId", authenticate, requireTeacher, asy
             return res.status(404).json({ error: "Assignment not found" });
         }
 
-        // Filter for submissions that are submitted, have extracted text, and a MinHash signature
-        const allSubmissions = assignment.submissions.filter(
-            (sub) => sub.submitted && sub.extractedText && sub.minHashSignature && sub.minHashSignature.length > 0
-        );
-
-        if (allSubmissions.length < 2) {
+        const { enough } = await prepareCheck(assignment);
+        if (!enough) {
             return res.status(400).json({ error: "Not enough valid submissions with generated signatures to check plagiarism." });
         }
 
-        // Prepare data for LSH: only need the _id and signature, plus student info for processing
-        const signaturesWithIds = allSubmissions.map(sub => ({
-            submissionId: sub._id.toString(), // Convert ObjectId to string for map keys and LSH
-            studentId: sub.studentId.toString(), // Also include studentId for direct mapping
-            signature: sub.minHashSignature,
-            extractedText: sub.extractedText, // Keep extractedText here for direct access
-            name: sub.name,
-            email: sub.email,
-        }));
+        // One check per assignment at a time, otherwise two runs would overwrite each other's results
+        const activeJob = await PlagiarismJob.findOne({ assignmentId, status: { $in: ["queued", "running"] } });
+        if (activeJob) {
+            return res.status(409).json({ error: "A plagiarism check is already running for this assignment.", jobId: activeJob._id });
+        }
 
-        // Find candidate pairs using LSH
-        const candidatePairs = findCandidatePairs(signaturesWithIds);
+        const job = await enqueueJob({
+            type: "classroom-check",
+            teacherId: req.userId,
+            assignmentId,
+            stages: [
+                ["candidates", "Finding candidate pairs"],
+                ["compare", "Comparing submissions"],
+                ["corpus", "Comparing prior submissions"],
+                ["references", "Comparing reference library"],
+                ["save", "Saving results"],
+            ],
+        }, (progress) => runPlagiarismCheck(assignmentId, progress));
+
+        return res.status(202).json({ message: "Plagiarism check queued.", jobId: job._id, status: job.status });
+    } catch (err) {
+        console.error("Error during plagiarism check:", err);
+        return res.status(500).json({ error: "Internal server error during plagiarism check." });
+    }
+});
 
-        // Create a map for quick lookup of submission data by its submission._id string
-        const submissionDataMap = new Map(signaturesWithIds.map(sub => [sub.submissionId, sub]));
+// Builds the S-curve preview returned by the LSH settings routes
+const buildLshPreview = (config) => ({
+    ...config,
+    numPermutations: NUM_PERMUTATIONS,
+    expectedRecall: parseFloat(candidateProbability(config.threshold, config.bands, config.rows).toFixed(4)),
+    curve: getSCurve(config.bands, config.rows),
+});
 
-        // Map to store plagiarism results for each student (by studentId string)
-        const plagiarismResults = new Map();
+// Validates an LSH settings payload, returning an error message or null
+const validateLshSettings = ({ threshold, bands, rows }) => {
+    if (bands !== undefined || rows !== undefined) {
+        if (!Number.isInteger(bands) || !Number.isInteger(rows) || bands < 1 || rows < 1) {
+            return "Bands and rows must be positive integers.";
+        }
+        if (bands * rows !== NUM_PERMUTATIONS) {
+            return `Bands × rows must equal the signature size (${NUM_PERMUTATIONS}).`;
+        }
+        return null;
+    }
+    if (threshold !== undefined && (typeof threshold !== "number" || threshold <= 0 || threshold >= 1)) {
+        return "Threshold must be a number between 0 and 1.";
+    }
+    return null;
+};
 
-        // Perform precise similarity check ONLY on candidate pairs
-        for (const [id1, id2] of candidatePairs) {
-            const subData1 = submissionDataMap.get(id1);
-            const subData2 = submissionDataMap.get(id2);
+// LSH Preview Route
+// Returns the banding and S-curve for a threshold or explicit bands/rows without saving anything
+router.get("/lsh-preview", authenticate, requireTeacher, (req, res) => {
+    const settings = {
+        threshold: req.query.threshold !== undefined ? parseFloat(req.query.threshold) : undefined,
+        bands: req.query.bands !== undefined ? parseInt(req.query.bands, 10) : undefined,
+        rows: req.query.rows !== undefined ? parseInt(req.query.rows, 10) : undefined,
+    };
 
-            if (!subData1 || !subData2) {
-                console.warn(`Missing submission data for candidate pair IDs: ${id1}, ${id2}`);
-                continue; // Skip if data is unexpectedly missing
-            }
+    const validationError = validateLshSettings(settings);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
 
-            // Calculate similarity (returns a decimal between 0 and 1)
-            const similarity = calculateJaccardSimilarity(subData1.extractedText, subData2.extractedText);
-
-            // Helper to update results for a student
-            // This function now stores `matchedStudentId` and `plagiarismPercent` for `allMatches`
-            const updateStudentResults = (currentStudentId, otherStudentId, simValue) => {
-                if (!plagiarismResults.has(currentStudentId)) {
-                    plagiarismResults.set(currentStudentId, {
-                        topMatches: [], // Will be populated and sorted later
-                        allMatches: [], // Stores only matchedStudentId and plagiarismPercent for consistency with schema
-                        maxSimilarity: 0 // Keep as 0-1 decimal for internal max tracking
-                    });
-                }
-                const studentRes = plagiarismResults.get(currentStudentId);
-                studentRes.allMatches.push({
-                    matchedStudentId: otherStudentId, // Directly available student ID
-                    plagiarismPercent: parseFloat((simValue * 100).toFixed(2)),
-                });
-                studentRes.maxSimilarity = Math.max(studentRes.maxSimilarity, simValue);
-            };
+    res.json(buildLshPreview(resolveLshConfig(settings)));
+});
 
-            // Update plagiarism info for subData1's student
-            updateStudentResults(
-                subData1.studentId, // Current student ID
-                subData2.studentId, // Matched student ID
-                similarity
-            );
+// Get LSH Settings Route
+router.get("/lsh-settings/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId).select("lshSettings").lean();
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
 
-            // Update plagiarism info for subData2's student (symmetric comparison)
-            updateStudentResults(
-                subData2.studentId, // Current student ID
-                subData1.studentId, // Matched student ID
-                similarity
-            );
+        res.json(buildLshPreview(resolveLshConfig(assignment.lshSettings)));
+    } catch (error) {
+        console.error("Error fetching LSH settings:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Update LSH Settings Route
+// Body: { threshold } or { bands, rows }; an empty body resets to the global default
+router.put("/lsh-settings/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { threshold, bands, rows } = req.body;
+
+        const validationError = validateLshSettings({ threshold, bands, rows });
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
         }
 
-        //  Update each submission in the database based on calculated results ---
-        for (const submission of assignment.submissions) {
-            const studentIdString = submission.studentId.toString();
-            const studentResult = plagiarismResults.get(studentIdString);
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
 
-            if (studentResult) {
-                // Sort allMatches by plagiarism percentage descending
-                // Note: allMatches now contains the 0-100 percentage
-                studentResult.allMatches.sort((a, b) => b.plagiarismPercent - a.plagiarismPercent);
+        assignment.lshSettings = bands !== undefined
+            ? { bands, rows }
+            : { threshold };
+        await assignment.save();
 
-                // Slice for top 3 matches and correctly map to the schema format
-                // Here, we retrieve the matchedText and name from the 'signaturesWithIds' map
-                // that contains all necessary original data for the topMatches.
-                const topMatchesFormatted = studentResult.allMatches.slice(0, 3).map((match) => {
-                    // Find the original data for the matched student from our pre-processed list
-                    const matchedStudentOriginalData = signaturesWithIds.find(s => s.studentId === match.matchedStudentId);
+        res.json({
+            message: "LSH settings updated successfully.",
+            ...buildLshPreview(resolveLshConfig(assignment.lshSettings)),
+        });
+    } catch (error) {
+        console.error("Error updating LSH settings:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
 
-                    return {
-                        matchedStudentId: match.matchedStudentId,
-                        matchedText: matchedStudentOriginalData ? matchedStudentOriginalData.extractedText : '', // Use stored extractedText
-                        plagiarismPercent: match.plagiarismPercent
-                    };
-                });
+// Get Corpus Settings Route
+// Returns which prior corpora this assignment compares against and its own corpus labels
+router.get("/corpus-settings/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId)
+            .select("corpusSettings term tags")
+            .lean();
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
 
-                // The main plagiarismPercent should also be 0-100
-                submission.plagiarismPercent = parseFloat((studentResult.maxSimilarity * 100).toFixed(2));
-                submission.topMatches = topMatchesFormatted;
-                // The `allMatches` array here already matches the schema (only matchedStudentId and plagiarismPercent)
-                // No need to re-map it, just assign directly.
-                submission.allMatches = studentResult.allMatches;
-                // wordCount is not re-calculated here as it's set during submission
-            } else {
-                // If a submission was not part of any candidate pair (e.g., very unique, or fewer than 2 total)
-                submission.plagiarismPercent = 0;
-                submission.topMatches = [];
-                submission.allMatches = [];
-            }
+        res.json({
+            enabled: !!assignment.corpusSettings?.enabled,
+            classroomIds: assignment.corpusSettings?.classroomIds || [],
+            tags: assignment.corpusSettings?.tags || [],
+            years: assignment.corpusSettings?.years || [],
+            term: assignment.term || "",
+            assignmentTags: assignment.tags || [],
+        });
+    } catch (error) {
+        console.error("Error fetching corpus settings:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Update Corpus Settings Route
+// Body: { enabled, classroomIds, tags, years, term, assignmentTags }
+router.put("/corpus-settings/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { enabled, classroomIds, tags, years, term, assignmentTags } = req.body;
+
+        const isStringArray = (value) => Array.isArray(value) && value.every(v => typeof v === "string");
+        if ((classroomIds !== undefined && !isStringArray(classroomIds)) ||
+            (tags !== undefined && !isStringArray(tags)) ||
+            (assignmentTags !== undefined && !isStringArray(assignmentTags)) ||
+            (years !== undefined && !(Array.isArray(years) && years.every(Number.isInteger)))) {
+            return res.status(400).json({ error: "Invalid corpus settings." });
+        }
+
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
         }
 
+        const normalizeTags = (list) => [...new Set(list.map(t => t.trim()).filter(Boolean))];
+
+        if (enabled !== undefined) assignment.corpusSettings.enabled = !!enabled;
+        if (classroomIds !== undefined) assignment.corpusSettings.classroomIds = classroomIds;
+        if (tags !== undefined) assignment.corpusSettings.tags = normalizeTags(tags);
+        if (years !== undefined) assignment.corpusSettings.years = years;
+        if (term !== undefined) assignment.term = String(term).trim();
+        if (assignmentTags !== undefined) assignment.tags = normalizeTags(assignmentTags);
+
         await assignment.save();
 
-        return res.status(200).json({
-            message: "Plagiarism check completed using LSH for efficiency.",
-            totalSubmissions: allSubmissions.length,
-            candidatesChecked: candidatePairs.length, // Number of pairs LSH identified
-            checkedAt: new Date(),
+        // Relabel this assignment's own corpus entries with the new term/tags
+        const classroom = await Classroom.findById(assignment.classroomId);
+        if (classroom) {
+            await indexAssignment(assignment, classroom);
+        }
+
+        res.json({
+            message: "Corpus settings updated successfully.",
+            enabled: assignment.corpusSettings.enabled,
+            classroomIds: assignment.corpusSettings.classroomIds,
+            tags: assignment.corpusSettings.tags,
+            years: assignment.corpusSettings.years,
+            term: assignment.term,
+            assignmentTags: assignment.tags,
         });
-    } catch (err) {
-        console.error("Error during plagiarism check:", err);
-        return res.status(500).json({ error: "Internal server error during plagiarism check." });
+    } catch (error) {
+        console.error("Error updating corpus settings:", error);
+        res.status(500).json({ error: "Server error" });
     }
 });
 
 // View Report Route
 // View Report Route (WITH DEBUG CONSOLE.LOGS)
-router.get("/view-report/:assignmentId/:studentId", authenticate, requireTeacher, async (req, res) => {
+router.get("/view-report/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
     const { assignmentId, studentId } = req.params;
 
     console.log("\n--- START VIEW REPORT DEBUG ---");
@@ -481,12 +890,14 @@ router.get("/view-report/:assignmentId/:studentId", authenticate, requireTeacher
 
         // Populate topMatches with name and email
         const topMatchesWithDetails = (submission.topMatches || []).map(match => {
-            const userDetails = matchedUsersMap.get(match.matchedStudentId.toString());
+            const userDetails = match.matchedStudentId ? matchedUsersMap.get(match.matchedStudentId.toString()) : null;
             const populatedMatch = {
                 matchedStudentId: match.matchedStudentId,
                 matchedText: match.matchedText,
                 plagiarismPercent: match.plagiarismPercent,
-                name: userDetails ? userDetails.name : 'Unknown Match (DB Missing)', // More specific fallback
+                passages: match.passages || [],
+                ...formatMatchSource(match),
+                name: userDetails ? userDetails.name : match.matchedName || 'Unknown Match (DB Missing)', // More specific fallback
                 email: userDetails ? userDetails.email : 'N/A (DB Missing)',       // More specific fallback
             };
             // console.log(`[${new Date().toISOString()}] Populated top match:`, populatedMatch); // Uncomment if you need to see every single match
@@ -495,11 +906,12 @@ router.get("/view-report/:assignmentId/:studentId", authenticate, requireTeacher
 
         // Populate allMatches with name and email
         const allMatchesWithNames = (submission.allMatches || []).map(match => {
-            const userDetails = matchedUsersMap.get(match.matchedStudentId.toString());
+            const userDetails = match.matchedStudentId ? matchedUsersMap.get(match.matchedStudentId.toString()) : null;
             const populatedAllMatch = {
                 matchedStudentId: match.matchedStudentId,
                 plagiarismPercent: match.plagiarismPercent,
-                name: userDetails ? userDetails.name : 'Unknown Match (DB Missing)', // More specific fallback
+                ...formatMatchSource(match),
+                name: userDetails ? userDetails.name : match.matchedName || 'Unknown Match (DB Missing)', // More specific fallback
                 email: userDetails ? userDetails.email : 'N/A (DB Missing)',       // More specific fallback
             };
             // console.log(`[${new Date().toISOString()}] Populated all match:`, populatedAllMatch); // Uncomment if you need to see every single match
@@ -532,8 +944,169 @@ router.get("/view-report/:assignmentId/:studentId", authenticate, requireTeacher
     }
 });
 
+// Multipart form fields arrive as strings; JSON bodies keep their types
+const parseBooleanField = (value) => value === true || value === "true";
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Labels used in the edit history
+const EDITABLE_FIELDS = {
+    title: "Title",
+    description: "Description",
+    deadline: "Deadline",
+    lateCutoff: "Late cutoff",
+    extensions: "Extensions",
+    canSubmitLate: "Late submissions",
+    submissionGuidelines: "Submission guidelines",
+    submissionRules: "Submission rules",
+    questionFile: "Question file",
+};
+
+// Update Assignment Route: title, description, deadline, late policy, guidelines, submission
+// rules and the question file (multipart "file" replaces it, removeQuestionFile=true drops it).
+// Submissions are kept; changing the deadline re-evaluates which of them were late, moves the
+// late cutoff with it and drops extensions that are no longer later than the new deadline.
+router.put("/:assignmentId", authenticate, requireTeacher, multerErrorHandler(upload.single("file")), requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const { title, description, deadline, canSubmitLate, submissionGuidelines, submissionRules, removeQuestionFile } = req.body;
+        const changes = [];
+        const record = (field, from, to) => {
+            if (from !== to) changes.push({ field, from, to });
+        };
+
+        if (title !== undefined) {
+            const newTitle = typeof title === "string" ? title.trim() : "";
+            if (!newTitle) {
+                return res.status(400).json({ error: "Title is required" });
+            }
+            if (newTitle !== assignment.title) {
+                const duplicate = await Assignment.findOne({
+                    _id: { $ne: assignment._id },
+                    classroomId: assignment.classroomId,
+                    type: assignment.type,
+                    title: { $regex: new RegExp(`^${escapeRegex(newTitle)}$`, "i") },
+                });
+                if (duplicate) {
+                    return res.status(409).json({ error: `An ${assignment.type.toLowerCase()} with the title "${newTitle}" already exists in this classroom.` });
+                }
+                record("title", assignment.title, newTitle);
+                assignment.title = newTitle;
+            }
+        }
+
+        if (description !== undefined) {
+            const newDescription = typeof description === "string" ? description.trim() : "";
+            record("description", assignment.description || "", newDescription);
+            assignment.description = newDescription;
+        }
+
+        let deadlineChanged = false;
+        if (deadline !== undefined) {
+            const deadlineDate = new Date(deadline);
+            if (isNaN(deadlineDate.getTime())) {
+                return res.status(400).json({ error: "Deadline must be a valid date" });
+            }
+            if (deadlineDate.getTime() !== assignment.deadline.getTime()) {
+                record("deadline", assignment.deadline.toISOString(), deadlineDate.toISOString());
+                const { previousCutoff, droppedExtensions } = moveDeadline(assignment, deadlineDate);
+                if (previousCutoff) {
+                    record("lateCutoff", previousCutoff.toISOString(), assignment.latePolicy.cutoff.toISOString());
+                }
+                if (droppedExtensions.length > 0) {
+                    const names = droppedExtensions.map(ext => {
+                        const student = req.classroom.students.find(s => s.studentId.equals(ext.studentId));
+                        return student ? student.name : "Former student";
+                    });
+                    record("extensions", names.join(", "), "");
+                }
+                deadlineChanged = true;
+            }
+        }
+
+        if (canSubmitLate !== undefined) {
+            const allowLate = parseBooleanField(canSubmitLate);
+            record("canSubmitLate", assignment.canSubmitLate ? "Allowed" : "Not allowed", allowLate ? "Allowed" : "Not allowed");
+            assignment.canSubmitLate = allowLate;
+        }
+
+        if (submissionGuidelines !== undefined) {
+            const { guidelines, error } = parseGuidelines(submissionGuidelines);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            record("submissionGuidelines", assignment.submissionGuidelines.join("\n"), guidelines.join("\n"));
+            assignment.submissionGuidelines = guidelines;
+        }
+
+        if (submissionRules !== undefined) {
+            const { rules, error } = parseSubmissionRules(submissionRules, supportedExtensions());
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            record("submissionRules", describeSubmissionRules(formatSubmissionRules(assignment.submissionRules)), describeSubmissionRules(rules));
+            assignment.submissionRules = rules;
+        }
+
+        const previousFile = assignment.questionFile?.data ? assignment.questionFile.originalName : "";
+        if (req.file) {
+            assignment.questionFile = {
+                data: req.file.buffer,
+                contentType: req.file.mimetype,
+                originalName: req.file.originalname,
+            };
+            changes.push({ field: "questionFile", from: previousFile, to: req.file.originalname });
+        } else if (parseBooleanField(removeQuestionFile) && previousFile) {
+            assignment.questionFile = undefined;
+            record("questionFile", previousFile, "");
+        }
+
+        if (changes.length === 0) {
+            return res.status(200).json({ message: "No changes to save", changes: [] });
+        }
+
+        // Work handed in before the new deadline is no longer late, and vice versa
+        if (deadlineChanged) {
+            assignment.submissions.forEach(submission => refreshLateness(assignment, submission));
+        }
+
+        const editor = await User.findById(req.userId).select("name");
+        assignment.editHistory.push({
+            editedBy: req.userId,
+            editorName: editor ? editor.name : "Unknown",
+            editedAt: new Date(),
+            changes: changes.map(c => ({ ...c, field: EDITABLE_FIELDS[c.field] })),
+        });
+
+        await assignment.save();
+
+        res.status(200).json({
+            message: `${assignment.type} updated successfully`,
+            changes: assignment.editHistory[assignment.editHistory.length - 1].changes,
+            task: {
+                id: assignment._id,
+                title: assignment.title,
+                deadline: assignment.deadline,
+                type: assignment.type,
+                description: assignment.description,
+                hasFile: !!assignment.questionFile?.data,
+                canSubmitLate: assignment.canSubmitLate,
+                submissionGuidelines: assignment.submissionGuidelines,
+                submissionRules: formatSubmissionRules(assignment.submissionRules),
+            },
+        });
+    } catch (error) {
+        console.error("Error updating assignment:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
 // Delete Assignment Route
-router.delete("/delete/:assignmentId", authenticate, requireTeacher, async (req, res) => {
+router.delete("/delete/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
     const { assignmentId } = req.params;
 
     try {
@@ -547,6 +1120,10 @@ router.delete("/delete/:assignmentId", authenticate, requireTeacher, async (req,
 
         await Assignment.findByIdAndDelete(assignmentId);
 
+        // Submitted documents (every attempt) are kept only as long as their assignment
+        await Promise.all(assignment.submissions.flatMap((sub) => storedFilesOf(sub).map(removeStoredFile)));
+        await SubmissionAttempt.deleteMany({ assignmentId: assignment._id });
+
         // Update the classroom
         const classroom = await Classroom.findById(classroomId);
         if (!classroom) {
@@ -575,78 +1152,420 @@ router.delete("/delete/:assignmentId", authenticate, requireTeacher, async (req,
 });
 
 
-// View Extracted Text Route
-router.get("/view-extracted-text/:assignmentId/:studentId", authenticate, requireTeacher, async (req, res) => {
+// View or download a student's original submitted document (?download=true for an attachment).
+// ?attempt=N selects a specific attempt; the assessed attempt is sent by default.
+router.get("/submission-file/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
     const { assignmentId, studentId } = req.params;
 
     try {
-        const assignment = await Assignment.findById(assignmentId);
-        if (!assignment) {
-            return res.status(404).json({ error: "Assignment not found" });
-        }
+        const assignment = await Assignment.findById(assignmentId).select("submissions");
 
-        const submission = assignment.submissions.find((sub) => sub.studentId.toString() === studentId.toString());
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
         if (!submission || !submission.submitted) {
-            return res.status(404).json({ error: "Submission not found or not submitted" });
+            return res.status(404).json({ error: "Submitted file not found" });
         }
-        
-        if (!submission.extractedText) {
-            return res.status(404).json({ error: "No extracted text available for this submission." });
+
+        ensureLegacyAttempt(submission);
+        const attempt = req.query.attempt
+            ? findAttempt(submission, parseInt(req.query.attempt, 10))
+            : assessedAttempt(submission);
+        if (!attempt || !attempt.originalFile?.key) {
+            return res.status(404).json({ error: "Submitted file not found" });
         }
-        // You can fetch student name and email if needed for the view, similar to view-report
-        const studentUser = await User.findById(studentId).select('name email').lean();
-        const studentName = studentUser ? studentUser.name : submission.name || 'Unknown Student';
-        const studentEmail = studentUser ? studentUser.email : submission.email || 'Unknown Email';
 
-        res.json({
-            assignmentTitle: assignment.title,
-            studentName: studentName,
-            studentEmail: studentEmail,
-            fileName: submission.fileName,
-            extractedText: submission.extractedText,
-            submittedAt: submission.submittedAt
+        sendStoredFile(res, attempt.originalFile, {
+            fileName: attempt.fileName,
+            download: req.query.download === "true",
         });
-
     } catch (err) {
-        console.error("Error fetching extracted text:", err);
+        console.error("Error sending submitted file:", err);
         res.status(500).json({ error: "Server error" });
     }
 });
 
-router.put("/submission/remark/:assignmentId/:studentId", authenticate, requireTeacher, async (req, res) => {
+// List a student's attempts (newest first) and which one is assessed
+router.get("/attempts/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
     const { assignmentId, studentId } = req.params;
-    const { teacherRemark } = req.body; // The new remark from the frontend
 
     try {
-        if (typeof teacherRemark === 'undefined' || teacherRemark === null) {
-            return res.status(400).json({ error: "Teacher remark is required." });
+        const assignment = await Assignment.findById(assignmentId).select("maxAttempts submissions").lean();
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
         }
 
-        // Find the assignment by its ID
-        const assignment = await Assignment.findById(assignmentId);
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission) {
+            return res.status(404).json({ error: "Student submission not found for this assignment." });
+        }
+
+        ensureLegacyAttempt(submission);
+        const assessed = assessedAttempt(submission);
+
+        res.json({
+            maxAttempts: assignment.maxAttempts || null,
+            checkedAttempt: submission.checkedAttempt || null,
+            assessedAttempt: assessed ? assessed.attemptNumber : null,
+            attempts: [...submission.attempts].reverse().map((attempt) => ({
+                attemptNumber: attempt.attemptNumber,
+                submittedAt: attempt.submittedAt,
+                late: attempt.late || false,
+                fileName: attempt.fileName,
+                fileSize: attempt.fileSize,
+                wordCount: attempt.wordCount,
+                hasOriginalFile: !!attempt.originalFile?.key,
+            })),
+        });
+    } catch (err) {
+        console.error("Error fetching attempts:", err);
+        res.status(500).json({ error: "Server error" });
+    }
+});
 
+// Word-level diff between two attempts: ?from=1&to=2 (defaults: the two latest attempts)
+router.get("/attempt-diff/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId).select("submissions").lean();
         if (!assignment) {
-            return res.status(404).json({ error: "Assignment not found." });
+            return res.status(404).json({ error: "Assignment not found" });
         }
 
-        // Find the specific student's submission within the assignment's submissions array
-        const submissionIndex = assignment.submissions.findIndex(
-            (sub) => sub.studentId && sub.studentId.toString() === studentId.toString()
-        );
-
-        if (submissionIndex === -1) {
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission) {
             return res.status(404).json({ error: "Student submission not found for this assignment." });
         }
 
-        // Update the teacherRemark for the found submission
-        assignment.submissions[submissionIndex].teacherRemark = teacherRemark;
+        ensureLegacyAttempt(submission);
+        const { attempts } = submission;
+        if (attempts.length < 2) {
+            return res.status(400).json({ error: "At least two attempts are needed to compare." });
+        }
 
-        // Save the updated assignment document
-        await assignment.save();
+        const latest = attempts[attempts.length - 1].attemptNumber;
+        const to = req.query.to ? parseInt(req.query.to, 10) : latest;
+        const from = req.query.from ? parseInt(req.query.from, 10) : attempts[attempts.length - 2].attemptNumber;
+        const fromAttempt = findAttempt(submission, from);
+        const toAttempt = findAttempt(submission, to);
+        if (!fromAttempt || !toAttempt) {
+            return res.status(404).json({ error: "Attempt not found" });
+        }
 
-        res.status(200).json({
-            message: "Teacher remark updated successfully.",
-            updatedRemark: teacherRemark,
+        const [fromText, toText] = await Promise.all([
+            loadAttemptText(assignment._id, submission, fromAttempt),
+            loadAttemptText(assignment._id, submission, toAttempt),
+        ]);
+
+        res.json({
+            from: { attemptNumber: fromAttempt.attemptNumber, fileName: fromAttempt.fileName, submittedAt: fromAttempt.submittedAt },
+            to: { attemptNumber: toAttempt.attemptNumber, fileName: toAttempt.fileName, submittedAt: toAttempt.submittedAt },
+            ...diffWords(fromText.extractedText, toText.extractedText),
+        });
+    } catch (err) {
+        console.error("Error comparing attempts:", err);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Choose which attempt is checked for plagiarism
+// Body: { attemptNumber } pins an attempt; { attemptNumber: null } goes back to the latest
+router.put("/checked-attempt/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+    const { attemptNumber } = req.body;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission || !submission.submitted) {
+            return res.status(404).json({ error: "Student submission not found for this assignment." });
+        }
+
+        ensureLegacyAttempt(submission);
+        const pinned = attemptNumber === null || attemptNumber === undefined ? null : findAttempt(submission, Number(attemptNumber));
+        if (attemptNumber !== null && attemptNumber !== undefined && !pinned) {
+            return res.status(404).json({ error: "Attempt not found" });
+        }
+
+        const previous = assessedAttempt(submission);
+        submission.checkedAttempt = pinned ? pinned.attemptNumber : null;
+        const next = assessedAttempt(submission);
+        if (next && next.attemptNumber !== previous?.attemptNumber) {
+            applyAttempt(submission, next, await loadAttemptText(assignment._id, submission, next));
+        }
+        await assignment.save();
+
+        res.json({
+            message: `Attempt ${next.attemptNumber} will be used for plagiarism checks.`,
+            checkedAttempt: submission.checkedAttempt,
+            assessedAttempt: next.attemptNumber,
+        });
+    } catch (err) {
+        console.error("Error selecting checked attempt:", err);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Update how many attempts students get; { maxAttempts: null } allows unlimited attempts
+router.put("/attempt-settings/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { maxAttempts } = req.body;
+        if (maxAttempts !== null && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+            return res.status(400).json({ error: "Max attempts must be a whole number of at least 1, or null for unlimited" });
+        }
+
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        assignment.maxAttempts = maxAttempts;
+        await assignment.save();
+
+        res.json({ message: "Attempt settings updated successfully.", maxAttempts: assignment.maxAttempts });
+    } catch (error) {
+        console.error("Error updating attempt settings:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+const LATE_PENALTY_TYPES = ["none", "percent-per-day", "flat"];
+
+const isPercent = (value) => typeof value === "number" && value >= 0 && value <= 100;
+
+// Update the late window cutoff and late penalty; existing late work is re-assessed.
+// { cutoff: null } keeps late submissions open indefinitely.
+router.put("/late-policy/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { cutoff, penaltyType, penaltyValue, maxPenalty } = req.body;
+
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        if (cutoff !== undefined) {
+            const cutoffDate = cutoff ? new Date(cutoff) : null;
+            if (cutoffDate && isNaN(cutoffDate.getTime())) {
+                return res.status(400).json({ error: "Invalid cutoff date" });
+            }
+            assignment.latePolicy.cutoff = cutoffDate;
+        }
+        if (penaltyType !== undefined) {
+            if (!LATE_PENALTY_TYPES.includes(penaltyType)) {
+                return res.status(400).json({ error: "Invalid penalty type" });
+            }
+            assignment.latePolicy.penaltyType = penaltyType;
+        }
+        if (penaltyValue !== undefined) {
+            if (!isPercent(penaltyValue)) {
+                return res.status(400).json({ error: "Penalty must be a percentage between 0 and 100" });
+            }
+            assignment.latePolicy.penaltyValue = penaltyValue;
+        }
+        if (maxPenalty !== undefined) {
+            if (!isPercent(maxPenalty)) {
+                return res.status(400).json({ error: "Maximum penalty must be a percentage between 0 and 100" });
+            }
+            assignment.latePolicy.maxPenalty = maxPenalty;
+        }
+
+        const error = scheduleError(assignment);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        assignment.submissions.forEach(submission => refreshLateness(assignment, submission));
+        await assignment.save();
+
+        res.json({ message: "Late policy updated successfully.", latePolicy: formatLatePolicy(assignment) });
+    } catch (error) {
+        console.error("Error updating late policy:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+const formatExtension = (extension, students) => {
+    const student = students.find(s => s.studentId.equals(extension.studentId));
+    return {
+        studentId: extension.studentId,
+        name: student ? student.name : "Former student",
+        email: student ? student.email : null,
+        deadline: extension.deadline,
+        reason: extension.reason || "",
+        grantedAt: extension.grantedAt,
+    };
+};
+
+// List the per-student deadline extensions of an assignment
+router.get("/extensions/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId).select("extensions").lean();
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        res.json({ extensions: (assignment.extensions || []).map(ext => formatExtension(ext, req.classroom.students)) });
+    } catch (error) {
+        console.error("Error fetching extensions:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Grant or change a student's extension: { deadline, reason }
+router.put("/extensions/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { studentId } = req.params;
+        const { deadline, reason } = req.body;
+
+        const student = req.classroom.students.find(s => s.studentId.toString() === studentId);
+        if (!student) {
+            return res.status(404).json({ error: "Student is not enrolled in this classroom" });
+        }
+
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const deadlineDate = deadline ? new Date(deadline) : null;
+        if (!deadlineDate || isNaN(deadlineDate.getTime())) {
+            return res.status(400).json({ error: "Extension deadline must be a valid date" });
+        }
+
+        const details = {
+            deadline: deadlineDate,
+            reason: typeof reason === "string" ? reason.trim() : "",
+            grantedBy: req.userId,
+            grantedAt: new Date(),
+        };
+        const existing = findExtension(assignment, studentId);
+        if (existing) {
+            existing.set(details);
+        } else {
+            assignment.extensions.push({ studentId: student.studentId, ...details });
+        }
+
+        const error = scheduleError(assignment);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const submission = assignment.submissions.find(s => s.studentId && s.studentId.toString() === studentId);
+        if (submission) refreshLateness(assignment, submission);
+        await assignment.save();
+
+        res.json({
+            message: `Extension granted to ${student.name}`,
+            extension: formatExtension(findExtension(assignment, studentId), req.classroom.students),
+        });
+    } catch (error) {
+        console.error("Error granting extension:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Remove a student's extension; the assignment deadline applies again
+router.delete("/extensions/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const { studentId } = req.params;
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const existing = findExtension(assignment, studentId);
+        if (!existing) {
+            return res.status(404).json({ error: "Extension not found" });
+        }
+        assignment.extensions.pull(existing._id);
+
+        const submission = assignment.submissions.find(s => s.studentId && s.studentId.toString() === studentId);
+        if (submission) refreshLateness(assignment, submission);
+        await assignment.save();
+
+        res.json({ message: "Extension removed" });
+    } catch (error) {
+        console.error("Error removing extension:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// View Extracted Text Route
+router.get("/view-extracted-text/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("view"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId.toString() === studentId.toString());
+        if (!submission || !submission.submitted) {
+            return res.status(404).json({ error: "Submission not found or not submitted" });
+        }
+        
+        if (!submission.extractedText) {
+            return res.status(404).json({ error: "No extracted text available for this submission." });
+        }
+        // You can fetch student name and email if needed for the view, similar to view-report
+        const studentUser = await User.findById(studentId).select('name email').lean();
+        const studentName = studentUser ? studentUser.name : submission.name || 'Unknown Student';
+        const studentEmail = studentUser ? studentUser.email : submission.email || 'Unknown Email';
+
+        res.json({
+            assignmentTitle: assignment.title,
+            studentName: studentName,
+            studentEmail: studentEmail,
+            fileName: submission.fileName,
+            extractedText: submission.extractedText,
+            submittedAt: submission.submittedAt
+        });
+
+    } catch (err) {
+        console.error("Error fetching extracted text:", err);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+router.put("/submission/remark/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+    const { teacherRemark } = req.body; // The new remark from the frontend
+
+    try {
+        if (typeof teacherRemark === 'undefined' || teacherRemark === null) {
+            return res.status(400).json({ error: "Teacher remark is required." });
+        }
+
+        // Find the assignment by its ID
+        const assignment = await Assignment.findById(assignmentId);
+
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found." });
+        }
+
+        // Find the specific student's submission within the assignment's submissions array
+        const submissionIndex = assignment.submissions.findIndex(
+            (sub) => sub.studentId && sub.studentId.toString() === studentId.toString()
+        );
+
+        if (submissionIndex === -1) {
+            return res.status(404).json({ error: "Student submission not found for this assignment." });
+        }
+
+        // Update the teacherRemark for the found submission
+        assignment.submissions[submissionIndex].teacherRemark = teacherRemark;
+
+        // Save the updated assignment document
+        await assignment.save();
+
+        res.status(200).json({
+            message: "Teacher remark updated successfully.",
+            updatedRemark: teacherRemark,
         });
 
     } catch (error) {
@@ -655,4 +1574,280 @@ router.put("/submission/remark/:assignmentId/:studentId", authenticate, requireT
     }
 });
 
-module.exports = router;
\ No newline at end of file
+// Annotate a range of the assessed attempt's extracted text: { start, end, category, comment }
+router.post("/annotations/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission || !submission.submitted || !submission.extractedText) {
+            return res.status(404).json({ error: "No extracted text available for this submission." });
+        }
+
+        const parsed = parseAnnotation(req.body, submission.extractedText);
+        if (parsed.error) {
+            return res.status(400).json({ error: parsed.error });
+        }
+
+        ensureLegacyAttempt(submission);
+        const author = await User.findById(req.userId).select("name");
+        submission.annotations.push({
+            ...parsed.annotation,
+            attemptNumber: assessedAttempt(submission)?.attemptNumber ?? 1,
+            authorId: req.userId,
+            authorName: author ? author.name : "Unknown",
+        });
+        await assignment.save();
+
+        const annotation = submission.annotations[submission.annotations.length - 1];
+        res.status(201).json({ message: "Annotation added.", annotation: formatAnnotation(annotation) });
+    } catch (error) {
+        console.error("Error adding annotation:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Change an annotation's category or comment: { category, comment }
+router.put("/annotations/:assignmentId/:studentId/:annotationId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId, annotationId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        const annotation = submission?.annotations.id(annotationId);
+        if (!annotation) {
+            return res.status(404).json({ error: "Annotation not found" });
+        }
+
+        const parsed = parseAnnotationNote(req.body);
+        if (parsed.error) {
+            return res.status(400).json({ error: parsed.error });
+        }
+
+        annotation.set(parsed.note);
+        await assignment.save();
+
+        res.json({ message: "Annotation updated.", annotation: formatAnnotation(annotation) });
+    } catch (error) {
+        console.error("Error updating annotation:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Remove an annotation
+router.delete("/annotations/:assignmentId/:studentId/:annotationId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId, annotationId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        const annotation = submission?.annotations.id(annotationId);
+        if (!annotation) {
+            return res.status(404).json({ error: "Annotation not found" });
+        }
+
+        annotation.deleteOne();
+        await assignment.save();
+
+        res.json({ message: "Annotation removed." });
+    } catch (error) {
+        console.error("Error removing annotation:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Update the grading scheme: { maxMarks } or { sections: [{ name, maxMarks, criteria }] }.
+// Locked once grades have been entered, so existing marks keep meaning what they meant.
+router.put("/grading/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const { scheme, error } = parseGradingScheme(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+        if (hasGrades(assignment)) {
+            return res.status(409).json({ error: "Grades have already been entered. Clear them before changing the grading scheme." });
+        }
+        if (assignment.grading.rubric) {
+            return res.status(409).json({ error: "This assignment is graded with a rubric. Detach it to set marks by section." });
+        }
+
+        assignment.grading.maxMarks = scheme.maxMarks;
+        assignment.grading.sections = scheme.sections;
+        await assignment.save();
+
+        res.json({ message: "Grading scheme updated successfully.", grading: formatGradingScheme(assignment.grading) });
+    } catch (error) {
+        console.error("Error updating grading scheme:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Attach a rubric from the teacher's library: { rubricId }. The assignment keeps its own
+// copy, and the rubric's total becomes the maximum marks.
+router.put("/grading/rubric/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+        if (hasGrades(assignment)) {
+            return res.status(409).json({ error: "Grades have already been entered. Clear them before changing the rubric." });
+        }
+
+        if (!req.body.rubricId) {
+            return res.status(400).json({ error: "Choose a rubric to attach" });
+        }
+        const rubric = await Rubric.findOne({ _id: req.body.rubricId, teacherId: req.userId });
+        if (!rubric) {
+            return res.status(404).json({ error: "Rubric not found" });
+        }
+
+        assignment.grading.rubric = {
+            rubricId: rubric._id,
+            name: rubric.name,
+            criteria: rubric.criteria.map(c => c.toObject()),
+        };
+        assignment.grading.sections = [];
+        assignment.grading.maxMarks = rubricMaxPoints(rubric.criteria);
+        await assignment.save();
+
+        res.json({ message: `Rubric "${rubric.name}" attached.`, grading: formatGradingScheme(assignment.grading) });
+    } catch (error) {
+        console.error("Error attaching rubric:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Detach the rubric; the maximum marks stay at the rubric's total
+router.delete("/grading/rubric/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("manageAssignments"), async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+        if (hasGrades(assignment)) {
+            return res.status(409).json({ error: "Grades have already been entered. Clear them before changing the rubric." });
+        }
+
+        assignment.grading.rubric = null;
+        await assignment.save();
+
+        res.json({ message: "Rubric detached.", grading: formatGradingScheme(assignment.grading) });
+    } catch (error) {
+        console.error("Error detaching rubric:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Show or hide grades to students: { released: true | false }
+router.put("/grading/release/:assignmentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    try {
+        const { released } = req.body;
+        if (typeof released !== "boolean") {
+            return res.status(400).json({ error: "released must be true or false" });
+        }
+
+        const assignment = await Assignment.findById(req.params.assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        assignment.grading.released = released;
+        assignment.grading.releasedAt = released ? new Date() : null;
+        await assignment.save();
+
+        res.json({
+            message: released ? "Grades released to students." : "Grades hidden from students.",
+            grading: formatGradingScheme(assignment.grading),
+        });
+    } catch (error) {
+        console.error("Error releasing grades:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Grade a student's assessed attempt: { criterionScores: [{ criterion, level, feedback }] }
+// with a rubric, { sectionMarks: [{ section, scored }] } with sections, otherwise { score }
+router.put("/grade/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission || !submission.submitted) {
+            return res.status(404).json({ error: "Student submission not found for this assignment." });
+        }
+
+        const marks = parseMarks(assignment.grading, req.body);
+        if (marks.error) {
+            return res.status(400).json({ error: marks.error });
+        }
+
+        ensureLegacyAttempt(submission);
+        const grader = await User.findById(req.userId).select("name");
+        submission.grade = {
+            attemptNumber: assessedAttempt(submission)?.attemptNumber ?? null,
+            score: marks.score,
+            sectionMarks: marks.sectionMarks,
+            criterionScores: marks.criterionScores,
+            gradedBy: req.userId,
+            graderName: grader ? grader.name : "Unknown",
+            gradedAt: new Date(),
+        };
+        await assignment.save();
+
+        res.json({ message: "Grade saved.", grade: formatGrade(assignment, submission) });
+    } catch (error) {
+        console.error("Error saving grade:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Remove a student's grade
+router.delete("/grade/:assignmentId/:studentId", authenticate, requireTeacher, requireAssignmentAccess("grade"), async (req, res) => {
+    const { assignmentId, studentId } = req.params;
+
+    try {
+        const assignment = await Assignment.findById(assignmentId);
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find((sub) => sub.studentId && sub.studentId.toString() === studentId.toString());
+        if (!submission || !submission.grade) {
+            return res.status(404).json({ error: "This submission has not been graded." });
+        }
+
+        submission.grade = undefined;
+        await assignment.save();
+
+        res.json({ message: "Grade cleared." });
+    } catch (error) {
+        console.error("Error clearing grade:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+module.exports = router;
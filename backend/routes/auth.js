@@ -1,16 +1,24 @@
 const express = require("express");
 const bcrypt = require("bcryptjs");
-const jwt = require("jsonwebtoken");
+const crypto = require("crypto");
 const fs = require("fs").promises;
 const User = require("../models/User");
+const PasswordResetToken = require("../models/PasswordResetToken");
 const Classroom = require("../models/Classroom");
 const Assignment = require("../models/Assignment");
 const { authenticate } = require("../middleware/auth");
+const { sendMail } = require("../utils/mailer");
+const { issueSession, rotateSession, revokeSession, revokeAllSessions } = require("../utils/session");
 const OCRonlinecheck = require("../models/OCRonlinecheck");
 const OCRuploadcheck = require("../models/OCRuploadcheck");
 const router = express.Router();
 require("dotenv").config();
 
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES, 10) || 30;
+const MIN_PASSWORD_LENGTH = 8;
+
+const hashResetToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
 /**
  * @route POST /auth/signup
  * @desc Register a new user, return JWT token on success
@@ -21,6 +29,11 @@ router.post("/signup", async (req, res) => {
         const { name, email, password, role } = req.body;
         const emailLower = email.toLowerCase();
 
+        // Admin accounts are never self-registered (see scripts/makeAdmin.js)
+        if (!["teacher", "student"].includes(role)) {
+            return res.status(400).json({ error: "Role must be teacher or student" });
+        }
+
         // Check if email already exists
         if (await User.findOne({ email: emailLower })) {
             return res.status(400).json({ error: "Email already in use" });
@@ -33,16 +46,13 @@ router.post("/signup", async (req, res) => {
         const newUser = new User({ name, email: emailLower, password: hashedPassword, role });
         await newUser.save();
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { userId: newUser._id, role: newUser.role },
-            process.env.JWT_SECRET,
-            { expiresIn: "1d" }
-        );
+        // Start a session (access + refresh token)
+        const { token, refreshToken } = await issueSession(newUser, req);
 
         res.status(201).json({
             message: "User registered successfully!",
             token,
+            refreshToken,
             user: {
                 _id: newUser._id,
                 name: newUser.name,
@@ -71,17 +81,17 @@ router.post("/login", async (req, res) => {
         if (!user || !(await bcrypt.compare(password, user.password))) {
             return res.status(400).json({ error: "Invalid email or password" });
         }
+        if (user.suspendedAt) {
+            return res.status(403).json({ error: "This account has been suspended. Contact your administrator." });
+        }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { userId: user._id, role: user.role },
-            process.env.JWT_SECRET,
-            { expiresIn: "1d" }
-        );
+        // Start a session (access + refresh token)
+        const { token, refreshToken } = await issueSession(user, req);
 
         res.json({
             message: "Login successful",
             token,
+            refreshToken,
             user: {
                 _id: user._id,
                 name: user.name,
@@ -95,14 +105,43 @@ router.post("/login", async (req, res) => {
     }
 });
 
+/**
+ * @route POST /auth/refresh
+ * @desc Exchange a refresh token for a new access token and refresh token (rotation)
+ * @access Public (requires a valid refresh token)
+ */
+router.post("/refresh", async (req, res) => {
+    try {
+        const { refreshToken } = req.body;
+        if (!refreshToken || typeof refreshToken !== "string") {
+            return res.status(401).json({ error: "Unauthorized: Missing refresh token." });
+        }
+
+        const session = await rotateSession(refreshToken, req, (userId) => User.findOne({ _id: userId, suspendedAt: null }));
+        if (!session) {
+            return res.status(401).json({ error: "Unauthorized: Session has expired or was signed out." });
+        }
+
+        res.json({ token: session.token, refreshToken: session.refreshToken });
+    } catch (error) {
+        console.error("Refresh Error:", error);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route POST /auth/logout
- * @desc Log out user, clean up temporary reports and DB records
+ * @desc Log out user, end the session and clean up temporary reports and DB records
  * @access Private
  */
 router.post("/logout", authenticate, async (req, res) => {
     try {
         const teacherId = req.userId;
+
+        // End this device's session
+        if (typeof req.body.refreshToken === "string") {
+            await revokeSession(req.body.refreshToken);
+        }
         const reportPath = `temp/reports/plagiarism_report_${teacherId}.pdf`;
 
         // Delete report file if exists
@@ -119,6 +158,21 @@ router.post("/logout", authenticate, async (req, res) => {
     }
 });
 
+/**
+ * @route POST /auth/logout-all
+ * @desc End every session of the current user (sign out of all devices)
+ * @access Private
+ */
+router.post("/logout-all", authenticate, async (req, res) => {
+    try {
+        await revokeAllSessions(req.userId);
+        res.json({ message: "Signed out of all devices" });
+    } catch (error) {
+        console.error("Logout All Error:", error);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 /**
  * @route PUT /auth/profile
  * @desc Update user profile (currently name only), reflect in related models
@@ -151,6 +205,12 @@ router.put("/profile", authenticate, async (req, res) => {
             { arrayFilters: [{ "elem.studentId": userId }] }
         );
 
+        await Classroom.updateMany(
+            { "staff.userId": userId },
+            { $set: { "staff.$[elem].name": updatedUser.name } },
+            { arrayFilters: [{ "elem.userId": userId }] }
+        );
+
         await Assignment.updateMany(
             { "submissions.studentId": userId },
             { $set: { "submissions.$[elem].name": updatedUser.name } },
@@ -182,11 +242,102 @@ router.put("/change-password", authenticate, async (req, res) => {
         user.password = await bcrypt.hash(newPassword, 10);
         await user.save();
 
-        res.json({ message: "Password changed successfully" });
+        // Sign out every other session; this device continues with a fresh one
+        await revokeAllSessions(user._id);
+        const { token, refreshToken } = await issueSession(user, req);
+
+        res.json({ message: "Password changed successfully", token, refreshToken });
     } catch (error) {
         console.error("Password Change Error:", error);
         res.status(500).json({ error: "Internal Server Error" });
     }
 });
 
+/**
+ * @route POST /auth/forgot-password
+ * @desc Email a single-use password reset link. Responds the same way whether or not
+ *       the email belongs to an account, so it cannot be used to discover users.
+ * @access Public
+ */
+router.post("/forgot-password", async (req, res) => {
+    try {
+        const { email } = req.body;
+        if (!email || typeof email !== "string") {
+            return res.status(400).json({ error: "Email is required" });
+        }
+
+        const user = await User.findOne({ email: email.trim().toLowerCase() });
+        if (user) {
+            // Only the newest link works
+            await PasswordResetToken.deleteMany({ userId: user._id });
+
+            const token = crypto.randomBytes(32).toString("hex");
+            await PasswordResetToken.create({
+                userId: user._id,
+                tokenHash: hashResetToken(token),
+                expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+            });
+
+            const appUrl = (process.env.CLIENT_URL || "http://localhost:3000").replace(/\/$/, "");
+            const safeName = user.name.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+            const resetLink = `${appUrl}/reset-password?token=${token}`;
+            // Not awaited: a slow or failing mail server must not make the answer (or its
+            // timing) differ from the one for an unknown address
+            sendMail({
+                to: user.email,
+                subject: "Reset your VeriWrite password",
+                text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can be used once.\n\n${resetLink}\n\nIf you did not ask for a password reset, you can ignore this email.`,
+                html: `<p>Hi ${safeName},</p><p>Use the link below to choose a new password. It expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can be used once.</p><p><a href="${resetLink}">Reset your password</a></p><p>If you did not ask for a password reset, you can ignore this email.</p>`,
+            }).catch((error) => console.error("Password Reset Email Error:", error));
+        }
+
+        res.json({ message: "If an account exists for that email, a reset link has been sent." });
+    } catch (error) {
+        console.error("Forgot Password Error:", error);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+/**
+ * @route POST /auth/reset-password
+ * @desc Set a new password using a reset token from /forgot-password
+ * @access Public
+ */
+router.post("/reset-password", async (req, res) => {
+    try {
+        const { token, newPassword } = req.body;
+        if (!token || typeof token !== "string") {
+            return res.status(400).json({ error: "Reset token is required" });
+        }
+        if (!newPassword || typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+
+        // Claim the token atomically so it can only be used once
+        const resetToken = await PasswordResetToken.findOneAndUpdate(
+            { tokenHash: hashResetToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+            { usedAt: new Date() },
+            { new: true }
+        );
+        if (!resetToken) {
+            return res.status(400).json({ error: "This reset link is invalid or has expired" });
+        }
+
+        const user = await User.findById(resetToken.userId);
+        if (!user) {
+            return res.status(400).json({ error: "This reset link is invalid or has expired" });
+        }
+
+        user.password = await bcrypt.hash(newPassword, 10);
+        await user.save();
+        await PasswordResetToken.deleteMany({ userId: user._id });
+        await revokeAllSessions(user._id);
+
+        res.json({ message: "Password reset successfully. You can now log in." });
+    } catch (error) {
+        console.error("Reset Password Error:", error);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 module.exports = router;
@@ -1,12 +1,107 @@
 const express = require("express");
+const crypto = require("crypto");
+const path = require("path");
+const multer = require("multer");
 const { nanoid } = require("nanoid");
 const Classroom = require("../models/Classroom");
+const ClassroomInvite = require("../models/ClassroomInvite");
 const User = require("../models/User");
 const Assignment = require("../models/Assignment");
-const { authenticate, requireTeacher, requireStudent } = require("../middleware/auth");
+const SubmissionAttempt = require("../models/SubmissionAttempt");
+const CheckUsage = require("../models/CheckUsage");
+const SerpApiUsage = require("../models/SerpApiUsage");
+const { removeStoredFile } = require("../utils/fileStorage");
+const { storedFilesOf } = require("../utils/attempts");
+const { sendMail } = require("../utils/mailer");
+const { enrollStudent } = require("../utils/enrollment");
+const { parseCsv, toCsv } = require("../utils/csv");
+const { STAFF_ROLES, classroomRole, permissionsOf } = require("../utils/classroomStaff");
+const { formatSubmissionRules } = require("../utils/submissionRules");
+const { GRADEBOOK_FIELDS, buildGradebook, gradebookRows, lmsGradeRows } = require("../utils/gradebook");
+const { toXlsx } = require("../utils/xlsx");
+const { DASHBOARD_FIELDS, DEFAULT_FLAG_THRESHOLD, buildDashboard } = require("../utils/teacherDashboard");
+const {
+    authenticate,
+    requireTeacher,
+    requireStudent,
+    requireClassroomAccess,
+    classroomFromParam,
+    classroomFromBody,
+} = require("../middleware/auth");
 
 const router = express.Router();
 
+const STAFF_INVITE_TTL_DAYS = 7;
+const ROSTER_INVITE_TTL_DAYS = 30; // Students may take a while to create their accounts
+const STAFF_ROLE_LABELS = { "co-teacher": "co-teacher", ta: "teaching assistant" };
+const MAX_ROSTER_ROWS = 2000;
+const GRADEBOOK_FORMATS = ["csv", "xlsx", "lms"];
+const GRADEBOOK_TYPES = { assignment: "Assignment", exam: "Exam" }; // ?type= → stored Assignment.type
+
+const hashInviteToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const appUrl = () => (process.env.CLIENT_URL || "http://localhost:3000").replace(/\/$/, "");
+
+// Roster CSVs are read in memory
+const rosterUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 1024 * 1024 }, // 1MB
+    fileFilter: (req, file, cb) => {
+        if (path.extname(file.originalname).toLowerCase() !== ".csv") {
+            return cb(new Error("Roster must be a .csv file"));
+        }
+        cb(null, true);
+    },
+});
+
+const handleRosterUpload = (req, res, next) => {
+    rosterUpload.single("roster")(req, res, (err) => {
+        if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+            return res.status(400).json({ error: "Roster file too large. Max 1MB allowed." });
+        }
+        if (err) {
+            return res.status(400).json({ error: err.message });
+        }
+        next();
+    });
+};
+
+// Column names accepted in a roster header (compared lowercase, without spaces or punctuation)
+const ROSTER_COLUMNS = {
+    name: ["name", "fullname", "studentname"],
+    email: ["email", "emailaddress", "studentemail"],
+    studentNumber: ["studentnumber", "studentno", "studentid", "number", "id"],
+};
+
+/*
+ * Splits a parsed roster into { name, email, studentNumber } rows. A header row naming an
+ * email column is optional; without one the columns are name, email, student number.
+ */
+function readRosterRows(rows) {
+    const header = rows[0].map(cell => cell.toLowerCase().replace(/[^a-z0-9]/g, ""));
+    const columnOf = (field) => header.findIndex(h => ROSTER_COLUMNS[field].includes(h));
+    const hasHeader = columnOf("email") !== -1;
+    const columns = hasHeader
+        ? { name: columnOf("name"), email: columnOf("email"), studentNumber: columnOf("studentNumber") }
+        : { name: 0, email: 1, studentNumber: 2 };
+
+    return rows.slice(hasHeader ? 1 : 0).map((cells, index) => ({
+        row: index + (hasHeader ? 2 : 1), // Line in the file, for the teacher to find it
+        name: columns.name === -1 ? "" : cells[columns.name] || "",
+        email: (cells[columns.email] || "").toLowerCase(),
+        studentNumber: columns.studentNumber === -1 ? "" : cells[columns.studentNumber] || "",
+    }));
+}
+
+// Emails a student invitation from a roster import
+async function sendRosterInvite(classroom, inviterName, invite, token) {
+    await sendMail({
+        to: invite.email,
+        subject: `You're invited to join ${classroom.name} on VeriWrite`,
+        text: `${inviterName || "Your teacher"} added you to "${classroom.name}".\n\nCreate a VeriWrite student account with this email address (or sign in if you already have one) and open the link below to join. It expires in ${ROSTER_INVITE_TTL_DAYS} days.\n\n${appUrl()}/invite/${token}`,
+    });
+}
+
 /**
  * @route   POST /create-classroom
  * @desc    Create a new classroom (teacher only)
@@ -53,14 +148,14 @@ router.post("/create-classroom", authenticate, requireTeacher, async (req, res)
 
 /**
  * @route   GET /teacher-classrooms
- * @desc    Get classrooms owned by the authenticated teacher
+ * @desc    Get classrooms the authenticated teacher owns or co-teaches
  * @access  Private (Teacher)
  */
 router.get("/teacher-classrooms", authenticate, requireTeacher, async (req, res) => {
     try {
         const teacherId = req.userId;
 
-        const classrooms = await Classroom.find({ teacherId });
+        const classrooms = await Classroom.find({ $or: [{ teacherId }, { "staff.userId": teacherId }] });
 
         if (!classrooms.length) {
             return res.status(404).json({ message: "No classrooms found" });
@@ -74,6 +169,7 @@ router.get("/teacher-classrooms", authenticate, requireTeacher, async (req, res)
                 numStudents: c.numStudents,
                 numAssignments: c.numAssignments,
                 classCode: c.classCode, 
+                role: classroomRole(c, teacherId),
             })),
         });
     } catch (error) {
@@ -82,55 +178,77 @@ router.get("/teacher-classrooms", authenticate, requireTeacher, async (req, res)
     }
 });
 
+/**
+ * @route   GET /dashboard
+ * @desc    Analytics across the teacher's classrooms: submission and late rates, average and
+ *          highest similarity per assignment, most-flagged students (?threshold= sets the
+ *          similarity that counts as flagged, default 50), checks the teacher ran this month
+ *          and the remaining SerpAPI searches
+ * @access  Private (Teacher)
+ */
+router.get("/dashboard", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const teacherId = req.userId;
+        const threshold = parseFloat(req.query.threshold);
+        const flagThreshold = threshold >= 0 && threshold <= 100 ? threshold : DEFAULT_FLAG_THRESHOLD;
+        const now = new Date();
+        const month = now.getMonth() + 1;
+        const year = now.getFullYear();
+
+        const classrooms = await Classroom.find({ $or: [{ teacherId }, { "staff.userId": teacherId }] })
+            .select("name students.studentId")
+            .lean();
+        const [tasks, checkCounts, serpUsage] = await Promise.all([
+            Assignment.find({ classroomId: { $in: classrooms.map(c => c._id) } }).select(DASHBOARD_FIELDS).lean(),
+            CheckUsage.find({ teacherId, month, year }).lean(),
+            SerpApiUsage.findOne({ month, year }).lean(),
+        ]);
+
+        const checksByType = { "classroom-check": 0, "upload-check": 0, "online-check": 0 };
+        checkCounts.forEach(c => { checksByType[c.type] = c.count; });
+        const serpUsed = serpUsage ? serpUsage.count : 0;
+
+        res.status(200).json({
+            ...buildDashboard(classrooms, tasks, flagThreshold),
+            flagThreshold,
+            checksThisMonth: {
+                total: Object.values(checksByType).reduce((sum, count) => sum + count, 0),
+                byType: checksByType,
+            },
+            serpApi: {
+                used: serpUsed,
+                limit: SerpApiUsage.MONTHLY_LIMIT,
+                remaining: Math.max(SerpApiUsage.MONTHLY_LIMIT - serpUsed, 0),
+            },
+        });
+    } catch (error) {
+        console.error("Teacher Dashboard Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
 /**
  * @route   POST /add-student
  * @desc    Add a student to a classroom and assign to tasks
  * @access  Private (Teacher)
  */
-router.post("/add-student", authenticate, requireTeacher, async (req, res) => {
+router.post("/add-student", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
     try {
-        const { classroomId, studentEmail } = req.body;
+        const { studentEmail } = req.body;
+        const classroom = req.classroom;
 
-        const student = await User.findOne({ email: studentEmail, role: "student" });
+        const student = await User.findOne({ email: String(studentEmail || "").trim().toLowerCase(), role: "student" });
         if (!student) {
             return res.status(404).json({ error: "Student not found" });
         }
 
-        const classroom = await Classroom.findById(classroomId);
-        if (!classroom) {
-            return res.status(404).json({ error: "Classroom not found" });
-        }
-
         if (classroom.students.some(s => s.studentId.toString() === student._id.toString())) {
             return res.status(400).json({ error: "Student is already in this classroom" });
         }
 
-        classroom.students.push({
-            studentId: student._id,
-            name: student.name,
-            email: student.email,
-        });
-        classroom.numStudents += 1;
+        await enrollStudent(classroom, student);
         await classroom.save();
 
-        const allTaskIds = [...(classroom.assignments || []), ...(classroom.exams || [])];
-
-        await Assignment.updateMany(
-            { _id: { $in: allTaskIds } },
-            {
-                $push: {
-                    submissions: {
-                        studentId: student._id,
-                        name: student.name,
-                        email: student.email,
-                        submitted: false,
-                        plagiarismPercent: 0,
-                        wordCount: 0,
-                    }
-                }
-            }
-        );
-
         res.status(200).json({
             message: "Student added successfully and assigned to all tasks.",
             student: { name: student.name, email: student.email },
@@ -146,7 +264,7 @@ router.post("/add-student", authenticate, requireTeacher, async (req, res) => {
  * @desc    View detailed info about a specific classroom
  * @access  Private (Teacher)
  */
-router.get("/view-course/:id", authenticate, requireTeacher, async (req, res) => {
+router.get("/view-course/:id", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("id")), async (req, res) => {
     try {
         const classroom = await Classroom.findById(req.params.id)
             .populate("assignments")
@@ -165,8 +283,10 @@ router.get("/view-course/:id", authenticate, requireTeacher, async (req, res) =>
                 description: task.description,
                 deadline: task.deadline,
                 submissions: `${submittedCount}/${classroom.numStudents}`,
-                hasFile: !!task.questionFile,
+                hasFile: !!task.questionFile?.data,
                 canSubmitLate: task.canSubmitLate,
+                submissionGuidelines: task.submissionGuidelines || [],
+                submissionRules: formatSubmissionRules(task.submissionRules),
             };
         };
 
@@ -192,6 +312,8 @@ router.get("/view-course/:id", authenticate, requireTeacher, async (req, res) =>
                 email: u.email,
             })),
             tasks,
+            myRole: req.classroomRole,
+            permissions: permissionsOf(req.classroomRole),
         });
     } catch (error) {
         console.error("View Course Error:", error);
@@ -201,26 +323,40 @@ router.get("/view-course/:id", authenticate, requireTeacher, async (req, res) =>
 
 /**
  * @route   GET /students/:classroomId
- * @desc    Get enrolled and blocked students of a classroom
+ * @desc    Get enrolled and blocked students of a classroom, pending join requests and
+ *          pending roster invitations
  * @access  Private (Teacher)
  */
-router.get("/students/:classroomId", authenticate, requireTeacher, async (req, res) => {
+router.get("/students/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
     try {
-        const classroom = await Classroom.findById(req.params.classroomId).lean();
-        if (!classroom) {
-            return res.status(404).json({ error: "Classroom not found" });
-        }
+        const classroom = req.classroom;
+        const invites = await ClassroomInvite.find({ classroomId: classroom._id, role: "student", expiresAt: { $gt: new Date() } })
+            .sort({ createdAt: -1 }).lean();
 
         res.status(200).json({
             students: classroom.students.map(s => ({
                 studentId: s.studentId,
                 name: s.name,
                 email: s.email,
+                studentNumber: s.studentNumber || null,
             })),
             blockedStudents: classroom.blockedUsers.map(b => ({
                 userId: b.userId,
                 email: b.email,
             })),
+            pendingJoins: classroom.pendingJoins.map(p => ({
+                studentId: p.studentId,
+                name: p.name,
+                email: p.email,
+                requestedAt: p.requestedAt,
+            })),
+            pendingInvites: invites.map(i => ({
+                id: i._id,
+                name: i.name || null,
+                email: i.email,
+                studentNumber: i.studentNumber || null,
+                expiresAt: i.expiresAt,
+            })),
         });
     } catch (error) {
         console.error("Fetch Students Error:", error);
@@ -233,11 +369,10 @@ router.get("/students/:classroomId", authenticate, requireTeacher, async (req, r
  * @desc    Block a student from a classroom
  * @access  Private (Teacher)
  */
-router.post("/block-student", authenticate, requireTeacher, async (req, res) => {
+router.post("/block-student", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
     try {
-        const { classroomId, studentId } = req.body;
-        const classroom = await Classroom.findById(classroomId);
-        if (!classroom) return res.status(404).json({ error: "Classroom not found" });
+        const { studentId } = req.body;
+        const classroom = req.classroom;
 
         const studentIndex = classroom.students.findIndex(s => s.studentId.toString() === studentId);
         if (studentIndex === -1) return res.status(404).json({ error: "Student not found in classroom" });
@@ -264,11 +399,10 @@ router.post("/block-student", authenticate, requireTeacher, async (req, res) =>
  * @desc    Unblock a student and re-add to classroom
  * @access  Private (Teacher)
  */
-router.post("/unblock-student", authenticate, requireTeacher, async (req, res) => {
+router.post("/unblock-student", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
     try {
-        const { classroomId, studentId } = req.body;
-        const classroom = await Classroom.findById(classroomId);
-        if (!classroom) return res.status(404).json({ error: "Classroom not found" });
+        const { studentId } = req.body;
+        const classroom = req.classroom;
 
         const blockedIndex = classroom.blockedUsers.findIndex(u => u.userId.toString() === studentId);
         if (blockedIndex === -1) return res.status(404).json({ error: "Student not found in blocked list" });
@@ -297,11 +431,10 @@ router.post("/unblock-student", authenticate, requireTeacher, async (req, res) =
  * @desc    Remove student from classroom
  * @access  Private (Teacher)
  */
-router.post("/remove-student", authenticate, requireTeacher, async (req, res) => {
+router.post("/remove-student", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
     try {
-        const { classroomId, studentId } = req.body;
-        const classroom = await Classroom.findById(classroomId);
-        if (!classroom) return res.status(404).json({ error: "Classroom not found" });
+        const { studentId } = req.body;
+        const classroom = req.classroom;
 
         const initialLen = classroom.students.length;
         classroom.students = classroom.students.filter(s => s.studentId.toString() !== studentId);
@@ -322,22 +455,21 @@ router.post("/remove-student", authenticate, requireTeacher, async (req, res) =>
 /**
  * @route   DELETE /delete-classroom/:id
  * @desc    Delete classroom and associated tasks
- * @access  Private (Teacher)
+ * @access  Private (Teacher, owner of the classroom)
  */
-router.delete("/delete-classroom/:id", authenticate, requireTeacher, async (req, res) => {
+router.delete("/delete-classroom/:id", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("id"), { permission: "deleteClassroom" }), async (req, res) => {
     try {
-        const classroom = await Classroom.findById(req.params.id);
-        if (!classroom) {
-            return res.status(404).json({ error: "Classroom not found" });
-        }
-
-        if (classroom.teacherId.toString() !== req.userId) {
-            return res.status(403).json({ error: "Unauthorized: You do not own this classroom" });
-        }
+        const classroom = req.classroom;
 
         const taskIds = [...(classroom.assignments || []), ...(classroom.exams || [])];
 
+        // Submitted documents (every attempt) are kept only as long as their assignment
+        const tasks = await Assignment.find({ _id: { $in: taskIds } }).select("submissions.originalFile submissions.attempts.originalFile");
+        await Promise.all(tasks.flatMap((task) => task.submissions.flatMap((sub) => storedFilesOf(sub).map(removeStoredFile))));
+
         await Assignment.deleteMany({ _id: { $in: taskIds } });
+        await SubmissionAttempt.deleteMany({ assignmentId: { $in: taskIds } });
+        await ClassroomInvite.deleteMany({ classroomId: classroom._id });
         await Classroom.findByIdAndDelete(classroom._id);
 
         res.status(200).json({ message: "Classroom and associated tasks deleted successfully" });
@@ -347,4 +479,600 @@ router.delete("/delete-classroom/:id", authenticate, requireTeacher, async (req,
     }
 });
 
+/**
+ * @route   GET /staff/:classroomId
+ * @desc    Get the owner, staff members and pending staff invitations of a classroom
+ * @access  Private (Classroom staff)
+ */
+router.get("/staff/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
+    try {
+        const classroom = req.classroom;
+        const owner = await User.findById(classroom.teacherId).select("name email").lean();
+        const canManageStaff = permissionsOf(req.classroomRole).includes("manageStaff");
+        const invites = canManageStaff
+            ? await ClassroomInvite.find({ classroomId: classroom._id, role: { $in: STAFF_ROLES }, expiresAt: { $gt: new Date() } }).sort({ createdAt: -1 }).lean()
+            : [];
+
+        res.status(200).json({
+            owner: owner ? { userId: owner._id, name: owner.name, email: owner.email } : null,
+            staff: classroom.staff.map(s => ({
+                userId: s.userId,
+                name: s.name,
+                email: s.email,
+                role: s.role,
+                addedAt: s.addedAt,
+            })),
+            invites: invites.map(i => ({
+                id: i._id,
+                email: i.email,
+                role: i.role,
+                expiresAt: i.expiresAt,
+            })),
+            myRole: req.classroomRole,
+            permissions: permissionsOf(req.classroomRole),
+        });
+    } catch (error) {
+        console.error("Fetch Staff Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /staff/invite
+ * @desc    Invite a teacher by email to join the classroom as co-teacher or TA
+ * @access  Private (Teacher, owner of the classroom)
+ */
+router.post("/staff/invite", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStaff" }), async (req, res) => {
+    try {
+        const classroom = req.classroom;
+        const { role } = req.body;
+        const email = typeof req.body.email === "string" ? req.body.email.trim().toLowerCase() : "";
+
+        if (!email || !email.includes("@")) {
+            return res.status(400).json({ error: "A valid email is required" });
+        }
+        if (!STAFF_ROLES.includes(role)) {
+            return res.status(400).json({ error: "Role must be co-teacher or ta" });
+        }
+
+        const invitee = await User.findOne({ email });
+        if (invitee) {
+            if (invitee.role !== "teacher") {
+                return res.status(400).json({ error: "Only teacher accounts can join a classroom's staff" });
+            }
+            if (classroomRole(classroom, invitee._id)) {
+                return res.status(400).json({ error: "This teacher is already on the classroom's staff" });
+            }
+        }
+
+        // A new invitation replaces any earlier one for the same address
+        await ClassroomInvite.deleteMany({ classroomId: classroom._id, email, role: { $in: STAFF_ROLES } });
+
+        const token = crypto.randomBytes(32).toString("hex");
+        const invite = await ClassroomInvite.create({
+            classroomId: classroom._id,
+            email,
+            role,
+            tokenHash: hashInviteToken(token),
+            invitedBy: req.userId,
+            expiresAt: new Date(Date.now() + STAFF_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+        });
+
+        const inviter = await User.findById(req.userId).select("name").lean();
+        const inviteLink = `${appUrl()}/invite/${token}`;
+        const roleLabel = STAFF_ROLE_LABELS[role];
+        await sendMail({
+            to: email,
+            subject: `You're invited to help teach ${classroom.name} on VeriWrite`,
+            text: `${inviter?.name || "A teacher"} invited you to join "${classroom.name}" as a ${roleLabel}.\n\nSign in to VeriWrite with this email address (or create a teacher account) and open the link below to accept. It expires in ${STAFF_INVITE_TTL_DAYS} days.\n\n${inviteLink}`,
+        });
+
+        res.status(201).json({
+            message: `Invitation sent to ${email}`,
+            invite: { id: invite._id, email: invite.email, role: invite.role, expiresAt: invite.expiresAt },
+        });
+    } catch (error) {
+        console.error("Invite Staff Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /invites/accept
+ * @desc    Accept a staff or roster invitation (the signed-in user must own the invited
+ *          email; staff invitations need a teacher account, roster invitations a student one)
+ * @access  Private
+ */
+router.post("/invites/accept", authenticate, async (req, res) => {
+    try {
+        const { token } = req.body;
+        if (!token || typeof token !== "string") {
+            return res.status(400).json({ error: "Invitation token is required" });
+        }
+
+        const invite = await ClassroomInvite.findOne({ tokenHash: hashInviteToken(token) });
+        if (!invite || invite.expiresAt <= new Date()) {
+            return res.status(404).json({ error: "This invitation is invalid or has expired" });
+        }
+
+        const user = await User.findById(req.userId);
+        if (!user || user.email !== invite.email) {
+            return res.status(403).json({ error: `This invitation was sent to ${invite.email}. Sign in with that account to accept it.` });
+        }
+
+        const isStudentInvite = invite.role === "student";
+        if (user.role !== (isStudentInvite ? "student" : "teacher")) {
+            return res.status(403).json({ error: `This invitation must be accepted with a ${isStudentInvite ? "student" : "teacher"} account.` });
+        }
+
+        const classroom = await Classroom.findById(invite.classroomId);
+        if (!classroom) {
+            await invite.deleteOne();
+            return res.status(404).json({ error: "Classroom not found" });
+        }
+
+        let message;
+        if (isStudentInvite) {
+            if (classroom.blockedUsers.some(u => u.userId.equals(user._id))) {
+                return res.status(403).json({ error: "You are blocked from this class." });
+            }
+            if (!classroom.students.some(s => s.studentId.equals(user._id))) {
+                await enrollStudent(classroom, user, { studentNumber: invite.studentNumber });
+                await classroom.save();
+            }
+            message = `You joined ${classroom.name}`;
+        } else {
+            if (!classroomRole(classroom, user._id)) {
+                classroom.staff.push({ userId: user._id, role: invite.role, name: user.name, email: user.email });
+                await classroom.save();
+            }
+            message = `You joined ${classroom.name} as a ${STAFF_ROLE_LABELS[invite.role]}`;
+        }
+        await invite.deleteOne();
+
+        res.status(200).json({
+            message,
+            role: invite.role,
+            classroom: { id: classroom._id, name: classroom.name },
+        });
+    } catch (error) {
+        console.error("Accept Invite Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   PUT /staff/role
+ * @desc    Change a staff member's role
+ * @access  Private (Teacher, owner of the classroom)
+ */
+router.put("/staff/role", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStaff" }), async (req, res) => {
+    try {
+        const { userId, role } = req.body;
+        if (!STAFF_ROLES.includes(role)) {
+            return res.status(400).json({ error: "Role must be co-teacher or ta" });
+        }
+
+        const classroom = req.classroom;
+        const member = classroom.staff.find(s => s.userId.toString() === userId);
+        if (!member) return res.status(404).json({ error: "Staff member not found" });
+
+        member.role = role;
+        await classroom.save();
+        res.status(200).json({ message: `${member.name} is now a ${STAFF_ROLE_LABELS[role]}` });
+    } catch (error) {
+        console.error("Update Staff Role Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /staff/remove
+ * @desc    Remove a staff member from a classroom
+ * @access  Private (Teacher, owner of the classroom)
+ */
+router.post("/staff/remove", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStaff" }), async (req, res) => {
+    try {
+        const { userId } = req.body;
+        const classroom = req.classroom;
+
+        const initialLen = classroom.staff.length;
+        classroom.staff = classroom.staff.filter(s => s.userId.toString() !== userId);
+        if (classroom.staff.length === initialLen) {
+            return res.status(404).json({ error: "Staff member not found" });
+        }
+
+        await classroom.save();
+        res.status(200).json({ message: "Staff member removed from classroom" });
+    } catch (error) {
+        console.error("Remove Staff Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /staff/revoke-invite
+ * @desc    Cancel a pending staff invitation
+ * @access  Private (Teacher, owner of the classroom)
+ */
+router.post("/staff/revoke-invite", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStaff" }), async (req, res) => {
+    try {
+        const { inviteId } = req.body;
+        const result = await ClassroomInvite.deleteOne({ _id: inviteId, classroomId: req.classroom._id, role: { $in: STAFF_ROLES } });
+        if (!result.deletedCount) {
+            return res.status(404).json({ error: "Invitation not found" });
+        }
+
+        res.status(200).json({ message: "Invitation cancelled" });
+    } catch (error) {
+        console.error("Revoke Invite Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+const formatJoinSettings = (classroom) => ({
+    classCode: classroom.classCode,
+    enabled: classroom.joinSettings.enabled,
+    expiresAt: classroom.joinSettings.expiresAt,
+    maxUses: classroom.joinSettings.maxUses,
+    uses: classroom.joinSettings.uses,
+    requireApproval: classroom.joinSettings.requireApproval,
+});
+
+/**
+ * @route   GET /join-settings/:classroomId
+ * @desc    Get the class code and how students may join with it
+ * @access  Private (Classroom staff)
+ */
+router.get("/join-settings/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
+    res.status(200).json(formatJoinSettings(req.classroom));
+});
+
+/**
+ * @route   PUT /join-settings
+ * @desc    Enable or disable the class code, set its expiry and maximum uses, and whether
+ *          joins need teacher approval
+ * @access  Private (Teacher, manageStudents)
+ */
+router.put("/join-settings", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        const { enabled, expiresAt, maxUses, requireApproval } = req.body;
+        const settings = req.classroom.joinSettings;
+
+        if (enabled !== undefined) settings.enabled = !!enabled;
+        if (requireApproval !== undefined) settings.requireApproval = !!requireApproval;
+
+        if (expiresAt !== undefined) {
+            const expiry = expiresAt ? new Date(expiresAt) : null;
+            if (expiry && isNaN(expiry.getTime())) {
+                return res.status(400).json({ error: "Invalid expiry date" });
+            }
+            settings.expiresAt = expiry;
+        }
+
+        if (maxUses !== undefined) {
+            const limit = maxUses === null || maxUses === "" ? null : Number(maxUses);
+            if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+                return res.status(400).json({ error: "Max uses must be a whole number of at least 1" });
+            }
+            settings.maxUses = limit;
+        }
+
+        await req.classroom.save();
+        res.status(200).json({ message: "Join settings updated", settings: formatJoinSettings(req.classroom) });
+    } catch (error) {
+        console.error("Update Join Settings Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /regenerate-code
+ * @desc    Replace the class code (the old code and join link stop working) and reset its use count
+ * @access  Private (Teacher, manageStudents)
+ */
+router.post("/regenerate-code", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        const classroom = req.classroom;
+        classroom.classCode = nanoid(10);
+        classroom.joinSettings.uses = 0;
+        await classroom.save();
+
+        res.status(200).json({ message: "A new class code was generated", settings: formatJoinSettings(classroom) });
+    } catch (error) {
+        console.error("Regenerate Class Code Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /join-requests/approve
+ * @desc    Enroll a student who asked to join with the class code
+ * @access  Private (Teacher, manageStudents)
+ */
+router.post("/join-requests/approve", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        const { studentId } = req.body;
+        const classroom = req.classroom;
+
+        const request = classroom.pendingJoins.find(p => p.studentId.toString() === studentId);
+        if (!request) return res.status(404).json({ error: "Join request not found" });
+        classroom.pendingJoins.pull(request._id);
+
+        const student = await User.findById(studentId);
+        if (!student) {
+            await classroom.save();
+            return res.status(404).json({ error: "Student not found" });
+        }
+
+        if (!classroom.students.some(s => s.studentId.equals(student._id))) {
+            await enrollStudent(classroom, student);
+        }
+        await classroom.save();
+
+        res.status(200).json({ message: `${student.name} has joined the class` });
+    } catch (error) {
+        console.error("Approve Join Request Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /join-requests/reject
+ * @desc    Decline a student's request to join
+ * @access  Private (Teacher, manageStudents)
+ */
+router.post("/join-requests/reject", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        const { studentId } = req.body;
+        const classroom = req.classroom;
+
+        const request = classroom.pendingJoins.find(p => p.studentId.toString() === studentId);
+        if (!request) return res.status(404).json({ error: "Join request not found" });
+
+        classroom.pendingJoins.pull(request._id);
+        await classroom.save();
+
+        res.status(200).json({ message: "Join request declined" });
+    } catch (error) {
+        console.error("Reject Join Request Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /roster/import
+ * @desc    Enroll students from a CSV roster (name, email, optional student number).
+ *          Emails without an account get a pending invitation. Returns a result per row.
+ * @access  Private (Teacher, manageStudents)
+ */
+router.post("/roster/import", authenticate, requireTeacher, handleRosterUpload, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ error: "Please upload a roster CSV" });
+        }
+
+        const rows = parseCsv(req.file.buffer.toString("utf8"));
+        if (rows.length === 0) {
+            return res.status(400).json({ error: "The roster file is empty" });
+        }
+        const roster = readRosterRows(rows);
+        if (roster.length > MAX_ROSTER_ROWS) {
+            return res.status(400).json({ error: `Rosters are limited to ${MAX_ROSTER_ROWS} students per upload` });
+        }
+
+        const classroom = req.classroom;
+        const emails = [...new Set(roster.map(r => r.email).filter(Boolean))];
+        const users = new Map((await User.find({ email: { $in: emails } })).map(u => [u.email, u]));
+        const inviter = await User.findById(req.userId).select("name").lean();
+
+        const seen = new Set();
+        const results = [];
+        const invitations = [];
+
+        for (const entry of roster) {
+            const result = { row: entry.row, name: entry.name, email: entry.email, studentNumber: entry.studentNumber };
+            const user = users.get(entry.email);
+
+            if (!entry.email || !/^[^\s@]+@[^\s@]+$/.test(entry.email)) {
+                results.push({ ...result, status: "invalid", message: "Missing or invalid email" });
+                continue;
+            }
+            if (seen.has(entry.email)) {
+                results.push({ ...result, status: "duplicate", message: "Email appears earlier in the file" });
+                continue;
+            }
+            seen.add(entry.email);
+
+            if (!user) {
+                invitations.push(entry);
+                results.push({ ...result, status: "invited", message: "No account yet; invitation emailed" });
+            } else if (user.role !== "student") {
+                results.push({ ...result, status: "not-a-student", message: "This email belongs to a staff account" });
+            } else if (classroom.blockedUsers.some(u => u.userId.equals(user._id))) {
+                results.push({ ...result, status: "blocked", message: "Student is blocked from this class" });
+            } else if (classroom.students.some(s => s.studentId.equals(user._id))) {
+                // Fill in a student number the roster provides
+                const enrolled = classroom.students.find(s => s.studentId.equals(user._id));
+                if (entry.studentNumber && !enrolled.studentNumber) enrolled.studentNumber = entry.studentNumber;
+                results.push({ ...result, name: user.name, status: "already-enrolled", message: "Already enrolled" });
+            } else {
+                await enrollStudent(classroom, user, { studentNumber: entry.studentNumber });
+                results.push({ ...result, name: user.name, status: "added", message: "Enrolled" });
+            }
+        }
+        await classroom.save();
+
+        // A new invitation replaces any earlier one for the same address
+        for (const entry of invitations) {
+            await ClassroomInvite.deleteMany({ classroomId: classroom._id, email: entry.email, role: "student" });
+            const token = crypto.randomBytes(32).toString("hex");
+            const invite = await ClassroomInvite.create({
+                classroomId: classroom._id,
+                email: entry.email,
+                role: "student",
+                name: entry.name || undefined,
+                studentNumber: entry.studentNumber || undefined,
+                tokenHash: hashInviteToken(token),
+                invitedBy: req.userId,
+                expiresAt: new Date(Date.now() + ROSTER_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+            });
+            try {
+                await sendRosterInvite(classroom, inviter?.name, invite, token);
+            } catch (mailError) {
+                console.error("Roster Invite Mail Error:", mailError);
+                const result = results.find(r => r.email === entry.email && r.status === "invited");
+                result.message = "Invitation created, but the email could not be sent";
+            }
+        }
+
+        const summary = {};
+        results.forEach(r => { summary[r.status] = (summary[r.status] || 0) + 1; });
+
+        res.status(200).json({ summary, results });
+    } catch (error) {
+        console.error("Roster Import Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   POST /roster/revoke-invite
+ * @desc    Cancel a pending roster invitation
+ * @access  Private (Teacher, manageStudents)
+ */
+router.post("/roster/revoke-invite", authenticate, requireTeacher, requireClassroomAccess(classroomFromBody("classroomId"), { permission: "manageStudents" }), async (req, res) => {
+    try {
+        const { inviteId } = req.body;
+        const result = await ClassroomInvite.deleteOne({ _id: inviteId, classroomId: req.classroom._id, role: "student" });
+        if (!result.deletedCount) {
+            return res.status(404).json({ error: "Invitation not found" });
+        }
+
+        res.status(200).json({ message: "Invitation cancelled" });
+    } catch (error) {
+        console.error("Revoke Roster Invite Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   GET /roster/export/:classroomId
+ * @desc    Download the roster (enrolled, blocked and invited students) with submission
+ *          stats as CSV
+ * @access  Private (Classroom staff)
+ */
+router.get("/roster/export/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
+    try {
+        const classroom = req.classroom;
+        const now = new Date();
+
+        const [tasks, blockedUsers, invites] = await Promise.all([
+            Assignment.find({ classroomId: classroom._id })
+                .select("deadline submissions.studentId submissions.submitted submissions.submittedAt submissions.late submissions.plagiarismPercent")
+                .lean(),
+            User.find({ _id: { $in: classroom.blockedUsers.map(u => u.userId) } }).select("name").lean(),
+            ClassroomInvite.find({ classroomId: classroom._id, role: "student", expiresAt: { $gt: now } }).lean(),
+        ]);
+        const blockedNames = new Map(blockedUsers.map(u => [u._id.toString(), u.name]));
+
+        const statsFor = (studentId) => {
+            let submitted = 0, late = 0, missing = 0, lastSubmission = null;
+            const scores = [];
+            for (const task of tasks) {
+                const submission = task.submissions.find(s => s.studentId && s.studentId.equals(studentId));
+                if (submission && submission.submitted) {
+                    submitted += 1;
+                    if (submission.late) late += 1;
+                    if (submission.plagiarismPercent !== null && submission.plagiarismPercent !== undefined) {
+                        scores.push(submission.plagiarismPercent);
+                    }
+                    if (submission.submittedAt && (!lastSubmission || submission.submittedAt > lastSubmission)) {
+                        lastSubmission = submission.submittedAt;
+                    }
+                } else if (task.deadline < now) {
+                    missing += 1;
+                }
+            }
+            const averageSimilarity = scores.length
+                ? parseFloat((scores.reduce((sum, v) => sum + v, 0) / scores.length).toFixed(2))
+                : "";
+            return [submitted, late, missing, tasks.length, averageSimilarity, lastSubmission ? lastSubmission.toISOString() : ""];
+        };
+
+        const rows = [
+            ["Name", "Email", "Student Number", "Status", "Submitted", "Late", "Missing", "Total Tasks", "Average Similarity (%)", "Last Submission"],
+            ...classroom.students.map(s => [s.name, s.email, s.studentNumber || "", "enrolled", ...statsFor(s.studentId)]),
+            ...classroom.blockedUsers.map(u => [blockedNames.get(u.userId.toString()) || "", u.email, "", "blocked", ...statsFor(u.userId)]),
+            ...invites.map(i => [i.name || "", i.email, i.studentNumber || "", "invited", "", "", "", "", "", ""]),
+        ];
+
+        const fileName = `${classroom.name.replace(/[^a-z0-9]+/gi, "_")}_roster.csv`;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+        res.send(toCsv(rows));
+    } catch (error) {
+        console.error("Roster Export Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+// Loads the gradebook of a classroom, limited to assignments or exams with ?type=
+async function loadGradebook(classroom, type) {
+    const filter = { classroomId: classroom._id };
+    if (GRADEBOOK_TYPES[type]) filter.type = GRADEBOOK_TYPES[type];
+    const tasks = await Assignment.find(filter).select(GRADEBOOK_FIELDS).lean();
+    return buildGradebook(classroom, tasks);
+}
+
+/**
+ * @route   GET /gradebook/:classroomId
+ * @desc    Students × assignments and exams with status, late flag, similarity and grade.
+ *          ?type=assignment|exam limits the tasks.
+ * @access  Private (Classroom staff)
+ */
+router.get("/gradebook/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
+    try {
+        const gradebook = await loadGradebook(req.classroom, req.query.type);
+        res.status(200).json({ classroomName: req.classroom.name, ...gradebook });
+    } catch (error) {
+        console.error("Gradebook Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
+/**
+ * @route   GET /gradebook/export/:classroomId
+ * @desc    Download the gradebook: ?format=csv (default), xlsx, or lms (grades only, in the
+ *          Canvas gradebook import layout). ?type=assignment|exam limits the tasks.
+ * @access  Private (Classroom staff)
+ */
+router.get("/gradebook/export/:classroomId", authenticate, requireTeacher, requireClassroomAccess(classroomFromParam("classroomId")), async (req, res) => {
+    try {
+        const format = req.query.format || "csv";
+        if (!GRADEBOOK_FORMATS.includes(format)) {
+            return res.status(400).json({ error: `Format must be one of: ${GRADEBOOK_FORMATS.join(", ")}` });
+        }
+
+        const classroom = req.classroom;
+        const gradebook = await loadGradebook(classroom, req.query.type);
+        const baseName = `${classroom.name.replace(/[^a-z0-9]+/gi, "_")}_gradebook`;
+
+        if (format === "xlsx") {
+            const workbook = await toXlsx("Gradebook", gradebookRows(gradebook));
+            res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+            res.setHeader("Content-Disposition", `attachment; filename="${baseName}.xlsx"`);
+            return res.send(workbook);
+        }
+
+        const rows = format === "lms" ? lmsGradeRows(gradebook, classroom.name) : gradebookRows(gradebook);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${baseName}${format === "lms" ? "_lms" : ""}.csv"`);
+        res.send(toCsv(rows));
+    } catch (error) {
+        console.error("Gradebook Export Error:", error);
+        res.status(500).json({ error: "Server error" });
+    }
+});
+
 module.exports = router;
@@ -0,0 +1,147 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const CorpusEntry = require("../models/CorpusEntry");
+const Classroom = require("../models/Classroom");
+const Assignment = require("../models/Assignment");
+const { indexAssignment } = require("../utils/corpus");
+const { authenticate, requireTeacher, requireClassroomAccess, classroomFromAssignment } = require("../middleware/auth");
+
+const router = express.Router();
+
+/**
+ * @route   GET /summary
+ * @desc    List the teacher's corpus grouped by source assignment, with the available
+ *          classrooms, tags and years to scope comparisons by
+ * @access  Private (Teacher)
+ */
+router.get("/summary", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const teacherId = new mongoose.Types.ObjectId(req.userId);
+
+        const assignments = await CorpusEntry.aggregate([
+            { $match: { teacherId } },
+            {
+                $group: {
+                    _id: "$assignmentId",
+                    assignmentTitle: { $last: "$assignmentTitle" },
+                    classroomId: { $last: "$classroomId" },
+                    classroomName: { $last: "$classroomName" },
+                    term: { $last: "$term" },
+                    year: { $last: "$year" },
+                    tags: { $last: "$tags" },
+                    documents: { $sum: 1 },
+                },
+            },
+            { $sort: { year: -1, assignmentTitle: 1 } },
+        ]);
+
+        const classrooms = new Map();
+        const tags = new Set();
+        const years = new Set();
+        for (const a of assignments) {
+            classrooms.set(a.classroomId.toString(), a.classroomName);
+            (a.tags || []).forEach(tag => tags.add(tag));
+            if (a.year) years.add(a.year);
+        }
+
+        res.status(200).json({
+            totalDocuments: assignments.reduce((sum, a) => sum + a.documents, 0),
+            assignments: assignments.map(a => ({
+                assignmentId: a._id,
+                title: a.assignmentTitle,
+                classroomId: a.classroomId,
+                classroomName: a.classroomName,
+                term: a.term,
+                year: a.year,
+                tags: a.tags,
+                documents: a.documents,
+            })),
+            scopes: {
+                classrooms: Array.from(classrooms, ([id, name]) => ({ id, name })),
+                tags: Array.from(tags).sort(),
+                years: Array.from(years).sort((a, b) => b - a),
+            },
+        });
+    } catch (error) {
+        console.error("Corpus Summary Error:", error);
+        res.status(500).json({ error: "Error fetching corpus summary" });
+    }
+});
+
+/**
+ * @route   POST /rebuild
+ * @desc    Index every submitted document across the teacher's classrooms
+ * @access  Private (Teacher)
+ */
+router.post("/rebuild", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const classrooms = await Classroom.find({ teacherId: req.userId });
+        let indexed = 0;
+
+        for (const classroom of classrooms) {
+            const taskIds = [...(classroom.assignments || []), ...(classroom.exams || [])];
+            const assignments = await Assignment.find({ _id: { $in: taskIds } });
+            for (const assignment of assignments) {
+                indexed += await indexAssignment(assignment, classroom);
+            }
+        }
+
+        res.status(200).json({ message: "Corpus rebuilt successfully", indexed });
+    } catch (error) {
+        console.error("Corpus Rebuild Error:", error);
+        res.status(500).json({ error: "Error rebuilding corpus" });
+    }
+});
+
+/**
+ * @route   GET /entry/:entryId
+ * @desc    Get the text of one corpus document (for side-by-side match review)
+ * @access  Private (Teacher, owner of the entry or staff of their classrooms)
+ */
+router.get("/entry/:entryId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const entry = await CorpusEntry.findById(req.params.entryId).lean();
+        // Staff of the owner's classrooms review matches against the owner's corpus too
+        const canView = entry && (entry.teacherId.toString() === req.userId
+            || await Classroom.exists({ teacherId: entry.teacherId, "staff.userId": req.userId }));
+        if (!canView) {
+            return res.status(404).json({ error: "Corpus entry not found" });
+        }
+
+        res.status(200).json({
+            id: entry._id,
+            studentName: entry.studentName,
+            assignmentTitle: entry.assignmentTitle,
+            classroomName: entry.classroomName,
+            term: entry.term,
+            year: entry.year,
+            fileName: entry.fileName,
+            extractedText: entry.extractedText,
+            submittedAt: entry.submittedAt,
+        });
+    } catch (error) {
+        console.error("Corpus Entry Error:", error);
+        res.status(500).json({ error: "Error fetching corpus entry" });
+    }
+});
+
+/**
+ * @route   DELETE /assignment/:assignmentId
+ * @desc    Remove an assignment's documents from the teacher's corpus
+ * @access  Private (Teacher)
+ */
+router.delete("/assignment/:assignmentId", authenticate, requireTeacher, requireClassroomAccess(classroomFromAssignment("assignmentId"), { permission: "manageAssignments", notFound: "Assignment not found" }), async (req, res) => {
+    try {
+        const result = await CorpusEntry.deleteMany({
+            teacherId: req.classroom.teacherId,
+            assignmentId: req.params.assignmentId,
+        });
+
+        res.status(200).json({ message: "Assignment removed from corpus", removed: result.deletedCount });
+    } catch (error) {
+        console.error("Corpus Delete Error:", error);
+        res.status(500).json({ error: "Error removing assignment from corpus" });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,16 @@
+const express = require("express");
+const { supportedFormats } = require("../utils/extractors");
+
+const router = express.Router();
+
+/**
+ * @route   GET /
+ * @desc    Document formats the server can extract text from; upload pickers build their
+ *          accept lists from this
+ * @access  Public
+ */
+router.get("/", (req, res) => {
+    res.status(200).json({ formats: supportedFormats() });
+});
+
+module.exports = router;
@@ -0,0 +1,115 @@
+const express = require("express");
+const GuidelineTemplate = require("../models/GuidelineTemplate");
+const { supportedExtensions } = require("../utils/extractors");
+const { parseGuidelines, parseSubmissionRules, formatSubmissionRules } = require("../utils/submissionRules");
+const { authenticate, requireTeacher } = require("../middleware/auth");
+
+const router = express.Router();
+
+const formatTemplate = (template) => ({
+    id: template._id,
+    name: template.name,
+    guidelines: template.guidelines,
+    submissionRules: formatSubmissionRules(template.submissionRules),
+    updatedAt: template.updatedAt,
+});
+
+// Validates name, guidelines and rules from the request body
+function readTemplate(body) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) return { error: "Template name is required" };
+
+    const parsedGuidelines = parseGuidelines(body.guidelines ?? []);
+    if (parsedGuidelines.error) return parsedGuidelines;
+    if (parsedGuidelines.guidelines.length === 0) return { error: "Add at least one guideline" };
+
+    const parsedRules = parseSubmissionRules(body.submissionRules ?? {}, supportedExtensions());
+    if (parsedRules.error) return parsedRules;
+
+    return { name, guidelines: parsedGuidelines.guidelines, submissionRules: parsedRules.rules };
+}
+
+/**
+ * @route   GET /
+ * @desc    List the teacher's guideline templates
+ * @access  Private (Teacher)
+ */
+router.get("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const templates = await GuidelineTemplate.find({ teacherId: req.userId }).sort({ name: 1 });
+        res.status(200).json({ templates: templates.map(formatTemplate) });
+    } catch (error) {
+        console.error("Guideline Templates Error:", error);
+        res.status(500).json({ error: "Error fetching guideline templates" });
+    }
+});
+
+/**
+ * @route   POST /
+ * @desc    Save guidelines and submission rules as a new template
+ * @access  Private (Teacher)
+ */
+router.post("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const fields = readTemplate(req.body);
+        if (fields.error) return res.status(400).json({ error: fields.error });
+
+        const existing = await GuidelineTemplate.findOne({ teacherId: req.userId, name: fields.name });
+        if (existing) {
+            return res.status(409).json({ error: `A template named "${fields.name}" already exists` });
+        }
+
+        const template = await GuidelineTemplate.create({ teacherId: req.userId, ...fields });
+        res.status(201).json({ message: "Template saved", template: formatTemplate(template) });
+    } catch (error) {
+        console.error("Guideline Template Create Error:", error);
+        res.status(500).json({ error: "Error saving guideline template" });
+    }
+});
+
+/**
+ * @route   PUT /:templateId
+ * @desc    Replace a template's name, guidelines and rules
+ * @access  Private (Teacher)
+ */
+router.put("/:templateId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const template = await GuidelineTemplate.findOne({ _id: req.params.templateId, teacherId: req.userId });
+        if (!template) return res.status(404).json({ error: "Template not found" });
+
+        const fields = readTemplate(req.body);
+        if (fields.error) return res.status(400).json({ error: fields.error });
+
+        if (fields.name !== template.name) {
+            const existing = await GuidelineTemplate.findOne({ teacherId: req.userId, name: fields.name });
+            if (existing) {
+                return res.status(409).json({ error: `A template named "${fields.name}" already exists` });
+            }
+        }
+
+        template.set(fields);
+        await template.save();
+        res.status(200).json({ message: "Template updated", template: formatTemplate(template) });
+    } catch (error) {
+        console.error("Guideline Template Update Error:", error);
+        res.status(500).json({ error: "Error updating guideline template" });
+    }
+});
+
+/**
+ * @route   DELETE /:templateId
+ * @desc    Delete a template. Assignments that used it keep their copy of the guidelines.
+ * @access  Private (Teacher)
+ */
+router.delete("/:templateId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const result = await GuidelineTemplate.deleteOne({ _id: req.params.templateId, teacherId: req.userId });
+        if (result.deletedCount === 0) return res.status(404).json({ error: "Template not found" });
+        res.status(200).json({ message: "Template deleted" });
+    } catch (error) {
+        console.error("Guideline Template Delete Error:", error);
+        res.status(500).json({ error: "Error deleting guideline template" });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,56 @@
+const express = require("express");
+const mongoose = require("mongoose");
+const PlagiarismJob = require("../models/PlagiarismJob");
+const { formatJob } = require("../utils/jobQueue");
+const { authenticate, requireTeacher } = require("../middleware/auth");
+
+const router = express.Router();
+
+/**
+ * @route   GET /
+ * @desc    List the teacher's recent plagiarism jobs.
+ *          Optional filters: ?type=, ?assignmentId=, ?active=true (queued or running only)
+ * @access  Private (Teacher)
+ */
+router.get("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const { type, assignmentId, active } = req.query;
+        const filter = { teacherId: req.userId };
+        if (type) filter.type = type;
+        if (assignmentId) filter.assignmentId = assignmentId;
+        if (active === "true") filter.status = { $in: ["queued", "running"] };
+
+        const jobs = await PlagiarismJob.find(filter)
+            .select("-result")
+            .sort({ createdAt: -1 })
+            .limit(20);
+
+        res.status(200).json(jobs.map(formatJob));
+    } catch (error) {
+        console.error("Job List Error:", error);
+        res.status(500).json({ error: "Error fetching jobs" });
+    }
+});
+
+/**
+ * @route   GET /:jobId
+ * @desc    Get a job's status, per-stage progress, and its result once it has succeeded
+ * @access  Private (Teacher, owner of the job)
+ */
+router.get("/:jobId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.jobId)) {
+            return res.status(404).json({ error: "Job not found" });
+        }
+
+        const job = await PlagiarismJob.findOne({ _id: req.params.jobId, teacherId: req.userId });
+        if (!job) return res.status(404).json({ error: "Job not found" });
+
+        res.status(200).json(formatJob(job));
+    } catch (error) {
+        console.error("Job Status Error:", error);
+        res.status(500).json({ error: "Error fetching job status" });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,226 @@
+const express = require("express");
+const bcrypt = require("bcryptjs");
+const crypto = require("crypto");
+const cookieParser = require("cookie-parser");
+const { generators } = require("openid-client");
+const User = require("../models/User");
+const OidcLogin = require("../models/OidcLogin");
+const { oidcConfig, getOidcClient } = require("../utils/oidc");
+const { issueSession } = require("../utils/session");
+const router = express.Router();
+
+const LOGIN_TTL_MINUTES = 10; // Time allowed at the provider plus the role choice
+const BINDING_COOKIE = "oidc_binding";
+
+const hashSecret = (secret) => crypto.createHash("sha256").update(secret).digest("hex");
+
+// The binding cookie ties a sign-in to the browser that started it, so a callback URL from
+// someone else's sign-in cannot log this browser into their account (login CSRF). Lax lets
+// it ride along on the provider's top-level redirect back to /callback.
+const bindingCookieOptions = (req) => ({
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: req.baseUrl || "/",
+});
+
+router.use(cookieParser());
+
+const clientUrl = () => (process.env.CLIENT_URL || "http://localhost:3000").replace(/\/$/, "");
+
+// Send the browser back to the frontend's callback page
+const redirectToClient = (res, params) => {
+    res.redirect(`${clientUrl()}/auth/callback?${new URLSearchParams(params).toString()}`);
+};
+
+/**
+ * @route GET /auth/oidc/config
+ * @desc Whether single sign-on is available, and the provider name to show
+ * @access Public
+ */
+router.get("/config", (req, res) => {
+    const config = oidcConfig();
+    res.json({ enabled: !!config, providerName: config ? config.providerName : null });
+});
+
+/**
+ * @route GET /auth/oidc/start
+ * @desc Redirect the browser to the identity provider (authorization code + PKCE)
+ * @access Public
+ */
+router.get("/start", async (req, res) => {
+    try {
+        const config = oidcConfig();
+        if (!config) {
+            return res.status(404).json({ error: "Single sign-on is not configured" });
+        }
+        const client = await getOidcClient();
+
+        const binding = crypto.randomBytes(32).toString("hex");
+        const login = await OidcLogin.create({
+            state: generators.state(),
+            nonce: generators.nonce(),
+            codeVerifier: generators.codeVerifier(),
+            bindingHash: hashSecret(binding),
+            expiresAt: new Date(Date.now() + LOGIN_TTL_MINUTES * 60 * 1000),
+        });
+
+        res.cookie(BINDING_COOKIE, binding, { ...bindingCookieOptions(req), maxAge: LOGIN_TTL_MINUTES * 60 * 1000 });
+        res.redirect(client.authorizationUrl({
+            scope: config.scope,
+            state: login.state,
+            nonce: login.nonce,
+            code_challenge: generators.codeChallenge(login.codeVerifier),
+            code_challenge_method: "S256",
+        }));
+    } catch (error) {
+        console.error("OIDC Start Error:", error);
+        redirectToClient(res, { error: "Could not reach the sign-in provider" });
+    }
+});
+
+/**
+ * @route GET /auth/oidc/callback
+ * @desc Provider redirect target: verify the code, resolve or link the account and hand
+ *       the frontend a one-time ticket
+ * @access Public
+ */
+router.get("/callback", async (req, res) => {
+    try {
+        const config = oidcConfig();
+        const client = await getOidcClient();
+        const params = client.callbackParams(req);
+
+        const login = params.state ? await OidcLogin.findOne({ state: params.state, ticketHash: null }) : null;
+        if (!login || login.expiresAt <= new Date()) {
+            return redirectToClient(res, { error: "This sign-in attempt has expired. Please try again." });
+        }
+
+        const binding = req.cookies[BINDING_COOKIE];
+        if (!binding || hashSecret(binding) !== login.bindingHash) {
+            return redirectToClient(res, { error: "This sign-in was started in another browser. Please try again." });
+        }
+        res.clearCookie(BINDING_COOKIE, bindingCookieOptions(req));
+
+        if (params.error) {
+            await login.deleteOne();
+            return redirectToClient(res, { error: params.error_description || "Sign-in was cancelled" });
+        }
+
+        const tokenSet = await client.callback(config.redirectUri, params, {
+            state: login.state,
+            nonce: login.nonce,
+            code_verifier: login.codeVerifier,
+        });
+
+        let claims = tokenSet.claims();
+        if (!claims.email && tokenSet.access_token) {
+            claims = { ...claims, ...(await client.userinfo(tokenSet.access_token)) };
+        }
+
+        const issuer = claims.iss;
+        const subject = claims.sub;
+        const email = claims.email ? claims.email.toLowerCase() : null;
+
+        // Accounts are matched on the provider identity first, then linked by verified email
+        let user = await User.findOne({ oidcAccounts: { $elemMatch: { issuer, subject } } });
+        if (!user) {
+            if (!email || claims.email_verified !== true) {
+                await login.deleteOne();
+                return redirectToClient(res, { error: "Your sign-in provider did not confirm a verified email address" });
+            }
+
+            user = await User.findOne({ email });
+            if (user) {
+                user.oidcAccounts.push({ issuer, subject });
+                await user.save();
+            }
+        }
+
+        const ticket = crypto.randomBytes(32).toString("hex");
+        login.ticketHash = hashSecret(ticket);
+        if (user) {
+            login.userId = user._id;
+        } else {
+            login.profile = { issuer, subject, email, name: claims.name || claims.preferred_username || email.split("@")[0] };
+        }
+        await login.save();
+
+        redirectToClient(res, user ? { ticket } : { ticket, needsRole: "true", name: login.profile.name, email });
+    } catch (error) {
+        console.error("OIDC Callback Error:", error);
+        redirectToClient(res, { error: "Sign-in could not be completed" });
+    }
+});
+
+/**
+ * @route POST /auth/oidc/exchange
+ * @desc Trade a one-time ticket for a JWT. First-time users must choose a role,
+ *       which creates their account.
+ * @access Public
+ */
+router.post("/exchange", async (req, res) => {
+    try {
+        const { ticket, role } = req.body;
+        if (!ticket || typeof ticket !== "string") {
+            return res.status(400).json({ error: "Sign-in ticket is required" });
+        }
+
+        const login = await OidcLogin.findOne({ ticketHash: hashSecret(ticket) });
+        if (!login || login.expiresAt <= new Date()) {
+            return res.status(400).json({ error: "This sign-in attempt has expired. Please try again." });
+        }
+
+        if (!login.userId && !["teacher", "student"].includes(role)) {
+            return res.status(400).json({ error: "Please choose whether you are a teacher or a student" });
+        }
+
+        // Claim the ticket atomically so it can only be used once
+        if (!(await OidcLogin.findOneAndDelete({ _id: login._id }))) {
+            return res.status(400).json({ error: "This sign-in attempt has expired. Please try again." });
+        }
+
+        let user;
+        if (login.userId) {
+            user = await User.findById(login.userId);
+        } else {
+            const { issuer, subject, email, name } = login.profile;
+            user = await User.findOne({ email });
+            if (user) {
+                // Signed up with a password while the role was being chosen
+                user.oidcAccounts.push({ issuer, subject });
+                await user.save();
+            } else {
+                // No password until the user sets one through "Forgot password"
+                const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+                user = await User.create({ name, email, password: unusablePassword, role, oidcAccounts: [{ issuer, subject }] });
+            }
+        }
+
+        if (!user) {
+            return res.status(404).json({ error: "User not found" });
+        }
+        if (user.suspendedAt) {
+            return res.status(403).json({ error: "This account has been suspended. Contact your administrator." });
+        }
+
+        const { token, refreshToken } = await issueSession(user, req);
+
+        res.json({
+            message: "Login successful",
+            token,
+            refreshToken,
+            user: {
+                _id: user._id,
+                name: user.name,
+                email: user.email,
+                role: user.role,
+            },
+        });
+    } catch (error) {
+        console.error("OIDC Exchange Error:", error);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
+module.exports = router;
@@ -3,7 +3,9 @@ const router = express.Router();
 const puppeteer = require('puppeteer');
 const Assignment = require("../models/Assignment");
 const User = require("../models/User");
-const { authenticate, requireTeacher } = require("../middleware/auth");
+const { assessedAttempt } = require("../utils/attempts");
+const { annotationsOf, CATEGORY_LABELS } = require("../utils/annotations");
+const { authenticate, requireTeacher, requireClassroomAccess, classroomFromAssignment } = require("../middleware/auth");
 
 // Helper to format date for the report
 const formatDate = (dateString) => {
@@ -12,9 +14,36 @@ const formatDate = (dateString) => {
   return new Date(dateString).toLocaleDateString('en-US', options);
 };
 
+// Helper to escape submitted text and names before they go into the report HTML, which
+// Puppeteer renders with network access
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Helper to wrap the aligned passages of every top match in highlight marks
+const highlightPassages = (text, topMatches) => {
+  const ranges = topMatches
+    .flatMap(match => match.passages || [])
+    .map(p => [p.sourceStart, p.sourceEnd])
+    .sort((a, b) => a[0] - b[0]);
+
+  let html = '';
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue; // Already covered by an earlier passage
+    const from = Math.max(start, cursor);
+    html += escapeHtml(text.substring(cursor, from));
+    html += `<span class="matched-text-highlight">${escapeHtml(text.substring(from, end))}</span>`;
+    cursor = end;
+  }
+  return html + escapeHtml(text.substring(cursor));
+};
+
 // Route to download plagiarism report PDF
 // CHANGE: Renamed ':submissionId' to ':assignmentId/:studentId' to match your intent
-router.get("/:assignmentId/:studentId/download", authenticate, requireTeacher, async (req, res) => { // CHANGED ROUTE PARAMETERS
+router.get("/:assignmentId/:studentId/download", authenticate, requireTeacher, requireClassroomAccess(classroomFromAssignment("assignmentId"), { permission: "view", notFound: "Assignment not found" }), async (req, res) => { // CHANGED ROUTE PARAMETERS
   let browser;
   try {
     const { assignmentId, studentId } = req.params; // Extract both IDs
@@ -58,22 +87,33 @@ router.get("/:assignmentId/:studentId/download", authenticate, requireTeacher, a
     }
 
     const reportData = {
-      studentName: studentName,
-      studentEmail: studentEmail,
-      assignmentTitle: assignment.title,
-      classroomName: assignment.classroomId ? assignment.classroomId.name : 'N/A',
+      studentName: escapeHtml(studentName),
+      studentEmail: escapeHtml(studentEmail),
+      assignmentTitle: escapeHtml(assignment.title),
+      classroomName: assignment.classroomId ? escapeHtml(assignment.classroomId.name) : 'N/A',
       submittedDate: formatDate(submission.submittedAt),
-      documentName: submission.fileName || 'N/A',
+      documentName: escapeHtml(submission.fileName || 'N/A'),
       wordCount: submission.wordCount ?? 'N/A',
       overallPlagiarismScore: submission.plagiarismPercent ?? 0,
-      submittedText: submission.extractedText || 'No extracted text available.',
+      submittedText: submission.extractedText
+        ? highlightPassages(submission.extractedText, submission.topMatches || [])
+        : 'No extracted text available.',
+      annotations: annotationsOf(submission, assessedAttempt(submission)?.attemptNumber ?? 1),
       topMatches: (submission.topMatches || []).map(match => {
-          const matchedUserDetails = matchedUsersMap.get(match.matchedStudentId.toString());
+          const matchedUserDetails = match.matchedStudentId ? matchedUsersMap.get(match.matchedStudentId.toString()) : null;
+          let sourceLabel = 'This assignment';
+          if (match.sourceType === 'corpus') {
+              sourceLabel = `${match.sourceAssignmentTitle || 'Prior assignment'}${match.sourceTerm ? ` (${match.sourceTerm})` : ''}`;
+          } else if (match.sourceType === 'reference') {
+              sourceLabel = 'Reference library';
+          }
           return {
-              matchedStudentName: matchedUserDetails ? matchedUserDetails.name : 'Unknown Student',
-              matchedStudentEmail: matchedUserDetails ? matchedUserDetails.email : 'N/A',
-              matchedText: match.matchedText,
-              plagiarismPercent: match.plagiarismPercent
+              matchedStudentName: escapeHtml(matchedUserDetails ? matchedUserDetails.name : match.matchedName || 'Unknown Student'),
+              sourceLabel: escapeHtml(sourceLabel),
+              matchedStudentEmail: matchedUserDetails ? escapeHtml(matchedUserDetails.email) : 'N/A',
+              matchedText: escapeHtml(match.matchedText || ''),
+              plagiarismPercent: match.plagiarismPercent,
+              passageCount: (match.passages || []).length
           };
       })
     };
@@ -100,6 +140,11 @@ router.get("/:assignmentId/:studentId/download", authenticate, requireTeacher, a
             .match-percent { font-weight: bold; color: #dc3545; margin-left: 10px; }
             .source-text-container { background-color: #e9f5f9; border-left: 4px solid #007bff; padding: 10px; margin-top: 10px; font-size: 0.85em; }
             .matched-text-highlight { background-color: #fffacd; padding: 1px 0; border-radius: 2px; }
+            .annotation-item { margin-bottom: 12px; padding: 10px; border-left: 4px solid #6c757d; background-color: #f8f9fa; }
+            .annotation-item.citation-needed { border-left-color: #fd7e14; }
+            .annotation-item.suspicious { border-left-color: #dc3545; }
+            .annotation-item.good-point { border-left-color: #28a745; }
+            .annotation-quote { font-style: italic; color: #555; margin: 4px 0; }
             .footer { text-align: center; margin-top: 40px; font-size: 0.75em; color: #888; }
         </style>
     </head>
@@ -132,14 +177,28 @@ router.get("/:assignmentId/:studentId/download", authenticate, requireTeacher, a
             </div>
         </div>
 
+        ${reportData.annotations.length > 0 ? `
+        <div class="section">
+            <h3>Teacher Annotations</h3>
+            ${reportData.annotations.map((annotation, index) => `
+                <div class="annotation-item ${annotation.category}">
+                    <p><strong>${index + 1}. ${CATEGORY_LABELS[annotation.category]}</strong>${annotation.authorName ? ` (${escapeHtml(annotation.authorName)})` : ''}</p>
+                    <p class="annotation-quote">&ldquo;${escapeHtml(annotation.quote)}&rdquo;</p>
+                    ${annotation.comment ? `<p>${escapeHtml(annotation.comment)}</p>` : ''}
+                </div>
+            `).join('')}
+        </div>
+        ` : ''}
+
         ${reportData.topMatches.length > 0 ? `
         <div class="section">
             <h3>Top Plagiarism Matches</h3>
             ${reportData.topMatches.map(match => `
                 <div class="match-item">
                     <p><strong>Matched Source:</strong> ${match.matchedStudentName} (${match.matchedStudentEmail}) <span class="match-percent">${match.plagiarismPercent}%</span></p>
+                    <p><strong>Submitted In:</strong> ${match.sourceLabel}</p>
                     <div class="source-text-container">
-                        <strong>Matched Text:</strong>
+                        <strong>Matched Passages (${match.passageCount}):</strong>
                         <pre>${match.matchedText}</pre>
                     </div>
                 </div>
@@ -0,0 +1,166 @@
+const express = require("express");
+const multer = require("multer");
+const path = require("path");
+const fs = require("fs/promises");
+const { extractText } = require("../utils/extractors");
+const { countWords } = require("../utils/referenceLibrary");
+const ReferenceDocument = require("../models/ReferenceDocument");
+const { authenticate, requireTeacher } = require("../middleware/auth");
+
+const router = express.Router();
+const upload = multer({ dest: "temp/" }); // Configure Multer to store uploaded files temporarily
+
+const CATEGORIES = ReferenceDocument.schema.path("category").enumValues;
+
+// Fields returned when listing the library (the extracted text can be large)
+const summarize = (doc) => ({
+    id: doc._id,
+    title: doc.title,
+    category: doc.category,
+    fileName: doc.fileName,
+    fileSize: doc.fileSize,
+    wordCount: doc.wordCount,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+});
+
+/**
+ * @route   GET /
+ * @desc    List the teacher's reference library
+ * @access  Private (Teacher)
+ */
+router.get("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const documents = await ReferenceDocument.find({ teacherId: req.userId })
+            .select("-extractedText")
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({ documents: documents.map(summarize), categories: CATEGORIES });
+    } catch (error) {
+        console.error("Reference Library Error:", error);
+        res.status(500).json({ error: "Error fetching reference library" });
+    }
+});
+
+/**
+ * @route   POST /upload
+ * @desc    Add files to the reference library. Each file becomes one document titled after
+ *          the file name; `category` applies to the whole batch.
+ * @access  Private (Teacher)
+ */
+router.post("/upload", authenticate, requireTeacher, upload.array("files", 10), async (req, res) => {
+    try {
+        if (!req.files || req.files.length === 0)
+            return res.status(400).json({ error: "No files uploaded" });
+
+        const category = req.body.category || "other";
+        if (!CATEGORIES.includes(category)) {
+            return res.status(400).json({ error: "Invalid category" });
+        }
+
+        const added = [];
+        const failed = [];
+
+        for (const file of req.files) {
+            try {
+                const extractedText = (await extractText(file)).text.trim();
+                if (!extractedText)
+                    throw new Error(`No text extracted from ${file.originalname}`);
+
+                const document = await ReferenceDocument.create({
+                    teacherId: req.userId,
+                    title: path.parse(file.originalname).name,
+                    category,
+                    fileName: file.originalname,
+                    fileSize: file.size,
+                    extractedText,
+                    wordCount: countWords(extractedText),
+                });
+                added.push(summarize(document));
+            } catch (error) {
+                console.error(`Error processing ${file.originalname}:`, error);
+                failed.push({ fileName: file.originalname, error: error.message });
+            } finally {
+                // Delete temp file after processing
+                try {
+                    await fs.unlink(file.path);
+                } catch (err) {
+                    console.error(`Failed to delete temp file: ${file.path}`, err);
+                }
+            }
+        }
+
+        if (added.length === 0) {
+            return res.status(400).json({ error: "None of the files could be added", failed });
+        }
+        res.status(201).json({ message: "Reference documents added", documents: added, failed });
+    } catch (error) {
+        console.error("Reference Upload Error:", error);
+        res.status(500).json({ error: "Error adding reference documents" });
+    }
+});
+
+/**
+ * @route   GET /:documentId
+ * @desc    Get one reference document including its extracted text
+ * @access  Private (Teacher, owner of the document)
+ */
+router.get("/:documentId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const document = await ReferenceDocument.findOne({ _id: req.params.documentId, teacherId: req.userId });
+        if (!document) return res.status(404).json({ error: "Reference document not found" });
+
+        res.status(200).json({ ...summarize(document), extractedText: document.extractedText });
+    } catch (error) {
+        console.error("Reference Document Error:", error);
+        res.status(500).json({ error: "Error fetching reference document" });
+    }
+});
+
+/**
+ * @route   PUT /:documentId
+ * @desc    Rename or re-categorize a reference document
+ * @access  Private (Teacher, owner of the document)
+ */
+router.put("/:documentId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const { title, category } = req.body;
+        if (title !== undefined && !String(title).trim()) {
+            return res.status(400).json({ error: "Title cannot be empty" });
+        }
+        if (category !== undefined && !CATEGORIES.includes(category)) {
+            return res.status(400).json({ error: "Invalid category" });
+        }
+
+        const document = await ReferenceDocument.findOne({ _id: req.params.documentId, teacherId: req.userId });
+        if (!document) return res.status(404).json({ error: "Reference document not found" });
+
+        if (title !== undefined) document.title = String(title).trim();
+        if (category !== undefined) document.category = category;
+        await document.save();
+
+        res.status(200).json({ message: "Reference document updated", document: summarize(document) });
+    } catch (error) {
+        console.error("Reference Update Error:", error);
+        res.status(500).json({ error: "Error updating reference document" });
+    }
+});
+
+/**
+ * @route   DELETE /:documentId
+ * @desc    Remove a document from the reference library
+ * @access  Private (Teacher, owner of the document)
+ */
+router.delete("/:documentId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const result = await ReferenceDocument.deleteOne({ _id: req.params.documentId, teacherId: req.userId });
+        if (result.deletedCount === 0) return res.status(404).json({ error: "Reference document not found" });
+
+        res.status(200).json({ message: "Reference document deleted" });
+    } catch (error) {
+        console.error("Reference Delete Error:", error);
+        res.status(500).json({ error: "Error deleting reference document" });
+    }
+});
+
+module.exports = router;
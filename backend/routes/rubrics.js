@@ -0,0 +1,91 @@
+const express = require("express");
+const Rubric = require("../models/Rubric");
+const { parseRubric, formatRubric } = require("../utils/rubrics");
+const { authenticate, requireTeacher } = require("../middleware/auth");
+
+const router = express.Router();
+
+/**
+ * @route   GET /
+ * @desc    List the teacher's rubrics
+ * @access  Private (Teacher)
+ */
+router.get("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const rubrics = await Rubric.find({ teacherId: req.userId }).sort({ name: 1 });
+        res.status(200).json({ rubrics: rubrics.map(formatRubric) });
+    } catch (error) {
+        console.error("Rubrics Error:", error);
+        res.status(500).json({ error: "Error fetching rubrics" });
+    }
+});
+
+/**
+ * @route   POST /
+ * @desc    Create a rubric: { name, description, criteria: [{ name, description, levels: [{ label, points, descriptor }] }] }
+ * @access  Private (Teacher)
+ */
+router.post("/", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const { rubric, error } = parseRubric(req.body);
+        if (error) return res.status(400).json({ error });
+
+        const existing = await Rubric.findOne({ teacherId: req.userId, name: rubric.name });
+        if (existing) {
+            return res.status(409).json({ error: `A rubric named "${rubric.name}" already exists` });
+        }
+
+        const created = await Rubric.create({ teacherId: req.userId, ...rubric });
+        res.status(201).json({ message: "Rubric created", rubric: formatRubric(created) });
+    } catch (error) {
+        console.error("Rubric Create Error:", error);
+        res.status(500).json({ error: "Error creating rubric" });
+    }
+});
+
+/**
+ * @route   PUT /:rubricId
+ * @desc    Replace a rubric. Assignments it is attached to keep the copy they were given.
+ * @access  Private (Teacher)
+ */
+router.put("/:rubricId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const stored = await Rubric.findOne({ _id: req.params.rubricId, teacherId: req.userId });
+        if (!stored) return res.status(404).json({ error: "Rubric not found" });
+
+        const { rubric, error } = parseRubric(req.body);
+        if (error) return res.status(400).json({ error });
+
+        if (rubric.name !== stored.name) {
+            const existing = await Rubric.findOne({ teacherId: req.userId, name: rubric.name });
+            if (existing) {
+                return res.status(409).json({ error: `A rubric named "${rubric.name}" already exists` });
+            }
+        }
+
+        stored.set(rubric);
+        await stored.save();
+        res.status(200).json({ message: "Rubric updated", rubric: formatRubric(stored) });
+    } catch (error) {
+        console.error("Rubric Update Error:", error);
+        res.status(500).json({ error: "Error updating rubric" });
+    }
+});
+
+/**
+ * @route   DELETE /:rubricId
+ * @desc    Delete a rubric from the library
+ * @access  Private (Teacher)
+ */
+router.delete("/:rubricId", authenticate, requireTeacher, async (req, res) => {
+    try {
+        const result = await Rubric.deleteOne({ _id: req.params.rubricId, teacherId: req.userId });
+        if (result.deletedCount === 0) return res.status(404).json({ error: "Rubric not found" });
+        res.status(200).json({ message: "Rubric deleted" });
+    } catch (error) {
+        console.error("Rubric Delete Error:", error);
+        res.status(500).json({ error: "Error deleting rubric" });
+    }
+});
+
+module.exports = router;
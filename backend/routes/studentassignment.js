@@ -3,11 +3,15 @@ const Assignment = require("../models/Assignment");
 const Classroom = require("../models/Classroom");
 const multer = require("multer");
 const fs = require("fs/promises");
-const path = require("path");
-const pdfParse = require("pdf-parse");
-const mammoth = require("mammoth");
-const { extractTextFromImage } = require("../utils/ocr");
+const { extractText, isSupportedFile, supportedExtensions } = require("../utils/extractors");
 const { generateMinHashSignature } = require("../utils/minhash");
+const { indexSubmission } = require("../utils/corpus");
+const { storeFile, removeStoredFile, sendStoredFile } = require("../utils/fileStorage");
+const { recordAttempt, findAttempt, attemptsUsed, ensureLegacyAttempt } = require("../utils/attempts");
+const { studentDeadlines, latePenaltyPercent } = require("../utils/deadlines");
+const { countWords, formatSubmissionRules, checkFileType, checkExtraction } = require("../utils/submissionRules");
+const { formatGrade } = require("../utils/grading");
+const { annotationsOf } = require("../utils/annotations");
 const { authenticate, requireStudent, requireTeacher } = require("../middleware/auth"); 
 
 const router = express.Router();
@@ -39,15 +43,28 @@ router.get("/:assignmentId", authenticate, requireStudent, async (req, res) => {
             return res.status(403).json({ error: "You are not enrolled in this classroom" });
         }
 
-        // Sort submissions by submittedAt descending.
-        // Also, filter out any submissions where submittedAt is truly an invalid date (e.g., Date(0))
-        const studentSubmissions = assignment.submissions
-            .filter(s => s.studentId.equals(studentId) && s.submittedAt instanceof Date && s.submittedAt.getTime() > 0)
-            .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+        // The student's submission slot, with its attempts listed newest first.
+        // Placeholder slots (submittedAt = Date(0)) have no attempts yet.
+        const submissionSlot = assignment.submissions.find(s => s.studentId.equals(studentId)) || null;
+        if (submissionSlot) ensureLegacyAttempt(submissionSlot);
+        const studentSubmissions = (submissionSlot ? submissionSlot.attempts : [])
+            .filter(attempt => attempt.submittedAt instanceof Date && attempt.submittedAt.getTime() > 0)
+            .sort((a, b) => b.attemptNumber - a.attemptNumber);
 
-        // The 'latestSubmission' is simply the first one after sorting.
+        // The 'latestSubmission' is the newest attempt.
         const latestSubmission = studentSubmissions[0] || null;
 
+        // This student's own deadline (extensions) and when late submissions close
+        const { deadline: effectiveDeadline, cutoff, extension } = studentDeadlines(assignment, studentId);
+        const now = new Date();
+        const deadlinePassed = effectiveDeadline < now;
+        const submissionsClosed = !!cutoff && cutoff < now;
+
+        // Marks stay hidden until the teacher releases them
+        const gradesReleased = !!assignment.grading?.released;
+        const grade = gradesReleased && submissionSlot ? formatGrade(assignment, submissionSlot) : null;
+        const annotations = gradesReleased && submissionSlot ? annotationsOf(submissionSlot) : [];
+
         let submissionStatus = "Not Submitted"; // Default status
         let submittedAt = null;
         let latestSubmissionIsLate = false; // Flag for the latest submission's lateness
@@ -55,7 +72,7 @@ router.get("/:assignmentId", authenticate, requireStudent, async (req, res) => {
 
         if (latestSubmission) {
             // Check if the latest submission was indeed submitted after the deadline
-            const deadlineDate = new Date(assignment.deadline);
+            const deadlineDate = effectiveDeadline;
             const submissionDate = new Date(latestSubmission.submittedAt);
 
             // Set the 'late' flag for the submission if it's after the deadline.
@@ -71,7 +88,7 @@ router.get("/:assignmentId", authenticate, requireStudent, async (req, res) => {
                 submissionStatus = "Submitted (Late)"; // New status for frontend
             }
 
-        } else if (new Date(assignment.deadline) < new Date()) {
+        } else if (deadlinePassed) {
             submissionStatus = "Overdue";
         } else {
             submissionStatus = "Pending";
@@ -87,18 +104,28 @@ router.get("/:assignmentId", authenticate, requireStudent, async (req, res) => {
             description: assignment.description,
             type: assignment.type,
             deadline: assignment.deadline,
-            deadlinePassed: new Date(assignment.deadline) < new Date(),
+            effectiveDeadline,
+            extension: extension ? { deadline: extension.deadline, reason: extension.reason || "" } : null,
+            lateCutoff: assignment.canSubmitLate ? cutoff : null,
+            latePolicy: {
+                penaltyType: assignment.latePolicy?.penaltyType || "none",
+                penaltyValue: assignment.latePolicy?.penaltyValue || 0,
+                maxPenalty: assignment.latePolicy?.maxPenalty ?? 100,
+            },
+            deadlinePassed,
+            submissionsClosed,
             submissionStatus: submissionStatus,
             submittedAt: submittedAt,
             fileName: currentFileName,
             canSubmitLate: assignment.canSubmitLate,
             submissionGuidelines: assignment.submissionGuidelines,
+            submissionRules: formatSubmissionRules(assignment.submissionRules),
             latestSubmissionIsLate: latestSubmissionIsLate,
 
-            message: new Date(assignment.deadline) < new Date() && assignment.canSubmitLate
-                ? "Deadline has passed. You can still submit, but it will be marked as late."
-                : (new Date(assignment.deadline) < new Date() && !assignment.canSubmitLate
-                    ? "Deadline has passed. Submissions are no longer accepted."
+            message: submissionsClosed
+                ? "Deadline has passed. Submissions are no longer accepted."
+                : (deadlinePassed
+                    ? "Deadline has passed. You can still submit, but it will be marked as late."
                     : "You can submit your work before the deadline."),
 
             questionFile: assignment.questionFile ? {
@@ -106,22 +133,34 @@ router.get("/:assignmentId", authenticate, requireStudent, async (req, res) => {
                 contentType: assignment.questionFile.contentType
             } : undefined,
             // THESE ARE THE LINES THAT NEED TO BE *INSIDE* THE OBJECT
-            latestSubmissionTeacherRemark: latestSubmission ? latestSubmission.teacherRemark : "No remarks yet.",
-            latestSubmissionPlagiarismPercent: latestSubmission ? latestSubmission.plagiarismPercent : null, // Make sure this has a comma before it if it's not the last property
-
-            submissions: studentSubmissions.map(sub => ({
-                _id: sub._id,
-                fileName: sub.fileName,
-                submittedAt: sub.submittedAt,
-                plagiarismPercent: sub.plagiarismPercent,
-                teacherRemark: sub.teacherRemark,
-                status: sub.status,
-                late: sub.late || false,
-                fileSize: sub.fileSize,
-                submitted: sub.submitted,
-                // The `teacherRemark` is already explicitly included above from `sub.teacherRemark`
-                // No need for a duplicate `teacherRemark: sub.teacherRemark` here.
-            }))
+            latestSubmissionTeacherRemark: latestSubmission ? submissionSlot.teacherRemark : "No remarks yet.",
+            latestSubmissionPlagiarismPercent: latestSubmission ? submissionSlot.plagiarismPercent : null, // Make sure this has a comma before it if it's not the last property
+
+            maxAttempts: assignment.maxAttempts || null,
+            attemptsUsed: studentSubmissions.length,
+            gradesReleased,
+            grade,
+            annotations, // Teacher comments on the text of each attempt, with grades
+
+            // Remarks and similarity belong to the attempt the teacher assessed
+            submissions: studentSubmissions.map(attempt => {
+                const isAssessed = attempt.attemptNumber === (submissionSlot.checkedAttempt || studentSubmissions[0].attemptNumber);
+                return {
+                    _id: attempt._id || `${submissionSlot._id}-${attempt.attemptNumber}`,
+                    attemptNumber: attempt.attemptNumber,
+                    fileName: attempt.fileName,
+                    submittedAt: attempt.submittedAt,
+                    plagiarismPercent: isAssessed ? submissionSlot.plagiarismPercent : null,
+                    teacherRemark: isAssessed ? submissionSlot.teacherRemark : undefined,
+                    late: attempt.late || false,
+                    latePenalty: attempt.latePenalty || 0,
+                    score: grade && grade.attemptNumber === attempt.attemptNumber ? grade.finalScore : undefined,
+                    fileSize: attempt.fileSize,
+                    submitted: true,
+                    hasOriginalFile: !!attempt.originalFile?.key,
+                    isAssessed,
+                };
+            })
         };
 
         res.status(200).json(response);
@@ -186,6 +225,41 @@ router.get("/download-question/:assignmentId", authenticate, requireStudent, asy
     }
 });
 
+// GET /studentassignment/submission-file/:assignmentId
+// The student's own submitted document: previewed inline, or downloaded with ?download=true.
+// ?attempt=N selects an earlier attempt; the latest is sent by default.
+router.get("/submission-file/:assignmentId", authenticate, requireStudent, async (req, res) => {
+    try {
+        const assignment = await Assignment.findById(req.params.assignmentId).select("submissions");
+        if (!assignment) {
+            return res.status(404).json({ error: "Assignment not found" });
+        }
+
+        const submission = assignment.submissions.find(
+            (sub) => sub.studentId && sub.studentId.toString() === req.userId.toString()
+        );
+        if (!submission || !submission.submitted) {
+            return res.status(404).json({ error: "Submitted file not found" });
+        }
+
+        ensureLegacyAttempt(submission);
+        const attempt = req.query.attempt
+            ? findAttempt(submission, parseInt(req.query.attempt, 10))
+            : submission.attempts[submission.attempts.length - 1];
+        if (!attempt || !attempt.originalFile?.key) {
+            return res.status(404).json({ error: "Submitted file not found" });
+        }
+
+        sendStoredFile(res, attempt.originalFile, {
+            fileName: attempt.fileName,
+            download: req.query.download === "true",
+        });
+    } catch (err) {
+        console.error("Error sending submitted file:", err);
+        res.status(500).json({ error: "Internal Server Error" });
+    }
+});
+
 // POST /studentassignment/:assignmentId/submit
 router.post(
   "/:assignmentId/submit",
@@ -202,67 +276,51 @@ router.post(
 
     const file = req.file;
     const filePath = file.path;
-    const fileExt = path.extname(file.originalname).toLowerCase();
-
-    // Allow only specific file types
-    const allowedExtensions = [".pdf", ".docx", ".doc", ".jpg", ".jpeg", ".png"];
-    const allowedMimeTypes = [
-      "application/pdf",
-      "application/msword",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      "image/jpeg",
-      "image/png",
-    ];
-
-    if (!allowedExtensions.includes(fileExt) || !allowedMimeTypes.includes(file.mimetype)) {
+
+    // Allow only file types an extractor is registered for
+    if (!isSupportedFile(file)) {
       try {
         await fs.unlink(filePath);
       } catch (err) {
         console.error("Failed to delete invalid file:", err);
       }
-      return res.status(400).json({ error: `Unsupported file type: ${file.originalname}` });
+      return res.status(400).json({
+        error: `Unsupported file type: ${file.originalname}. Supported formats: ${supportedExtensions().join(", ")}`,
+      });
     }
 
-    let extractedText = "";
-
     try {
-      // Extract text based on file type
-      if (fileExt === ".pdf") {
-        try {
-          const pdfData = await pdfParse(await fs.readFile(filePath));
-          extractedText = pdfData.text;
-        } catch (err) {
-          console.warn("pdf-parse failed, falling back to OCR:", err.message);
-          extractedText = await extractTextFromImage(filePath);
-        }
+      // Fetch assignment and validate submission record
+      const assignment = await Assignment.findById(assignmentId);
+      if (!assignment) return res.status(404).json({ error: "Assignment not found" });
 
-        // Fallback if text is too short
-        if (!extractedText.trim() || extractedText.length < 50) {
-          console.log("PDF text is too short, retrying with OCR...");
-          extractedText = await extractTextFromImage(filePath);
-        }
-      } else if ([".doc", ".docx"].includes(fileExt)) {
-        const docData = await mammoth.extractRawText({ path: filePath });
-        extractedText = docData.value;
-      } else if ([".jpg", ".jpeg", ".png"].includes(fileExt)) {
-        extractedText = await extractTextFromImage(filePath);
-      } else {
-        return res.status(400).json({ error: `Unsupported file format: ${file.originalname}` });
+      // The teacher may accept only some file types; check before the (possibly OCR) extraction
+      const fileTypeError = checkFileType(assignment.submissionRules, file.originalname);
+      if (fileTypeError) {
+        await fs.unlink(filePath).catch(() => {});
+        return res.status(400).json({ error: fileTypeError });
       }
 
+      // Extract text based on file type (scanned PDF pages and images are OCR'd)
+      const extraction = await extractText(file);
+      const extractedText = extraction.text;
+
       // Final validation of extracted text
       if (!extractedText.trim()) {
         return res.status(400).json({ error: "No readable text could be extracted from the file." });
       }
 
+      // Word count and page limits from the submission guidelines
+      const rulesError = checkExtraction(assignment.submissionRules, extraction);
+      if (rulesError) {
+        await fs.unlink(filePath).catch(() => {});
+        return res.status(400).json({ error: rulesError });
+      }
+
       // Calculate word count and minhash signature
-      const wordCount = (extractedText.match(/\b\w+\b/g) || []).length;
+      const wordCount = countWords(extractedText);
       const minHashSignature = generateMinHashSignature(extractedText);
 
-      // Fetch assignment and validate submission record
-      const assignment = await Assignment.findById(assignmentId);
-      if (!assignment) return res.status(404).json({ error: "Assignment not found" });
-
       const submission = assignment.submissions.find(
         (sub) => sub.studentId.toString() === studentId.toString()
       );
@@ -272,31 +330,73 @@ router.post(
       }
 
       const now = new Date();
-      const deadline = new Date(assignment.deadline);
+      const { deadline, cutoff } = studentDeadlines(assignment, studentId);
       const isLate = now > deadline;
 
-      if (isLate && !assignment.canSubmitLate) {
+      if (cutoff && now > cutoff) {
         try {
           await fs.unlink(filePath);
         } catch (err) {
           console.error("Cleanup error after deadline fail:", err);
         }
-        return res.status(403).json({ error: "Deadline has passed and late submissions are not allowed." });
+        return res.status(403).json({
+          error: assignment.canSubmitLate
+            ? "The late submission window has closed."
+            : "Deadline has passed and late submissions are not allowed.",
+        });
+      }
+
+      if (assignment.maxAttempts && attemptsUsed(submission) >= assignment.maxAttempts) {
+        await fs.unlink(filePath).catch(() => {});
+        return res.status(403).json({
+          error: `You have used all ${assignment.maxAttempts} attempt(s) allowed for this ${assignment.type.toLowerCase()}.`,
+        });
       }
 
-      // Update submission record
-      submission.submitted = true;
-      submission.submittedAt = now;
-      submission.fileName = file.originalname;
-      submission.fileSize = file.size;
-      submission.extractedText = extractedText;
-      submission.wordCount = wordCount;
-      submission.minHashSignature = minHashSignature;
-      submission.late = isLate;
+      // Keep the original document so every attempt can be previewed and downloaded later
+      const originalFile = await storeFile(file, { assignmentId, studentId });
+
+      // Record the upload as a new attempt; earlier attempts are kept
+      const attempt = await recordAttempt(assignment._id, submission, {
+        submittedAt: now,
+        late: isLate,
+        latePenalty: latePenaltyPercent(assignment, studentId, now),
+        fileName: file.originalname,
+        fileSize: file.size,
+        originalFile,
+        extractedText,
+        extraction: {
+          extractor: extraction.extractor,
+          ocrProvider: extraction.ocrProvider,
+          pages: extraction.pages,
+        },
+        wordCount,
+        minHashSignature,
+      });
+
+      try {
+        await assignment.save();
+      } catch (err) {
+        await removeStoredFile(originalFile);
+        throw err;
+      }
+      await fs.unlink(filePath).catch(() => {});
 
-      await assignment.save();
+      // Add the submission to the teacher's corpus; a failure here must not fail the submission
+      try {
+        const classroom = await Classroom.findById(assignment.classroomId);
+        if (classroom) await indexSubmission(assignment, classroom, submission);
+      } catch (err) {
+        console.error("Corpus indexing failed:", err);
+      }
 
-      res.status(200).json({ message: "Submission successful" });
+      res.status(200).json({
+        message: "Submission successful",
+        attemptNumber: attempt.attemptNumber,
+        late: attempt.late,
+        latePenalty: attempt.latePenalty,
+        attemptsRemaining: assignment.maxAttempts ? Math.max(0, assignment.maxAttempts - attemptsUsed(submission)) : null,
+      });
     } catch (error) {
       console.error("Submission error:", error);
       try {
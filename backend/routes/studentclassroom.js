@@ -2,6 +2,8 @@ const express = require("express");
 const Classroom = require("../models/Classroom");
 const Assignment = require("../models/Assignment");
 const User = require("../models/User");
+const { enrollStudent } = require("../utils/enrollment");
+const { studentDeadlines } = require("../utils/deadlines");
 const { authenticate, requireStudent, requireTeacher } = require("../middleware/auth"); 
 const router = express.Router();
 
@@ -44,14 +46,15 @@ router.get("/dashboard", authenticate, requireStudent, async (req, res) => {
                     submitted++;
                     completedAssignments++;
                 }
-                // Determine next due assignment
+                // Determine next due assignment (by this student's own deadline)
+                const { deadline } = studentDeadlines(assignment, studentId);
                 const isUpcoming =
-                    !nextDue || new Date(assignment.deadline) < new Date(nextDue);
+                    !nextDue || deadline < new Date(nextDue);
                 if (!submission || !submission.submitted) {
                     if (isUpcoming) {
-                        nextDue = assignment.deadline;
+                        nextDue = deadline;
                         nextDueTitle = assignment.title;
-                        pastDue = new Date(assignment.deadline) < new Date();
+                        pastDue = deadline < new Date();
                     }
                 }
             }
@@ -83,6 +86,41 @@ router.get("/dashboard", authenticate, requireStudent, async (req, res) => {
     }
 });
 
+// Why a class code cannot be used right now, or null when it can
+const classCodeUnavailable = (classroom) => {
+    const settings = classroom.joinSettings || {};
+    if (settings.enabled === false) return "This class code has been disabled by the teacher.";
+    if (settings.expiresAt && settings.expiresAt <= new Date()) return "This class code has expired. Ask your teacher for a new one.";
+    if (settings.maxUses && settings.uses >= settings.maxUses) return "This class code has reached its maximum number of uses.";
+    return null;
+};
+
+// Join link preview route (/join/:classCode on the frontend)
+router.get("/join-preview/:classCode", authenticate, requireStudent, async (req, res) => {
+    try {
+        const classroom = await Classroom.findOne({ classCode: req.params.classCode })
+            .select("name description teacherId joinSettings students.studentId pendingJoins.studentId")
+            .populate("teacherId", "name");
+        if (!classroom) {
+            return res.status(404).json({ error: "Classroom not found with the provided code." });
+        }
+
+        res.status(200).json({
+            name: classroom.name,
+            description: classroom.description,
+            teacherName: classroom.teacherId?.name || null,
+            requireApproval: !!classroom.joinSettings?.requireApproval,
+            unavailableReason: classCodeUnavailable(classroom),
+            enrolled: classroom.students.some(s => s.studentId.equals(req.userId)),
+            pending: classroom.pendingJoins.some(p => p.studentId.equals(req.userId)),
+            classroomId: classroom._id,
+        });
+    } catch (error) {
+        console.error("Error previewing class code:", error);
+        res.status(500).json({ error: "Internal server error" });
+    }
+});
+
 // Join Classroom route
 router.post("/join", authenticate, requireStudent, async (req, res) => {
     try {
@@ -94,8 +132,8 @@ router.post("/join", authenticate, requireStudent, async (req, res) => {
             return res.status(400).json({ error: "Class code is required" });
         }
 
-        // Find classroom using class code and populate assignments
-        const classroom = await Classroom.findOne({ classCode: classCode }).populate("assignments");
+        // Find classroom using class code
+        const classroom = await Classroom.findOne({ classCode: classCode });
 
         // Handle classroom not found
         if (!classroom) {
@@ -109,7 +147,16 @@ router.post("/join", authenticate, requireStudent, async (req, res) => {
 
         // Prevent duplicate enrollment
         if (classroom.students.some(s => s.studentId.equals(studentId))) {
-            return res.status(409).json({ message: "Already enrolled in this class." });
+            return res.status(409).json({ error: "You are already enrolled in this class." });
+        }
+        if (classroom.pendingJoins.some(p => p.studentId.equals(studentId))) {
+            return res.status(409).json({ error: "Your request to join this class is waiting for teacher approval." });
+        }
+
+        // Disabled, expired or used-up codes cannot be used
+        const unavailable = classCodeUnavailable(classroom);
+        if (unavailable) {
+            return res.status(403).json({ error: unavailable });
         }
 
         // Retrieve student details
@@ -118,32 +165,39 @@ router.post("/join", authenticate, requireStudent, async (req, res) => {
             return res.status(404).json({ error: "Student not found" });
         }
 
-        // Add student to the classroom
-        classroom.students.push({
-            studentId,
-            name: student.name,
-            email: student.email
-        });
-        classroom.numStudents += 1;
+        // Count the use atomically so concurrent joins cannot exceed maxUses
+        const counted = await Classroom.updateOne(
+            {
+                _id: classroom._id,
+                classCode: classroom.classCode,
+                $or: [
+                    { "joinSettings.maxUses": null },
+                    { $expr: { $lt: ["$joinSettings.uses", "$joinSettings.maxUses"] } },
+                ],
+            },
+            { $inc: { "joinSettings.uses": 1 } }
+        );
+        if (!counted.modifiedCount) {
+            return res.status(403).json({ error: "This class code has reached its maximum number of uses." });
+        }
 
-        // Create empty submission record for each assignment
-        for (const assignment of classroom.assignments) {
-            if (!assignment.submissions) {
-                assignment.submissions = [];
-            }
-            assignment.submissions.push({
-                studentId,
-                name: student.name,
-                email: student.email,
-                submitted: false
+        // With approval required, the student waits in the teacher's queue
+        if (classroom.joinSettings?.requireApproval) {
+            classroom.pendingJoins.push({ studentId, name: student.name, email: student.email });
+            await classroom.save();
+            return res.status(202).json({
+                status: "pending",
+                message: `Your request to join ${classroom.name} was sent. You will see the class once your teacher approves it.`,
             });
-            await assignment.save();
         }
 
+        // Add student to the classroom with an empty submission for each assignment and exam
+        await enrollStudent(classroom, student);
+
         // Save updated classroom document
         await classroom.save();
 
-        res.status(200).json({ message: `Successfully joined ${classroom.name}!` });
+        res.status(200).json({ status: "joined", message: `Successfully joined ${classroom.name}!`, classroomId: classroom._id });
     } catch (error) {
         console.error("Error joining class:", error);
         res.status(500).json({ error: "Internal server error" });
@@ -188,7 +242,8 @@ router.get("/:classroomId", authenticate, requireStudent, async (req, res) => {
                 const submitted = !!latestSubmission;
                 const submittedAt = latestSubmission?.submittedAt || null;
 
-                const deadlineDate = new Date(item.deadline);
+                // Extensions give a student their own deadline
+                const { deadline: deadlineDate, extension } = studentDeadlines(item, studentId);
                 const now = new Date();
                 const isOverdue = deadlineDate < now && !submitted;
 
@@ -197,7 +252,8 @@ router.get("/:classroomId", authenticate, requireStudent, async (req, res) => {
                     type: item.type,
                     title: item.title,
                     description: item.description,
-                    deadline: item.deadline,
+                    deadline: deadlineDate,
+                    hasExtension: !!extension,
                     submitted: submitted,
                     submittedAt: submittedAt,
                     isOverdue: isOverdue,
@@ -1,7 +1,6 @@
 const express = require("express");
 const multer = require("multer");
-const path = require("path");
-const { extractTextFromImage } = require("../utils/ocr");
+const { extractText, isSupportedFile } = require("../utils/extractors");
 const Document = require("../models/Document");
 const router = express.Router();
 
@@ -15,14 +14,10 @@ router.post("/upload", upload.single("file"), async (req, res) => {
         const teacherId = req.body.teacherId;
         if (!req.file) return res.status(400).json({ error: "No file uploaded" });
 
-        const fileExt = path.extname(req.file.originalname).toLowerCase();
-        let extractedText = "";
-
-        if ([".png", ".jpg", ".jpeg"].includes(fileExt)) {
-            extractedText = await extractTextFromImage(req.file.buffer);
-        } else {
+        if (!isSupportedFile(req.file)) {
             return res.status(400).json({ error: "Unsupported file format" });
         }
+        const { text: extractedText } = await extractText(req.file);
 
         // Store extracted text temporarily in database
         const document = new Document({ teacherId, text: extractedText });
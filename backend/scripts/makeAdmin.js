@@ -0,0 +1,38 @@
+// Promote an existing account to admin: npm run make-admin -- user@example.com
+// Admins cannot sign up through the app, so the first one is created from the server.
+const mongoose = require("mongoose");
+const dotenv = require("dotenv");
+const path = require("path");
+const User = require("../models/User");
+const { revokeAllSessions } = require("../utils/session");
+
+dotenv.config({ path: path.join(__dirname, "..", ".env") });
+
+const main = async () => {
+    const email = (process.argv[2] || "").trim().toLowerCase();
+    if (!email) {
+        console.error("Usage: npm run make-admin -- <email>");
+        process.exit(1);
+    }
+
+    await mongoose.connect(process.env.MONGO_URI, { serverSelectionTimeoutMS: 5000 });
+    try {
+        const user = await User.findOneAndUpdate({ email }, { role: "admin" }, { new: true });
+        if (!user) {
+            console.error(`No account found with email ${email}`);
+            process.exitCode = 1;
+            return;
+        }
+
+        // Existing sessions carry the old role; the user signs in again as an admin
+        await revokeAllSessions(user._id);
+        console.log(`${user.name} <${user.email}> is now an admin`);
+    } finally {
+        await mongoose.disconnect();
+    }
+};
+
+main().catch((err) => {
+    console.error("Make Admin Error:", err);
+    process.exit(1);
+});
@@ -11,6 +11,7 @@ const app = express();
 dotenv.config();
 
 const authRoutes = require("./routes/auth");
+const oidcRoutes = require("./routes/oidc");
 const ocrUploadRoutes = require("./routes/OCRuploadcheck");
 const courseRoutes = require("./routes/classroom");
 const onlineCheckRoutes = require("./routes/OCRonlinecheck");
@@ -18,6 +19,14 @@ const assignmentRoutes = require("./routes/assignment");
 const studentClassroomRoutes = require('./routes/studentclassroom');
 const studentAssignmentRoutes = require("./routes/studentassignment");
 const plagiarismReportRoutes = require('./routes/plagiarismReportRoutes');
+const corpusRoutes = require("./routes/corpus");
+const referenceLibraryRoutes = require("./routes/referenceLibrary");
+const guidelineTemplateRoutes = require("./routes/guidelineTemplates");
+const rubricRoutes = require("./routes/rubrics");
+const jobRoutes = require("./routes/jobs");
+const fileFormatRoutes = require("./routes/fileFormats");
+const adminRoutes = require("./routes/admin");
+const { recoverInterruptedJobs } = require("./utils/jobQueue");
 
 // Middleware
 app.use(express.json());
@@ -26,6 +35,7 @@ app.use(morgan("dev"));
 app.use(cors({ origin: process.env.CLIENT_URL || "*" }));
 
 // Routes
+app.use("/api/auth/oidc", oidcRoutes);
 app.use("/api/auth", authRoutes);
 app.use("/api/uploadcheck", ocrUploadRoutes);
 app.use("/api/courses", courseRoutes);
@@ -35,6 +45,13 @@ app.use("/api/assignment", assignmentRoutes);
 app.use('/api/studentcourses', studentClassroomRoutes);
 app.use("/api/studentassignment", studentAssignmentRoutes);
 app.use('/api/plagiarism-reports', plagiarismReportRoutes);
+app.use("/api/corpus", corpusRoutes);
+app.use("/api/reference-library", referenceLibraryRoutes);
+app.use("/api/guideline-templates", guidelineTemplateRoutes);
+app.use("/api/rubrics", rubricRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/file-formats", fileFormatRoutes);
+app.use("/api/admin", adminRoutes);
 
 // Health Check
 app.get("/", (req, res) => res.status(200).json({ message: "VeriWrite API is running!" }));
@@ -59,6 +76,9 @@ const connectDB = async () => {
         });
 
         console.log("MongoDB Connected Successfully");
+
+        // Jobs queued or running when the server last stopped can never finish
+        await recoverInterruptedJobs();
     } catch (err) {
         console.error("MongoDB Connection Error:", err);
         process.exit(1); // Exit process with failure
@@ -0,0 +1,87 @@
+// Admin user listing in routes/admin.js: query values go into the MongoDB filter, so only
+// known role strings are accepted. User lookups are stubbed, so no database is needed.
+
+const { describe, it, before, after, beforeEach, mock } = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const request = require("supertest");
+const jwt = require("jsonwebtoken");
+const mongoose = require("mongoose");
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+mongoose.set("bufferCommands", false);
+
+const User = require("../models/User");
+
+const tokenFor = (role) => `Bearer ${jwt.sign({ userId: new mongoose.Types.ObjectId().toString(), role }, process.env.JWT_SECRET)}`;
+
+// Minimal chainable stand-in for a mongoose Query
+const query = (value) => ({
+    select() { return this; },
+    sort() { return this; },
+    skip() { return this; },
+    limit() { return this; },
+    lean() { return this; },
+    then(resolve, reject) { return Promise.resolve(value).then(resolve, reject); },
+});
+
+describe("GET /api/admin/users", () => {
+    let app;
+    let filters;
+
+    const list = (queryString, role = "admin") => request(app)
+        .get(`/api/admin/users${queryString}`)
+        .set("Authorization", tokenFor(role));
+
+    before(() => {
+        mock.method(User, "find", (filter) => {
+            filters.push(filter);
+            return query([]);
+        });
+        mock.method(User, "countDocuments", async () => 0);
+
+        app = express();
+        app.use(express.json());
+        app.use("/api/admin", require("../routes/admin"));
+    });
+
+    after(() => mock.restoreAll());
+
+    beforeEach(() => {
+        filters = [];
+    });
+
+    it("filters by each known role", async () => {
+        for (const role of ["student", "teacher", "admin"]) {
+            const res = await list(`?role=${role}`);
+            assert.equal(res.status, 200);
+        }
+        assert.deepEqual(filters.map((filter) => filter.role), ["student", "teacher", "admin"]);
+    });
+
+    it("lists every role when none is given", async () => {
+        const res = await list("");
+        assert.equal(res.status, 200);
+        assert.equal(filters[0].role, undefined);
+    });
+
+    it("rejects unknown roles and non-string values with 400", async () => {
+        for (const queryString of ["?role=superuser", "?role[$ne]=admin", "?role=admin&role=teacher", "?role="]) {
+            const res = await list(queryString);
+            assert.equal(res.status, 400, queryString);
+            assert.match(res.body.error, /^Role must be one of/);
+        }
+        assert.equal(filters.length, 0);
+    });
+
+    it("ignores a search that is not a string", async () => {
+        const res = await list("?search[$gt]=a");
+        assert.equal(res.status, 200);
+        assert.equal(filters[0].$or, undefined);
+    });
+
+    it("is for admins only", async () => {
+        const res = await list("?role=teacher", "teacher");
+        assert.equal(res.status, 403);
+    });
+});
@@ -0,0 +1,69 @@
+// Passage alignment between two submissions (utils/alignment)
+
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { findAlignedPassages, excerptPassages } = require("../utils/alignment");
+
+const COPIED = "the industrial revolution changed how people worked and where they lived across europe";
+
+describe("findAlignedPassages", () => {
+    it("finds a copied passage and points at it in both texts", () => {
+        const source = `My essay starts here. ${COPIED}. Then it ends.`;
+        const matched = `Another introduction entirely. ${COPIED}. A different ending follows.`;
+
+        const passages = findAlignedPassages(source, matched);
+
+        assert.equal(passages.length, 1);
+        const [passage] = passages;
+        assert.equal(source.slice(passage.sourceStart, passage.sourceEnd), COPIED);
+        assert.equal(matched.slice(passage.matchedStart, passage.matchedEnd), COPIED);
+        assert.equal(passage.wordCount, 13);
+    });
+
+    it("keeps a passage together across a small edit", () => {
+        const edited = COPIED.replace("people", "workers");
+        const passages = findAlignedPassages(`Opening words. ${COPIED}.`, `Something else. ${edited}.`);
+
+        assert.equal(passages.length, 1);
+        assert.equal(passages[0].wordCount, 13);
+    });
+
+    it("ignores overlaps shorter than the minimum passage length", () => {
+        assert.deepEqual(findAlignedPassages("alpha beta gamma delta epsilon zeta", "alpha beta gamma delta epsilon zeta"), []);
+    });
+
+    it("matches case-insensitively and ignores punctuation", () => {
+        const passages = findAlignedPassages(COPIED.toUpperCase(), COPIED.split(" ").join(", "));
+        assert.equal(passages.length, 1);
+    });
+
+    it("returns nothing for empty or unrelated texts", () => {
+        assert.deepEqual(findAlignedPassages("", COPIED), []);
+        assert.deepEqual(findAlignedPassages(null, COPIED), []);
+        assert.deepEqual(findAlignedPassages(COPIED, "completely unrelated words that share nothing with the other text at all"), []);
+    });
+
+    it("orders several passages by their position in the source", () => {
+        const second = "photosynthesis turns light water and carbon dioxide into sugar and oxygen inside green leaves";
+        const source = `${COPIED}. Some words of my own in between here. ${second}.`;
+        const matched = `${second}. Unrelated filler sentence. ${COPIED}.`;
+
+        const passages = findAlignedPassages(source, matched);
+
+        assert.equal(passages.length, 2);
+        assert.ok(passages[0].sourceStart < passages[1].sourceStart);
+        assert.equal(source.slice(passages[1].sourceStart, passages[1].sourceEnd), second);
+        assert.equal(matched.slice(passages[1].matchedStart, passages[1].matchedEnd), second);
+    });
+});
+
+describe("excerptPassages", () => {
+    it("joins the matched side of each passage", () => {
+        const text = "one two three four five";
+        const excerpt = excerptPassages(text, [
+            { matchedStart: 0, matchedEnd: 3 },
+            { matchedStart: 14, matchedEnd: 18 },
+        ]);
+        assert.equal(excerpt, "one\n…\nfour");
+    });
+});
@@ -0,0 +1,207 @@
+// Route-level checks of requireClassroomAccess: every classroom-scoped route lets the owner
+// in, lets co-teachers and teaching assistants in when their role has the route's permission,
+// and turns away other teachers (403) and requests for missing resources (404). Model lookups are
+// stubbed, so no database is needed; handlers that go on to query MongoDB fail fast with
+// buffering disabled, which is enough to show the request got past the access check.
+
+const { describe, it, before, after, mock } = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const request = require("supertest");
+const jwt = require("jsonwebtoken");
+const mongoose = require("mongoose");
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+mongoose.set("bufferCommands", false);
+
+const Classroom = require("../models/Classroom");
+const Assignment = require("../models/Assignment");
+
+const id = () => new mongoose.Types.ObjectId();
+
+const ownerId = id();
+const coTeacherId = id();
+const taId = id();
+const otherTeacherId = id();
+const classroomId = id();
+const assignmentId = id();
+const missingId = id();
+const studentId = id();
+
+const tokenFor = (userId) => `Bearer ${jwt.sign({ userId: userId.toString(), role: "teacher" }, process.env.JWT_SECRET)}`;
+
+// Minimal chainable stand-in for a mongoose Query
+const query = (value) => ({
+    select() { return this; },
+    lean() { return this; },
+    populate() { return this; },
+    then(resolve, reject) { return Promise.resolve(value).then(resolve, reject); },
+});
+
+const classroomDoc = () => new Classroom({
+    _id: classroomId,
+    name: "Test Classroom",
+    teacherId: ownerId,
+    staff: [{ userId: coTeacherId, role: "co-teacher" }, { userId: taId, role: "ta" }],
+    classCode: "TEST01",
+});
+
+// [method, path, what the path or body refers to, permission]
+const ROUTES = [
+    // routes/assignment.js
+    ["post", "/api/assignment/create-assignment", "classroomBody", "manageAssignments"],
+    ["get", "/api/assignment/view/:assignmentId", "assignment", "view"],
+    ["post", "/api/assignment/check-plagiarism/:assignmentId", "assignment", "grade"],
+    ["get", "/api/assignment/lsh-settings/:assignmentId", "assignment", "view"],
+    ["put", "/api/assignment/lsh-settings/:assignmentId", "assignment", "manageAssignments"],
+    ["get", "/api/assignment/corpus-settings/:assignmentId", "assignment", "view"],
+    ["put", "/api/assignment/corpus-settings/:assignmentId", "assignment", "manageAssignments"],
+    ["get", "/api/assignment/view-report/:assignmentId/:studentId", "assignment", "view"],
+    ["put", "/api/assignment/:assignmentId", "assignment", "manageAssignments"],
+    ["delete", "/api/assignment/delete/:assignmentId", "assignment", "manageAssignments"],
+    ["get", "/api/assignment/submission-file/:assignmentId/:studentId", "assignment", "view"],
+    ["get", "/api/assignment/attempts/:assignmentId/:studentId", "assignment", "view"],
+    ["get", "/api/assignment/attempt-diff/:assignmentId/:studentId", "assignment", "view"],
+    ["put", "/api/assignment/checked-attempt/:assignmentId/:studentId", "assignment", "grade"],
+    ["put", "/api/assignment/attempt-settings/:assignmentId", "assignment", "manageAssignments"],
+    ["put", "/api/assignment/late-policy/:assignmentId", "assignment", "manageAssignments"],
+    ["get", "/api/assignment/extensions/:assignmentId", "assignment", "view"],
+    ["put", "/api/assignment/extensions/:assignmentId/:studentId", "assignment", "manageAssignments"],
+    ["delete", "/api/assignment/extensions/:assignmentId/:studentId", "assignment", "manageAssignments"],
+    ["get", "/api/assignment/view-extracted-text/:assignmentId/:studentId", "assignment", "view"],
+    ["put", "/api/assignment/submission/remark/:assignmentId/:studentId", "assignment", "grade"],
+    ["put", "/api/assignment/grading/:assignmentId", "assignment", "manageAssignments"],
+    ["put", "/api/assignment/grading/release/:assignmentId", "assignment", "grade"],
+    ["put", "/api/assignment/grading/rubric/:assignmentId", "assignment", "manageAssignments"],
+    ["delete", "/api/assignment/grading/rubric/:assignmentId", "assignment", "manageAssignments"],
+    ["put", "/api/assignment/grade/:assignmentId/:studentId", "assignment", "grade"],
+    ["delete", "/api/assignment/grade/:assignmentId/:studentId", "assignment", "grade"],
+    ["post", "/api/assignment/annotations/:assignmentId/:studentId", "assignment", "grade"],
+    ["put", "/api/assignment/annotations/:assignmentId/:studentId/:annotationId", "assignment", "grade"],
+    ["delete", "/api/assignment/annotations/:assignmentId/:studentId/:annotationId", "assignment", "grade"],
+
+    // routes/classroom.js
+    ["post", "/api/courses/add-student", "classroomBody", "manageStudents"],
+    ["get", "/api/courses/view-course/:classroomId", "classroomParam", "view"],
+    ["get", "/api/courses/students/:classroomId", "classroomParam", "view"],
+    ["post", "/api/courses/block-student", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/unblock-student", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/remove-student", "classroomBody", "manageStudents"],
+    ["delete", "/api/courses/delete-classroom/:classroomId", "classroomParam", "deleteClassroom"],
+    ["get", "/api/courses/staff/:classroomId", "classroomParam", "view"],
+    ["post", "/api/courses/staff/invite", "classroomBody", "manageStaff"],
+    ["put", "/api/courses/staff/role", "classroomBody", "manageStaff"],
+    ["post", "/api/courses/staff/remove", "classroomBody", "manageStaff"],
+    ["post", "/api/courses/staff/revoke-invite", "classroomBody", "manageStaff"],
+    ["get", "/api/courses/join-settings/:classroomId", "classroomParam", "view"],
+    ["put", "/api/courses/join-settings", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/regenerate-code", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/join-requests/approve", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/join-requests/reject", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/roster/import", "classroomBody", "manageStudents"],
+    ["post", "/api/courses/roster/revoke-invite", "classroomBody", "manageStudents"],
+    ["get", "/api/courses/roster/export/:classroomId", "classroomParam", "view"],
+    ["get", "/api/courses/gradebook/:classroomId", "classroomParam", "view"],
+    ["get", "/api/courses/gradebook/export/:classroomId", "classroomParam", "view"],
+
+    // routes/corpus.js
+    ["delete", "/api/corpus/assignment/:assignmentId", "assignment", "manageAssignments"],
+
+    // routes/plagiarismReportRoutes.js
+    ["get", "/api/plagiarism-reports/:assignmentId/:studentId/download", "assignment", "view"],
+];
+
+// Staff roles checked on every route, with the user holding each role
+const STAFF = [["co-teacher", coTeacherId], ["ta", taId]];
+
+// Which staff roles each permission admits, written out rather than read from utils/classroomStaff
+const ACCESS = {
+    view: { "co-teacher": true, ta: true },
+    grade: { "co-teacher": true, ta: true },
+    manageAssignments: { "co-teacher": true, ta: false },
+    manageStudents: { "co-teacher": true, ta: false },
+    manageStaff: { "co-teacher": false, ta: false },
+    deleteClassroom: { "co-teacher": false, ta: false },
+};
+
+const ACCESS_DENIED = /^Access denied/;
+
+function buildApp() {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/assignment", require("../routes/assignment"));
+    app.use("/api/courses", require("../routes/classroom"));
+    app.use("/api/corpus", require("../routes/corpus"));
+    app.use("/api/plagiarism-reports", require("../routes/plagiarismReportRoutes"));
+    return app;
+}
+
+// Sends a request to a route, pointing its classroom or assignment reference at `targetId`
+function send(app, [method, path, target], userId, targetId) {
+    const url = path
+        .replace(":assignmentId", target === "assignment" ? targetId : assignmentId)
+        .replace(":classroomId", target === "classroomParam" ? targetId : classroomId)
+        .replace(":studentId", studentId)
+        .replace(":annotationId", id());
+    const body = target === "classroomBody" ? { classroomId: targetId.toString() } : {};
+    return request(app)[method](url).set("Authorization", tokenFor(userId)).send(body);
+}
+
+const notFoundMessage = (target) => (target === "assignment" ? "Assignment not found" : "Classroom not found");
+
+// The request reached the route handler: whatever it answered, it was not the access check
+function assertAllowed(res, target) {
+    assert.ok(res.status !== 401 && res.status !== 403, `expected access, got ${res.status} ${res.body.error || ""}`);
+    assert.ok(!(res.status === 404 && res.body.error === notFoundMessage(target)), "expected the resource to be found");
+}
+
+describe("classroom-scoped routes", () => {
+    let app;
+
+    before(() => {
+        mock.method(console, "error", () => {});
+        mock.method(Classroom, "findById", (classroom) => query(classroom?.toString() === classroomId.toString() ? classroomDoc() : null));
+        mock.method(Assignment, "findById", (assignment) =>
+            query(assignment?.toString() === assignmentId.toString() ? { _id: assignmentId, classroomId } : null)
+        );
+        app = buildApp();
+    });
+
+    after(() => mock.restoreAll());
+
+    for (const route of ROUTES) {
+        const [method, path, target, permission] = route;
+        const targetId = target === "assignment" ? assignmentId : classroomId;
+
+        describe(`${method.toUpperCase()} ${path}`, () => {
+            it("lets the owner in", async () => {
+                assertAllowed(await send(app, route, ownerId, targetId), target);
+            });
+
+            for (const [role, userId] of STAFF) {
+                const allowed = ACCESS[permission][role];
+                it(`${allowed ? "lets" : "turns away"} a ${role} (${permission})`, async () => {
+                    const res = await send(app, route, userId, targetId);
+                    if (allowed) {
+                        assertAllowed(res, target);
+                    } else {
+                        assert.equal(res.status, 403);
+                        assert.match(res.body.error, ACCESS_DENIED);
+                    }
+                });
+            }
+
+            it("turns away a teacher from another classroom", async () => {
+                const res = await send(app, route, otherTeacherId, targetId);
+                assert.equal(res.status, 403);
+                assert.match(res.body.error, ACCESS_DENIED);
+            });
+
+            it("answers 404 for a missing resource", async () => {
+                const res = await send(app, route, ownerId, missingId);
+                assert.equal(res.status, 404);
+                assert.equal(res.body.error, notFoundMessage(target));
+            });
+        });
+    }
+});
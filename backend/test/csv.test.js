@@ -0,0 +1,59 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { parseCsv, toCsv } = require("../utils/csv");
+
+describe("parseCsv", () => {
+    it("splits rows and trims cells", () => {
+        assert.deepEqual(parseCsv("name,email\n Ada , ada@example.com \n"), [
+            ["name", "email"],
+            ["Ada", "ada@example.com"],
+        ]);
+    });
+
+    it("handles quoted commas, escaped quotes and line breaks", () => {
+        const text = 'name,note\n"Lovelace, Ada","said ""hi""\nthen left"\n';
+        assert.deepEqual(parseCsv(text), [
+            ["name", "note"],
+            ["Lovelace, Ada", 'said "hi"\nthen left'],
+        ]);
+    });
+
+    it("accepts CRLF endings, a byte order mark and a missing final newline", () => {
+        assert.deepEqual(parseCsv("\uFEFFemail\r\na@example.com\r\nb@example.com"), [
+            ["email"],
+            ["a@example.com"],
+            ["b@example.com"],
+        ]);
+    });
+
+    it("drops blank lines but keeps empty cells", () => {
+        assert.deepEqual(parseCsv("a,b\n\n,\n\nc,\n"), [
+            ["a", "b"],
+            ["c", ""],
+        ]);
+    });
+});
+
+describe("toCsv", () => {
+    it("writes CRLF rows and quotes cells that need it", () => {
+        assert.equal(toCsv([["name", "note"], ["Lovelace, Ada", 'said "hi"']]), 'name,note\r\n"Lovelace, Ada","said ""hi"""\r\n');
+    });
+
+    it("writes null and undefined as empty cells and keeps numbers as they are", () => {
+        assert.equal(toCsv([[null, undefined, 0, -5, 12.5]]), ",,0,-5,12.5\r\n");
+    });
+
+    it("prefixes text that a spreadsheet would run as a formula", () => {
+        const cells = ["=HYPERLINK(\"http://evil\")", "+1", "-2", "@SUM(A1)", "\tcmd", "\rcmd"];
+        assert.equal(toCsv([cells]), "\"'=HYPERLINK(\"\"http://evil\"\")\",'+1,'-2,'@SUM(A1),'\tcmd,\"'\rcmd\"\r\n");
+    });
+
+    it("leaves other text alone", () => {
+        assert.equal(toCsv([["a=b", "ada@example.com", "1+1"]]), "a=b,ada@example.com,1+1\r\n");
+    });
+
+    it("round-trips through parseCsv", () => {
+        const rows = [["name", "email"], ["Lovelace, Ada", "ada@example.com"], ['He said "no"', ""]];
+        assert.deepEqual(parseCsv(toCsv(rows)), rows);
+    });
+});
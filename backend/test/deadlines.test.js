@@ -0,0 +1,142 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Assignment = require("../models/Assignment");
+const { studentDeadlines, latePenaltyPercent, moveDeadline, scheduleError, refreshLateness } = require("../utils/deadlines");
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const DEADLINE = new Date("2026-03-01T12:00:00Z");
+const at = (offset) => new Date(DEADLINE.getTime() + offset);
+
+const studentId = new mongoose.Types.ObjectId();
+const extendedId = new mongoose.Types.ObjectId();
+
+const assignmentWith = (fields = {}) => new Assignment({
+    classroomId: new mongoose.Types.ObjectId(),
+    type: "Assignment",
+    title: "Essay",
+    deadline: DEADLINE,
+    ...fields,
+});
+
+describe("studentDeadlines", () => {
+    it("shifts the late window with a student's extension", () => {
+        const assignment = assignmentWith({
+            latePolicy: { cutoff: at(2 * DAY) },
+            extensions: [{ studentId: extendedId, deadline: at(3 * DAY) }],
+        });
+
+        assert.deepEqual(studentDeadlines(assignment, studentId).cutoff, at(2 * DAY));
+        const extended = studentDeadlines(assignment, extendedId);
+        assert.deepEqual(extended.deadline, at(3 * DAY));
+        assert.deepEqual(extended.cutoff, at(5 * DAY));
+    });
+
+    it("closes at the deadline when late work is not allowed", () => {
+        const assignment = assignmentWith({ canSubmitLate: false });
+        assert.deepEqual(studentDeadlines(assignment, studentId).cutoff, DEADLINE);
+    });
+});
+
+describe("latePenaltyPercent", () => {
+    it("charges nothing on time or without a penalty", () => {
+        const assignment = assignmentWith({ latePolicy: { penaltyType: "flat", penaltyValue: 10 } });
+        assert.equal(latePenaltyPercent(assignment, studentId, DEADLINE), 0);
+        assert.equal(latePenaltyPercent(assignmentWith(), studentId, at(DAY)), 0);
+    });
+
+    it("charges a flat penalty once", () => {
+        const assignment = assignmentWith({ latePolicy: { penaltyType: "flat", penaltyValue: 15 } });
+        assert.equal(latePenaltyPercent(assignment, studentId, at(1)), 15);
+        assert.equal(latePenaltyPercent(assignment, studentId, at(10 * DAY)), 15);
+    });
+
+    it("charges per started day, up to the cap", () => {
+        const assignment = assignmentWith({ latePolicy: { penaltyType: "percent-per-day", penaltyValue: 10, maxPenalty: 25 } });
+        assert.equal(latePenaltyPercent(assignment, studentId, at(HOUR)), 10);
+        assert.equal(latePenaltyPercent(assignment, studentId, at(DAY)), 10);
+        assert.equal(latePenaltyPercent(assignment, studentId, at(DAY + 1)), 20);
+        assert.equal(latePenaltyPercent(assignment, studentId, at(5 * DAY)), 25);
+    });
+
+    it("never takes more than the whole mark", () => {
+        const assignment = assignmentWith({ latePolicy: { penaltyType: "percent-per-day", penaltyValue: 40 } });
+        assert.equal(latePenaltyPercent(assignment, studentId, at(4 * DAY)), 100);
+    });
+
+    it("counts from the student's extended deadline", () => {
+        const assignment = assignmentWith({
+            latePolicy: { penaltyType: "flat", penaltyValue: 10 },
+            extensions: [{ studentId: extendedId, deadline: at(2 * DAY) }],
+        });
+        assert.equal(latePenaltyPercent(assignment, extendedId, at(DAY)), 0);
+        assert.equal(latePenaltyPercent(assignment, extendedId, at(3 * DAY)), 10);
+    });
+});
+
+describe("moveDeadline", () => {
+    it("moves the late cutoff by the same amount", () => {
+        const assignment = assignmentWith({ latePolicy: { cutoff: at(2 * DAY) } });
+
+        const { previousCutoff, droppedExtensions } = moveDeadline(assignment, at(DAY));
+        assert.deepEqual(assignment.deadline, at(DAY));
+        assert.deepEqual(previousCutoff, at(2 * DAY));
+        assert.deepEqual(assignment.latePolicy.cutoff, at(3 * DAY));
+        assert.deepEqual(droppedExtensions, []);
+        assert.equal(scheduleError(assignment), null);
+    });
+
+    it("drops extensions that are no longer later than the deadline", () => {
+        const assignment = assignmentWith({
+            extensions: [
+                { studentId, deadline: at(DAY) },
+                { studentId: extendedId, deadline: at(4 * DAY) },
+            ],
+        });
+
+        const { previousCutoff, droppedExtensions } = moveDeadline(assignment, at(2 * DAY));
+        assert.equal(previousCutoff, null);
+        assert.deepEqual(droppedExtensions.map(ext => ext.studentId.toString()), [studentId.toString()]);
+        assert.deepEqual(assignment.extensions.map(ext => ext.studentId.toString()), [extendedId.toString()]);
+        assert.equal(scheduleError(assignment), null);
+    });
+});
+
+describe("scheduleError", () => {
+    it("rejects a cutoff or extension that is not after the deadline", () => {
+        assert.equal(scheduleError(assignmentWith({ latePolicy: { cutoff: DEADLINE } })), "The late cutoff must be after the deadline");
+        assert.equal(
+            scheduleError(assignmentWith({ extensions: [{ studentId, deadline: at(-HOUR) }] })),
+            "An extension must be later than the assignment deadline"
+        );
+    });
+});
+
+describe("refreshLateness", () => {
+    it("re-evaluates every attempt and the mirrored submission", () => {
+        const assignment = assignmentWith({
+            latePolicy: { penaltyType: "flat", penaltyValue: 20 },
+            submissions: [{
+                studentId,
+                submitted: true,
+                submittedAt: at(2 * HOUR),
+                attempts: [
+                    { attemptNumber: 1, submittedAt: at(-HOUR) },
+                    { attemptNumber: 2, submittedAt: at(2 * HOUR) },
+                ],
+            }],
+        });
+        const [submission] = assignment.submissions;
+
+        refreshLateness(assignment, submission);
+        assert.deepEqual(submission.attempts.map(a => [a.late, a.latePenalty]), [[false, 0], [true, 20]]);
+        assert.equal(submission.late, true);
+        assert.equal(submission.latePenalty, 20);
+
+        moveDeadline(assignment, at(3 * HOUR));
+        refreshLateness(assignment, submission);
+        assert.deepEqual(submission.attempts.map(a => [a.late, a.latePenalty]), [[false, 0], [false, 0]]);
+        assert.equal(submission.late, false);
+    });
+});
@@ -0,0 +1,61 @@
+// Text extraction of the text-based document formats (utils/extractors)
+
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const JSZip = require("jszip");
+const { extractText, isSupportedFile, supportedFormats } = require("../utils/extractors");
+
+const zipped = async (files) => {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    return zip.generateAsync({ type: "nodebuffer" });
+};
+
+describe("extractText", () => {
+    it("reads OpenDocument paragraphs, spacing and entities", async () => {
+        const buffer = await zipped({
+            "content.xml": '<office:text><text:p>Fish &amp; chips<text:s text:c="2"/>&#233;t&#xE9;</text:p><text:h>Next</text:h></office:text>',
+        });
+        const result = await extractText({ originalname: "essay.odt", buffer });
+        assert.equal(result.extractor, "odt");
+        assert.equal(result.text, "Fish & chips  été\nNext");
+    });
+
+    it("keeps numeric entities beyond Unicode instead of failing the document", async () => {
+        const buffer = await zipped({ "content.xml": "<text:p>Before &#9999999; &#x110000; after</text:p>" });
+        const result = await extractText({ originalname: "essay.odt", buffer });
+        assert.equal(result.text, "Before &#9999999; &#x110000; after");
+    });
+
+    it("reads PowerPoint slides in slide order", async () => {
+        const slide = (text) => `<p:sld><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:sld>`;
+        const buffer = await zipped({
+            "ppt/slides/slide10.xml": slide("Tenth &#9999999;"),
+            "ppt/slides/slide2.xml": slide("Second"),
+        });
+        const result = await extractText({ originalname: "deck.pptx", buffer });
+        assert.equal(result.extractor, "pptx");
+        assert.deepEqual(result.pages.map((page) => page.page), [1, 2]);
+        assert.match(result.text, /Second[\s\S]*Tenth &#9999999;/);
+    });
+
+    it("reads Markdown without its markup", async () => {
+        const result = await extractText({ originalname: "notes.md", buffer: Buffer.from("# Title\n\nBody") });
+        assert.equal(result.text, "Title\n\nBody");
+    });
+});
+
+describe("supported formats", () => {
+    it("decides by extension before the reported MIME type", () => {
+        assert.equal(isSupportedFile({ originalname: "essay.odt", mimetype: "application/octet-stream" }), true);
+        assert.equal(isSupportedFile({ originalname: "archive.zip", mimetype: "application/zip" }), false);
+    });
+
+    it("groups extensions under one label per format", () => {
+        const formats = supportedFormats();
+        const image = formats.find((format) => format.label === "Image");
+        assert.deepEqual(image.extensions, [".png", ".jpg", ".jpeg"]);
+        assert.deepEqual(image.mimeTypes, ["image/png", "image/jpeg"]);
+        assert.equal(new Set(formats.map((format) => format.label)).size, formats.length);
+    });
+});
@@ -0,0 +1,85 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const { buildGradebook, gradebookRows, lmsGradeRows } = require("../utils/gradebook");
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-03-10T12:00:00Z");
+const daysFromNow = (days) => new Date(NOW.getTime() + days * DAY);
+
+const ada = new mongoose.Types.ObjectId();
+const grace = new mongoose.Types.ObjectId();
+
+const classroom = {
+    students: [
+        { studentId: ada, name: "Ada", email: "ada@example.com", studentNumber: "S1" },
+        { studentId: grace, name: "Grace", email: "grace@example.com" },
+    ],
+};
+
+const essay = {
+    _id: new mongoose.Types.ObjectId(),
+    title: "Essay",
+    type: "Assignment",
+    deadline: daysFromNow(-2),
+    grading: { maxMarks: 50, sections: [], released: true },
+    extensions: [{ studentId: grace, deadline: daysFromNow(1) }],
+    submissions: [{
+        studentId: ada,
+        submitted: true,
+        late: true,
+        latePenalty: 10,
+        plagiarismPercent: 12,
+        attempts: [{ attemptNumber: 1, latePenalty: 10 }],
+        grade: { attemptNumber: 1, score: 40 },
+    }],
+};
+
+const exam = {
+    _id: new mongoose.Types.ObjectId(),
+    title: "Midterm",
+    type: "Exam",
+    deadline: daysFromNow(-5),
+    submissions: [{ studentId: grace, submitted: true, attempts: [] }],
+};
+
+describe("buildGradebook", () => {
+    const gradebook = buildGradebook(classroom, [essay, exam], NOW);
+
+    it("orders tasks by deadline and fills in scheme defaults", () => {
+        assert.deepEqual(gradebook.tasks.map(t => [t.title, t.maxMarks, t.gradesReleased]), [
+            ["Midterm", 100, false],
+            ["Essay", 50, true],
+        ]);
+    });
+
+    it("reports each submission's lateness, similarity and penalised grade", () => {
+        const [, essayCell] = gradebook.students[0].cells;
+        assert.deepEqual(essayCell, { status: "submitted", late: true, plagiarismPercent: 12, grade: 36 });
+
+        const [examCell] = gradebook.students[1].cells;
+        assert.deepEqual(examCell, { status: "submitted", late: false, plagiarismPercent: null, grade: null });
+    });
+
+    it("marks work missing only after the student's own deadline", () => {
+        assert.equal(gradebook.students[0].cells[0].status, "missing");
+        assert.equal(gradebook.students[1].cells[1].status, "pending");
+    });
+});
+
+describe("gradebookRows / lmsGradeRows", () => {
+    const gradebook = buildGradebook(classroom, [essay], NOW);
+
+    it("writes four columns per task", () => {
+        const [header, adaRow] = gradebookRows(gradebook);
+        assert.deepEqual(header.slice(3), ["Essay - Status", "Essay - Late", "Essay - Similarity (%)", "Essay - Grade (/50)"]);
+        assert.deepEqual(adaRow, ["Ada", "ada@example.com", "S1", "Submitted", "Yes", 12, 36]);
+    });
+
+    it("follows the LMS import layout with a points possible row", () => {
+        const rows = lmsGradeRows(gradebook, "Period 1");
+        assert.deepEqual(rows[0], ["Student", "ID", "SIS User ID", "SIS Login ID", "Section", "Essay"]);
+        assert.deepEqual(rows[1], ["Points Possible", "", "", "", "", 50]);
+        assert.deepEqual(rows[3], ["Grace", "", "", "grace@example.com", "Period 1", null]);
+    });
+});
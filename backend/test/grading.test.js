@@ -0,0 +1,134 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { parseGradingScheme, parseMarks, formatGradingScheme, formatGrade, hasGrades } = require("../utils/grading");
+
+const SECTIONS = [
+    { name: "Argument", maxMarks: 30, criteria: "Clear thesis" },
+    { name: "Sources", maxMarks: 20 },
+];
+
+const RUBRIC = [
+    { name: "Argument", levels: [{ label: "Strong", points: 10, descriptor: "Clear thesis" }, { label: "Weak", points: 3 }] },
+    { name: "Sources", levels: [{ label: "Many", points: 5 }, { label: "Some", points: 4 }] },
+];
+
+describe("parseGradingScheme", () => {
+    it("totals the sections into the maximum marks", () => {
+        const { scheme } = parseGradingScheme({ maxMarks: 999, sections: SECTIONS });
+        assert.equal(scheme.maxMarks, 50);
+        assert.deepEqual(scheme.sections, [
+            { name: "Argument", maxMarks: 30, criteria: "Clear thesis" },
+            { name: "Sources", maxMarks: 20, criteria: "" },
+        ]);
+    });
+
+    it("takes the maximum marks as given without sections", () => {
+        assert.deepEqual(parseGradingScheme({ maxMarks: 12.345 }), { scheme: { maxMarks: 12.35, sections: [] } });
+    });
+
+    it("rejects missing, zero or repeated entries", () => {
+        assert.ok(parseGradingScheme({}).error);
+        assert.ok(parseGradingScheme({ maxMarks: 0 }).error);
+        assert.ok(parseGradingScheme({ sections: "Argument" }).error);
+        assert.ok(parseGradingScheme({ sections: [{ name: " ", maxMarks: 5 }] }).error);
+        assert.ok(parseGradingScheme({ sections: [{ name: "A", maxMarks: 0 }] }).error);
+        assert.match(parseGradingScheme({ sections: [{ name: "A", maxMarks: 5 }, { name: "a", maxMarks: 5 }] }).error, /listed twice/);
+    });
+});
+
+describe("parseMarks", () => {
+    it("accepts a single score up to the maximum", () => {
+        assert.deepEqual(parseMarks({ maxMarks: 40, sections: [] }, { score: 33.333 }), { score: 33.33, sectionMarks: [], criterionScores: [] });
+        assert.ok(parseMarks({ maxMarks: 40, sections: [] }, { score: 41 }).error);
+        assert.ok(parseMarks({ maxMarks: 40, sections: [] }, { score: -1 }).error);
+        assert.ok(parseMarks({ maxMarks: 40, sections: [] }, { score: "30" }).error);
+    });
+
+    it("defaults to 100 marks for assignments without a scheme", () => {
+        assert.equal(parseMarks(undefined, { score: 100 }).score, 100);
+        assert.ok(parseMarks(undefined, { score: 101 }).error);
+    });
+
+    it("needs a mark for every section and sums them", () => {
+        const grading = { maxMarks: 50, sections: SECTIONS };
+        assert.deepEqual(parseMarks(grading, { sectionMarks: [{ section: "Sources", scored: 15 }, { section: "Argument", scored: 25.5 }] }), {
+            score: 40.5,
+            sectionMarks: [{ section: "Argument", scored: 25.5 }, { section: "Sources", scored: 15 }],
+            criterionScores: [],
+        });
+        assert.match(parseMarks(grading, { sectionMarks: [{ section: "Argument", scored: 25 }] }).error, /"Sources"/);
+        assert.match(parseMarks(grading, { sectionMarks: [{ section: "Argument", scored: 31 }, { section: "Sources", scored: 1 }] }).error, /"Argument"/);
+    });
+
+    it("takes a level per rubric criterion and its points", () => {
+        const grading = { maxMarks: 14, sections: [], rubric: { name: "Essay", criteria: RUBRIC } };
+        assert.deepEqual(parseMarks(grading, { score: 99, criterionScores: [
+            { criterion: "Sources", level: "Some", feedback: " Cite the second study " },
+            { criterion: "Argument", level: "Strong" },
+        ] }), {
+            score: 14,
+            sectionMarks: [],
+            criterionScores: [
+                { criterion: "Argument", level: "Strong", points: 10, feedback: "" },
+                { criterion: "Sources", level: "Some", points: 4, feedback: "Cite the second study" },
+            ],
+        });
+        assert.match(parseMarks(grading, { criterionScores: [{ criterion: "Argument", level: "Strong" }] }).error, /"Sources"/);
+        assert.match(parseMarks(grading, { criterionScores: [
+            { criterion: "Argument", level: "Perfect" },
+            { criterion: "Sources", level: "Some" },
+        ] }).error, /"Argument"/);
+    });
+});
+
+describe("formatGrade", () => {
+    const assignment = { grading: { maxMarks: 50, sections: SECTIONS } };
+
+    it("applies the late penalty of the graded attempt", () => {
+        const submission = {
+            latePenalty: 50,
+            attempts: [{ attemptNumber: 1, latePenalty: 0 }, { attemptNumber: 2, latePenalty: 10 }],
+            grade: { attemptNumber: 2, score: 40, sectionMarks: [{ section: "Argument", scored: 25 }, { section: "Sources", scored: 15 }], graderName: "Ada" },
+        };
+
+        const grade = formatGrade(assignment, submission);
+        assert.equal(grade.score, 40);
+        assert.equal(grade.latePenalty, 10);
+        assert.equal(grade.finalScore, 36);
+        assert.equal(grade.maxMarks, 50);
+        assert.deepEqual(grade.markDistribution, [
+            { section: "Argument", maxMarks: 30, scored: 25 },
+            { section: "Sources", maxMarks: 20, scored: 15 },
+        ]);
+        assert.equal(grade.graderName, "Ada");
+    });
+
+    it("falls back to the submission's penalty when the attempt is unknown", () => {
+        const grade = formatGrade(assignment, { latePenalty: 25, attempts: [], grade: { score: 20 } });
+        assert.equal(grade.attemptNumber, null);
+        assert.equal(grade.finalScore, 15);
+    });
+
+    it("is null for ungraded submissions", () => {
+        assert.equal(formatGrade(assignment, { attempts: [] }), null);
+        assert.equal(formatGrade(assignment, { attempts: [], grade: { score: null } }), null);
+    });
+});
+
+describe("formatGradingScheme / hasGrades", () => {
+    it("fills in defaults for assignments graded before schemes existed", () => {
+        assert.deepEqual(formatGradingScheme(undefined), { maxMarks: 100, sections: [], rubric: null, released: false, releasedAt: null });
+    });
+
+    it("describes an attached rubric with its total", () => {
+        const { rubric } = formatGradingScheme({ maxMarks: 15, rubric: { name: "Essay", criteria: RUBRIC } });
+        assert.equal(rubric.rubricId, null);
+        assert.equal(rubric.maxPoints, 15);
+        assert.deepEqual(rubric.criteria[1].levels[1], { label: "Some", points: 4, descriptor: "" });
+    });
+
+    it("counts a zero as a grade", () => {
+        assert.equal(hasGrades({ submissions: [{}, { grade: { score: null } }] }), false);
+        assert.equal(hasGrades({ submissions: [{}, { grade: { score: 0 } }] }), true);
+    });
+});
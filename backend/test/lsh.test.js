@@ -0,0 +1,109 @@
+// LSH banding chosen from a similarity threshold (utils/lsh)
+
+const { describe, it, mock } = require("node:test");
+const assert = require("node:assert/strict");
+const {
+    bandingForThreshold,
+    bandingOptions,
+    curveThreshold,
+    candidateProbability,
+    resolveLshConfig,
+    findCandidatePairs,
+} = require("../utils/lsh");
+
+// Loads a fresh copy of utils/lsh with LSH_THRESHOLD set to `value`
+function loadWithThreshold(value) {
+    const lshPath = require.resolve("../utils/lsh");
+    const previous = process.env.LSH_THRESHOLD;
+    delete require.cache[lshPath];
+    process.env.LSH_THRESHOLD = value;
+    try {
+        return require("../utils/lsh");
+    } finally {
+        if (previous === undefined) delete process.env.LSH_THRESHOLD;
+        else process.env.LSH_THRESHOLD = previous;
+        delete require.cache[lshPath];
+    }
+}
+
+describe("bandingForThreshold", () => {
+    it("picks known bandings for common thresholds", () => {
+        assert.deepEqual(bandingForThreshold(0.5), { bands: 32, rows: 4 });
+        assert.deepEqual(bandingForThreshold(0.8), { bands: 16, rows: 8 });
+    });
+
+    it("always rises before the target and uses the whole signature", () => {
+        for (let threshold = 0.05; threshold < 1; threshold += 0.05) {
+            const { bands, rows } = bandingForThreshold(threshold);
+            assert.equal(bands * rows, 128);
+            if (curveThreshold(128, 1) <= threshold) {
+                assert.ok(curveThreshold(bands, rows) <= threshold, `curve of ${bands}x${rows} is above ${threshold}`);
+            }
+        }
+    });
+
+    it("takes the most rows among the bandings that reach the target", () => {
+        for (const threshold of [0.3, 0.5, 0.7, 0.9]) {
+            const chosen = bandingForThreshold(threshold);
+            const moreRows = bandingOptions().filter(option => option.rows > chosen.rows);
+            for (const option of moreRows) {
+                assert.ok(curveThreshold(option.bands, option.rows) > threshold);
+            }
+        }
+    });
+
+    it("compares pairs at the target far more often than pairs well below it", () => {
+        for (const threshold of [0.5, 0.8]) {
+            const { bands, rows } = bandingForThreshold(threshold);
+            assert.ok(candidateProbability(threshold, bands, rows) > 0.85);
+            assert.ok(candidateProbability(threshold / 3, bands, rows) < 0.2);
+        }
+    });
+
+    it("falls back to the lowest curve below every banding", () => {
+        assert.deepEqual(bandingForThreshold(0.001), { bands: 128, rows: 1 });
+    });
+});
+
+describe("resolveLshConfig", () => {
+    it("prefers explicit bands and rows, then the threshold, then the default", () => {
+        assert.equal(resolveLshConfig({ bands: 8, rows: 16 }).source, "custom");
+        assert.deepEqual(
+            { ...resolveLshConfig({ threshold: 0.8 }) },
+            { threshold: 0.8, bands: 16, rows: 8, source: "threshold" }
+        );
+        assert.equal(resolveLshConfig({}).source, "default");
+        assert.equal(resolveLshConfig({ bands: 5, rows: 5 }).source, "default");
+    });
+});
+
+describe("LSH_THRESHOLD", () => {
+    it("is used as the default threshold when valid", () => {
+        assert.equal(loadWithThreshold("0.7").DEFAULT_LSH_THRESHOLD, 0.7);
+    });
+
+    it("is ignored with a warning outside 0 to 1", () => {
+        const warn = mock.method(console, "warn", () => {});
+        try {
+            for (const value of ["0", "1", "1.5", "-0.2", "abc"]) {
+                assert.equal(loadWithThreshold(value).DEFAULT_LSH_THRESHOLD, 0.5);
+            }
+            assert.equal(warn.mock.callCount(), 5);
+        } finally {
+            warn.mock.restore();
+        }
+    });
+});
+
+describe("findCandidatePairs", () => {
+    it("pairs identical signatures and leaves unrelated ones apart", () => {
+        const signature = Array.from({ length: 128 }, (_, i) => i);
+        const other = Array.from({ length: 128 }, (_, i) => i + 1000);
+        const pairs = findCandidatePairs([
+            { submissionId: "a", signature },
+            { submissionId: "b", signature: [...signature] },
+            { submissionId: "c", signature: other },
+        ], { bands: 32, rows: 4 });
+        assert.deepEqual(pairs, [["a", "b"]]);
+    });
+});
@@ -0,0 +1,176 @@
+// Single sign-on through routes/oidc.js: the callback only completes in the browser that
+// started the sign-in, new identities need a verified email, a ticket can be exchanged once,
+// and the role is only chosen when the account is first created. The identity provider is
+// a stub client and model calls are served from memory, so no network or database is needed.
+
+const { describe, it, before, after, beforeEach, mock } = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const request = require("supertest");
+const mongoose = require("mongoose");
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+process.env.OIDC_ISSUER = "https://idp.example";
+process.env.OIDC_CLIENT_ID = "veriwrite";
+mongoose.set("bufferCommands", false);
+
+const User = require("../models/User");
+const OidcLogin = require("../models/OidcLogin");
+const RefreshToken = require("../models/RefreshToken");
+const oidc = require("../utils/oidc");
+
+// Claims the stub provider returns for each authorization code
+const CLAIMS = {
+    "new-user": { iss: "https://idp.example", sub: "sub-1", email: "Grace@Example.com", email_verified: true, name: "Grace" },
+    "unverified": { iss: "https://idp.example", sub: "sub-2", email: "mallory@example.com", email_verified: false },
+};
+
+const client = {
+    authorizationUrl: (params) => `https://idp.example/authorize?${new URLSearchParams(params).toString()}`,
+    callbackParams: (req) => req.query,
+    async callback(redirectUri, params, checks) {
+        assert.equal(checks.state, params.state);
+        return { claims: () => CLAIMS[params.code] };
+    },
+    async userinfo() { return {}; },
+};
+
+let logins = [];
+let users = [];
+
+const matches = (doc, filter) => Object.entries(filter).every(([key, value]) => (doc[key] ?? null) === value);
+
+function buildApp() {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/auth/oidc", require("../routes/oidc"));
+    return app;
+}
+
+const cookieOf = (res) => (res.headers["set-cookie"] || []).map((cookie) => cookie.split(";")[0]).join("; ");
+const redirectParams = (res) => new URL(res.headers.location).searchParams;
+
+describe("OIDC sign-in", () => {
+    let app;
+
+    // Starts a sign-in and returns the provider's redirect back to /callback
+    async function signIn(code, { cookie } = {}) {
+        const start = await request(app).get("/api/auth/oidc/start");
+        const state = redirectParams(start).get("state");
+        return request(app)
+            .get(`/api/auth/oidc/callback?code=${code}&state=${state}`)
+            .set("Cookie", cookie ?? cookieOf(start));
+    }
+
+    const exchange = (ticket, role) => request(app).post("/api/auth/oidc/exchange").send({ ticket, role });
+
+    before(() => {
+        mock.method(console, "error", () => {});
+        mock.method(oidc, "getOidcClient", async () => client);
+
+        mock.method(OidcLogin, "create", async (fields) => {
+            const login = new OidcLogin(fields);
+            logins.push(login);
+            return login;
+        });
+        mock.method(OidcLogin, "findOne", async (filter) => logins.find((login) => matches(login, filter)) || null);
+        mock.method(OidcLogin, "findOneAndDelete", async ({ _id }) => {
+            const index = logins.findIndex((login) => login._id.equals(_id));
+            return index === -1 ? null : logins.splice(index, 1)[0];
+        });
+        mock.method(OidcLogin.prototype, "save", async function () { return this; });
+        mock.method(OidcLogin.prototype, "deleteOne", async function () {
+            logins = logins.filter((login) => login !== this);
+        });
+
+        mock.method(User, "findOne", async (filter) => users.find((user) => (filter.email
+            ? user.email === filter.email
+            : user.oidcAccounts.some((account) => matches(account, filter.oidcAccounts.$elemMatch)))) || null);
+        mock.method(User, "findById", async (userId) => users.find((user) => user._id.equals(userId)) || null);
+        mock.method(User, "create", async (fields) => {
+            const user = new User(fields);
+            users.push(user);
+            return user;
+        });
+        mock.method(User.prototype, "save", async function () { return this; });
+        mock.method(RefreshToken, "create", async (fields) => fields);
+
+        app = buildApp();
+    });
+
+    after(() => mock.restoreAll());
+
+    beforeEach(() => {
+        logins = [];
+        users = [];
+    });
+
+    it("sets an httpOnly, SameSite=Lax binding cookie when the sign-in starts", async () => {
+        const res = await request(app).get("/api/auth/oidc/start");
+
+        assert.equal(res.status, 302);
+        assert.ok(res.headers.location.startsWith("https://idp.example/authorize?"));
+        const [cookie] = res.headers["set-cookie"];
+        assert.match(cookie, /^oidc_binding=[0-9a-f]{64};/);
+        assert.match(cookie, /HttpOnly/);
+        assert.match(cookie, /SameSite=Lax/);
+        assert.ok(!logins[0].bindingHash.includes(cookie.split(";")[0].split("=")[1]), "only a hash is stored");
+    });
+
+    it("refuses a callback without the binding cookie", async () => {
+        const res = await signIn("new-user", { cookie: "" });
+
+        assert.equal(res.status, 302);
+        assert.equal(redirectParams(res).get("ticket"), null);
+        assert.match(redirectParams(res).get("error"), /another browser/);
+    });
+
+    it("refuses a callback carrying another sign-in's binding cookie", async () => {
+        const other = await request(app).get("/api/auth/oidc/start");
+        const res = await signIn("new-user", { cookie: cookieOf(other) });
+
+        assert.equal(redirectParams(res).get("ticket"), null);
+        assert.match(redirectParams(res).get("error"), /another browser/);
+    });
+
+    it("requires a verified email before creating or linking an account", async () => {
+        const res = await signIn("unverified");
+
+        assert.equal(redirectParams(res).get("ticket"), null);
+        assert.match(redirectParams(res).get("error"), /verified email/);
+        assert.equal(logins.length, 0);
+        assert.equal(users.length, 0);
+    });
+
+    it("lets a ticket be exchanged only once", async () => {
+        const ticket = redirectParams(await signIn("new-user")).get("ticket");
+
+        const first = await exchange(ticket, "student");
+        assert.equal(first.status, 200);
+        assert.ok(first.body.token);
+        assert.ok(first.body.refreshToken);
+
+        const second = await exchange(ticket, "student");
+        assert.equal(second.status, 400);
+        assert.equal(users.length, 1);
+    });
+
+    it("asks for a role only on the first sign-in", async () => {
+        const params = redirectParams(await signIn("new-user"));
+        assert.equal(params.get("needsRole"), "true");
+
+        assert.equal((await exchange(params.get("ticket"))).status, 400);
+        assert.equal((await exchange(params.get("ticket"), "admin")).status, 400);
+        const created = await exchange(params.get("ticket"), "teacher");
+        assert.equal(created.status, 200);
+        assert.equal(created.body.user.role, "teacher");
+        assert.equal(created.body.user.email, "grace@example.com");
+
+        const again = redirectParams(await signIn("new-user"));
+        assert.equal(again.get("needsRole"), null);
+        const existing = await exchange(again.get("ticket"), "student");
+        assert.equal(existing.status, 200);
+        assert.equal(existing.body.user.role, "teacher");
+        assert.equal(users.length, 1);
+    });
+});
@@ -0,0 +1,145 @@
+// Password reset flow through routes/auth.js: forgot-password answers the same for known and
+// unknown addresses, a reset link works once, and expired links are refused. Tokens and users
+// are kept in memory by stubbing the model calls the routes make; outgoing email is recorded
+// with the mailer's setTransport.
+
+const { describe, it, before, after, beforeEach, mock } = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const request = require("supertest");
+const bcrypt = require("bcryptjs");
+const mongoose = require("mongoose");
+
+mongoose.set("bufferCommands", false);
+
+const User = require("../models/User");
+const PasswordResetToken = require("../models/PasswordResetToken");
+const RefreshToken = require("../models/RefreshToken");
+const { setTransport } = require("../utils/mailer");
+
+const user = {
+    _id: new mongoose.Types.ObjectId(),
+    name: "Ada <Admin>",
+    email: "ada@example.com",
+    password: bcrypt.hashSync("old-password", 4),
+    async save() { return this; },
+};
+
+let tokens = [];
+let sent = [];
+let revokedSessionsOf = [];
+
+function buildApp() {
+    const app = express();
+    app.use(express.json());
+    app.use("/auth", require("../routes/auth"));
+    return app;
+}
+
+// The token from the link in the last email sent
+const tokenFromLastEmail = () => sent[sent.length - 1].text.match(/token=([0-9a-f]+)/)[1];
+
+describe("password reset", () => {
+    let app;
+
+    before(() => {
+        mock.method(console, "error", () => {});
+        mock.method(User, "findOne", async ({ email }) => (email === user.email ? user : null));
+        mock.method(User, "findById", async (userId) => (userId.toString() === user._id.toString() ? user : null));
+        mock.method(PasswordResetToken, "create", async (doc) => {
+            tokens.push({ ...doc, usedAt: null });
+            return doc;
+        });
+        mock.method(PasswordResetToken, "deleteMany", async ({ userId }) => {
+            tokens = tokens.filter((token) => token.userId.toString() !== userId.toString());
+        });
+        mock.method(PasswordResetToken, "findOneAndUpdate", async (filter, update) => {
+            const token = tokens.find((candidate) => candidate.tokenHash === filter.tokenHash
+                && candidate.usedAt === filter.usedAt
+                && candidate.expiresAt > filter.expiresAt.$gt);
+            return token ? Object.assign(token, update) : null;
+        });
+        mock.method(RefreshToken, "updateMany", async ({ userId }) => {
+            revokedSessionsOf.push(userId.toString());
+        });
+        setTransport({ async sendMail(message) { sent.push(message); return {}; } });
+        app = buildApp();
+    });
+
+    after(() => {
+        setTransport(null);
+        mock.restoreAll();
+    });
+
+    beforeEach(() => {
+        tokens = [];
+        sent = [];
+        revokedSessionsOf = [];
+        user.password = bcrypt.hashSync("old-password", 4);
+    });
+
+    it("answers forgot-password identically for known and unknown addresses", async () => {
+        const known = await request(app).post("/auth/forgot-password").send({ email: "ADA@example.com " });
+        const unknown = await request(app).post("/auth/forgot-password").send({ email: "nobody@example.com" });
+
+        assert.equal(known.status, 200);
+        assert.equal(unknown.status, known.status);
+        assert.deepEqual(unknown.body, known.body);
+        assert.equal(sent.length, 1);
+        assert.equal(sent[0].to, user.email);
+        assert.ok(!sent[0].html.includes("<Admin>"), "the name is escaped in the HTML body");
+    });
+
+    it("stores only a hash of the emailed token", async () => {
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+
+        assert.equal(tokens.length, 1);
+        assert.notEqual(tokens[0].tokenHash, tokenFromLastEmail());
+        assert.ok(!JSON.stringify(tokens).includes(tokenFromLastEmail()));
+    });
+
+    it("lets a reset link be used only once", async () => {
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+        const token = tokenFromLastEmail();
+
+        const first = await request(app).post("/auth/reset-password").send({ token, newPassword: "new-password-1" });
+        assert.equal(first.status, 200);
+        assert.ok(await bcrypt.compare("new-password-1", user.password));
+        assert.deepEqual(revokedSessionsOf, [user._id.toString()], "existing sessions are signed out");
+
+        const second = await request(app).post("/auth/reset-password").send({ token, newPassword: "new-password-2" });
+        assert.equal(second.status, 400);
+        assert.equal(second.body.error, "This reset link is invalid or has expired");
+        assert.ok(await bcrypt.compare("new-password-1", user.password));
+    });
+
+    it("refuses an expired reset link", async () => {
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+        tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+        const res = await request(app).post("/auth/reset-password").send({ token: tokenFromLastEmail(), newPassword: "new-password-1" });
+        assert.equal(res.status, 400);
+        assert.equal(res.body.error, "This reset link is invalid or has expired");
+        assert.ok(await bcrypt.compare("old-password", user.password));
+    });
+
+    it("only honours the newest link", async () => {
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+        const older = tokenFromLastEmail();
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+
+        const res = await request(app).post("/auth/reset-password").send({ token: older, newPassword: "new-password-1" });
+        assert.equal(res.status, 400);
+
+        const newest = await request(app).post("/auth/reset-password").send({ token: tokenFromLastEmail(), newPassword: "new-password-1" });
+        assert.equal(newest.status, 200);
+    });
+
+    it("rejects short passwords before touching the token", async () => {
+        await request(app).post("/auth/forgot-password").send({ email: user.email });
+
+        const res = await request(app).post("/auth/reset-password").send({ token: tokenFromLastEmail(), newPassword: "short" });
+        assert.equal(res.status, 400);
+        assert.equal(tokens[0].usedAt, null);
+    });
+});
@@ -0,0 +1,61 @@
+// Scanned PDFs with only the local Tesseract engine: pages without a text layer are rendered
+// to images and OCR'd, pages with one keep their digital text. The Tesseract worker is
+// stubbed (its language data is not available offline); rendering runs for real.
+
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const PDFDocument = require("pdfkit");
+
+process.env.OCR_PROVIDER = "tesseract";
+
+const recognized = [];
+
+// Replace tesseract.js before the OCR module loads it
+const tesseractPath = require.resolve("tesseract.js");
+before(() => {
+    require.cache[tesseractPath] = {
+        id: tesseractPath,
+        filename: tesseractPath,
+        loaded: true,
+        exports: {
+            createWorker: async () => ({
+                async recognize(image) {
+                    assert.ok(Buffer.isBuffer(image) && image.subarray(1, 4).toString() === "PNG", "expected a PNG page image");
+                    recognized.push(image);
+                    return { data: { text: `ocr text ${recognized.length}`, confidence: 90 } };
+                },
+                async terminate() {},
+            }),
+        },
+    };
+});
+
+after(() => {
+    delete require.cache[tesseractPath];
+});
+
+// A PDF whose first page has a text layer and whose second page is blank, like a scan
+const mixedPdf = () => new Promise((resolve) => {
+    const doc = new PDFDocument();
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.fontSize(14).text("This page was typed and has a proper text layer for extraction.");
+    doc.addPage();
+    doc.rect(100, 100, 200, 50).fill("#000000");
+    doc.end();
+});
+
+describe("PDF extraction with Tesseract only", () => {
+    it("OCRs the scanned page and keeps the text layer of the others", async () => {
+        const { extractText } = require("../utils/extractors");
+        const result = await extractText({ originalname: "essay.pdf", buffer: await mixedPdf() });
+
+        assert.equal(recognized.length, 1);
+        assert.equal(result.ocrProvider, "tesseract");
+        assert.deepEqual(result.pages.map((page) => page.method), ["text", "ocr"]);
+        assert.match(result.text, /proper text layer/);
+        assert.match(result.text, /ocr text 1/);
+        assert.equal(result.pages[1].confidence, 0.9);
+    });
+});
@@ -0,0 +1,142 @@
+// Finds the overlapping passages between two texts so a report can point at the exact
+// text that was copied instead of highlighting whole submissions.
+// Both texts are split into word shingles; shared shingles act as seeds that are chained
+// into passages when they stay close together in both texts (tolerating small edits).
+
+const PASSAGE_SHINGLE_SIZE = 5;   // Words per seed shingle
+const MAX_GAP_WORDS = 4;          // Edited/inserted words allowed between two seeds of one passage
+const MIN_PASSAGE_WORDS = 8;      // Shorter passages are treated as noise
+const MAX_SHINGLE_OCCURRENCES = 25; // Skip boilerplate shingles that repeat everywhere
+
+// Split text into lowercase words, keeping the character offsets of each word
+function tokenizeWithOffsets(text) {
+    const tokens = [];
+    if (!text || typeof text !== "string") return tokens;
+
+    const wordRegex = /[a-z0-9]+/gi;
+    let match;
+    while ((match = wordRegex.exec(text)) !== null) {
+        tokens.push({
+            word: match[0].toLowerCase(),
+            start: match.index,
+            end: match.index + match[0].length,
+        });
+    }
+    return tokens;
+}
+
+// Map each k-word shingle of the token list to the word positions it starts at
+function indexShingles(tokens, k) {
+    const index = new Map();
+    for (let i = 0; i <= tokens.length - k; i++) {
+        const shingle = tokens.slice(i, i + k).map(t => t.word).join(" ");
+        if (!index.has(shingle)) {
+            index.set(shingle, []);
+        }
+        index.get(shingle).push(i);
+    }
+    return index;
+}
+
+/*
+ * Aligns the passages shared by two texts.
+ *
+ * @param {string} sourceText - Text of the submission being reported on
+ * @param {string} matchedText - Text it is compared against
+ * @param {{shingleSize?: number, maxGap?: number, minWords?: number}} [options]
+ * @returns {Array<{sourceStart: number, sourceEnd: number, matchedStart: number, matchedEnd: number, wordCount: number}>}
+ *          Character offsets (end exclusive) into both texts, ordered by position in sourceText
+ */
+function findAlignedPassages(sourceText, matchedText, options = {}) {
+    const k = options.shingleSize || PASSAGE_SHINGLE_SIZE;
+    const maxGap = options.maxGap ?? MAX_GAP_WORDS;
+    const minWords = options.minWords || MIN_PASSAGE_WORDS;
+
+    const sourceTokens = tokenizeWithOffsets(sourceText);
+    const matchedTokens = tokenizeWithOffsets(matchedText);
+    if (sourceTokens.length < k || matchedTokens.length < k) return [];
+
+    const matchedIndex = indexShingles(matchedTokens, k);
+
+    // One edited word removes the k shingles that contain it, so seeds either side of
+    // an edit are k + 1 words apart
+    const reach = k + maxGap;
+
+    // Chain shared shingles into runs. A run continues when the next seed follows the
+    // previous one within `reach` words in BOTH texts, so a few changed words do not
+    // break a copied paragraph into pieces.
+    const runs = [];
+    let openRuns = [];
+
+    for (let i = 0; i <= sourceTokens.length - k; i++) {
+        const shingle = sourceTokens.slice(i, i + k).map(t => t.word).join(" ");
+        const positions = matchedIndex.get(shingle);
+
+        // Drop runs that can no longer be extended from this position onwards
+        openRuns = openRuns.filter(run => i - run.lastSource <= reach);
+
+        if (!positions || positions.length > MAX_SHINGLE_OCCURRENCES) continue;
+
+        for (const j of positions) {
+            const run = openRuns.find(r =>
+                i > r.lastSource &&
+                j > r.lastMatched &&
+                j - r.lastMatched <= reach
+            );
+
+            if (run) {
+                run.lastSource = i;
+                run.lastMatched = j;
+            } else {
+                const newRun = { firstSource: i, firstMatched: j, lastSource: i, lastMatched: j };
+                openRuns.push(newRun);
+                runs.push(newRun);
+            }
+        }
+    }
+
+    // Convert runs to word spans and keep the longest non-overlapping ones in the source
+    const candidates = runs
+        .map(run => ({
+            sourceFrom: run.firstSource,
+            sourceTo: run.lastSource + k - 1,
+            matchedFrom: run.firstMatched,
+            matchedTo: run.lastMatched + k - 1,
+        }))
+        .map(span => ({ ...span, wordCount: span.sourceTo - span.sourceFrom + 1 }))
+        .filter(span => span.wordCount >= minWords)
+        .sort((a, b) => b.wordCount - a.wordCount);
+
+    const accepted = [];
+    for (const span of candidates) {
+        const overlaps = accepted.some(other =>
+            span.sourceFrom <= other.sourceTo && other.sourceFrom <= span.sourceTo
+        );
+        if (!overlaps) accepted.push(span);
+    }
+
+    return accepted
+        .sort((a, b) => a.sourceFrom - b.sourceFrom)
+        .map(span => ({
+            sourceStart: sourceTokens[span.sourceFrom].start,
+            sourceEnd: sourceTokens[span.sourceTo].end,
+            matchedStart: matchedTokens[span.matchedFrom].start,
+            matchedEnd: matchedTokens[span.matchedTo].end,
+            wordCount: span.wordCount,
+        }));
+}
+
+/*
+ * Joins the matched side of each passage into a short excerpt for reports.
+ *
+ * @param {string} matchedText - Full text the passages point into
+ * @param {Array<{matchedStart: number, matchedEnd: number}>} passages
+ * @returns {string} Passage excerpts separated by an ellipsis line
+ */
+function excerptPassages(matchedText, passages) {
+    return passages
+        .map(p => matchedText.substring(p.matchedStart, p.matchedEnd))
+        .join("\n…\n");
+}
+
+module.exports = { findAlignedPassages, excerptPassages, PASSAGE_SHINGLE_SIZE };
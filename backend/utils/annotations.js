@@ -0,0 +1,80 @@
+// Inline annotations: teacher comments on a range of a submission's extracted text. Offsets
+// are character positions in the text of the attempt that was annotated, so a later upload
+// never moves them onto different words; each attempt shows only its own annotations.
+// Students see them alongside their grade, once grades are released.
+
+const ANNOTATION_CATEGORIES = ["citation-needed", "suspicious", "good-point", "comment"];
+
+const CATEGORY_LABELS = {
+    "citation-needed": "Citation needed",
+    suspicious: "Suspicious",
+    "good-point": "Good point",
+    comment: "Comment",
+};
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Validates the category and comment of an annotation
+function parseAnnotationNote(body) {
+    const category = body.category ?? "comment";
+    if (!ANNOTATION_CATEGORIES.includes(category)) {
+        return { error: `Category must be one of: ${ANNOTATION_CATEGORIES.join(", ")}` };
+    }
+    const comment = typeof body.comment === "string" ? body.comment.trim() : "";
+    if (comment.length > MAX_COMMENT_LENGTH) {
+        return { error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` };
+    }
+    return { note: { category, comment } };
+}
+
+/*
+ * Validates a new annotation against the text it annotates.
+ *
+ * @param {{ start: number, end: number, category?: string, comment?: string }} body
+ * @param {string} text - Extracted text of the annotated attempt
+ * @returns {{ annotation: { start, end, quote, category, comment } } | { error: string }}
+ */
+function parseAnnotation(body, text) {
+    const { start, end } = body;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > text.length) {
+        return { error: "Select some of the submitted text to annotate" };
+    }
+    const quote = text.slice(start, end);
+    if (!quote.trim()) return { error: "Select some of the submitted text to annotate" };
+
+    const parsed = parseAnnotationNote(body);
+    if (parsed.error) return parsed;
+    return { annotation: { start, end, quote, ...parsed.note } };
+}
+
+const formatAnnotation = (annotation) => ({
+    id: annotation._id,
+    attemptNumber: annotation.attemptNumber,
+    start: annotation.start,
+    end: annotation.end,
+    quote: annotation.quote || "",
+    category: annotation.category,
+    comment: annotation.comment || "",
+    authorName: annotation.authorName || null,
+    createdAt: annotation.createdAt,
+});
+
+/*
+ * A submission's annotations in text order, for one attempt or (without attemptNumber) all
+ * attempts.
+ */
+function annotationsOf(submission, attemptNumber) {
+    return (submission.annotations || [])
+        .filter(a => attemptNumber === undefined || a.attemptNumber === attemptNumber)
+        .sort((a, b) => a.attemptNumber - b.attemptNumber || a.start - b.start)
+        .map(formatAnnotation);
+}
+
+module.exports = {
+    ANNOTATION_CATEGORIES,
+    CATEGORY_LABELS,
+    parseAnnotation,
+    parseAnnotationNote,
+    formatAnnotation,
+    annotationsOf,
+};
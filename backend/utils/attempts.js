@@ -0,0 +1,139 @@
+// Submission attempts. Each upload is stored as its own attempt on the submission; the
+// submission's top-level file/text/signature fields mirror the attempt being assessed so
+// plagiarism checks, the corpus and reports keep reading a single version. The text and
+// signature of every attempt are stored in the SubmissionAttempt collection.
+
+const SubmissionAttempt = require("../models/SubmissionAttempt");
+
+// Fields copied between an attempt and the submission that mirrors it
+const ATTEMPT_FIELDS = [
+    "submittedAt", "late", "latePenalty", "fileName", "fileSize", "originalFile", "extraction", "wordCount",
+];
+
+const plain = (value) => (value && typeof value.toObject === "function" ? value.toObject() : value);
+
+/*
+ * Submissions made before attempts were recorded hold their only version in the
+ * top-level fields; turn it into attempt 1 so the history starts complete.
+ */
+function ensureLegacyAttempt(submission) {
+    if (submission.attempts.length > 0 || !submission.submitted) return;
+
+    const legacy = { attemptNumber: 1 };
+    for (const field of ATTEMPT_FIELDS) legacy[field] = plain(submission[field]);
+    submission.attempts.push(legacy);
+}
+
+// Number of attempts a student has used on a submission
+function attemptsUsed(submission) {
+    if (submission.attempts && submission.attempts.length > 0) return submission.attempts.length;
+    return submission.submitted ? 1 : 0;
+}
+
+function findAttempt(submission, attemptNumber) {
+    return (submission.attempts || []).find((attempt) => attempt.attemptNumber === attemptNumber) || null;
+}
+
+// The attempt that is checked: the pinned one if it still exists, otherwise the latest
+function assessedAttempt(submission) {
+    const attempts = submission.attempts || [];
+    return (submission.checkedAttempt && findAttempt(submission, submission.checkedAttempt)) || attempts[attempts.length - 1] || null;
+}
+
+/*
+ * Makes an attempt the submission's assessed version. Results of an earlier check
+ * described different text, so they are cleared until the next check.
+ *
+ * @param {Object} submission - Submission subdocument
+ * @param {Object} attempt - Attempt subdocument
+ * @param {Object} text - The attempt's { extractedText, minHashSignature } (see loadAttemptText)
+ */
+function applyAttempt(submission, attempt, text) {
+    for (const field of ATTEMPT_FIELDS) submission[field] = plain(attempt[field]);
+    submission.extractedText = text.extractedText || "";
+    submission.minHashSignature = text.minHashSignature || [];
+    submission.submitted = true;
+    submission.plagiarismPercent = null;
+    submission.topMatches = [];
+    submission.allMatches = [];
+}
+
+/*
+ * Text and signature of an attempt. An attempt without a stored copy is the one the
+ * submission has mirrored since before its first resubmission, so its text is read
+ * from the submission itself.
+ *
+ * @param {string} assignmentId
+ * @param {Object} submission - Submission subdocument
+ * @param {Object} attempt - Attempt subdocument
+ * @returns {Promise<{extractedText: string, minHashSignature: number[]}>}
+ */
+async function loadAttemptText(assignmentId, submission, attempt) {
+    const stored = await SubmissionAttempt.findOne({
+        assignmentId,
+        studentId: submission.studentId,
+        attemptNumber: attempt.attemptNumber,
+    }).select("extractedText minHashSignature").lean();
+
+    if (stored) return stored;
+    return { extractedText: submission.extractedText || "", minHashSignature: plain(submission.minHashSignature) || [] };
+}
+
+/*
+ * Records a new upload as the next attempt. It becomes the assessed version unless the
+ * teacher has pinned an earlier attempt.
+ *
+ * @param {string} assignmentId
+ * @param {Object} submission - Submission subdocument
+ * @param {Object} data - Attempt fields (see ATTEMPT_FIELDS) plus extractedText and minHashSignature
+ * @returns {Promise<Object>} The stored attempt
+ */
+async function recordAttempt(assignmentId, submission, data) {
+    ensureLegacyAttempt(submission);
+
+    const last = submission.attempts[submission.attempts.length - 1];
+    const attemptNumber = last ? last.attemptNumber + 1 : 1;
+    const key = (number) => ({ assignmentId, studentId: submission.studentId, attemptNumber: number });
+
+    // An upload whose assignment save failed leaves its number free, so its text is overwritten here
+    const writes = [{
+        updateOne: {
+            filter: key(attemptNumber),
+            update: { $set: { extractedText: data.extractedText, minHashSignature: data.minHashSignature } },
+            upsert: true,
+        },
+    }];
+
+    // The attempt mirrored so far may only have its text on the submission; keep a copy
+    // before the new attempt replaces it
+    const mirrored = assessedAttempt(submission);
+    if (mirrored) {
+        writes.push({
+            updateOne: {
+                filter: key(mirrored.attemptNumber),
+                update: { $setOnInsert: { extractedText: submission.extractedText, minHashSignature: plain(submission.minHashSignature) } },
+                upsert: true,
+            },
+        });
+    }
+    await SubmissionAttempt.bulkWrite(writes);
+
+    const fields = {};
+    for (const field of ATTEMPT_FIELDS) fields[field] = data[field];
+    submission.attempts.push({ ...fields, attemptNumber });
+    const attempt = submission.attempts[submission.attempts.length - 1];
+
+    if (!submission.checkedAttempt) applyAttempt(submission, attempt, data);
+    return attempt;
+}
+
+// Every stored original file of a submission, once each (attempts share the mirrored file)
+function storedFilesOf(submission) {
+    const files = new Map();
+    for (const holder of [submission, ...(submission.attempts || [])]) {
+        if (holder.originalFile?.key) files.set(`${holder.originalFile.storage}:${holder.originalFile.key}`, holder.originalFile);
+    }
+    return [...files.values()];
+}
+
+module.exports = { recordAttempt, applyAttempt, loadAttemptText, assessedAttempt, findAttempt, attemptsUsed, ensureLegacyAttempt, storedFilesOf };
@@ -0,0 +1,31 @@
+// Classroom staff roles. The classroom's teacherId is its owner; co-teachers and teaching
+// assistants are listed in classroom.staff. Each role grants a fixed set of permissions,
+// which routes check through requireClassroomAccess.
+
+const STAFF_ROLES = ["co-teacher", "ta"];
+
+const ROLE_PERMISSIONS = {
+    owner: ["view", "grade", "manageAssignments", "manageStudents", "manageStaff", "deleteClassroom"],
+    "co-teacher": ["view", "grade", "manageAssignments", "manageStudents"],
+    // Teaching assistants grade and review flags but cannot change or delete anything
+    ta: ["view", "grade"],
+};
+
+/*
+ * The role a user holds in a classroom.
+ *
+ * @returns {"owner"|"co-teacher"|"ta"|null}
+ */
+function classroomRole(classroom, userId) {
+    if (!classroom || !userId) return null;
+    const id = userId.toString();
+    if (classroom.teacherId?.toString() === id) return "owner";
+    const member = (classroom.staff || []).find((s) => s.userId?.toString() === id);
+    return member ? member.role : null;
+}
+
+const permissionsOf = (role) => ROLE_PERMISSIONS[role] || [];
+
+const hasPermission = (role, permission) => permissionsOf(role).includes(permission);
+
+module.exports = { STAFF_ROLES, classroomRole, permissionsOf, hasPermission };
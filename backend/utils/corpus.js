@@ -0,0 +1,118 @@
+const CorpusEntry = require("../models/CorpusEntry");
+const { findCrossCandidatePairs } = require("./lsh");
+const { calculateJaccardSimilarity } = require("./similarity");
+
+// Year an assignment belongs to in the corpus (its deadline's year)
+const assignmentYear = (assignment) => new Date(assignment.deadline || assignment.createdAt).getFullYear();
+
+/*
+ * Adds (or refreshes) one submitted document in the owning teacher's corpus.
+ *
+ * @param {Object} assignment - Assignment document (needs _id, title, term, tags, deadline)
+ * @param {Object} classroom - Classroom document (needs _id, name, teacherId)
+ * @param {Object} submission - Submission subdocument with extractedText and minHashSignature
+ */
+async function indexSubmission(assignment, classroom, submission) {
+    if (!submission.submitted || !submission.extractedText || !submission.minHashSignature?.length) return;
+
+    await CorpusEntry.findOneAndUpdate(
+        { assignmentId: assignment._id, studentId: submission.studentId },
+        {
+            teacherId: classroom.teacherId,
+            classroomId: classroom._id,
+            studentName: submission.name,
+            assignmentTitle: assignment.title,
+            classroomName: classroom.name,
+            term: assignment.term || "",
+            year: assignmentYear(assignment),
+            tags: assignment.tags || [],
+            fileName: submission.fileName,
+            extractedText: submission.extractedText,
+            minHashSignature: submission.minHashSignature,
+            submittedAt: submission.submittedAt,
+        },
+        { upsert: true, setDefaultsOnInsert: true }
+    );
+}
+
+/*
+ * Indexes every submitted document of an assignment and refreshes its labels.
+ *
+ * @returns {Promise<number>} Number of submissions indexed
+ */
+async function indexAssignment(assignment, classroom) {
+    const submitted = assignment.submissions.filter(sub => sub.submitted && sub.extractedText);
+    for (const submission of submitted) {
+        await indexSubmission(assignment, classroom, submission);
+    }
+
+    // Labels may have changed since earlier entries were written
+    await CorpusEntry.updateMany(
+        { assignmentId: assignment._id },
+        {
+            assignmentTitle: assignment.title,
+            classroomName: classroom.name,
+            term: assignment.term || "",
+            year: assignmentYear(assignment),
+            tags: assignment.tags || [],
+        }
+    );
+    return submitted.length;
+}
+
+/*
+ * Builds the corpus query for an assignment's comparison scope.
+ * Only the owning teacher's entries are eligible and the assignment itself is excluded.
+ */
+function buildCorpusFilter(teacherId, assignment) {
+    const settings = assignment.corpusSettings || {};
+    const filter = { teacherId, assignmentId: { $ne: assignment._id } };
+
+    if (settings.classroomIds?.length) filter.classroomId = { $in: settings.classroomIds };
+    if (settings.tags?.length) filter.tags = { $in: settings.tags };
+    if (settings.years?.length) filter.year = { $in: settings.years };
+    return filter;
+}
+
+/*
+ * Compares an assignment's submissions against the teacher's prior corpus.
+ *
+ * @param {Array<{submissionId: string, studentId: string, signature: number[], extractedText: string}>} querySubmissions
+ * @param {Object} filter - Result of buildCorpusFilter
+ * @param {{bands: number, rows: number}} banding
+ * @returns {Promise<{matches: Array<{studentId: string, entry: Object, similarity: number}>, corpusSize: number, pairsEvaluated: number}>}
+ */
+async function findCorpusMatches(querySubmissions, filter, banding) {
+    const entries = await CorpusEntry.find(filter).lean();
+    if (entries.length === 0 || querySubmissions.length === 0) {
+        return { matches: [], corpusSize: entries.length, pairsEvaluated: 0 };
+    }
+
+    const entriesById = new Map(entries.map(entry => [entry._id.toString(), entry]));
+    const queryById = new Map(querySubmissions.map(sub => [sub.submissionId, sub]));
+
+    const pairs = findCrossCandidatePairs(
+        querySubmissions,
+        entries.map(entry => ({ submissionId: entry._id.toString(), signature: entry.minHashSignature })),
+        banding
+    );
+
+    const matches = [];
+    for (const [queryId, entryId] of pairs) {
+        const query = queryById.get(queryId);
+        const entry = entriesById.get(entryId);
+        if (!query || !entry) continue;
+
+        // The same student resubmitting their own earlier work is not a match
+        if (entry.studentId.toString() === query.studentId) continue;
+
+        const similarity = calculateJaccardSimilarity(query.extractedText, entry.extractedText || "");
+        if (similarity > 0) {
+            matches.push({ studentId: query.studentId, entry, similarity });
+        }
+    }
+
+    return { matches, corpusSize: entries.length, pairsEvaluated: pairs.length };
+}
+
+module.exports = { indexSubmission, indexAssignment, buildCorpusFilter, findCorpusMatches };
@@ -0,0 +1,73 @@
+// Minimal RFC 4180 CSV reading and writing for roster imports and exports.
+
+/*
+ * Parses CSV text into rows of trimmed cells. Handles quoted cells (with embedded commas,
+ * quotes and line breaks), CRLF line endings and a UTF-8 byte order mark; blank lines
+ * are dropped.
+ *
+ * @param {string} text - CSV file contents
+ * @returns {string[][]}
+ */
+function parseCsv(text) {
+    const rows = [];
+    let row = [];
+    let cell = "";
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, "");
+
+    const endCell = () => { row.push(cell.trim()); cell = ""; };
+    const endRow = () => {
+        endCell();
+        if (row.some(value => value !== "")) rows.push(row);
+        row = [];
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            endCell();
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && input[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== "" || row.length > 0) endRow();
+
+    return rows;
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value) {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/*
+ * Serializes rows to CSV (CRLF line endings). Text cells that a spreadsheet would treat
+ * as formulas are prefixed with an apostrophe.
+ *
+ * @param {Array<Array<string|number|null>>} rows - First row is usually the header
+ * @returns {string}
+ */
+function toCsv(rows) {
+    return rows.map(row => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
+
+module.exports = { parseCsv, toCsv };
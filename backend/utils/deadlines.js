@@ -0,0 +1,121 @@
+// Per-student deadlines. An extension moves one student's deadline; the late window
+// (deadline → latePolicy.cutoff) keeps its length for that student. Late penalties are
+// percentages taken off the mark, computed from how late the work was handed in.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameStudent = (a, b) => !!a && !!b && a.toString() === b.toString();
+
+function findExtension(assignment, studentId) {
+    return (assignment.extensions || []).find((ext) => sameStudent(ext.studentId, studentId)) || null;
+}
+
+/*
+ * The deadline and late-window cutoff that apply to one student.
+ *
+ * @param {Object} assignment - Assignment document or lean object
+ * @param {ObjectId|string} studentId
+ * @returns {{ deadline: Date, cutoff: Date|null, extension: Object|null }}
+ *   cutoff is null when late work is accepted indefinitely; when late work is not
+ *   allowed at all it equals the deadline.
+ */
+function studentDeadlines(assignment, studentId) {
+    const extension = findExtension(assignment, studentId);
+    const baseDeadline = new Date(assignment.deadline);
+    const deadline = extension ? new Date(extension.deadline) : baseDeadline;
+
+    let cutoff = null;
+    if (!assignment.canSubmitLate) {
+        cutoff = deadline;
+    } else if (assignment.latePolicy?.cutoff) {
+        const shift = deadline.getTime() - baseDeadline.getTime();
+        cutoff = new Date(new Date(assignment.latePolicy.cutoff).getTime() + shift);
+    }
+
+    return { deadline, cutoff, extension };
+}
+
+/*
+ * Moves the assignment deadline. The late cutoff moves with it, so the late window keeps
+ * its length, and extensions that are no longer later than the new deadline are dropped.
+ *
+ * @returns {{ previousCutoff: Date|null, droppedExtensions: Array<Object> }}
+ */
+function moveDeadline(assignment, newDeadline) {
+    const shift = newDeadline.getTime() - new Date(assignment.deadline).getTime();
+    const previousCutoff = assignment.latePolicy?.cutoff || null;
+    if (previousCutoff) {
+        assignment.latePolicy.cutoff = new Date(new Date(previousCutoff).getTime() + shift);
+    }
+    assignment.deadline = newDeadline;
+
+    const droppedExtensions = (assignment.extensions || []).filter(ext => new Date(ext.deadline) <= newDeadline);
+    droppedExtensions.forEach(ext => assignment.extensions.pull(ext._id));
+    return { previousCutoff, droppedExtensions };
+}
+
+/*
+ * Checks that the late cutoff and every extension fall after the assignment deadline.
+ *
+ * @returns {string|null} The problem, or null when the schedule is consistent
+ */
+function scheduleError(assignment) {
+    const deadline = new Date(assignment.deadline);
+    const cutoff = assignment.latePolicy?.cutoff;
+    if (cutoff && new Date(cutoff) <= deadline) {
+        return "The late cutoff must be after the deadline";
+    }
+    if ((assignment.extensions || []).some(ext => new Date(ext.deadline) <= deadline)) {
+        return "An extension must be later than the assignment deadline";
+    }
+    return null;
+}
+
+/*
+ * Percentage of the mark deducted for work handed in at `submittedAt`.
+ * "percent-per-day" charges per started day after the deadline; "flat" charges once.
+ *
+ * @returns {number} 0-100
+ */
+function latePenaltyPercent(assignment, studentId, submittedAt) {
+    const policy = assignment.latePolicy || {};
+    const { deadline } = studentDeadlines(assignment, studentId);
+    const lateBy = new Date(submittedAt).getTime() - deadline.getTime();
+    if (lateBy <= 0 || !policy.penaltyValue) return 0;
+
+    let penalty = 0;
+    if (policy.penaltyType === "percent-per-day") {
+        penalty = Math.ceil(lateBy / DAY_MS) * policy.penaltyValue;
+    } else if (policy.penaltyType === "flat") {
+        penalty = policy.penaltyValue;
+    }
+
+    const cap = policy.maxPenalty ?? 100;
+    return Math.min(penalty, cap, 100);
+}
+
+/*
+ * Re-evaluates the late flag and penalty of a student's submitted attempts, e.g. after
+ * the deadline, an extension or the penalty settings changed.
+ */
+function refreshLateness(assignment, submission) {
+    const { deadline } = studentDeadlines(assignment, submission.studentId);
+    for (const attempt of submission.attempts || []) {
+        if (!attempt.submittedAt) continue;
+        attempt.late = attempt.submittedAt > deadline;
+        attempt.latePenalty = latePenaltyPercent(assignment, submission.studentId, attempt.submittedAt);
+    }
+    if (submission.submitted && submission.submittedAt) {
+        submission.late = submission.submittedAt > deadline;
+        submission.latePenalty = latePenaltyPercent(assignment, submission.studentId, submission.submittedAt);
+    }
+}
+
+module.exports = {
+    studentDeadlines,
+    latePenaltyPercent,
+    refreshLateness,
+    findExtension,
+    moveDeadline,
+    scheduleError,
+};
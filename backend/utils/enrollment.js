@@ -0,0 +1,45 @@
+const Assignment = require("../models/Assignment");
+const ClassroomInvite = require("../models/ClassroomInvite");
+
+// Adding a student to a classroom: the roster entry plus an empty submission on every
+// assignment and exam the classroom already has. Pending join requests and roster
+// invitations of the student are settled by the enrollment.
+
+/*
+ * Enrolls a student. Updates the classroom document in memory (the caller saves it) and
+ * creates the student's submission records.
+ *
+ * @param {Object} classroom - Classroom document
+ * @param {Object} student - User document of the student
+ * @param {{ studentNumber?: string }} [details] - Roster details from the teacher
+ */
+async function enrollStudent(classroom, student, { studentNumber } = {}) {
+    classroom.students.push({
+        studentId: student._id,
+        name: student.name,
+        email: student.email,
+        studentNumber: studentNumber || undefined,
+    });
+    classroom.numStudents += 1;
+    classroom.pendingJoins = (classroom.pendingJoins || []).filter(p => !p.studentId.equals(student._id));
+
+    const allTaskIds = [...(classroom.assignments || []), ...(classroom.exams || [])];
+    await Assignment.updateMany(
+        { _id: { $in: allTaskIds }, "submissions.studentId": { $ne: student._id } },
+        {
+            $push: {
+                submissions: {
+                    studentId: student._id,
+                    name: student.name,
+                    email: student.email,
+                    submitted: false,
+                    plagiarismPercent: null,
+                    wordCount: 0,
+                }
+            }
+        }
+    );
+    await ClassroomInvite.deleteMany({ classroomId: classroom._id, email: student.email, role: "student" });
+}
+
+module.exports = { enrollStudent };
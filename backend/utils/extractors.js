@@ -0,0 +1,417 @@
+const path = require("path");
+const fs = require("fs/promises");
+const pdfParse = require("pdf-parse");
+const mammoth = require("mammoth");
+const JSZip = require("jszip");
+const WordExtractor = require("word-extractor");
+const { recognizeText } = require("./ocr");
+
+// Text extraction shared by every upload route. Extractors are registered per MIME type;
+// the type is derived from the file extension first because browsers report some
+// document types inconsistently.
+
+const PDF_MIN_PAGE_CHARS = 20; // Pages with less text than this in their text layer are OCR'd
+
+const EXTENSION_MIME_TYPES = {
+    ".pdf": "application/pdf",
+    ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".doc": "application/msword",
+    ".odt": "application/vnd.oasis.opendocument.text",
+    ".rtf": "application/rtf",
+    ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+    ".markdown": "text/markdown",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+};
+
+// Names shown to users for each supported MIME type
+const FORMAT_LABELS = {
+    "application/pdf": "PDF",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "Word",
+    "application/msword": "Word 97-2003",
+    "application/vnd.oasis.opendocument.text": "OpenDocument",
+    "application/rtf": "RTF",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation": "PowerPoint",
+    "text/plain": "Text",
+    "text/markdown": "Markdown",
+    "image/png": "Image",
+    "image/jpeg": "Image",
+};
+
+const extractors = new Map();
+
+/*
+ * Registers an extractor for one or more MIME types.
+ *
+ * @param {string[]} mimeTypes
+ * @param {{name: string, extract: (input: string|Buffer) => Promise<{text: string, pages: Array}>}} extractor
+ */
+function registerExtractor(mimeTypes, extractor) {
+    for (const mimeType of mimeTypes) {
+        extractors.set(mimeType, extractor);
+    }
+}
+
+// MIME type used to pick an extractor for an uploaded (multer) file
+function resolveMimeType(file) {
+    const fileExt = path.extname(file.originalname || "").toLowerCase();
+    return EXTENSION_MIME_TYPES[fileExt] || file.mimetype;
+}
+
+function isSupportedFile(file) {
+    return extractors.has(resolveMimeType(file));
+}
+
+// Splits pdf.js text items into lines the way pdf-parse's default renderer does
+async function renderPdfPage(pageData) {
+    const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY;
+    let text = "";
+    for (const item of content.items) {
+        if (lastY !== undefined && lastY !== item.transform[5]) text += "\n";
+        text += item.str;
+        lastY = item.transform[5];
+    }
+    return text;
+}
+
+// Builds the per-page metadata stored alongside extracted text
+const pageMeta = (page, method, text, confidence = null) => ({
+    page,
+    method,
+    confidence: confidence === null ? null : parseFloat(confidence.toFixed(3)),
+    characters: text.length,
+});
+
+/*
+ * PDFs: read the text layer page by page and OCR only the pages that have none
+ * (scanned pages), so mixed documents keep their exact digital text.
+ */
+registerExtractor(["application/pdf"], {
+    name: "pdf",
+    async extract(input) {
+        const buffer = Buffer.isBuffer(input) ? input : await fs.readFile(input);
+
+        let pageTexts = [];
+        try {
+            // pdf-parse's bundled pdf.js ignores a Buffer's byteOffset, so pooled Buffers
+            // (small uploads) read as garbage; a standalone copy parses correctly
+            await pdfParse(new Uint8Array(buffer), {
+                pagerender: async (pageData) => {
+                    const text = await renderPdfPage(pageData);
+                    pageTexts[pageData.pageIndex] = text;
+                    return text;
+                },
+            });
+        } catch (err) {
+            console.warn("pdf-parse failed, falling back to OCR:", err.message);
+            pageTexts = [];
+        }
+
+        // Pages without a usable text layer; every page when the text layer could not be read
+        const scannedPages = [];
+        for (let i = 0; i < pageTexts.length; i++) {
+            if ((pageTexts[i] || "").trim().length < PDF_MIN_PAGE_CHARS) scannedPages.push(i + 1);
+        }
+        const needsOcr = pageTexts.length === 0 || scannedPages.length > 0;
+        let ocr = null;
+        if (needsOcr) {
+            try {
+                ocr = await recognizeText(buffer, { isPdf: true, pages: pageTexts.length === 0 ? undefined : scannedPages });
+            } catch (err) {
+                console.warn("PDF OCR unavailable, keeping the text layer:", err.message);
+            }
+        }
+        const ocrPages = new Map((ocr?.pages || []).map(page => [page.page, page]));
+
+        const pageCount = Math.max(pageTexts.length, ocrPages.size);
+        const texts = [];
+        const pages = [];
+        for (let i = 0; i < pageCount; i++) {
+            const layerText = pageTexts[i] || "";
+            const ocrPage = ocrPages.get(i + 1);
+
+            if (ocrPage && layerText.trim().length < PDF_MIN_PAGE_CHARS) {
+                texts.push(ocrPage.text);
+                pages.push(pageMeta(i + 1, "ocr", ocrPage.text, ocrPage.confidence));
+            } else {
+                texts.push(layerText);
+                pages.push(pageMeta(i + 1, "text", layerText));
+            }
+        }
+
+        return { text: texts.join("\n\n"), pages, ocrProvider: ocr?.provider || null };
+    },
+});
+
+// Single-page result for formats without a page structure
+const textResult = (text) => ({ text, pages: [pageMeta(1, "text", text)] });
+
+const readBuffer = async (input) => (Buffer.isBuffer(input) ? input : fs.readFile(input));
+
+const XML_ENTITIES = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+    if (code[0] === "#") {
+        const codePoint = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Beyond Unicode: keep the entity as written rather than fail the whole document
+        return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+    }
+    return XML_ENTITIES[code] ?? entity;
+});
+
+// Word documents (Office Open XML)
+registerExtractor(["application/vnd.openxmlformats-officedocument.wordprocessingml.document"], {
+    name: "docx",
+    async extract(input) {
+        const docData = await mammoth.extractRawText(Buffer.isBuffer(input) ? { buffer: input } : { path: input });
+        return textResult(docData.value);
+    },
+});
+
+// Legacy Word 97-2003 binary documents, which mammoth cannot read
+registerExtractor(["application/msword"], {
+    name: "doc",
+    async extract(input) {
+        const doc = await new WordExtractor().extract(input);
+        return textResult(doc.getBody());
+    },
+});
+
+/*
+ * OpenDocument text: paragraphs and headings live in content.xml. Spacing elements
+ * are expanded and every other tag is dropped.
+ */
+registerExtractor(["application/vnd.oasis.opendocument.text"], {
+    name: "odt",
+    async extract(input) {
+        const zip = await JSZip.loadAsync(await readBuffer(input));
+        const content = zip.file("content.xml");
+        if (!content) throw new Error("Not an OpenDocument text file");
+
+        const xml = await content.async("string");
+        const body = xml
+            .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (tag, count) => " ".repeat(parseInt(count, 10) || 1))
+            .replace(/<text:tab\s*\/>/g, "\t")
+            .replace(/<text:line-break\s*\/>/g, "\n")
+            .replace(/<\/text:(?:p|h)>/g, "\n")
+            .replace(/<[^>]+>/g, "");
+        return textResult(decodeXmlEntities(body).trim());
+    },
+});
+
+// PowerPoint decks: one page per slide, in slide order
+registerExtractor(["application/vnd.openxmlformats-officedocument.presentationml.presentation"], {
+    name: "pptx",
+    async extract(input) {
+        const zip = await JSZip.loadAsync(await readBuffer(input));
+        const slideFiles = Object.keys(zip.files)
+            .map(name => ({ name, number: parseInt((name.match(/^ppt\/slides\/slide(\d+)\.xml$/) || [])[1], 10) }))
+            .filter(slide => !Number.isNaN(slide.number))
+            .sort((a, b) => a.number - b.number);
+
+        const texts = [];
+        const pages = [];
+        for (const [index, slide] of slideFiles.entries()) {
+            const xml = await zip.file(slide.name).async("string");
+            const paragraphs = (xml.match(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g) || [])
+                .map(paragraph => (paragraph.match(/<a:t>([^<]*)<\/a:t>/g) || [])
+                    .map(run => decodeXmlEntities(run.replace(/<\/?a:t>/g, "")))
+                    .join(""))
+                .filter(line => line.trim());
+
+            const text = paragraphs.join("\n");
+            texts.push(text);
+            pages.push(pageMeta(index + 1, "text", text));
+        }
+        return { text: texts.join("\n\n"), pages };
+    },
+});
+
+/*
+ * Rich Text Format: walks the control words, keeping text and paragraph breaks and
+ * skipping destinations (font tables, pictures, metadata) that hold no body text.
+ */
+const RTF_SKIPPED_DESTINATIONS = new Set([
+    "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer", "headerl", "headerr",
+    "footerl", "footerr", "object", "themedata", "colorschememapping", "datastore", "latentstyles",
+    "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl", "mmathPr",
+]);
+
+const rtfToText = (rtf) => {
+    let text = "";
+    let skipDepth = 0; // Group depth at which a skipped destination started (0 = not skipping)
+    let depth = 0;
+    let unicodeSkip = 1; // Fallback characters to drop after each \u escape (\ucN)
+    let pendingSkip = 0;
+
+    const emit = (chars) => {
+        if (skipDepth) return;
+        text += chars;
+    };
+
+    for (let i = 0; i < rtf.length; i++) {
+        const char = rtf[i];
+
+        if (char === "{") {
+            depth++;
+            // {\* ...} marks an optional destination readers may ignore
+            if (!skipDepth && rtf.startsWith("\\*", i + 1)) skipDepth = depth;
+            continue;
+        }
+        if (char === "}") {
+            if (skipDepth === depth) skipDepth = 0;
+            depth--;
+            continue;
+        }
+        if (char === "\r" || char === "\n") continue;
+        if (char !== "\\") {
+            if (pendingSkip > 0) {
+                pendingSkip--;
+                continue;
+            }
+            emit(char);
+            continue;
+        }
+
+        const next = rtf[i + 1];
+        if (next === "\\" || next === "{" || next === "}") {
+            emit(next);
+            i++;
+            continue;
+        }
+        if (next === "'") {
+            const byte = parseInt(rtf.substr(i + 2, 2), 16);
+            i += 3;
+            if (pendingSkip > 0) {
+                pendingSkip--;
+                continue;
+            }
+            if (!Number.isNaN(byte)) emit(Buffer.from([byte]).toString("latin1"));
+            continue;
+        }
+
+        const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+        if (!match) {
+            // Control symbols such as \~ (non-breaking space) or \- (optional hyphen)
+            if (next === "~") emit(" ");
+            i++;
+            continue;
+        }
+        i += match[0].length - 1;
+
+        const [, word, param] = match;
+        if (RTF_SKIPPED_DESTINATIONS.has(word) && !skipDepth) {
+            skipDepth = depth;
+        } else if (word === "par" || word === "line" || word === "row") {
+            emit("\n");
+        } else if (word === "tab" || word === "cell") {
+            emit("\t");
+        } else if (word === "uc") {
+            unicodeSkip = parseInt(param, 10);
+        } else if (word === "u") {
+            let codePoint = parseInt(param, 10);
+            if (codePoint < 0) codePoint += 65536;
+            emit(String.fromCharCode(codePoint));
+            pendingSkip = unicodeSkip;
+        }
+    }
+    return text.replace(/[ \t]+\n/g, "\n").trim();
+};
+
+registerExtractor(["application/rtf", "text/rtf"], {
+    name: "rtf",
+    async extract(input) {
+        return textResult(rtfToText((await readBuffer(input)).toString("latin1")));
+    },
+});
+
+// Plain text (UTF-8, with or without a byte-order mark)
+registerExtractor(["text/plain"], {
+    name: "text",
+    async extract(input) {
+        return textResult((await readBuffer(input)).toString("utf8").replace(/^\uFEFF/, ""));
+    },
+});
+
+// Markdown: keeps the prose and drops formatting syntax, link targets and HTML tags
+registerExtractor(["text/markdown"], {
+    name: "markdown",
+    async extract(input) {
+        const markdown = (await readBuffer(input)).toString("utf8").replace(/^\uFEFF/, "");
+        const text = markdown
+            .replace(/^(```|~~~).*$/gm, "")
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+            .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+            .replace(/^\s{0,3}\[[^\]]+\]:\s*\S+.*$/gm, "")
+            .replace(/<[^>]+>/g, "")
+            .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+            .replace(/^\s{0,3}>\s?/gm, "")
+            .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, "")
+            .replace(/^\s*(?:[-*_]\s*){3,}$/gm, "")
+            .replace(/(\*\*|__|\*|_|~~|`)(\S(?:.*?\S)?)\1/g, "$2");
+        return textResult(text.trim());
+    },
+});
+
+// Images are always OCR'd
+registerExtractor(["image/png", "image/jpeg"], {
+    name: "image",
+    async extract(input) {
+        const ocr = await recognizeText(input);
+        const text = ocr.pages.map(page => page.text).join("\n");
+        return {
+            text,
+            pages: ocr.pages.map(page => pageMeta(page.page, "ocr", page.text, page.confidence)),
+            ocrProvider: ocr.provider,
+        };
+    },
+});
+
+/*
+ * Extracts text from an uploaded file with the extractor registered for its type.
+ *
+ * @param {{originalname: string, mimetype?: string, path?: string, buffer?: Buffer}} file - Multer file (disk or memory storage)
+ * @returns {Promise<{text: string, extractor: string, ocrProvider: string|null,
+ *          pages: Array<{page: number, method: "text"|"ocr", confidence: number|null, characters: number}>}>}
+ */
+async function extractText(file) {
+    const extractor = extractors.get(resolveMimeType(file));
+    if (!extractor) {
+        throw new Error(`Unsupported file format: ${file.originalname}`);
+    }
+
+    const result = await extractor.extract(file.buffer || file.path);
+    return {
+        text: result.text || "",
+        extractor: extractor.name,
+        ocrProvider: result.ocrProvider || null,
+        pages: result.pages || [],
+    };
+}
+
+// File extensions with a registered extractor, e.g. for error messages
+const supportedExtensions = () => Object.keys(EXTENSION_MIME_TYPES).filter(ext => extractors.has(EXTENSION_MIME_TYPES[ext]));
+
+/*
+ * Supported formats grouped under their display label, for upload pickers.
+ *
+ * @returns {Array<{label: string, extensions: string[], mimeTypes: string[]}>}
+ */
+function supportedFormats() {
+    const formats = new Map();
+    for (const ext of supportedExtensions()) {
+        const mimeType = EXTENSION_MIME_TYPES[ext];
+        const label = FORMAT_LABELS[mimeType] || ext.slice(1).toUpperCase();
+        const format = formats.get(label) || { label, extensions: [], mimeTypes: [] };
+        format.extensions.push(ext);
+        if (!format.mimeTypes.includes(mimeType)) format.mimeTypes.push(mimeType);
+        formats.set(label, format);
+    }
+    return [...formats.values()];
+}
+
+module.exports = { registerExtractor, extractText, isSupportedFile, resolveMimeType, supportedExtensions, supportedFormats };
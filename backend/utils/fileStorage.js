@@ -0,0 +1,174 @@
+const fs = require("fs");
+const fsp = require("fs/promises");
+const path = require("path");
+const crypto = require("crypto");
+const mongoose = require("mongoose");
+const { resolveMimeType } = require("./extractors");
+
+// Storage for original uploaded files (the document a student actually submitted).
+// FILE_STORAGE selects the backend: "gridfs" (default, kept in MongoDB) or "local"
+// (FILE_STORAGE_DIR on disk). Each stored file records which backend holds it, so
+// switching backends does not orphan files saved earlier.
+
+const SUBMISSIONS_BUCKET = "submissionFiles";
+
+// Types a browser may render in place; anything else is always sent as an attachment
+const INLINE_CONTENT_TYPES = ["application/pdf", "image/png", "image/jpeg", "text/plain"];
+
+// Content type from the file extension. The type reported with an upload is chosen by the
+// client, so it is never stored or sent back.
+const contentTypeOf = (fileName) => resolveMimeType({ originalname: fileName, mimetype: "application/octet-stream" });
+
+/*
+ * GridFS: files live in the application's MongoDB database.
+ */
+const gridFsStorage = {
+    name: "gridfs",
+
+    bucket() {
+        return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: SUBMISSIONS_BUCKET });
+    },
+
+    async save(source, { fileName, contentType, metadata }) {
+        const upload = this.bucket().openUploadStream(fileName, { contentType, metadata });
+        await new Promise((resolve, reject) => {
+            upload.on("finish", resolve);
+            upload.on("error", reject);
+            if (Buffer.isBuffer(source)) {
+                upload.end(source);
+            } else {
+                fs.createReadStream(source).on("error", reject).pipe(upload);
+            }
+        });
+        return upload.id.toString();
+    },
+
+    openReadStream(key) {
+        return this.bucket().openDownloadStream(new mongoose.Types.ObjectId(key));
+    },
+
+    async remove(key) {
+        try {
+            await this.bucket().delete(new mongoose.Types.ObjectId(key));
+        } catch (err) {
+            // Already gone: nothing to clean up
+            if (!/FileNotFound|File not found/i.test(err.message)) throw err;
+        }
+    },
+};
+
+/*
+ * Local disk, for single-server deployments. Keys are random names so uploaded
+ * file names never reach the file system.
+ */
+const localStorage = {
+    name: "local",
+
+    root: () => path.resolve(process.env.FILE_STORAGE_DIR || "uploads/submissions"),
+
+    async save(source, { fileName }) {
+        await fsp.mkdir(this.root(), { recursive: true });
+        const key = `${crypto.randomUUID()}${path.extname(fileName || "").toLowerCase()}`;
+        if (Buffer.isBuffer(source)) {
+            await fsp.writeFile(path.join(this.root(), key), source);
+        } else {
+            await fsp.copyFile(source, path.join(this.root(), key));
+        }
+        return key;
+    },
+
+    openReadStream(key) {
+        return fs.createReadStream(path.join(this.root(), path.basename(key)));
+    },
+
+    async remove(key) {
+        try {
+            await fsp.unlink(path.join(this.root(), path.basename(key)));
+        } catch (err) {
+            if (err.code !== "ENOENT") throw err;
+        }
+    },
+};
+
+const backends = { gridfs: gridFsStorage, local: localStorage };
+
+const activeBackend = () => {
+    const name = (process.env.FILE_STORAGE || "gridfs").toLowerCase();
+    if (!backends[name]) throw new Error(`Unknown FILE_STORAGE backend: ${name}`);
+    return backends[name];
+};
+
+const backendFor = (storedFile) => {
+    const backend = backends[storedFile.storage];
+    if (!backend) throw new Error(`Unknown storage backend: ${storedFile.storage}`);
+    return backend;
+};
+
+/*
+ * Stores an uploaded (multer) file.
+ *
+ * @param {{originalname: string, mimetype: string, size: number, path?: string, buffer?: Buffer}} file
+ * @param {Object} [metadata] - Extra fields kept with GridFS files (e.g. assignmentId, studentId)
+ * @returns {Promise<{storage: string, key: string, contentType: string, size: number}>}
+ */
+async function storeFile(file, metadata = {}) {
+    const backend = activeBackend();
+    const contentType = contentTypeOf(file.originalname);
+    const key = await backend.save(file.buffer || file.path, {
+        fileName: file.originalname,
+        contentType,
+        metadata,
+    });
+    return { storage: backend.name, key, contentType, size: file.size };
+}
+
+// Readable stream of a stored file's contents
+function openStoredFile(storedFile) {
+    return backendFor(storedFile).openReadStream(storedFile.key);
+}
+
+// Deletes a stored file; failures are logged, not thrown, so cleanup never blocks the caller
+async function removeStoredFile(storedFile) {
+    if (!storedFile?.key) return;
+    try {
+        await backendFor(storedFile).remove(storedFile.key);
+    } catch (err) {
+        console.error(`Failed to delete stored file ${storedFile.storage}:${storedFile.key}:`, err.message);
+    }
+}
+
+/*
+ * Sends a stored file as an HTTP response, inline (browser preview) or as a download.
+ * The content type comes from the file name, so files stored with a client-reported type
+ * are served safely too; only PDFs, images and plain text are ever sent inline.
+ *
+ * @param {Object} res - Express response
+ * @param {{storage: string, key: string}} storedFile
+ * @param {{fileName: string, download?: boolean}} options
+ */
+function sendStoredFile(res, storedFile, { fileName, download = false }) {
+    const stream = openStoredFile(storedFile);
+    stream.on("error", (err) => {
+        console.error("Stored File Error:", err.message);
+        if (!res.headersSent) {
+            res.removeHeader("Content-Disposition");
+            res.removeHeader("Content-Type");
+            res.status(404).json({ error: "File not found" });
+        } else {
+            res.end();
+        }
+    });
+
+    // filename* carries non-ASCII names; the plain filename is an ASCII fallback
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "");
+    const contentType = contentTypeOf(fileName);
+    const inline = !download && INLINE_CONTENT_TYPES.includes(contentType);
+    res.setHeader("Content-Type", contentType);
+    res.setHeader(
+        "Content-Disposition",
+        `${inline ? "inline" : "attachment"}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    );
+    stream.pipe(res);
+}
+
+module.exports = { storeFile, openStoredFile, removeStoredFile, sendStoredFile };
@@ -0,0 +1,99 @@
+// Classroom gradebook: every enrolled student against every assignment and exam, with the
+// submission status, lateness, similarity and grade of each pair. The same matrix feeds the
+// gradebook page and its CSV, XLSX and LMS exports.
+
+const { studentDeadlines } = require("./deadlines");
+const { formatGrade, formatGradingScheme } = require("./grading");
+
+// Submission fields the gradebook reads (for .select on Assignment queries)
+const GRADEBOOK_FIELDS = [
+    "title", "type", "deadline", "canSubmitLate", "latePolicy", "extensions", "grading",
+    "submissions.studentId", "submissions.submitted", "submissions.submittedAt", "submissions.late",
+    "submissions.latePenalty", "submissions.plagiarismPercent", "submissions.grade",
+    "submissions.attempts.attemptNumber", "submissions.attempts.latePenalty",
+].join(" ");
+
+const STATUS_LABELS = { submitted: "Submitted", missing: "Missing", pending: "Not due" };
+
+/*
+ * Builds the gradebook matrix.
+ *
+ * @param {Object} classroom - Classroom with its students
+ * @param {Array<Object>} tasks - Assignments and exams (lean, with GRADEBOOK_FIELDS)
+ * @param {Date} now
+ * @returns {{ tasks: Array, students: Array<{ cells: Array }> }} cells follow the order of tasks
+ */
+function buildGradebook(classroom, tasks, now = new Date()) {
+    const ordered = [...tasks].sort((a, b) => new Date(a.deadline) - new Date(b.deadline));
+
+    return {
+        tasks: ordered.map(task => ({
+            id: task._id,
+            title: task.title,
+            type: task.type,
+            deadline: task.deadline,
+            maxMarks: formatGradingScheme(task.grading).maxMarks,
+            gradesReleased: !!task.grading?.released,
+        })),
+        students: classroom.students.map(student => ({
+            studentId: student.studentId,
+            name: student.name,
+            email: student.email,
+            studentNumber: student.studentNumber || "",
+            cells: ordered.map(task => {
+                const submission = task.submissions.find(s => s.studentId && s.studentId.equals(student.studentId));
+                if (submission && submission.submitted) {
+                    const grade = formatGrade(task, submission);
+                    return {
+                        status: "submitted",
+                        late: !!submission.late,
+                        plagiarismPercent: submission.plagiarismPercent ?? null,
+                        grade: grade ? grade.finalScore : null,
+                    };
+                }
+                const { deadline } = studentDeadlines(task, student.studentId);
+                return { status: deadline < now ? "missing" : "pending", late: false, plagiarismPercent: null, grade: null };
+            }),
+        })),
+    };
+}
+
+// One row per student with status, late flag, similarity and grade columns for each task
+function gradebookRows(gradebook) {
+    const header = ["Name", "Email", "Student Number"];
+    for (const task of gradebook.tasks) {
+        header.push(`${task.title} - Status`, `${task.title} - Late`, `${task.title} - Similarity (%)`, `${task.title} - Grade (/${task.maxMarks})`);
+    }
+    return [
+        header,
+        ...gradebook.students.map(student => [
+            student.name,
+            student.email,
+            student.studentNumber,
+            ...student.cells.flatMap(cell => [STATUS_LABELS[cell.status], cell.late ? "Yes" : "", cell.plagiarismPercent, cell.grade]),
+        ]),
+    ];
+}
+
+/*
+ * Grades in the Canvas gradebook import layout: identity columns, a "Points Possible" row
+ * and one column of marks per task. Students are matched by SIS user ID (the roster's
+ * student number) or login (email); Moodle and other LMS CSV importers can map the same
+ * file by email.
+ */
+function lmsGradeRows(gradebook, sectionName) {
+    return [
+        ["Student", "ID", "SIS User ID", "SIS Login ID", "Section", ...gradebook.tasks.map(task => task.title)],
+        ["Points Possible", "", "", "", "", ...gradebook.tasks.map(task => task.maxMarks)],
+        ...gradebook.students.map(student => [
+            student.name,
+            "",
+            student.studentNumber,
+            student.email,
+            sectionName,
+            ...student.cells.map(cell => cell.grade),
+        ]),
+    ];
+}
+
+module.exports = { GRADEBOOK_FIELDS, buildGradebook, gradebookRows, lmsGradeRows };
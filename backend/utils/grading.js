@@ -0,0 +1,176 @@
+// Grading of assignments and exams. An assignment's grading scheme sets its maximum marks,
+// optionally split into sections (the mark distribution) with criteria describing what
+// earns the marks, or replaced by an attached rubric (see utils/rubrics). A grade is the raw
+// marks a teacher gave one submission's assessed attempt; the late penalty of that attempt is
+// applied when the grade is read, so changes to the late policy or extensions never leave a
+// stale final score behind.
+
+const { findAttempt } = require("./attempts");
+const { formatCriteria, rubricMaxPoints } = require("./rubrics");
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const isMark = (value) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/*
+ * Validates a grading scheme from the request body. With sections, the maximum marks are
+ * their total.
+ *
+ * @param {{ maxMarks?: number, sections?: Array<{name: string, maxMarks: number, criteria?: string}> }} body
+ * @returns {{ scheme: { maxMarks: number, sections: Array } } | { error: string }}
+ */
+function parseGradingScheme(body) {
+    const rawSections = body.sections ?? [];
+    if (!Array.isArray(rawSections)) return { error: "Sections must be a list" };
+
+    const sections = [];
+    for (const section of rawSections) {
+        const name = typeof section?.name === "string" ? section.name.trim() : "";
+        if (!name) return { error: "Every section needs a name" };
+        if (sections.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+            return { error: `Section "${name}" is listed twice` };
+        }
+        if (!isMark(section.maxMarks) || section.maxMarks === 0) {
+            return { error: `Section "${name}" needs maximum marks above 0` };
+        }
+        const criteria = typeof section.criteria === "string" ? section.criteria.trim() : "";
+        sections.push({ name, maxMarks: round(section.maxMarks), criteria });
+    }
+
+    if (sections.length > 0) {
+        return { scheme: { maxMarks: round(sections.reduce((sum, s) => sum + s.maxMarks, 0)), sections } };
+    }
+    if (!isMark(body.maxMarks) || body.maxMarks === 0) {
+        return { error: "Maximum marks must be a number above 0" };
+    }
+    return { scheme: { maxMarks: round(body.maxMarks), sections: [] } };
+}
+
+/*
+ * Validates rubric scoring: one level per criterion, with optional feedback. Points come
+ * from the chosen level.
+ */
+function parseCriterionScores(rubric, body) {
+    const entered = Array.isArray(body.criterionScores) ? body.criterionScores : [];
+    const criterionScores = [];
+    for (const criterion of rubric.criteria) {
+        const score = entered.find(s => s?.criterion === criterion.name);
+        const level = score && criterion.levels.find(l => l.label === score.level);
+        if (!level) {
+            return { error: `Choose a level for "${criterion.name}"` };
+        }
+        const feedback = typeof score.feedback === "string" ? score.feedback.trim() : "";
+        if (feedback.length > MAX_FEEDBACK_LENGTH) {
+            return { error: `Feedback on "${criterion.name}" can be at most ${MAX_FEEDBACK_LENGTH} characters` };
+        }
+        criterionScores.push({ criterion: criterion.name, level: level.label, points: level.points, feedback });
+    }
+    return {
+        score: round(criterionScores.reduce((sum, s) => sum + s.points, 0)),
+        sectionMarks: [],
+        criterionScores,
+    };
+}
+
+/*
+ * Validates the marks a teacher enters for one submission against the scheme: a level
+ * per criterion with a rubric, one mark per section when the scheme has sections,
+ * otherwise a single score.
+ *
+ * @returns {{ score: number, sectionMarks: Array, criterionScores: Array } | { error: string }}
+ */
+function parseMarks(grading, body) {
+    if (grading?.rubric?.criteria?.length) return parseCriterionScores(grading.rubric, body);
+
+    const sections = grading?.sections || [];
+    const maxMarks = grading?.maxMarks ?? 100;
+
+    if (sections.length === 0) {
+        if (!isMark(body.score) || body.score > maxMarks) {
+            return { error: `Score must be between 0 and ${maxMarks}` };
+        }
+        return { score: round(body.score), sectionMarks: [], criterionScores: [] };
+    }
+
+    const entered = Array.isArray(body.sectionMarks) ? body.sectionMarks : [];
+    const sectionMarks = [];
+    for (const section of sections) {
+        const mark = entered.find(m => m?.section === section.name);
+        if (!mark || !isMark(mark.scored) || mark.scored > section.maxMarks) {
+            return { error: `Marks for "${section.name}" must be between 0 and ${section.maxMarks}` };
+        }
+        sectionMarks.push({ section: section.name, scored: round(mark.scored) });
+    }
+    return { score: round(sectionMarks.reduce((sum, m) => sum + m.scored, 0)), sectionMarks, criterionScores: [] };
+}
+
+// Plain grading settings for API responses, with defaults for assignments graded before
+// schemes existed
+function formatGradingScheme(grading) {
+    return {
+        maxMarks: grading?.maxMarks ?? 100,
+        sections: (grading?.sections || []).map(s => ({ name: s.name, maxMarks: s.maxMarks, criteria: s.criteria || "" })),
+        rubric: grading?.rubric?.criteria?.length ? {
+            rubricId: grading.rubric.rubricId || null,
+            name: grading.rubric.name,
+            criteria: formatCriteria(grading.rubric.criteria),
+            maxPoints: rubricMaxPoints(grading.rubric.criteria),
+        } : null,
+        released: !!grading?.released,
+        releasedAt: grading?.releasedAt || null,
+    };
+}
+
+/*
+ * A submission's grade as shown to teachers and (once released) students.
+ *
+ * @returns {Object|null} null when the submission has not been graded
+ */
+function formatGrade(assignment, submission) {
+    const grade = submission.grade;
+    if (!grade || grade.score === null || grade.score === undefined) return null;
+
+    const scheme = formatGradingScheme(assignment.grading);
+    const attempt = findAttempt(submission, grade.attemptNumber);
+    const latePenalty = attempt ? attempt.latePenalty || 0 : submission.latePenalty || 0;
+    const maxBySection = new Map(scheme.sections.map(s => [s.name, s.maxMarks]));
+    const criteria = new Map((scheme.rubric?.criteria || []).map(c => [c.name, c]));
+
+    return {
+        attemptNumber: grade.attemptNumber ?? null,
+        score: grade.score,
+        latePenalty,
+        finalScore: round(grade.score * (1 - latePenalty / 100)),
+        maxMarks: scheme.maxMarks,
+        markDistribution: (grade.sectionMarks || []).map(m => ({
+            section: m.section,
+            maxMarks: maxBySection.get(m.section) ?? null,
+            scored: m.scored,
+        })),
+        criterionScores: (grade.criterionScores || []).map(s => {
+            const criterion = criteria.get(s.criterion);
+            return {
+                criterion: s.criterion,
+                level: s.level,
+                points: s.points,
+                maxPoints: criterion ? Math.max(0, ...criterion.levels.map(l => l.points)) : null,
+                descriptor: criterion?.levels.find(l => l.label === s.level)?.descriptor || "",
+                feedback: s.feedback || "",
+            };
+        }),
+        graderName: grade.graderName || null,
+        gradedAt: grade.gradedAt || null,
+    };
+}
+
+const hasGrades = (assignment) => assignment.submissions.some(sub => sub.grade && sub.grade.score !== null && sub.grade.score !== undefined);
+
+module.exports = {
+    parseGradingScheme,
+    parseMarks,
+    formatGradingScheme,
+    formatGrade,
+    hasGrades,
+};
@@ -0,0 +1,168 @@
+const PlagiarismJob = require("../models/PlagiarismJob");
+const CheckUsage = require("../models/CheckUsage");
+
+// Jobs run inside the API process, a few at a time, so a large check never blocks a request
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY, 10) || 2;
+const PROGRESS_SAVE_INTERVAL_MS = 1000; // Throttle progress writes for stages with many items
+
+const pendingJobs = [];
+let runningJobs = 0;
+
+// Overall progress is the average of the stages that actually run
+function computeProgress(stages) {
+    const counted = stages.filter(stage => stage.status !== "skipped");
+    if (counted.length === 0) return 0;
+
+    const sum = counted.reduce((acc, stage) => {
+        if (stage.status === "done") return acc + 1;
+        if (!stage.total) return acc;
+        return acc + Math.min(stage.completed / stage.total, 1);
+    }, 0);
+    return Math.round((sum / counted.length) * 100);
+}
+
+/*
+ * Creates the progress handle passed to a job handler.
+ * Writes are serialized so a throttled progress save never races the final save.
+ */
+function createProgressReporter(job) {
+    let saving = Promise.resolve();
+    let lastSavedAt = 0;
+
+    const persist = (force = false) => {
+        const now = Date.now();
+        if (!force && now - lastSavedAt < PROGRESS_SAVE_INTERVAL_MS) return saving;
+        lastSavedAt = now;
+        job.progress = job.status === "succeeded" ? 100 : computeProgress(job.stages);
+        saving = saving
+            .then(() => job.save())
+            .catch(err => console.error(`Failed to save progress of job ${job._id}:`, err));
+        return saving;
+    };
+
+    const stage = (name) => {
+        const found = job.stages.find(s => s.name === name);
+        if (!found) throw new Error(`Unknown job stage: ${name}`);
+        return found;
+    };
+
+    return {
+        // Marks a stage as running with the number of items it will process
+        start(name, total = 0) {
+            Object.assign(stage(name), { status: "running", completed: 0, total });
+            return persist(true);
+        },
+        advance(name, count = 1) {
+            stage(name).completed += count;
+            return persist();
+        },
+        finish(name) {
+            const s = stage(name);
+            Object.assign(s, { status: "done", completed: s.total });
+            return persist(true);
+        },
+        skip(name) {
+            stage(name).status = "skipped";
+            return persist(true);
+        },
+        flush: () => persist(true),
+    };
+}
+
+async function runJob(job, handler) {
+    const progress = createProgressReporter(job);
+    try {
+        job.status = "running";
+        job.startedAt = new Date();
+        await progress.flush();
+
+        const result = await handler(progress);
+
+        job.stages.forEach(s => {
+            if (s.status === "pending" || s.status === "running") s.status = "done";
+        });
+        job.status = "succeeded";
+        job.result = result;
+    } catch (error) {
+        console.error(`Job ${job._id} (${job.type}) failed:`, error);
+        const current = job.stages.find(s => s.status === "running");
+        if (current) current.status = "failed";
+        job.status = "failed";
+        job.error = error.message || "Job failed";
+    }
+    job.finishedAt = new Date();
+    await progress.flush();
+}
+
+function drainQueue() {
+    while (runningJobs < JOB_CONCURRENCY && pendingJobs.length > 0) {
+        const { job, handler } = pendingJobs.shift();
+        runningJobs++;
+        runJob(job, handler)
+            .catch(err => console.error(`Job ${job._id} could not be finalized:`, err))
+            .finally(() => {
+                runningJobs--;
+                drainQueue();
+            });
+    }
+}
+
+/*
+ * Persists a job and queues its handler.
+ *
+ * @param {{type: string, teacherId: string, assignmentId?: string, stages: Array<[string, string]>}} options
+ *        Stages are [name, label] pairs in pipeline order
+ * @param {(progress: Object) => Promise<Object>} handler - Runs the pipeline and returns the job result.
+ *        A thrown error fails the job and its message is shown to the teacher.
+ * @returns {Promise<Object>} The queued PlagiarismJob document
+ */
+async function enqueueJob({ type, teacherId, assignmentId, stages }, handler) {
+    const job = await PlagiarismJob.create({
+        type,
+        teacherId,
+        assignmentId,
+        stages: stages.map(([name, label]) => ({ name, label })),
+    });
+
+    // Monthly count for the teacher dashboard; a failed count never blocks the check
+    const now = new Date();
+    await CheckUsage.updateOne(
+        { teacherId, type, month: now.getMonth() + 1, year: now.getFullYear() },
+        { $inc: { count: 1 } },
+        { upsert: true }
+    ).catch(err => console.error(`Failed to count job ${job._id}:`, err));
+
+    pendingJobs.push({ job, handler });
+    setImmediate(drainQueue);
+    return job;
+}
+
+/*
+ * Fails jobs left queued or running by a previous process; their handlers are gone.
+ */
+async function recoverInterruptedJobs() {
+    const result = await PlagiarismJob.updateMany(
+        { status: { $in: ["queued", "running"] } },
+        { status: "failed", error: "Interrupted by a server restart. Please run the check again.", finishedAt: new Date() }
+    );
+    if (result.modifiedCount > 0) {
+        console.log(`Marked ${result.modifiedCount} interrupted plagiarism jobs as failed.`);
+    }
+}
+
+// Shape returned by the job-status endpoints
+const formatJob = (job) => ({
+    id: job._id,
+    type: job.type,
+    assignmentId: job.assignmentId || null,
+    status: job.status,
+    progress: job.progress,
+    stages: job.stages,
+    result: job.status === "succeeded" ? job.result : null,
+    error: job.error || null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt || null,
+    finishedAt: job.finishedAt || null,
+});
+
+module.exports = { enqueueJob, recoverInterruptedJobs, formatJob };
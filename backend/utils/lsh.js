@@ -1,13 +1,112 @@
 const { createHash } = require('crypto');
 const { NUM_PERMUTATIONS } = require('./minhash');
 
-const NUM_BANDS = NUM_PERMUTATIONS;
-const ROWS_PER_BAND = 1;
+// Global default similarity threshold used to derive the banding when an assignment
+// does not configure its own. Can be overridden with LSH_THRESHOLD (strictly between 0 and 1,
+// like an assignment's threshold); other values are ignored with a warning.
+const FALLBACK_LSH_THRESHOLD = 0.5;
 
-// Validate LSH configuration
-if (NUM_PERMUTATIONS % NUM_BANDS !== 0) {
-    console.error("LSH Configuration Error: NUM_PERMUTATIONS must be divisible by NUM_BANDS.");
-    process.exit(1);
+function defaultThreshold() {
+    if (process.env.LSH_THRESHOLD === undefined || process.env.LSH_THRESHOLD === "") return FALLBACK_LSH_THRESHOLD;
+    const value = Number(process.env.LSH_THRESHOLD);
+    if (!Number.isFinite(value) || value <= 0 || value >= 1) {
+        console.warn(`Ignoring LSH_THRESHOLD=${process.env.LSH_THRESHOLD}: it must be a number between 0 and 1. Using ${FALLBACK_LSH_THRESHOLD}.`);
+        return FALLBACK_LSH_THRESHOLD;
+    }
+    return value;
+}
+
+const DEFAULT_LSH_THRESHOLD = defaultThreshold();
+
+/*
+ * Probability that a pair with the given Jaccard similarity becomes a candidate
+ * (shares at least one identical band): 1 - (1 - s^r)^b.
+ *
+ * @param {number} similarity - Jaccard similarity between 0 and 1
+ * @param {number} bands
+ * @param {number} rows
+ * @returns {number} Probability between 0 and 1
+ */
+function candidateProbability(similarity, bands, rows) {
+    return 1 - Math.pow(1 - Math.pow(similarity, rows), bands);
+}
+
+/*
+ * Similarity at which the S-curve is steepest, approximately (1/b)^(1/r).
+ */
+function curveThreshold(bands, rows) {
+    return Math.pow(1 / bands, 1 / rows);
+}
+
+/*
+ * Lists every (bands, rows) split that uses the full signature.
+ *
+ * @param {number} numPermutations
+ * @returns {Array<{bands: number, rows: number}>}
+ */
+function bandingOptions(numPermutations = NUM_PERMUTATIONS) {
+    const options = [];
+    for (let rows = 1; rows <= numPermutations; rows++) {
+        if (numPermutations % rows === 0) {
+            options.push({ bands: numPermutations / rows, rows });
+        }
+    }
+    return options;
+}
+
+/*
+ * Picks the banding with the most rows whose S-curve threshold is at or below the target
+ * similarity. Pairs at a curve's threshold become candidates only about 60% of the time
+ * (and far less just below it), so the curve must rise before the target for pairs at the
+ * target to be compared reliably; among those bandings, more rows keep dissimilar pairs out.
+ *
+ * @param {number} threshold - Target similarity between 0 and 1
+ * @param {number} numPermutations
+ * @returns {{bands: number, rows: number}}
+ */
+function bandingForThreshold(threshold, numPermutations = NUM_PERMUTATIONS) {
+    const options = bandingOptions(numPermutations); // Ordered by rows, ascending
+    let best = options[0];
+    for (const option of options) {
+        if (curveThreshold(option.bands, option.rows) <= threshold) best = option;
+    }
+    return { bands: best.bands, rows: best.rows };
+}
+
+/*
+ * Resolves the LSH configuration for an assignment.
+ * Explicit bands/rows win, then the assignment's threshold, then the global default.
+ *
+ * @param {{threshold?: number, bands?: number, rows?: number}} [settings]
+ * @returns {{threshold: number, bands: number, rows: number, source: "custom" | "threshold" | "default"}}
+ */
+function resolveLshConfig(settings = {}) {
+    const { bands, rows } = settings || {};
+    if (bands && rows && bands * rows === NUM_PERMUTATIONS) {
+        return { threshold: curveThreshold(bands, rows), bands, rows, source: "custom" };
+    }
+
+    const hasThreshold = settings && typeof settings.threshold === "number";
+    const threshold = hasThreshold ? settings.threshold : DEFAULT_LSH_THRESHOLD;
+    return { threshold, ...bandingForThreshold(threshold), source: hasThreshold ? "threshold" : "default" };
+}
+
+/*
+ * Samples the S-curve of a banding for previewing in the UI.
+ *
+ * @param {number} bands
+ * @param {number} rows
+ * @param {number} [steps=20] - Number of intervals between similarity 0 and 1
+ * @returns {Array<{similarity: number, probability: number}>}
+ */
+function getSCurve(bands, rows, steps = 20) {
+    return Array.from({ length: steps + 1 }, (_, i) => {
+        const similarity = i / steps;
+        return {
+            similarity: parseFloat(similarity.toFixed(3)),
+            probability: parseFloat(candidateProbability(similarity, bands, rows).toFixed(4)),
+        };
+    });
 }
 
 /*
@@ -16,14 +115,15 @@ if (NUM_PERMUTATIONS % NUM_BANDS !== 0) {
  * indicating they are potential plagiarism candidates.
  *
  * @param {Array<{submissionId: string, signature: number[]}>} signaturesWithIds
+ * @param {{bands: number, rows: number}} banding
  * @returns {Map<string, string[]>} Map of bucketKey → array of submission IDs
  */
-function getLSHBuckets(signaturesWithIds) {
+function getLSHBuckets(signaturesWithIds, { bands, rows }) {
     const buckets = new Map();
 
     for (const { submissionId, signature } of signaturesWithIds) {
-        for (let b = 0; b < NUM_BANDS; b++) {
-            const band = signature.slice(b, b + ROWS_PER_BAND); // Extract one hash per band
+        for (let b = 0; b < bands; b++) {
+            const band = signature.slice(b * rows, (b + 1) * rows); // Extract this band's rows
             const bandKey = createHash('md5')
                 .update(JSON.stringify(band))
                 .digest('hex');                  // Hash the band to get a unique bucket key
@@ -44,10 +144,11 @@ function getLSHBuckets(signaturesWithIds) {
  * Any two submissions in the same bucket are treated as potential matches.
  *
  * @param {Array<{submissionId: string, signature: number[]}>} signaturesWithIds
+ * @param {{bands: number, rows: number}} [banding] - Defaults to the global configuration
  * @returns {Array<[string, string]>} Array of unique candidate ID pairs
  */
-function findCandidatePairs(signaturesWithIds) {
-    const buckets = getLSHBuckets(signaturesWithIds);
+function findCandidatePairs(signaturesWithIds, banding = resolveLshConfig()) {
+    const buckets = getLSHBuckets(signaturesWithIds, banding);
     const candidatePairs = new Set();
 
     for (const submissionIds of buckets.values()) {
@@ -65,4 +166,41 @@ function findCandidatePairs(signaturesWithIds) {
     return Array.from(candidatePairs).map(pair => pair.split('-'));
 }
 
-module.exports = { findCandidatePairs, NUM_BANDS, ROWS_PER_BAND };
+/*
+ * Identifies candidate pairs between a set of query submissions and a corpus.
+ * Only query × corpus pairs are returned, so a large corpus is not compared with itself.
+ *
+ * @param {Array<{submissionId: string, signature: number[]}>} querySignatures
+ * @param {Array<{submissionId: string, signature: number[]}>} corpusSignatures
+ * @param {{bands: number, rows: number}} [banding] - Defaults to the global configuration
+ * @returns {Array<[string, string]>} Array of unique [queryId, corpusId] pairs
+ */
+function findCrossCandidatePairs(querySignatures, corpusSignatures, banding = resolveLshConfig()) {
+    const corpusBuckets = getLSHBuckets(corpusSignatures, banding);
+    const queryBuckets = getLSHBuckets(querySignatures, banding);
+    const candidatePairs = new Set();
+
+    for (const [bucketKey, queryIds] of queryBuckets) {
+        const corpusIds = corpusBuckets.get(bucketKey);
+        if (!corpusIds) continue;
+
+        for (const queryId of queryIds) {
+            for (const corpusId of corpusIds) {
+                candidatePairs.add(`${queryId}-${corpusId}`);
+            }
+        }
+    }
+    return Array.from(candidatePairs).map(pair => pair.split('-'));
+}
+
+module.exports = {
+    findCandidatePairs,
+    findCrossCandidatePairs,
+    resolveLshConfig,
+    bandingForThreshold,
+    bandingOptions,
+    candidateProbability,
+    curveThreshold,
+    getSCurve,
+    DEFAULT_LSH_THRESHOLD,
+};
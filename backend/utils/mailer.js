@@ -0,0 +1,78 @@
+const nodemailer = require("nodemailer");
+
+// Outgoing email (password reset links, invitations).
+// MAIL_TRANSPORT selects the backend: "smtp" sends through SMTP_HOST/SMTP_PORT, which can
+// point at a local catcher such as Mailpit or MailHog (localhost:1025) in development and
+// tests; "console" only logs each message. Without SMTP_HOST, console is the default
+// outside production; in production sending fails until a transport is configured, so reset
+// links never end up in the logs by accident.
+
+const DEFAULT_FROM = "VeriWrite <no-reply@veriwrite.local>";
+
+/*
+ * SMTP server. Authentication and TLS are optional so a local catcher works without them.
+ */
+const smtpTransport = () => nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT, 10) || 1025,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+});
+
+/*
+ * Console: renders the message without sending it, so links can be copied from the logs.
+ */
+const consoleTransport = () => {
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    return {
+        async sendMail(message) {
+            const info = await transport.sendMail(message);
+            console.log(`Mail (not sent) to ${message.to}: ${message.subject}\n${message.text}`);
+            return info;
+        },
+    };
+};
+
+let transport = null;
+
+function getTransport() {
+    if (!transport) {
+        const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : defaultTransportName());
+        transport = name === "smtp" ? smtpTransport() : consoleTransport();
+    }
+    return transport;
+}
+
+function defaultTransportName() {
+    if (process.env.NODE_ENV === "production") {
+        throw new Error("Outgoing email is not configured: set SMTP_HOST (or MAIL_TRANSPORT) in production");
+    }
+    return "console";
+}
+
+/*
+ * Replaces the transport, e.g. with one that records messages in tests.
+ *
+ * @param {{sendMail: Function}|null} custom - Any object with nodemailer's sendMail; null restores the configured one
+ */
+function setTransport(custom) {
+    transport = custom;
+}
+
+/*
+ * Sends one email.
+ *
+ * @param {{to: string, subject: string, text: string, html?: string}} message
+ * @returns {Promise<Object>} The transport's delivery info
+ */
+async function sendMail({ to, subject, text, html }) {
+    return getTransport().sendMail({
+        from: process.env.MAIL_FROM || DEFAULT_FROM,
+        to,
+        subject,
+        text,
+        html,
+    });
+}
+
+module.exports = { sendMail, setTransport };
@@ -1,37 +1,137 @@
 const axios = require("axios");
-const fs = require("fs");
-
-const extractTextFromImage = async (filePath) => {
-  try {
-    const imageBuffer = fs.readFileSync(filePath);
-    const response = await axios.post(
-      "https://centralindia.api.cognitive.microsoft.com/vision/v3.2/read/analyze",
-      imageBuffer,
-      {
-        headers: {
-          "Ocp-Apim-Subscription-Key": process.env.AZURE_OCR_KEY,
-          "Content-Type": "application/octet-stream",
-        },
-      }
-    );
-
-    if (response.status === 202) {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      const resultResponse = await axios.get(response.headers["operation-location"], {
-        headers: { "Ocp-Apim-Subscription-Key": process.env.AZURE_OCR_KEY },
-      });
-
-      if (resultResponse.data.status === "succeeded") {
-        return resultResponse.data.analyzeResult.readResults
-          .map((page) => page.lines.map((line) => line.text).join("\n"))
-          .join("\n");
-      }
-    }
-    return "";
-  } catch (error) {
-    console.error("Azure OCR Error:", error.response?.data || error.message);
-    return "";
-  }
+const fs = require("fs/promises");
+const { renderPdfPages } = require("./pdfRender");
+
+// OCR providers. OCR_PROVIDER selects one explicitly ("azure" or "tesseract"); by default
+// Azure Read is used when it is configured and the local Tesseract engine otherwise, and
+// Tesseract also serves as the fallback when an Azure request fails.
+const DEFAULT_AZURE_ENDPOINT = "https://centralindia.api.cognitive.microsoft.com";
+const AZURE_POLL_TIMEOUT_MS = parseInt(process.env.AZURE_OCR_TIMEOUT_MS, 10) || 60000;
+const AZURE_POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Accepts a file path or an in-memory buffer (multer memory storage)
+const readInput = async (input) => (Buffer.isBuffer(input) ? input : fs.readFile(input));
+
+const average = (values) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+/*
+ * Azure AI Vision Read (v3.2). Accepts images and PDFs, returns one result per page.
+ * The analyze call is asynchronous: poll the operation until it succeeds or fails,
+ * honouring Retry-After, instead of sleeping a fixed amount of time.
+ */
+const azureReadProvider = {
+    name: "azure-read",
+    supportsPdf: true,
+
+    isConfigured: () => !!process.env.AZURE_OCR_KEY,
+
+    async recognize(input) {
+        const endpoint = (process.env.AZURE_OCR_ENDPOINT || DEFAULT_AZURE_ENDPOINT).replace(/\/+$/, "");
+        const headers = { "Ocp-Apim-Subscription-Key": process.env.AZURE_OCR_KEY };
+
+        const response = await axios.post(`${endpoint}/vision/v3.2/read/analyze`, await readInput(input), {
+            headers: { ...headers, "Content-Type": "application/octet-stream" },
+        });
+        const operationUrl = response.headers["operation-location"];
+        if (!operationUrl) throw new Error("Azure Read did not return an operation location");
+
+        const startedAt = Date.now();
+        let waitMs = parseInt(response.headers["retry-after"], 10) * 1000 || AZURE_POLL_INTERVAL_MS;
+
+        while (Date.now() - startedAt < AZURE_POLL_TIMEOUT_MS) {
+            await sleep(waitMs);
+            const result = await axios.get(operationUrl, { headers });
+            const { status, analyzeResult } = result.data;
+
+            if (status === "succeeded") {
+                return analyzeResult.readResults.map((page) => {
+                    const words = page.lines.flatMap((line) => line.words || []);
+                    return {
+                        page: page.page,
+                        text: page.lines.map((line) => line.text).join("\n"),
+                        confidence: average(words.map((word) => word.confidence)),
+                    };
+                });
+            }
+            if (status === "failed") {
+                throw new Error("Azure Read operation failed");
+            }
+            waitMs = parseInt(result.headers["retry-after"], 10) * 1000 || AZURE_POLL_INTERVAL_MS;
+        }
+        throw new Error(`Azure Read operation did not finish within ${AZURE_POLL_TIMEOUT_MS / 1000}s`);
+    },
 };
 
-module.exports = { extractTextFromImage };
+/*
+ * Local Tesseract engine for offline deployments. Tesseract reads images only, so PDF pages
+ * are rendered to images first (see utils/pdfRender) and recognized one by one.
+ * TESSERACT_LANG_PATH points at local traineddata files when there is no internet access.
+ */
+const tesseractProvider = {
+    name: "tesseract",
+    supportsPdf: true,
+
+    isConfigured: () => true,
+
+    async recognize(input, { isPdf = false, pages } = {}) {
+        const { createWorker } = require("tesseract.js");
+        const options = process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {};
+        const worker = await createWorker(process.env.OCR_LANGUAGE || "eng", 1, options);
+
+        try {
+            if (!isPdf) {
+                const { data } = await worker.recognize(await readInput(input));
+                return [{ page: 1, text: data.text, confidence: data.confidence / 100 }];
+            }
+
+            const results = [];
+            for await (const { page, image } of renderPdfPages(await readInput(input), { pages })) {
+                const { data } = await worker.recognize(image);
+                results.push({ page, text: data.text, confidence: data.confidence / 100 });
+            }
+            return results;
+        } finally {
+            await worker.terminate();
+        }
+    },
+};
+
+const providers = { azure: azureReadProvider, tesseract: tesseractProvider };
+
+// Providers to try, in order, for the current configuration
+const providerChain = () => {
+    const selected = (process.env.OCR_PROVIDER || "").toLowerCase();
+    if (providers[selected]) return [providers[selected]];
+    return azureReadProvider.isConfigured() ? [azureReadProvider, tesseractProvider] : [tesseractProvider];
+};
+
+/*
+ * Runs OCR with the configured providers.
+ *
+ * @param {string|Buffer} input - File path or buffer
+ * @param {{isPdf?: boolean, pages?: number[]}} [options] - PDFs are only sent to providers
+ *        that accept them. `pages` (1-based) limits which PDF pages need OCR; providers that
+ *        read the whole document at once may return the others too.
+ * @returns {Promise<{provider: string, pages: Array<{page: number, text: string, confidence: number|null}>}>}
+ */
+async function recognizeText(input, { isPdf = false, pages } = {}) {
+    const chain = providerChain().filter((provider) => !isPdf || provider.supportsPdf);
+    if (chain.length === 0) {
+        throw new Error("No configured OCR provider can read PDF files");
+    }
+
+    let lastError;
+    for (const provider of chain) {
+        try {
+            return { provider: provider.name, pages: await provider.recognize(input, { isPdf, pages }) };
+        } catch (error) {
+            console.error(`OCR Error (${provider.name}):`, error.response?.data || error.message);
+            lastError = error;
+        }
+    }
+    throw lastError;
+}
+
+module.exports = { recognizeText };
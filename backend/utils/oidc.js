@@ -0,0 +1,53 @@
+const { Issuer } = require("openid-client");
+
+// OpenID Connect single sign-on (authorization code flow with PKCE).
+// OIDC_ISSUER and OIDC_CLIENT_ID enable it; OIDC_CLIENT_SECRET is only needed for
+// confidential clients. Any standards-compliant provider works (Google, Microsoft Entra,
+// Keycloak, or a local mock provider in development).
+
+/*
+ * Provider settings from the environment, or null when single sign-on is not configured.
+ */
+function oidcConfig() {
+    if (!process.env.OIDC_ISSUER || !process.env.OIDC_CLIENT_ID) return null;
+
+    return {
+        issuer: process.env.OIDC_ISSUER,
+        clientId: process.env.OIDC_CLIENT_ID,
+        clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+        redirectUri: process.env.OIDC_REDIRECT_URI || `http://localhost:${process.env.PORT || 5000}/api/auth/oidc/callback`,
+        scope: process.env.OIDC_SCOPES || "openid email profile",
+        providerName: process.env.OIDC_PROVIDER_NAME || "Single Sign-On",
+    };
+}
+
+let clientPromise = null;
+
+/*
+ * The provider's client, discovered once from its /.well-known/openid-configuration.
+ * A failed discovery is retried on the next call rather than cached.
+ *
+ * @returns {Promise<import("openid-client").BaseClient>}
+ */
+function getOidcClient() {
+    const config = oidcConfig();
+    if (!config) return Promise.reject(new Error("Single sign-on is not configured"));
+
+    if (!clientPromise) {
+        clientPromise = Issuer.discover(config.issuer)
+            .then((issuer) => new issuer.Client({
+                client_id: config.clientId,
+                client_secret: config.clientSecret || undefined,
+                redirect_uris: [config.redirectUri],
+                response_types: ["code"],
+                token_endpoint_auth_method: config.clientSecret ? "client_secret_basic" : "none",
+            }))
+            .catch((err) => {
+                clientPromise = null;
+                throw err;
+            });
+    }
+    return clientPromise;
+}
+
+module.exports = { oidcConfig, getOidcClient };
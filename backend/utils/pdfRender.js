@@ -0,0 +1,57 @@
+// Renders PDF pages to PNG images for OCR engines that only read images (Tesseract).
+// pdf.js draws onto @napi-rs/canvas, which ships prebuilt, so scanned PDFs can be OCR'd
+// on offline servers without system libraries.
+
+const path = require("path");
+
+const RENDER_SCALE = 2; // PDF user space is 72 DPI; ~144 DPI is enough for OCR of body text
+
+// Metrics of the 14 standard PDF fonts, which PDFs may use without embedding them
+const STANDARD_FONTS_DIR = path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+let pdfjs = null;
+const loadPdfjs = async () => {
+    pdfjs = pdfjs || await import("pdfjs-dist/legacy/build/pdf.mjs");
+    return pdfjs;
+};
+
+/*
+ * Renders pages of a PDF one at a time, so only one page image is held in memory.
+ *
+ * @param {Buffer} buffer - PDF file contents
+ * @param {{pages?: number[]}} [options] - 1-based page numbers to render; all pages by default
+ * @returns {AsyncGenerator<{page: number, image: Buffer}>}
+ */
+async function* renderPdfPages(buffer, { pages } = {}) {
+    const { getDocument } = await loadPdfjs();
+    const { createCanvas } = require("@napi-rs/canvas");
+
+    const doc = await getDocument({
+        data: new Uint8Array(buffer),
+        isEvalSupported: false,
+        standardFontDataUrl: STANDARD_FONTS_DIR,
+    }).promise;
+    try {
+        const numbers = pages?.length
+            ? pages.filter(number => number >= 1 && number <= doc.numPages)
+            : Array.from({ length: doc.numPages }, (_, i) => i + 1);
+
+        for (const number of numbers) {
+            const page = await doc.getPage(number);
+            const viewport = page.getViewport({ scale: RENDER_SCALE });
+            const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            const context = canvas.getContext("2d");
+            // Scans are often transparent images; OCR needs dark text on a light page
+            context.fillStyle = "#ffffff";
+            context.fillRect(0, 0, canvas.width, canvas.height);
+
+            await page.render({ canvasContext: context, viewport }).promise;
+            page.cleanup();
+            yield { page: number, image: canvas.toBuffer("image/png") };
+        }
+    } finally {
+        await doc.destroy();
+    }
+}
+
+module.exports = { renderPdfPages };
@@ -0,0 +1,51 @@
+const ReferenceDocument = require("../models/ReferenceDocument");
+const { findAlignedPassages } = require("./alignment");
+
+// Reference matches below this share of a document's words are not reported
+const MIN_REFERENCE_SIMILARITY = 0.02;
+
+const countWords = (text) => (text.match(/[a-z0-9]+/gi) || []).length;
+
+/*
+ * Measures how much of a document was taken from a reference text.
+ * References are usually much longer than the document (a textbook vs. an essay), so the
+ * score is the share of the document's words inside aligned passages rather than a
+ * whole-text overlap, which would shrink with the size of the reference.
+ *
+ * @param {string} text - Document being checked
+ * @param {string} referenceText - Reference library text
+ * @returns {{similarity: number, passages: Array}} Similarity between 0 and 1 and the aligned passages
+ */
+function referenceCoverage(text, referenceText) {
+    const totalWords = countWords(text || "");
+    if (totalWords === 0) return { similarity: 0, passages: [] };
+
+    const passages = findAlignedPassages(text, referenceText);
+    const coveredWords = passages.reduce((sum, p) => sum + p.wordCount, 0);
+    return { similarity: Math.min(coveredWords / totalWords, 1), passages };
+}
+
+/*
+ * Compares documents against every document in a teacher's reference library.
+ *
+ * @param {string} teacherId - Owner of the library
+ * @param {Array<{id: string | number, text: string}>} documents - Documents to check
+ * @returns {Promise<Array<{id: string | number, reference: Object, similarity: number, passages: Array}>>}
+ *          One entry per document/reference pair that shares at least one passage
+ */
+async function findReferenceMatches(teacherId, documents) {
+    const references = await ReferenceDocument.find({ teacherId }).lean();
+    const matches = [];
+
+    for (const { id, text } of documents) {
+        for (const reference of references) {
+            const { similarity, passages } = referenceCoverage(text, reference.extractedText);
+            if (passages.length > 0 && similarity >= MIN_REFERENCE_SIMILARITY) {
+                matches.push({ id, reference, similarity, passages });
+            }
+        }
+    }
+    return matches;
+}
+
+module.exports = { referenceCoverage, findReferenceMatches, countWords };
@@ -0,0 +1,88 @@
+// Rubrics: criteria, each with performance levels worth a number of points. A rubric's
+// total is the sum of each criterion's best level; attached to an assignment it sets the
+// maximum marks, and a grade picks one level per criterion.
+
+const MAX_CRITERIA = 30;
+const MAX_LEVELS = 10;
+
+const text = (value) => (typeof value === "string" ? value.trim() : "");
+
+const isPoints = (value) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const criterionMax = (criterion) => Math.max(0, ...criterion.levels.map(level => level.points));
+
+const rubricMaxPoints = (criteria) => criteria.reduce((sum, criterion) => sum + criterionMax(criterion), 0);
+
+/*
+ * Validates a rubric from the request body.
+ *
+ * @returns {{ rubric: { name: string, description: string, criteria: Array } } | { error: string }}
+ */
+function parseRubric(body) {
+    const name = text(body.name);
+    if (!name) return { error: "Rubric name is required" };
+
+    if (!Array.isArray(body.criteria) || body.criteria.length === 0) {
+        return { error: "Add at least one criterion" };
+    }
+    if (body.criteria.length > MAX_CRITERIA) {
+        return { error: `A rubric can have at most ${MAX_CRITERIA} criteria` };
+    }
+
+    const criteria = [];
+    for (const raw of body.criteria) {
+        const criterionName = text(raw?.name);
+        if (!criterionName) return { error: "Every criterion needs a name" };
+        if (criteria.some(c => c.name.toLowerCase() === criterionName.toLowerCase())) {
+            return { error: `Criterion "${criterionName}" is listed twice` };
+        }
+        if (!Array.isArray(raw.levels) || raw.levels.length === 0 || raw.levels.length > MAX_LEVELS) {
+            return { error: `"${criterionName}" needs between 1 and ${MAX_LEVELS} levels` };
+        }
+
+        const levels = [];
+        for (const level of raw.levels) {
+            const label = text(level?.label);
+            if (!label) return { error: `Every level of "${criterionName}" needs a label` };
+            if (levels.some(l => l.label.toLowerCase() === label.toLowerCase())) {
+                return { error: `"${criterionName}" has two levels labelled "${label}"` };
+            }
+            if (!isPoints(level.points)) {
+                return { error: `Level "${label}" of "${criterionName}" needs points of 0 or more` };
+            }
+            levels.push({ label, points: level.points, descriptor: text(level.descriptor) });
+        }
+        // Best level first, as rubrics are usually read
+        levels.sort((a, b) => b.points - a.points);
+        criteria.push({ name: criterionName, description: text(raw.description), levels });
+    }
+
+    if (rubricMaxPoints(criteria) <= 0) {
+        return { error: "The rubric must be worth more than 0 points" };
+    }
+    return { rubric: { name, description: text(body.description), criteria } };
+}
+
+const formatCriteria = (criteria) => (criteria || []).map(criterion => ({
+    name: criterion.name,
+    description: criterion.description || "",
+    levels: criterion.levels.map(level => ({ label: level.label, points: level.points, descriptor: level.descriptor || "" })),
+}));
+
+function formatRubric(rubric) {
+    return {
+        id: rubric._id,
+        name: rubric.name,
+        description: rubric.description || "",
+        criteria: formatCriteria(rubric.criteria),
+        maxPoints: rubricMaxPoints(rubric.criteria || []),
+        updatedAt: rubric.updatedAt,
+    };
+}
+
+module.exports = {
+    parseRubric,
+    formatRubric,
+    formatCriteria,
+    rubricMaxPoints,
+};
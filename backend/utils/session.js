@@ -0,0 +1,103 @@
+const jwt = require("jsonwebtoken");
+const crypto = require("crypto");
+const RefreshToken = require("../models/RefreshToken");
+
+// Sign-in sessions: a short-lived JWT access token plus a rotating refresh token stored
+// server-side. Every refresh replaces the refresh token; presenting a replaced token again
+// means it was copied, so the whole session is revoked.
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10) || 30;
+const ROTATION_GRACE_MS = 30 * 1000; // Another tab may refresh with the same token at the same moment
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const signAccessToken = (user) => jwt.sign(
+    { userId: user._id, role: user.role },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+async function createRefreshToken(userId, family, userAgent) {
+    const token = crypto.randomBytes(48).toString("hex");
+    await RefreshToken.create({
+        userId,
+        tokenHash: hashToken(token),
+        family,
+        userAgent,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+    return token;
+}
+
+/*
+ * Starts a new session for a user who has just signed in.
+ *
+ * @param {Object} user - User document
+ * @param {Object} req - Express request (for the user agent)
+ * @returns {Promise<{token: string, refreshToken: string}>}
+ */
+async function issueSession(user, req) {
+    return {
+        token: signAccessToken(user),
+        refreshToken: await createRefreshToken(user._id, crypto.randomUUID(), req.get("user-agent")),
+    };
+}
+
+/*
+ * Exchanges a refresh token for a new access token and refresh token.
+ *
+ * @param {string} refreshToken - Token from issueSession or a previous rotation
+ * @param {Object} req - Express request (for the user agent)
+ * @param {Function} loadUser - async (userId) => user document or null
+ * @returns {Promise<{token: string, refreshToken: string, user: Object}|null>} null when the
+ *          token is unknown, expired, revoked or already used
+ */
+async function rotateSession(refreshToken, req, loadUser) {
+    const now = new Date();
+    const record = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+    if (!record || record.revokedAt || record.expiresAt <= now) return null;
+
+    // Claim the token atomically so two refreshes cannot both succeed
+    const claimed = await RefreshToken.findOneAndUpdate(
+        { _id: record._id, rotatedAt: null, revokedAt: null },
+        { rotatedAt: now },
+        { new: true }
+    );
+    if (!claimed) {
+        const rotatedAt = (await RefreshToken.findById(record._id).select("rotatedAt").lean())?.rotatedAt;
+        if (!rotatedAt || now - rotatedAt > ROTATION_GRACE_MS) {
+            await revokeFamily(record.family);
+        }
+        return null;
+    }
+
+    const user = await loadUser(record.userId);
+    if (!user) {
+        await revokeFamily(record.family);
+        return null;
+    }
+
+    return {
+        user,
+        token: signAccessToken(user),
+        refreshToken: await createRefreshToken(user._id, record.family, req.get("user-agent")),
+    };
+}
+
+async function revokeFamily(family) {
+    await RefreshToken.updateMany({ family, revokedAt: null }, { revokedAt: new Date() });
+}
+
+// Ends the session a refresh token belongs to (any token of the session works)
+async function revokeSession(refreshToken) {
+    const record = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) }).select("family").lean();
+    if (record) await revokeFamily(record.family);
+}
+
+// Ends every session of a user ("sign out of all devices", password changes)
+async function revokeAllSessions(userId) {
+    await RefreshToken.updateMany({ userId, revokedAt: null }, { revokedAt: new Date() });
+}
+
+module.exports = { issueSession, rotateSession, revokeSession, revokeAllSessions };
@@ -0,0 +1,161 @@
+// Submission guidelines and the rules that go with them. Guidelines are an ordered list of
+// short texts with inline markdown; rules (word count limits, allowed file types, a page
+// limit) are checked when a student submits. Unset limits (null / empty list) are not enforced.
+
+const path = require("path");
+
+const countWords = (text) => (text.match(/\b\w+\b/g) || []).length;
+
+const normalizeExtension = (ext) => ext.trim().toLowerCase().replace(/^\./, "");
+
+const MAX_GUIDELINES = 50;
+const MAX_GUIDELINE_LENGTH = 1000;
+
+const emptyRules = () => ({ minWords: null, maxWords: null, allowedFileTypes: [], maxPages: null });
+
+/*
+ * Validates a guideline list (array, or a JSON string from a multipart form). Blank
+ * entries are dropped; order is kept.
+ *
+ * @returns {{ guidelines: string[] } | { error: string }}
+ */
+function parseGuidelines(input) {
+    let value = input;
+    if (typeof value === "string") {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            return { error: "Submission guidelines must be a list of text entries" };
+        }
+    }
+    if (!Array.isArray(value) || value.some(g => typeof g !== "string")) {
+        return { error: "Submission guidelines must be a list of text entries" };
+    }
+    const guidelines = value.map(g => g.trim()).filter(Boolean);
+    if (guidelines.length > MAX_GUIDELINES) {
+        return { error: `At most ${MAX_GUIDELINES} guidelines are allowed` };
+    }
+    if (guidelines.some(g => g.length > MAX_GUIDELINE_LENGTH)) {
+        return { error: `Each guideline can be at most ${MAX_GUIDELINE_LENGTH} characters` };
+    }
+    return { guidelines };
+}
+
+/*
+ * Validates rules sent by a teacher (JSON body or a JSON string from a multipart form).
+ *
+ * @param {Object|string} input
+ * @param {string[]} supported - Extensions students can upload at all (see extractors)
+ * @returns {{ rules: Object } | { error: string }}
+ */
+function parseSubmissionRules(input, supported) {
+    let value = input;
+    if (typeof value === "string") {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            return { error: "Submission rules must be valid JSON" };
+        }
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return { error: "Submission rules must be an object" };
+    }
+
+    const rules = emptyRules();
+    const limits = { minWords: "Minimum word count", maxWords: "Maximum word count", maxPages: "Page limit" };
+    for (const [key, label] of Object.entries(limits)) {
+        const raw = value[key];
+        if (raw === undefined || raw === null || raw === "") continue;
+        const number = Number(raw);
+        if (!Number.isInteger(number) || number < 1) {
+            return { error: `${label} must be a whole number of at least 1` };
+        }
+        rules[key] = number;
+    }
+    if (rules.minWords && rules.maxWords && rules.minWords > rules.maxWords) {
+        return { error: "Minimum word count cannot exceed the maximum" };
+    }
+
+    if (value.allowedFileTypes !== undefined && value.allowedFileTypes !== null) {
+        if (!Array.isArray(value.allowedFileTypes) || value.allowedFileTypes.some(ext => typeof ext !== "string")) {
+            return { error: "Allowed file types must be a list of extensions" };
+        }
+        const types = [...new Set(value.allowedFileTypes.map(normalizeExtension).filter(Boolean))];
+        const known = supported.map(normalizeExtension);
+        const unknown = types.filter(ext => !known.includes(ext));
+        if (unknown.length > 0) {
+            return { error: `Unsupported file type(s): ${unknown.join(", ")}` };
+        }
+        rules.allowedFileTypes = types;
+    }
+
+    return { rules };
+}
+
+// Plain object copy of stored rules, with defaults for assignments created before rules existed
+function formatSubmissionRules(rules) {
+    return {
+        minWords: rules?.minWords ?? null,
+        maxWords: rules?.maxWords ?? null,
+        allowedFileTypes: rules?.allowedFileTypes ? [...rules.allowedFileTypes] : [],
+        maxPages: rules?.maxPages ?? null,
+    };
+}
+
+// One-line summary used in the edit history
+function describeSubmissionRules(rules) {
+    const parts = [];
+    if (rules.minWords && rules.maxWords) parts.push(`${rules.minWords}-${rules.maxWords} words`);
+    else if (rules.minWords) parts.push(`at least ${rules.minWords} words`);
+    else if (rules.maxWords) parts.push(`at most ${rules.maxWords} words`);
+    if (rules.allowedFileTypes.length > 0) parts.push(`file types: ${rules.allowedFileTypes.join(", ")}`);
+    if (rules.maxPages) parts.push(`at most ${rules.maxPages} pages`);
+    return parts.join("; ");
+}
+
+/*
+ * Checks the uploaded file's type before any text is extracted.
+ *
+ * @returns {string|null} The reason the file is rejected, if it is
+ */
+function checkFileType(rules, fileName) {
+    const allowed = rules?.allowedFileTypes || [];
+    if (allowed.length === 0) return null;
+    const ext = normalizeExtension(path.extname(fileName));
+    if (allowed.includes(ext)) return null;
+    return `This assignment only accepts ${allowed.map(e => `.${e}`).join(", ")} files.`;
+}
+
+/*
+ * Checks word count and page count of the extracted submission.
+ *
+ * @param {Object} rules
+ * @param {{ text: string, pages: Array }} extraction
+ * @returns {string|null} The reason the submission is rejected, if it is
+ */
+function checkExtraction(rules, extraction) {
+    if (!rules) return null;
+    const words = countWords(extraction.text);
+    if (rules.minWords && words < rules.minWords) {
+        return `Your submission has ${words} words; at least ${rules.minWords} are required.`;
+    }
+    if (rules.maxWords && words > rules.maxWords) {
+        return `Your submission has ${words} words; at most ${rules.maxWords} are allowed.`;
+    }
+    const pages = (extraction.pages || []).length;
+    if (rules.maxPages && pages > rules.maxPages) {
+        return `Your submission has ${pages} pages; at most ${rules.maxPages} are allowed.`;
+    }
+    return null;
+}
+
+module.exports = {
+    countWords,
+    emptyRules,
+    parseGuidelines,
+    parseSubmissionRules,
+    formatSubmissionRules,
+    describeSubmissionRules,
+    checkFileType,
+    checkExtraction,
+};
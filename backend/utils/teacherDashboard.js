@@ -0,0 +1,105 @@
+// Teacher dashboard: submission, lateness and similarity figures for every assignment and
+// exam across the classrooms a teacher owns or co-teaches, and the students whose work is
+// most often flagged for high similarity.
+
+const round = (value) => Math.round(value * 10) / 10;
+
+const percentOf = (part, whole) => (whole > 0 ? round((part / whole) * 100) : null);
+
+// Submission fields the dashboard reads (for .select on Assignment queries)
+const DASHBOARD_FIELDS = [
+    "title", "type", "deadline", "classroomId",
+    "submissions.studentId", "submissions.name", "submissions.email",
+    "submissions.submitted", "submissions.late", "submissions.plagiarismPercent",
+].join(" ");
+
+const DEFAULT_FLAG_THRESHOLD = 50; // Similarity (%) at which a submission counts as flagged
+const MAX_FLAGGED_STUDENTS = 10;
+
+/*
+ * Aggregates the dashboard figures.
+ *
+ * @param {Array<Object>} classrooms - Classrooms with their students (lean)
+ * @param {Array<Object>} tasks - Their assignments and exams (lean, with DASHBOARD_FIELDS)
+ * @param {number} flagThreshold - Similarity (%) at which a submission counts as flagged
+ * @returns {{ totals: Object, assignments: Array, flaggedStudents: Array }} Rates and
+ *          similarities are percentages; null when nothing was submitted or checked yet
+ */
+function buildDashboard(classrooms, tasks, flagThreshold = DEFAULT_FLAG_THRESHOLD) {
+    const classroomsById = new Map(classrooms.map(c => [c._id.toString(), c]));
+    const studentIds = new Set(classrooms.flatMap(c => c.students.map(s => s.studentId.toString())));
+    const flagged = new Map();
+    const totals = { assigned: 0, submitted: 0, late: 0, checked: 0 };
+
+    const assignments = [...tasks]
+        .sort((a, b) => new Date(a.deadline) - new Date(b.deadline))
+        .map(task => {
+            const classroom = classroomsById.get(task.classroomId.toString());
+            const submitted = task.submissions.filter(s => s.submitted);
+            const checked = submitted.filter(s => typeof s.plagiarismPercent === "number");
+            const similarities = checked.map(s => s.plagiarismPercent);
+            const assigned = classroom ? classroom.students.length : 0;
+            const late = submitted.filter(s => s.late).length;
+
+            for (const submission of checked) {
+                if (submission.plagiarismPercent < flagThreshold || !submission.studentId) continue;
+                const key = submission.studentId.toString();
+                const entry = flagged.get(key) || {
+                    studentId: submission.studentId,
+                    name: submission.name,
+                    email: submission.email,
+                    flaggedCount: 0,
+                    maxSimilarity: 0,
+                    assignments: [],
+                };
+                entry.flaggedCount += 1;
+                entry.maxSimilarity = Math.max(entry.maxSimilarity, submission.plagiarismPercent);
+                entry.assignments.push(task.title);
+                flagged.set(key, entry);
+            }
+
+            totals.assigned += assigned;
+            totals.submitted += submitted.length;
+            totals.late += late;
+            totals.checked += checked.length;
+
+            return {
+                id: task._id,
+                title: task.title,
+                type: task.type,
+                deadline: task.deadline,
+                classroomId: task.classroomId,
+                classroomName: classroom ? classroom.name : "",
+                assigned,
+                submitted: submitted.length,
+                late,
+                checked: checked.length,
+                submissionRate: percentOf(submitted.length, assigned),
+                lateRate: percentOf(late, submitted.length),
+                averageSimilarity: similarities.length ? round(similarities.reduce((sum, p) => sum + p, 0) / similarities.length) : null,
+                maxSimilarity: similarities.length ? Math.max(...similarities) : null,
+            };
+        });
+
+    return {
+        totals: {
+            classrooms: classrooms.length,
+            students: studentIds.size,
+            assignments: assignments.length,
+            submissions: totals.submitted,
+            checked: totals.checked,
+            submissionRate: percentOf(totals.submitted, totals.assigned),
+            lateRate: percentOf(totals.late, totals.submitted),
+        },
+        assignments,
+        flaggedStudents: [...flagged.values()]
+            .sort((a, b) => b.flaggedCount - a.flaggedCount || b.maxSimilarity - a.maxSimilarity)
+            .slice(0, MAX_FLAGGED_STUDENTS),
+    };
+}
+
+module.exports = {
+    DASHBOARD_FIELDS,
+    DEFAULT_FLAG_THRESHOLD,
+    buildDashboard,
+};
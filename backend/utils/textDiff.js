@@ -0,0 +1,135 @@
+// Word-level diff between two versions of a text (e.g. two attempts of one submission),
+// using Myers' O(ND) algorithm. Words are compared case-sensitively but whitespace
+// changes are ignored; each word keeps its trailing whitespace for display.
+
+const MAX_EDIT_DISTANCE = 2000; // Beyond this many word edits the texts are treated as unrelated
+
+// Split text into words, each carrying the whitespace that follows it
+function tokenize(text) {
+    return (text || "").match(/\s*\S+\s*/g) || [];
+}
+
+const wordKey = (token) => token.trim();
+
+/*
+ * Myers shortest edit script between token lists a and b.
+ * Snapshots keep only the diagonals reachable at each step, so memory grows with the
+ * square of the edit distance rather than with the text length.
+ *
+ * @returns {Array<[string, number]>|null} Operations ["equal"|"removed", index in a] /
+ *          ["added", index in b] in order, or null when the texts are too different
+ */
+function shortestEditScript(a, b) {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace = [];
+    const limit = Math.min(max, MAX_EDIT_DISTANCE);
+
+    for (let d = 0; d <= limit; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2)); // State before step d, diagonals -(d+1)..d+1
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && wordKey(a[x]) === wordKey(b[y])) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) return backtrack(trace, n, m);
+        }
+    }
+    return null;
+}
+
+function backtrack(trace, n, m) {
+    const ops = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+        const snapshot = trace[d];
+        const at = (k) => snapshot[k + d + 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push(["equal", --x]);
+            y--;
+        }
+        if (prevK === k + 1) {
+            ops.push(["added", --y]);
+        } else {
+            ops.push(["removed", --x]);
+        }
+    }
+    while (x > 0 && y > 0) {
+        ops.push(["equal", --x]);
+        y--;
+    }
+    return ops.reverse();
+}
+
+/*
+ * Diffs two texts word by word.
+ *
+ * @param {string} fromText - Earlier version
+ * @param {string} toText - Later version
+ * @returns {{segments: Array<{type: "equal"|"added"|"removed", text: string}>, added: number, removed: number, identical: boolean}}
+ *          Segments in reading order (equal text is taken from the earlier version);
+ *          added/removed are word counts
+ */
+function diffWords(fromText, toText) {
+    const a = tokenize(fromText);
+    const b = tokenize(toText);
+
+    // Common prefix and suffix never need the full algorithm
+    let start = 0;
+    while (start < a.length && start < b.length && wordKey(a[start]) === wordKey(b[start])) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && wordKey(a[endA - 1]) === wordKey(b[endB - 1])) {
+        endA--;
+        endB--;
+    }
+
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+    const script = shortestEditScript(middleA, middleB) || [
+        ...middleA.map((_, i) => ["removed", i]),
+        ...middleB.map((_, i) => ["added", i]),
+    ];
+
+    const segments = [];
+    let added = 0;
+    let removed = 0;
+    const push = (type, text) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) last.text += text;
+        else segments.push({ type, text });
+    };
+
+    a.slice(0, start).forEach((token) => push("equal", token));
+    for (const [type, index] of script) {
+        if (type === "added") {
+            push("added", middleB[index]);
+            added++;
+        } else {
+            push(type, middleA[index]);
+            if (type === "removed") removed++;
+        }
+    }
+    a.slice(endA).forEach((token) => push("equal", token));
+
+    return { segments, added, removed, identical: added === 0 && removed === 0 };
+}
+
+module.exports = { diffWords };
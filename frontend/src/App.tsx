@@ -13,19 +13,27 @@ import ProtectedRoute from "./components/ProtectedRoute";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
+import AuthCallback from "./pages/AuthCallback";
+import AcceptInvite from "./pages/AcceptInvite";
 import Profile from "./pages/Profile";
+import Dashboard from "./pages/Dashboard";
 import Classroom from "./pages/Classroom";
 import CourseView from "./pages/CourseView";
 import AssignmentView from "./pages/AssignmentView";
+import Gradebook from "./pages/Gradebook";
 import StudentDashboard from "./pages/StudentDashboard";
 import StudentCourseView from "./pages/StudentCourseView";
 import StudentAssignmentView from "./pages/StudentAssignmentView";
+import JoinClass from "./pages/JoinClass";
 import UploadCheck from "./pages/UploadCheck";
+import ReferenceLibrary from "./pages/ReferenceLibrary";
 import OnlineCheck from "./pages/OnlineCheck";
 import Contact from "./pages/Contact";
 import AboutUs from "./pages/AboutUs";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import TermsOfService from "./pages/TermsOfService";
+import AdminDashboard from "./pages/AdminDashboard";
 
 // React Query client instance
 const queryClient = new QueryClient();
@@ -41,6 +49,9 @@ const App = () => (
                         {/* Public routes */}
                         <Route path="/" element={<Index />} />
                         <Route path="/auth" element={<Auth />} />
+                        <Route path="/auth/callback" element={<AuthCallback />} />
+                        <Route path="/reset-password" element={<ResetPassword />} />
+                        <Route path="/invite/:token" element={<AcceptInvite />} />
                         <Route path="/contact" element={<Contact />} />
                         <Route path="/about-us" element={<AboutUs />} />
                         <Route path="/privacy-policy" element={<PrivacyPolicy />} />
@@ -57,6 +68,14 @@ const App = () => (
                         />
 
                         {/* Teacher-only routes */}
+                        <Route
+                            path="/dashboard"
+                            element={
+                                <ProtectedRoute requiredRole="teacher">
+                                    <Dashboard />
+                                </ProtectedRoute>
+                            }
+                        />
                         <Route
                             path="/classroom"
                             element={
@@ -73,6 +92,14 @@ const App = () => (
                                 </ProtectedRoute>
                             }
                         />
+                        <Route
+                            path="/classroom/:courseId/gradebook"
+                            element={
+                                <ProtectedRoute requiredRole="teacher">
+                                    <Gradebook />
+                                </ProtectedRoute>
+                            }
+                        />
                         <Route
                             path="/classroom/:courseId/assignment/:assignmentId"
                             element={
@@ -89,6 +116,14 @@ const App = () => (
                                 </ProtectedRoute>
                             }
                         />
+                        <Route
+                            path="/reference-library"
+                            element={
+                                <ProtectedRoute requiredRole="teacher">
+                                    <ReferenceLibrary />
+                                </ProtectedRoute>
+                            }
+                        />
                         <Route
                             path="/online-check"
                             element={
@@ -123,6 +158,24 @@ const App = () => (
                                 </ProtectedRoute>
                             }
                         />
+                        <Route
+                            path="/join/:classCode"
+                            element={
+                                <ProtectedRoute requiredRole="student">
+                                    <JoinClass />
+                                </ProtectedRoute>
+                            }
+                        />
+
+                        {/* Admin-only routes */}
+                        <Route
+                            path="/admin"
+                            element={
+                                <ProtectedRoute requiredRole="admin">
+                                    <AdminDashboard />
+                                </ProtectedRoute>
+                            }
+                        />
 
                         {/* Fallback for unknown routes */}
                         <Route path="*" element={<NotFound />} />
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquarePlus, Pencil, Save, Trash2, X } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { ANNOTATION_CATEGORIES, Annotation, AnnotationCategory } from '@/lib/annotations';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface AnnotationsPanelProps {
+    assignmentId: string;
+    studentUserId: string;
+    text: string; // Extracted text of the assessed attempt
+    annotations: Annotation[]; // Annotations of that attempt
+    canAnnotate: boolean;
+    onChange: (annotations: Annotation[]) => void;
+}
+
+// The range being annotated, or the annotation being edited
+type Draft = { start: number; end: number; quote: string; id?: string };
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// Splits the text at every annotation boundary; each piece lists the annotations covering it
+const segmentText = (text: string, annotations: Annotation[]) => {
+    const bounds = [...new Set([0, text.length, ...annotations.flatMap(a => [a.start, a.end])])]
+        .filter(b => b >= 0 && b <= text.length)
+        .sort((a, b) => a - b);
+    return bounds.slice(0, -1).map((start, i) => ({
+        start,
+        text: text.slice(start, bounds[i + 1]),
+        covering: annotations.filter(a => a.start <= start && a.end >= bounds[i + 1]),
+    }));
+};
+
+// Extracted text with the teacher's annotations highlighted. Selecting text opens a form to
+// comment on it; offsets are sent against the text exactly as shown.
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({ assignmentId, studentUserId, text, annotations, canAnnotate, onChange }) => {
+    const { toast } = useToast();
+    const textRef = useRef<HTMLDivElement>(null);
+    const [items, setItems] = useState<Annotation[]>(annotations);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [category, setCategory] = useState<AnnotationCategory>('comment');
+    const [comment, setComment] = useState('');
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => setItems(annotations), [annotations]);
+
+    const update = (next: Annotation[]) => {
+        setItems(next);
+        onChange(next);
+    };
+
+    // Character offsets of the current selection within the text container
+    const handleMouseUp = () => {
+        if (!canAnnotate || !textRef.current) return;
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+        const range = selection.getRangeAt(0);
+        if (!textRef.current.contains(range.startContainer) || !textRef.current.contains(range.endContainer)) return;
+
+        const before = document.createRange();
+        before.selectNodeContents(textRef.current);
+        before.setEnd(range.startContainer, range.startOffset);
+        const start = before.toString().length;
+        const end = start + range.toString().length;
+        if (!text.slice(start, end).trim()) return;
+
+        setDraft({ start, end, quote: text.slice(start, end) });
+        setCategory('comment');
+        setComment('');
+    };
+
+    const startEditing = (annotation: Annotation) => {
+        setDraft({ start: annotation.start, end: annotation.end, quote: annotation.quote, id: annotation.id });
+        setCategory(annotation.category);
+        setComment(annotation.comment);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        try {
+            const base = `${API_BASE_URL}/api/assignment/annotations/${assignmentId}/${studentUserId}`;
+            if (draft.id) {
+                const response = await axios.put(`${base}/${draft.id}`, { category, comment }, { headers: authHeaders() });
+                update(items.map(a => (a.id === draft.id ? response.data.annotation : a)));
+            } else {
+                const response = await axios.post(base, { start: draft.start, end: draft.end, category, comment }, { headers: authHeaders() });
+                update([...items, response.data.annotation].sort((a, b) => a.start - b.start));
+            }
+            setDraft(null);
+            window.getSelection()?.removeAllRanges();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to save the annotation."), variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (annotation: Annotation) => {
+        try {
+            await axios.delete(`${API_BASE_URL}/api/assignment/annotations/${assignmentId}/${studentUserId}/${annotation.id}`, { headers: authHeaders() });
+            update(items.filter(a => a.id !== annotation.id));
+            if (draft?.id === annotation.id) setDraft(null);
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to remove the annotation."), variant: "destructive" });
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {canAnnotate && (
+                <p className="text-xs text-muted-foreground">
+                    Select text to annotate it. Students see annotations with their grade once grades are released.
+                </p>
+            )}
+
+            <div
+                ref={textRef}
+                onMouseUp={handleMouseUp}
+                className="bg-card border border-border rounded-lg p-4 text-sm leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto custom-scrollbar"
+            >
+                {segmentText(text, items).map(segment => {
+                    const top = segment.covering[segment.covering.length - 1];
+                    if (!top) return <React.Fragment key={segment.start}>{segment.text}</React.Fragment>;
+                    return (
+                        <span
+                            key={segment.start}
+                            title={segment.covering.map(a => `${ANNOTATION_CATEGORIES[a.category].label}${a.comment ? `: ${a.comment}` : ''}`).join('\n')}
+                            onClick={() => setActiveId(top.id)}
+                            className={`${ANNOTATION_CATEGORIES[top.category].highlight} rounded-sm cursor-pointer ${activeId && segment.covering.some(a => a.id === activeId) ? 'ring-1 ring-primary' : ''}`}
+                        >
+                            {segment.text}
+                        </span>
+                    );
+                })}
+            </div>
+
+            {draft && (
+                <div className="p-3 rounded-md border border-primary/40 bg-primary/5 space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                        <p className="text-xs italic text-muted-foreground line-clamp-2">“{draft.quote}”</p>
+                        <button type="button" title="Cancel" className="text-muted-foreground hover:text-foreground" onClick={() => setDraft(null)}>
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-[auto_1fr_auto] gap-2">
+                        <select
+                            className="h-10 px-3 border border-input rounded-md bg-background text-foreground"
+                            value={category}
+                            onChange={(e) => setCategory(e.target.value as AnnotationCategory)}
+                        >
+                            {(Object.keys(ANNOTATION_CATEGORIES) as AnnotationCategory[]).map(key => (
+                                <option key={key} value={key}>{ANNOTATION_CATEGORIES[key].label}</option>
+                            ))}
+                        </select>
+                        <Input placeholder="Comment (optional)" value={comment} onChange={(e) => setComment(e.target.value)} />
+                        <CustomButton
+                            size="sm"
+                            icon={draft.id ? <Save className="h-4 w-4" /> : <MessageSquarePlus className="h-4 w-4" />}
+                            loading={isSaving}
+                            onClick={handleSave}
+                        >
+                            {draft.id ? 'Save' : 'Annotate'}
+                        </CustomButton>
+                    </div>
+                </div>
+            )}
+
+            {items.length > 0 && (
+                <ul className="space-y-2">
+                    {items.map(annotation => (
+                        <li
+                            key={annotation.id}
+                            onClick={() => setActiveId(annotation.id)}
+                            className={`p-2 rounded-md border text-sm cursor-pointer ${activeId === annotation.id ? 'border-primary' : 'border-border'}`}
+                        >
+                            <div className="flex justify-between items-start gap-2">
+                                <span className={`px-2 py-0.5 text-xs rounded-full ${ANNOTATION_CATEGORIES[annotation.category].badge}`}>
+                                    {ANNOTATION_CATEGORIES[annotation.category].label}
+                                </span>
+                                {canAnnotate && (
+                                    <span className="flex gap-1">
+                                        <button type="button" title="Edit annotation" className="p-1 text-muted-foreground hover:text-foreground" onClick={() => startEditing(annotation)}>
+                                            <Pencil className="h-3.5 w-3.5" />
+                                        </button>
+                                        <button type="button" title="Remove annotation" className="p-1 text-muted-foreground hover:text-red-500" onClick={() => handleDelete(annotation)}>
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </button>
+                                    </span>
+                                )}
+                            </div>
+                            <p className="text-xs italic text-muted-foreground mt-1 line-clamp-2">“{annotation.quote}”</p>
+                            {annotation.comment && <p className="mt-1">{annotation.comment}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,276 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, History, ExternalLink, GitCompare, CheckCircle } from 'lucide-react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { openBlob } from '@/lib/download';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// ---------------------- Interfaces ----------------------
+
+interface Attempt {
+    attemptNumber: number;
+    submittedAt: string;
+    late: boolean;
+    fileName: string;
+    fileSize: number;
+    wordCount: number;
+    hasOriginalFile: boolean;
+}
+
+interface AttemptList {
+    maxAttempts: number | null;
+    checkedAttempt: number | null;
+    assessedAttempt: number | null;
+    attempts: Attempt[]; // Newest first
+}
+
+interface DiffSegment {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+interface AttemptDiff {
+    segments: DiffSegment[];
+    added: number;
+    removed: number;
+    identical: boolean;
+}
+
+interface AttemptHistoryModalProps {
+    assignmentId: string;
+    student: { studentUserId: string; name: string };
+    onClose: () => void;
+    onAssessedAttemptChange: () => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+    equal: '',
+    added: 'bg-green-200/70 dark:bg-green-900/50',
+    removed: 'bg-red-200/70 dark:bg-red-900/50 line-through',
+};
+
+// ---------------------- Main Component ----------------------
+
+// Lists every attempt a student made, lets the teacher choose which one is checked and
+// shows a word-level diff between any two attempts
+const AttemptHistoryModal: React.FC<AttemptHistoryModalProps> = ({ assignmentId, student, onClose, onAssessedAttemptChange }) => {
+    const { toast } = useToast();
+
+    const [history, setHistory] = useState<AttemptList | null>(null);
+    const [fromAttempt, setFromAttempt] = useState<number | null>(null);
+    const [toAttempt, setToAttempt] = useState<number | null>(null);
+    const [diff, setDiff] = useState<AttemptDiff | null>(null);
+    const [isDiffLoading, setIsDiffLoading] = useState(false);
+
+    const loadHistory = useCallback(async () => {
+        try {
+            const response = await axios.get<AttemptList>(
+                `${API_BASE_URL}/api/assignment/attempts/${assignmentId}/${student.studentUserId}`,
+                { headers: authHeaders() }
+            );
+            setHistory(response.data);
+            return response.data;
+        } catch (error) {
+            console.error("Failed to load attempts:", error);
+            toast({ title: "Error", description: "Failed to load the submission history.", variant: "destructive" });
+            return null;
+        }
+    }, [assignmentId, student.studentUserId, toast]);
+
+    useEffect(() => {
+        loadHistory().then((data) => {
+            // Compare the two most recent attempts by default
+            if (data && data.attempts.length >= 2) {
+                setToAttempt(data.attempts[0].attemptNumber);
+                setFromAttempt(data.attempts[1].attemptNumber);
+            }
+        });
+    }, [loadHistory]);
+
+    useEffect(() => {
+        if (fromAttempt === null || toAttempt === null) return;
+        const loadDiff = async () => {
+            setIsDiffLoading(true);
+            try {
+                const response = await axios.get<AttemptDiff>(
+                    `${API_BASE_URL}/api/assignment/attempt-diff/${assignmentId}/${student.studentUserId}`,
+                    { headers: authHeaders(), params: { from: fromAttempt, to: toAttempt } }
+                );
+                setDiff(response.data);
+            } catch (error) {
+                const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+                toast({ title: "Error", description: message || "Failed to compare attempts.", variant: "destructive" });
+            } finally {
+                setIsDiffLoading(false);
+            }
+        };
+        loadDiff();
+    }, [assignmentId, student.studentUserId, fromAttempt, toAttempt, toast]);
+
+    const handleUseForChecking = async (attemptNumber: number | null) => {
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/checked-attempt/${assignmentId}/${student.studentUserId}`,
+                { attemptNumber },
+                { headers: authHeaders() }
+            );
+            await loadHistory();
+            onAssessedAttemptChange();
+            toast({ title: "Checked Attempt Updated", description: response.data.message, variant: "success" });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({ title: "Error", description: message || "Failed to update the checked attempt.", variant: "destructive" });
+        }
+    };
+
+    const handleOpenFile = async (attemptNumber: number, fileName: string) => {
+        try {
+            const response = await axios.get(
+                `${API_BASE_URL}/api/assignment/submission-file/${assignmentId}/${student.studentUserId}`,
+                { headers: authHeaders(), params: { attempt: attemptNumber }, responseType: 'blob' }
+            );
+            openBlob(response.data, fileName, response.headers['content-type']);
+        } catch (error) {
+            console.error("Failed to open attempt file:", error);
+            toast({ title: "Error", description: "Could not open the submitted file.", variant: "destructive" });
+        }
+    };
+
+    const attemptOptions = history?.attempts ?? [];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+            <div className="relative w-full max-w-4xl max-h-[90vh] bg-background border border-border rounded-lg shadow-2xl flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b border-border">
+                    <h2 className="text-xl font-bold flex items-center gap-2">
+                        <History className="h-6 w-6 text-primary" />
+                        Submission History: {student.name}
+                    </h2>
+                    <CustomButton variant="ghost" size="icon" onClick={onClose}>
+                        <X className="h-6 w-6" />
+                    </CustomButton>
+                </div>
+
+                <div className="p-6 overflow-y-auto flex-grow text-sm space-y-6">
+                    {!history ? (
+                        <p className="text-muted-foreground">Loading attempts...</p>
+                    ) : (
+                        <>
+                            <div>
+                                <p className="text-muted-foreground mb-3">
+                                    {history.attempts.length} attempt(s)
+                                    {history.maxAttempts ? ` of ${history.maxAttempts} allowed` : ', no limit'}.
+                                    {history.checkedAttempt
+                                        ? ` Attempt ${history.checkedAttempt} is pinned for checking.`
+                                        : ' The latest attempt is used for checking.'}
+                                </p>
+                                <div className="space-y-2">
+                                    {history.attempts.map((attempt) => {
+                                        const isAssessed = attempt.attemptNumber === history.assessedAttempt;
+                                        return (
+                                            <div key={attempt.attemptNumber} className="flex items-center justify-between border rounded-md p-3">
+                                                <div>
+                                                    <p className="font-medium">
+                                                        Attempt {attempt.attemptNumber}: {attempt.fileName}
+                                                        {attempt.late && <span className="text-red-500 ml-2 text-xs">(Late)</span>}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {format(new Date(attempt.submittedAt), 'MMM d, yyyy HH:mm')} · {attempt.wordCount ?? 0} words
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    {attempt.hasOriginalFile && (
+                                                        <CustomButton
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            icon={<ExternalLink className="h-3.5 w-3.5" />}
+                                                            onClick={() => handleOpenFile(attempt.attemptNumber, attempt.fileName)}
+                                                        >
+                                                            Open
+                                                        </CustomButton>
+                                                    )}
+                                                    {isAssessed ? (
+                                                        <span className="inline-flex items-center text-xs font-medium text-green-600 dark:text-green-400">
+                                                            <CheckCircle className="h-3.5 w-3.5 mr-1" /> Used for checking
+                                                        </span>
+                                                    ) : (
+                                                        <CustomButton
+                                                            variant="outline"
+                                                            size="sm"
+                                                            onClick={() => handleUseForChecking(
+                                                                attempt.attemptNumber === attemptOptions[0]?.attemptNumber ? null : attempt.attemptNumber
+                                                            )}
+                                                        >
+                                                            Use for checking
+                                                        </CustomButton>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
+                            {attemptOptions.length >= 2 && (
+                                <div>
+                                    <h3 className="font-semibold flex items-center gap-2 mb-3">
+                                        <GitCompare className="h-4 w-4 text-primary" /> Compare Attempts
+                                    </h3>
+                                    <div className="flex items-center gap-3 mb-3">
+                                        <Select value={fromAttempt?.toString()} onValueChange={(value) => setFromAttempt(Number(value))}>
+                                            <SelectTrigger className="w-40"><SelectValue placeholder="From" /></SelectTrigger>
+                                            <SelectContent>
+                                                {attemptOptions.map((attempt) => (
+                                                    <SelectItem key={attempt.attemptNumber} value={attempt.attemptNumber.toString()}>
+                                                        Attempt {attempt.attemptNumber}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <span className="text-muted-foreground">to</span>
+                                        <Select value={toAttempt?.toString()} onValueChange={(value) => setToAttempt(Number(value))}>
+                                            <SelectTrigger className="w-40"><SelectValue placeholder="To" /></SelectTrigger>
+                                            <SelectContent>
+                                                {attemptOptions.map((attempt) => (
+                                                    <SelectItem key={attempt.attemptNumber} value={attempt.attemptNumber.toString()}>
+                                                        Attempt {attempt.attemptNumber}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {diff && !isDiffLoading && (
+                                            <span className="text-xs text-muted-foreground">
+                                                <span className="text-green-600 dark:text-green-400">+{diff.added}</span>
+                                                {' / '}
+                                                <span className="text-red-600 dark:text-red-400">-{diff.removed}</span> words
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="bg-muted/30 border rounded-md p-4 max-h-[40vh] overflow-y-auto whitespace-pre-wrap leading-relaxed">
+                                        {isDiffLoading || !diff ? (
+                                            <p className="text-muted-foreground">Comparing...</p>
+                                        ) : diff.identical ? (
+                                            <p className="text-muted-foreground">The extracted text of these attempts is identical.</p>
+                                        ) : (
+                                            diff.segments.map((segment, index) => (
+                                                <span key={index} className={SEGMENT_CLASSES[segment.type]}>{segment.text}</span>
+                                            ))
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AttemptHistoryModal;
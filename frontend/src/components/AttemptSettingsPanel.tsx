@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat, Save } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface AttemptSettingsPanelProps {
+    assignmentId: string;
+    maxAttempts: number | null;
+    onSaved?: (maxAttempts: number | null) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+// How many times each student may submit; an empty value allows unlimited resubmissions
+const AttemptSettingsPanel: React.FC<AttemptSettingsPanelProps> = ({ assignmentId, maxAttempts, onSaved }) => {
+    const { toast } = useToast();
+    const [value, setValue] = useState(maxAttempts ? maxAttempts.toString() : '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setValue(maxAttempts ? maxAttempts.toString() : '');
+    }, [maxAttempts]);
+
+    const handleSave = async () => {
+        const parsed = value.trim() === '' ? null : Number(value);
+        if (parsed !== null && (!Number.isInteger(parsed) || parsed < 1)) {
+            toast({ title: "Invalid Value", description: "Enter a whole number of at least 1, or leave empty for unlimited.", variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/attempt-settings/${assignmentId}`,
+                { maxAttempts: parsed },
+                { headers: authHeaders() }
+            );
+            onSaved?.(response.data.maxAttempts);
+            toast({ title: "Settings Saved", description: "Attempt limit updated.", variant: "success" });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({ title: "Error", description: message || "Failed to save attempt settings.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold flex items-center gap-2 mb-1">
+                <Repeat className="h-5 w-5 text-primary" /> Submission Attempts
+            </h3>
+            <p className="text-xs text-muted-foreground mb-3">
+                Every attempt is kept. The latest attempt is checked unless you pick another one in a student's history.
+            </p>
+            <div className="flex items-center gap-3 text-sm">
+                <span>Max attempts per student</span>
+                <Input
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    className="w-32"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                />
+                <CustomButton size="sm" icon={<Save className="h-4 w-4" />} loading={isSaving} onClick={handleSave}>
+                    Save
+                </CustomButton>
+            </div>
+        </div>
+    );
+};
+
+export default AttemptSettingsPanel;
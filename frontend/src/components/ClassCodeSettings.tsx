@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, RefreshCw, Save } from 'lucide-react';
+import CustomButton from './ui/CustomButton';
+import { useToast } from '@/hooks/use-toast';
+import axios from 'axios';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface JoinSettings {
+    classCode: string;
+    enabled: boolean;
+    expiresAt: string | null;
+    maxUses: number | null;
+    uses: number;
+    requireApproval: boolean;
+}
+
+interface ClassCodeSettingsProps {
+    courseId: string;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInput = (iso: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Class code, join link and the rules for joining with them (expiry, maximum uses, approval)
+const ClassCodeSettings = ({ courseId }: ClassCodeSettingsProps) => {
+    const { toast } = useToast();
+    const [settings, setSettings] = useState<JoinSettings | null>(null);
+    const [enabled, setEnabled] = useState(true);
+    const [requireApproval, setRequireApproval] = useState(false);
+    const [expiresAt, setExpiresAt] = useState('');
+    const [maxUses, setMaxUses] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRegenerating, setIsRegenerating] = useState(false);
+
+    const applySettings = useCallback((next: JoinSettings) => {
+        setSettings(next);
+        setEnabled(next.enabled);
+        setRequireApproval(next.requireApproval);
+        setExpiresAt(toLocalInput(next.expiresAt));
+        setMaxUses(next.maxUses ? String(next.maxUses) : '');
+    }, []);
+
+    const fetchSettings = useCallback(async () => {
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/courses/join-settings/${courseId}`, {
+                headers: authHeaders(),
+            });
+            applySettings(response.data);
+        } catch (error) {
+            console.error("Error fetching join settings:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to load the class code settings."),
+                variant: "destructive",
+            });
+        }
+    }, [courseId, toast, applySettings]);
+
+    useEffect(() => {
+        fetchSettings();
+    }, [fetchSettings]);
+
+    const joinLink = settings ? `${window.location.origin}/join/${settings.classCode}` : '';
+
+    const copyToClipboard = (text: string, label: string) => {
+        navigator.clipboard.writeText(text);
+        toast({ title: "Copied!", description: `${label} copied to clipboard.` });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/courses/join-settings`, {
+                classroomId: courseId,
+                enabled,
+                requireApproval,
+                expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+                maxUses: maxUses ? Number(maxUses) : null,
+            }, { headers: authHeaders() });
+
+            applySettings(response.data.settings);
+            toast({ title: "Saved", description: response.data.message });
+        } catch (error) {
+            console.error("Error saving join settings:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to save the class code settings."),
+                variant: "destructive",
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRegenerate = async () => {
+        setIsRegenerating(true);
+        try {
+            const response = await axios.post(`${API_BASE_URL}/api/courses/regenerate-code`, {
+                classroomId: courseId,
+            }, { headers: authHeaders() });
+
+            applySettings(response.data.settings);
+            toast({ title: "Class code regenerated", description: "The previous code and join link no longer work." });
+        } catch (error) {
+            console.error("Error regenerating class code:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to regenerate the class code."),
+                variant: "destructive",
+            });
+        } finally {
+            setIsRegenerating(false);
+        }
+    };
+
+    if (!settings) {
+        return <p className="text-white">Loading class code...</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex-grow p-3 bg-secondary/30 rounded-md">
+                    <p className="text-xs text-muted-foreground">Class code</p>
+                    <p className="font-mono text-lg text-white">{settings.classCode}</p>
+                </div>
+                <div className="flex sm:flex-col gap-2">
+                    <CustomButton variant="outline" size="sm" onClick={() => copyToClipboard(settings.classCode, "Class code")} icon={<Copy className="h-4 w-4" />}>
+                        Copy Code
+                    </CustomButton>
+                    <CustomButton variant="outline" size="sm" onClick={() => copyToClipboard(joinLink, "Join link")} icon={<Copy className="h-4 w-4" />}>
+                        Copy Link
+                    </CustomButton>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-white">
+                    <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+                    Allow students to join with the class code
+                </label>
+                <label className="flex items-center gap-2 text-sm text-white">
+                    <input type="checkbox" checked={requireApproval} onChange={(e) => setRequireApproval(e.target.checked)} />
+                    Require approval before students are enrolled
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="codeExpiresAt" className="block text-sm font-medium mb-1 text-white">Expires</label>
+                        <input
+                            type="datetime-local"
+                            id="codeExpiresAt"
+                            className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                            value={expiresAt}
+                            onChange={(e) => setExpiresAt(e.target.value)}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="codeMaxUses" className="block text-sm font-medium mb-1 text-white">
+                            Max uses <span className="text-muted-foreground">({settings.uses} used)</span>
+                        </label>
+                        <input
+                            type="number"
+                            id="codeMaxUses"
+                            min={1}
+                            className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                            placeholder="Unlimited"
+                            value={maxUses}
+                            onChange={(e) => setMaxUses(e.target.value)}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <CustomButton onClick={handleSave} loading={isSaving} icon={<Save className="h-4 w-4" />}>
+                    Save Settings
+                </CustomButton>
+                <CustomButton variant="outline" onClick={handleRegenerate} loading={isRegenerating} icon={<RefreshCw className="h-4 w-4" />}>
+                    Regenerate Code
+                </CustomButton>
+            </div>
+        </div>
+    );
+};
+
+export default ClassCodeSettings;
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Save, RefreshCw } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// ---------------------- Interfaces ----------------------
+
+interface CorpusSettings {
+    enabled: boolean;
+    classroomIds: string[];
+    tags: string[];
+    years: number[];
+    term: string;
+    assignmentTags: string[];
+}
+
+interface CorpusScopes {
+    classrooms: { id: string; name: string }[];
+    tags: string[];
+    years: number[];
+}
+
+interface CorpusSettingsPanelProps {
+    assignmentId: string;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+// Toggles a value in a list (used by the scope checkboxes)
+const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// ---------------------- Main Component ----------------------
+
+// Chooses which of the teacher's prior assignments/terms this assignment is compared against,
+// and how this assignment itself is labelled when later assignments compare against it
+const CorpusSettingsPanel: React.FC<CorpusSettingsPanelProps> = ({ assignmentId }) => {
+    const { toast } = useToast();
+
+    const [settings, setSettings] = useState<CorpusSettings | null>(null);
+    const [scopes, setScopes] = useState<CorpusScopes>({ classrooms: [], tags: [], years: [] });
+    const [totalDocuments, setTotalDocuments] = useState(0);
+    const [tagsInput, setTagsInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRebuilding, setIsRebuilding] = useState(false);
+
+    const loadSummary = async () => {
+        const response = await axios.get(`${API_BASE_URL}/api/corpus/summary`, { headers: authHeaders() });
+        setScopes(response.data.scopes);
+        setTotalDocuments(response.data.totalDocuments);
+    };
+
+    useEffect(() => {
+        const loadSettings = async () => {
+            try {
+                const response = await axios.get(`${API_BASE_URL}/api/assignment/corpus-settings/${assignmentId}`, {
+                    headers: authHeaders(),
+                });
+                setSettings(response.data);
+                setTagsInput(response.data.assignmentTags.join(', '));
+                await loadSummary();
+            } catch (error) {
+                console.error("Failed to load corpus settings:", error);
+            }
+        };
+        loadSettings();
+    }, [assignmentId]);
+
+    const handleSave = async () => {
+        if (!settings) return;
+        setIsSaving(true);
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/corpus-settings/${assignmentId}`,
+                {
+                    ...settings,
+                    assignmentTags: tagsInput.split(',').map(t => t.trim()).filter(Boolean),
+                },
+                { headers: authHeaders() }
+            );
+            setSettings(response.data);
+            setTagsInput(response.data.assignmentTags.join(', '));
+            await loadSummary();
+            toast({ title: "Settings Saved", description: "Corpus comparison settings updated.", variant: "success" });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({ title: "Error", description: message || "Failed to save corpus settings.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRebuild = async () => {
+        setIsRebuilding(true);
+        try {
+            const response = await axios.post(`${API_BASE_URL}/api/corpus/rebuild`, {}, { headers: authHeaders() });
+            await loadSummary();
+            toast({
+                title: "Corpus Rebuilt",
+                description: `${response.data.indexed} submissions indexed across your classrooms.`,
+                variant: "success",
+            });
+        } catch (error) {
+            toast({ title: "Error", description: "Failed to rebuild corpus.", variant: "destructive" });
+        } finally {
+            setIsRebuilding(false);
+        }
+    };
+
+    if (!settings) return null;
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <Library className="h-5 w-5 text-primary" /> Prior Submissions Corpus
+                </h3>
+                <div className="flex items-center gap-2 text-sm">
+                    <span>Compare against prior work</span>
+                    <Switch
+                        checked={settings.enabled}
+                        onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked })}
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground mb-4">
+                {totalDocuments} documents from your other assignments are indexed. Leave a filter empty to include everything.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                <div className="space-y-3">
+                    <p className="font-medium">This assignment's labels</p>
+                    <Input
+                        placeholder="Term (e.g. Fall 2025)"
+                        value={settings.term}
+                        onChange={(e) => setSettings({ ...settings, term: e.target.value })}
+                    />
+                    <Input
+                        placeholder="Tags, comma separated (e.g. essay, section-b)"
+                        value={tagsInput}
+                        onChange={(e) => setTagsInput(e.target.value)}
+                    />
+                </div>
+
+                <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                    <div>
+                        <p className="font-medium mb-1">Classrooms</p>
+                        {scopes.classrooms.length === 0 && <p className="text-xs text-muted-foreground">No indexed classrooms yet.</p>}
+                        <div className="flex flex-wrap gap-3">
+                            {scopes.classrooms.map(c => (
+                                <label key={c.id} className="flex items-center gap-1.5">
+                                    <Checkbox
+                                        checked={settings.classroomIds.includes(c.id)}
+                                        onCheckedChange={() => setSettings({ ...settings, classroomIds: toggle(settings.classroomIds, c.id) })}
+                                    />
+                                    {c.name}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    {scopes.tags.length > 0 && (
+                        <div>
+                            <p className="font-medium mb-1">Tags</p>
+                            <div className="flex flex-wrap gap-3">
+                                {scopes.tags.map(tag => (
+                                    <label key={tag} className="flex items-center gap-1.5">
+                                        <Checkbox
+                                            checked={settings.tags.includes(tag)}
+                                            onCheckedChange={() => setSettings({ ...settings, tags: toggle(settings.tags, tag) })}
+                                        />
+                                        {tag}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {scopes.years.length > 0 && (
+                        <div>
+                            <p className="font-medium mb-1">Years</p>
+                            <div className="flex flex-wrap gap-3">
+                                {scopes.years.map(year => (
+                                    <label key={year} className="flex items-center gap-1.5">
+                                        <Checkbox
+                                            checked={settings.years.includes(year)}
+                                            onCheckedChange={() => setSettings({ ...settings, years: toggle(settings.years, year) })}
+                                        />
+                                        {year}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                <CustomButton size="sm" onClick={handleSave} loading={isSaving} disabled={isSaving} icon={<Save className="h-4 w-4" />}>
+                    Save
+                </CustomButton>
+                <CustomButton
+                    size="sm"
+                    variant="outline"
+                    onClick={handleRebuild}
+                    loading={isRebuilding}
+                    disabled={isRebuilding}
+                    icon={<RefreshCw className="h-4 w-4" />}
+                >
+                    Rebuild Corpus
+                </CustomButton>
+            </div>
+        </div>
+    );
+};
+
+export default CorpusSettingsPanel;
@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import GuidelinesEditor from '@/components/GuidelinesEditor';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { EMPTY_SUBMISSION_RULES, SubmissionRules } from '@/lib/submissionRules';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export interface EditableAssignment {
+    id: string;
+    type: 'assignment' | 'exam';
+    title: string;
+    description?: string;
+    deadline: Date;
+    canSubmitLate: boolean;
+    hasFile?: boolean;
+    submissionGuidelines?: string[];
+    submissionRules?: SubmissionRules;
+}
+
+// Fields of the updated task returned by PUT /api/assignment/:assignmentId
+export interface UpdatedTask {
+    id: string;
+    title: string;
+    description?: string;
+    deadline: string;
+    hasFile: boolean;
+    canSubmitLate: boolean;
+    submissionGuidelines: string[];
+    submissionRules: SubmissionRules;
+}
+
+interface EditAssignmentDialogProps {
+    assignment: EditableAssignment | null;
+    onClose: () => void;
+    onSaved: (task: UpdatedTask) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+// Edit an existing assignment or exam without losing its submissions. Every saved change
+// is recorded in the assignment's edit history.
+const EditAssignmentDialog: React.FC<EditAssignmentDialogProps> = ({ assignment, onClose, onSaved }) => {
+    const { toast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [deadline, setDeadline] = useState('');
+    const [canSubmitLate, setCanSubmitLate] = useState(true);
+    const [guidelines, setGuidelines] = useState<string[]>([]);
+    const [rules, setRules] = useState<SubmissionRules>(EMPTY_SUBMISSION_RULES);
+    const [questionFile, setQuestionFile] = useState<File | null>(null);
+    const [removeQuestionFile, setRemoveQuestionFile] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!assignment) return;
+        setTitle(assignment.title);
+        setDescription(assignment.description || '');
+        setDeadline(format(assignment.deadline, "yyyy-MM-dd'T'HH:mm"));
+        setCanSubmitLate(assignment.canSubmitLate);
+        setGuidelines(assignment.submissionGuidelines || []);
+        setRules(assignment.submissionRules || EMPTY_SUBMISSION_RULES);
+        setQuestionFile(null);
+        setRemoveQuestionFile(false);
+    }, [assignment]);
+
+    const label = assignment?.type === 'exam' ? 'Exam' : 'Assignment';
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!assignment) return;
+
+        if (!title.trim()) {
+            toast({ title: "Title required", description: `Please enter a title for the ${label.toLowerCase()}.`, variant: "destructive" });
+            return;
+        }
+        const deadlineDate = new Date(deadline);
+        if (!deadline || isNaN(deadlineDate.getTime())) {
+            toast({ title: "Invalid Deadline", description: "Please select a valid date and time for the deadline.", variant: "destructive" });
+            return;
+        }
+        if (questionFile && questionFile.size > 10 * 1024 * 1024) {
+            toast({ title: "File Too Large", description: "Please upload a file smaller than 10MB.", variant: "destructive" });
+            return;
+        }
+
+        const formData = new FormData();
+        formData.append('title', title.trim());
+        formData.append('description', description.trim());
+        formData.append('deadline', deadlineDate.toISOString());
+        formData.append('canSubmitLate', String(canSubmitLate));
+        formData.append('submissionGuidelines', JSON.stringify(guidelines.map(g => g.trim()).filter(Boolean)));
+        formData.append('submissionRules', JSON.stringify(rules));
+        if (questionFile) {
+            formData.append('file', questionFile);
+        } else if (removeQuestionFile) {
+            formData.append('removeQuestionFile', 'true');
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/assignment/${assignment.id}`, formData, {
+                headers: authHeaders(),
+            });
+            if (response.data.task) onSaved(response.data.task);
+            toast({
+                title: response.data.changes.length ? `${label} updated` : "Nothing changed",
+                description: response.data.changes.length
+                    ? `Updated ${response.data.changes.map((c: { field: string }) => c.field.toLowerCase()).join(', ')}.`
+                    : "There were no changes to save.",
+            });
+            onClose();
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({ title: "Error", description: message || `Failed to update the ${label.toLowerCase()}.`, variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!assignment} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Edit {label}</DialogTitle>
+                </DialogHeader>
+                <form id="editAssignmentForm" onSubmit={handleSave} className="space-y-4">
+                    <div>
+                        <label htmlFor="editTitle" className="block text-sm font-medium mb-1">Title*</label>
+                        <input
+                            type="text"
+                            id="editTitle"
+                            className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            required
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="editDescription" className="block text-sm font-medium mb-1">Description</label>
+                        <textarea
+                            id="editDescription"
+                            className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                            rows={3}
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="editDeadline" className="block text-sm font-medium mb-1">Deadline*</label>
+                        <input
+                            type="datetime-local"
+                            id="editDeadline"
+                            className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                            value={deadline}
+                            onChange={(e) => setDeadline(e.target.value)}
+                            required
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                            Changing the deadline re-evaluates which existing submissions count as late.
+                        </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            id="editCanSubmitLate"
+                            checked={canSubmitLate}
+                            onChange={(e) => setCanSubmitLate(e.target.checked)}
+                            className="h-4 w-4 text-veri"
+                        />
+                        <label htmlFor="editCanSubmitLate" className="text-sm font-medium">Allow late submissions</label>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Submission Guidelines</label>
+                        <GuidelinesEditor
+                            guidelines={guidelines}
+                            rules={rules}
+                            onGuidelinesChange={setGuidelines}
+                            onRulesChange={setRules}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Question File</label>
+                        <p className="text-xs text-muted-foreground mb-2">
+                            {questionFile
+                                ? `Will be replaced with ${questionFile.name}.`
+                                : assignment?.hasFile && !removeQuestionFile
+                                    ? 'A file is attached. Upload a new one to replace it.'
+                                    : 'No file attached.'}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                className="hidden"
+                                accept=".pdf,.doc,.docx,.txt"
+                                onChange={(e) => {
+                                    setQuestionFile(e.target.files?.[0] || null);
+                                    setRemoveQuestionFile(false);
+                                }}
+                            />
+                            <CustomButton type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                                {assignment?.hasFile ? 'Replace File' : 'Upload File'}
+                            </CustomButton>
+                            {(questionFile || (assignment?.hasFile && !removeQuestionFile)) && (
+                                <CustomButton
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (questionFile) {
+                                            setQuestionFile(null);
+                                            if (fileInputRef.current) fileInputRef.current.value = '';
+                                        } else {
+                                            setRemoveQuestionFile(true);
+                                        }
+                                    }}
+                                >
+                                    {questionFile ? 'Clear Selection' : 'Remove File'}
+                                </CustomButton>
+                            )}
+                        </div>
+                    </div>
+                </form>
+                <DialogFooter>
+                    <CustomButton variant="outline" onClick={onClose} disabled={isSaving}>Cancel</CustomButton>
+                    <CustomButton type="submit" form="editAssignmentForm" loading={isSaving}>Save Changes</CustomButton>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default EditAssignmentDialog;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+
+export interface AssignmentEditChange {
+    field: string;
+    from: string;
+    to: string;
+}
+
+export interface AssignmentEdit {
+    id: string;
+    editorName: string;
+    editedAt: string;
+    changes: AssignmentEditChange[];
+}
+
+interface EditHistoryPanelProps {
+    edits: AssignmentEdit[]; // Newest first
+}
+
+const COLLAPSED_COUNT = 3;
+
+const DATE_FIELDS = ['Deadline', 'Late cutoff'];
+
+// Deadlines are stored as ISO strings; everything else is shown as entered
+const formatValue = (field: string, value: string) => {
+    if (!value) return <span className="italic">none</span>;
+    if (DATE_FIELDS.includes(field) && isValid(new Date(value))) return format(new Date(value), 'MMM d, yyyy p');
+    return value;
+};
+
+// Audit of changes made to an assignment after it was created
+const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ edits }) => {
+    const [showAll, setShowAll] = useState(false);
+    const visible = showAll ? edits : edits.slice(0, COLLAPSED_COUNT);
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold flex items-center gap-2 mb-3">
+                <History className="h-5 w-5 text-primary" /> Edit History
+            </h3>
+            <ol className="space-y-3">
+                {visible.map(edit => (
+                    <li key={edit.id} className="text-sm">
+                        <p className="text-muted-foreground mb-1">
+                            <strong className="text-foreground">{edit.editorName}</strong> &middot; {format(new Date(edit.editedAt), 'MMM d, yyyy p')}
+                        </p>
+                        <ul className="space-y-1 pl-4 border-l border-border">
+                            {edit.changes.map((change, index) => (
+                                <li key={index}>
+                                    <span className="font-medium">{change.field}:</span>{' '}
+                                    <span className="text-muted-foreground line-through whitespace-pre-line">{formatValue(change.field, change.from)}</span>
+                                    {' → '}
+                                    <span className="whitespace-pre-line">{formatValue(change.field, change.to)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </li>
+                ))}
+            </ol>
+            {edits.length > COLLAPSED_COUNT && (
+                <button type="button" onClick={() => setShowAll(!showAll)} className="mt-3 text-sm text-veri hover:underline">
+                    {showAll ? 'Show fewer' : `Show all ${edits.length} edits`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default EditHistoryPanel;
@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarPlus, Trash2 } from 'lucide-react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface Extension {
+    studentId: string;
+    name: string;
+    email: string | null;
+    deadline: string;
+    reason: string;
+    grantedAt: string;
+}
+
+interface ExtensionsPanelProps {
+    assignmentId: string;
+    deadline: Date;
+    students: { studentUserId: string; name: string }[];
+    canManage: boolean;
+    onChanged?: () => void; // Lateness of submissions may have changed
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// Per-student deadline extensions (accommodations, medical leave)
+const ExtensionsPanel: React.FC<ExtensionsPanelProps> = ({ assignmentId, deadline, students, canManage, onChanged }) => {
+    const { toast } = useToast();
+    const [extensions, setExtensions] = useState<Extension[]>([]);
+    const [studentId, setStudentId] = useState('');
+    const [newDeadline, setNewDeadline] = useState('');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchExtensions = useCallback(async () => {
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/assignment/extensions/${assignmentId}`, { headers: authHeaders() });
+            setExtensions(response.data.extensions);
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to load extensions."), variant: "destructive" });
+        }
+    }, [assignmentId, toast]);
+
+    useEffect(() => {
+        fetchExtensions();
+    }, [fetchExtensions]);
+
+    const handleGrant = async () => {
+        if (!studentId || !newDeadline) {
+            toast({ title: "Missing Details", description: "Choose a student and their new deadline.", variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/extensions/${assignmentId}/${studentId}`,
+                { deadline: new Date(newDeadline).toISOString(), reason },
+                { headers: authHeaders() }
+            );
+            toast({ title: "Extension Granted", description: response.data.message, variant: "success" });
+            setStudentId('');
+            setNewDeadline('');
+            setReason('');
+            await fetchExtensions();
+            onChanged?.();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to grant the extension."), variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemove = async (extension: Extension) => {
+        try {
+            await axios.delete(`${API_BASE_URL}/api/assignment/extensions/${assignmentId}/${extension.studentId}`, { headers: authHeaders() });
+            toast({ title: "Extension Removed", description: `${extension.name} is back on the assignment deadline.` });
+            await fetchExtensions();
+            onChanged?.();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to remove the extension."), variant: "destructive" });
+        }
+    };
+
+    if (!canManage && extensions.length === 0) return null;
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold flex items-center gap-2 mb-1">
+                <CalendarPlus className="h-5 w-5 text-primary" /> Extensions
+            </h3>
+            <p className="text-xs text-muted-foreground mb-3">
+                A student with an extension has their own deadline, after the assignment deadline of {format(deadline, 'MMM d, yyyy p')}.
+            </p>
+
+            {extensions.length > 0 && (
+                <ul className="space-y-2 mb-4">
+                    {extensions.map(extension => (
+                        <li key={extension.studentId} className="flex items-center justify-between gap-3 text-sm p-2 bg-background/50 rounded-md">
+                            <div>
+                                <p className="font-medium">{extension.name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    Due {format(new Date(extension.deadline), 'MMM d, yyyy p')}
+                                    {extension.reason && ` · ${extension.reason}`}
+                                </p>
+                            </div>
+                            {canManage && (
+                                <CustomButton variant="outline" size="sm" icon={<Trash2 className="h-4 w-4" />} onClick={() => handleRemove(extension)}>
+                                    Remove
+                                </CustomButton>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {canManage && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                    <select
+                        className="h-10 px-3 border border-input rounded-md bg-background text-foreground"
+                        value={studentId}
+                        onChange={(e) => setStudentId(e.target.value)}
+                    >
+                        <option value="">Choose a student</option>
+                        {students.map(student => (
+                            <option key={student.studentUserId} value={student.studentUserId}>{student.name}</option>
+                        ))}
+                    </select>
+                    <Input type="datetime-local" value={newDeadline} onChange={(e) => setNewDeadline(e.target.value)} />
+                    <Input placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} />
+                    <div>
+                        <CustomButton size="sm" icon={<CalendarPlus className="h-4 w-4" />} loading={isSaving} onClick={handleGrant}>
+                            Grant Extension
+                        </CustomButton>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExtensionsPanel;
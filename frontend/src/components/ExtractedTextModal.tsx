@@ -1,8 +1,10 @@
 import React from 'react';
 import { X, Copy, FileText } from 'lucide-react';
 import CustomButton from '@/components/ui/CustomButton';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { Annotation } from '@/lib/annotations';
 
 // Define interface for the student data needed by this modal
 interface StudentForExtractedTextModal {
@@ -13,17 +15,24 @@ interface StudentForExtractedTextModal {
   documentName: string | null;
   extractedText: string | null;
   submissionDate: Date | null;
+  annotations: Annotation[];
 }
 
 interface ExtractedTextModalProps {
   student: StudentForExtractedTextModal;
+  assignmentId: string;
   assignmentTitle: string;
+  canAnnotate: boolean;
+  onAnnotationsChange: (studentUserId: string, annotations: Annotation[]) => void;
   onClose: () => void;
 }
 
 const ExtractedTextModal: React.FC<ExtractedTextModalProps> = ({
   student,
+  assignmentId,
   assignmentTitle,
+  canAnnotate,
+  onAnnotationsChange,
   onClose,
 }) => {
   const { toast } = useToast();
@@ -107,13 +116,18 @@ const ExtractedTextModal: React.FC<ExtractedTextModalProps> = ({
             <h3 className="font-semibold text-lg mb-3 flex items-center">
               <FileText className="h-5 w-5 mr-2 text-primary" /> Document Content
             </h3>
-            <div className="relative bg-card border border-border rounded-lg p-4 font-mono text-sm leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto custom-scrollbar">
-              {student.extractedText ? (
-                student.extractedText
-              ) : (
-                <p className="text-muted-foreground">No text extracted or available for this submission.</p>
-              )}
-            </div>
+            {student.extractedText ? (
+              <AnnotationsPanel
+                assignmentId={assignmentId}
+                studentUserId={student.studentUserId}
+                text={student.extractedText}
+                annotations={student.annotations}
+                canAnnotate={canAnnotate}
+                onChange={(annotations) => onAnnotationsChange(student.studentUserId, annotations)}
+              />
+            ) : (
+              <p className="text-muted-foreground">No text extracted or available for this submission.</p>
+            )}
           </div>
         </div>
 
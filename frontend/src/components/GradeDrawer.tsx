@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Save, Trash2 } from 'lucide-react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useToast } from '@/hooks/use-toast';
+import { Grade, GradingScheme, formatMarks } from '@/lib/grading';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export interface GradeDrawerStudent {
+    studentUserId: string;
+    name: string;
+    latePenalty: number;
+    attemptCount: number;
+    checkedAttempt: number | null;
+    grade: Grade | null;
+}
+
+interface GradeDrawerProps {
+    assignmentId: string;
+    grading: GradingScheme;
+    student: GradeDrawerStudent | null;
+    onClose: () => void;
+    onSaved: (studentUserId: string, grade: Grade | null) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// Marks entry for one student's assessed attempt, opened from the submissions table. With a
+// rubric attached, the teacher picks a level per criterion and the total is computed.
+const GradeDrawer: React.FC<GradeDrawerProps> = ({ assignmentId, grading, student, onClose, onSaved }) => {
+    const { toast } = useToast();
+    const [score, setScore] = useState('');
+    const [sectionMarks, setSectionMarks] = useState<Record<string, string>>({});
+    const [levels, setLevels] = useState<Record<string, string>>({});
+    const [feedback, setFeedback] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!student) return;
+        setScore(student.grade ? student.grade.score.toString() : '');
+        setSectionMarks(Object.fromEntries(grading.sections.map(section => {
+            const mark = student.grade?.markDistribution.find(m => m.section === section.name);
+            return [section.name, mark ? mark.scored.toString() : ''];
+        })));
+        const criteria = grading.rubric?.criteria || [];
+        const scoreOf = (name: string) => student.grade?.criterionScores.find(s => s.criterion === name);
+        setLevels(Object.fromEntries(criteria.map(c => [c.name, scoreOf(c.name)?.level || ''])));
+        setFeedback(Object.fromEntries(criteria.map(c => [c.name, scoreOf(c.name)?.feedback || ''])));
+    }, [student, grading]);
+
+    const rubric = grading.rubric;
+    const hasSections = grading.sections.length > 0;
+    const rubricTotal = (rubric?.criteria || []).reduce(
+        (sum, c) => sum + (c.levels.find(l => l.label === levels[c.name])?.points || 0), 0);
+    const total = rubric
+        ? rubricTotal
+        : hasSections
+            ? grading.sections.reduce((sum, section) => sum + (Number(sectionMarks[section.name]) || 0), 0)
+            : Number(score) || 0;
+    const latePenalty = student?.latePenalty || 0;
+    const assessedAttempt = student ? student.checkedAttempt ?? student.attemptCount : null;
+    const gradedOtherAttempt = !!student?.grade?.attemptNumber && student.grade.attemptNumber !== assessedAttempt;
+
+    const handleSave = async () => {
+        if (!student) return;
+        let body;
+        if (rubric) {
+            if (rubric.criteria.some(c => !levels[c.name])) {
+                toast({ title: "Missing Marks", description: "Choose a level for every criterion.", variant: "destructive" });
+                return;
+            }
+            body = { criterionScores: rubric.criteria.map(c => ({ criterion: c.name, level: levels[c.name], feedback: feedback[c.name] || '' })) };
+        } else {
+            const entered = hasSections ? Object.values(sectionMarks) : [score];
+            if (entered.some(value => value.trim() === '')) {
+                toast({ title: "Missing Marks", description: "Enter marks for every section.", variant: "destructive" });
+                return;
+            }
+            body = hasSections
+                ? { sectionMarks: grading.sections.map(section => ({ section: section.name, scored: Number(sectionMarks[section.name]) })) }
+                : { score: Number(score) };
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/assignment/grade/${assignmentId}/${student.studentUserId}`, body, { headers: authHeaders() });
+            onSaved(student.studentUserId, response.data.grade);
+            toast({ title: "Grade Saved", description: `${student.name}: ${formatMarks(response.data.grade.finalScore)}/${formatMarks(grading.maxMarks)}`, variant: "success" });
+            onClose();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to save the grade."), variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleClear = async () => {
+        if (!student) return;
+        try {
+            await axios.delete(`${API_BASE_URL}/api/assignment/grade/${assignmentId}/${student.studentUserId}`, { headers: authHeaders() });
+            onSaved(student.studentUserId, null);
+            toast({ title: "Grade Cleared", description: `${student.name} is no longer graded.` });
+            onClose();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to clear the grade."), variant: "destructive" });
+        }
+    };
+
+    return (
+        <Sheet open={!!student} onOpenChange={(open) => !open && onClose()}>
+            <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+                <SheetHeader>
+                    <SheetTitle>Grade {student?.name}</SheetTitle>
+                    <SheetDescription>
+                        Grading attempt #{assessedAttempt}. {grading.released ? 'Grades are visible to students.' : 'Grades are hidden from students until released.'}
+                    </SheetDescription>
+                </SheetHeader>
+
+                <div className="space-y-4 py-4 text-sm">
+                    {gradedOtherAttempt && (
+                        <div className="flex items-start gap-2 p-3 rounded-md bg-amber-500/10 text-amber-600">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>The current grade was given for attempt #{student?.grade?.attemptNumber}. Saving grades attempt #{assessedAttempt}.</span>
+                        </div>
+                    )}
+
+                    {rubric ? (
+                        rubric.criteria.map(criterion => (
+                            <div key={criterion.name} className="space-y-2">
+                                <div>
+                                    <span className="font-medium">{criterion.name}</span>
+                                    {criterion.description && <span className="block text-xs text-muted-foreground">{criterion.description}</span>}
+                                </div>
+                                <div className="grid gap-1">
+                                    {criterion.levels.map(level => (
+                                        <button
+                                            key={level.label}
+                                            type="button"
+                                            onClick={() => setLevels({ ...levels, [criterion.name]: level.label })}
+                                            className={`text-left p-2 rounded-md border ${levels[criterion.name] === level.label ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted/50'}`}
+                                        >
+                                            <span className="flex justify-between">
+                                                <span className="font-medium">{level.label}</span>
+                                                <span className="text-muted-foreground">{formatMarks(level.points)} pts</span>
+                                            </span>
+                                            {level.descriptor && <span className="block text-xs text-muted-foreground">{level.descriptor}</span>}
+                                        </button>
+                                    ))}
+                                </div>
+                                <Textarea
+                                    rows={2}
+                                    placeholder={`Feedback on ${criterion.name} (optional)`}
+                                    value={feedback[criterion.name] ?? ''}
+                                    onChange={(e) => setFeedback({ ...feedback, [criterion.name]: e.target.value })}
+                                />
+                            </div>
+                        ))
+                    ) : hasSections ? (
+                        grading.sections.map(section => (
+                            <label key={section.name} className="block space-y-1">
+                                <span className="flex justify-between">
+                                    <span className="font-medium">{section.name}</span>
+                                    <span className="text-muted-foreground">out of {formatMarks(section.maxMarks)}</span>
+                                </span>
+                                {section.criteria && <span className="block text-xs text-muted-foreground">{section.criteria}</span>}
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={section.maxMarks}
+                                    step="0.5"
+                                    value={sectionMarks[section.name] ?? ''}
+                                    onChange={(e) => setSectionMarks({ ...sectionMarks, [section.name]: e.target.value })}
+                                />
+                            </label>
+                        ))
+                    ) : (
+                        <label className="block space-y-1">
+                            <span className="flex justify-between">
+                                <span className="font-medium">Score</span>
+                                <span className="text-muted-foreground">out of {formatMarks(grading.maxMarks)}</span>
+                            </span>
+                            <Input type="number" min={0} max={grading.maxMarks} step="0.5" value={score} onChange={(e) => setScore(e.target.value)} />
+                        </label>
+                    )}
+
+                    <div className="p-3 rounded-md bg-muted/40 space-y-1">
+                        <div className="flex justify-between"><span>Marks</span><span>{formatMarks(total)} / {formatMarks(grading.maxMarks)}</span></div>
+                        {latePenalty > 0 && (
+                            <>
+                                <div className="flex justify-between text-amber-600"><span>Late penalty</span><span>−{latePenalty}%</span></div>
+                                <div className="flex justify-between font-medium">
+                                    <span>Final</span>
+                                    <span>{formatMarks(Math.round(total * (1 - latePenalty / 100) * 100) / 100)} / {formatMarks(grading.maxMarks)}</span>
+                                </div>
+                            </>
+                        )}
+                    </div>
+
+                    {student?.grade?.gradedAt && (
+                        <p className="text-xs text-muted-foreground">
+                            Last graded by {student.grade.graderName || 'Unknown'} on {format(new Date(student.grade.gradedAt), 'MMM d, yyyy p')}
+                        </p>
+                    )}
+                </div>
+
+                <SheetFooter className="gap-2">
+                    {student?.grade && (
+                        <CustomButton variant="outline" icon={<Trash2 className="h-4 w-4" />} onClick={handleClear} disabled={isSaving}>
+                            Clear Grade
+                        </CustomButton>
+                    )}
+                    <CustomButton icon={<Save className="h-4 w-4" />} loading={isSaving} onClick={handleSave}>
+                        Save Grade
+                    </CustomButton>
+                </SheetFooter>
+            </SheetContent>
+        </Sheet>
+    );
+};
+
+export default GradeDrawer;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Award, Plus, Save, X } from 'lucide-react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { GradingScheme, formatMarks } from '@/lib/grading';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface GradingPanelProps {
+    assignmentId: string;
+    grading: GradingScheme;
+    gradedCount: number;
+    submittedCount: number;
+    canManage: boolean; // Edit the scheme
+    canGrade: boolean; // Release grades
+    onSaved: (grading: GradingScheme) => void;
+}
+
+interface SectionDraft {
+    name: string;
+    maxMarks: string;
+    criteria: string;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// Maximum marks, the mark distribution across sections and release of grades to students.
+// The scheme is locked once any submission is graded, and set by the rubric when one is
+// attached (see RubricPanel).
+const GradingPanel: React.FC<GradingPanelProps> = ({ assignmentId, grading, gradedCount, submittedCount, canManage, canGrade, onSaved }) => {
+    const { toast } = useToast();
+    const [maxMarks, setMaxMarks] = useState('');
+    const [sections, setSections] = useState<SectionDraft[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isReleasing, setIsReleasing] = useState(false);
+
+    useEffect(() => {
+        setMaxMarks(grading.maxMarks.toString());
+        setSections(grading.sections.map(s => ({ name: s.name, maxMarks: s.maxMarks.toString(), criteria: s.criteria })));
+    }, [grading]);
+
+    const locked = gradedCount > 0;
+    const hasRubric = !!grading.rubric;
+    const sectionTotal = sections.reduce((sum, s) => sum + (Number(s.maxMarks) || 0), 0);
+
+    const updateSection = (index: number, changes: Partial<SectionDraft>) =>
+        setSections(sections.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+    const handleSave = async () => {
+        const body = sections.length > 0
+            ? { sections: sections.map(s => ({ name: s.name.trim(), maxMarks: Number(s.maxMarks), criteria: s.criteria.trim() })) }
+            : { maxMarks: Number(maxMarks) };
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/assignment/grading/${assignmentId}`, body, { headers: authHeaders() });
+            onSaved(response.data.grading);
+            toast({ title: "Settings Saved", description: "Grading scheme updated.", variant: "success" });
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to save the grading scheme."), variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRelease = async (released: boolean) => {
+        setIsReleasing(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/assignment/grading/release/${assignmentId}`, { released }, { headers: authHeaders() });
+            onSaved(response.data.grading);
+            toast({ title: released ? "Grades Released" : "Grades Hidden", description: response.data.message });
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to update grade release."), variant: "destructive" });
+        } finally {
+            setIsReleasing(false);
+        }
+    };
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <Award className="h-5 w-5 text-primary" /> Grading
+                </h3>
+                {canGrade && (
+                    <div className="flex items-center gap-2 text-sm">
+                        <span>Visible to students</span>
+                        <Switch checked={grading.released} disabled={isReleasing} onCheckedChange={handleRelease} />
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-muted-foreground mb-3">
+                {gradedCount} of {submittedCount} submissions graded, out of {formatMarks(grading.maxMarks)} marks.{' '}
+                {grading.released && grading.releasedAt
+                    ? `Released ${format(new Date(grading.releasedAt), 'MMM d, yyyy p')}; late penalties are applied to what students see.`
+                    : 'Students see their marks once you release them.'}
+            </p>
+
+            {canManage && hasRubric && (
+                <p className="text-xs text-muted-foreground">Marks come from the attached rubric. Detach it to set marks by section.</p>
+            )}
+
+            {canManage && !hasRubric && (
+                <div className="space-y-3 text-sm">
+                    {locked && (
+                        <p className="text-xs text-amber-600">Grades have been entered, so the scheme can no longer change.</p>
+                    )}
+                    {sections.length === 0 ? (
+                        <label className="block space-y-1 max-w-xs">
+                            <span className="block">Maximum marks</span>
+                            <Input type="number" min={1} value={maxMarks} disabled={locked} onChange={(e) => setMaxMarks(e.target.value)} />
+                        </label>
+                    ) : (
+                        <ul className="space-y-2">
+                            {sections.map((section, index) => (
+                                <li key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_3fr_auto] gap-2 items-start">
+                                    <Input placeholder="Section" value={section.name} disabled={locked} onChange={(e) => updateSection(index, { name: e.target.value })} />
+                                    <Input type="number" min={0} placeholder="Marks" value={section.maxMarks} disabled={locked} onChange={(e) => updateSection(index, { maxMarks: e.target.value })} />
+                                    <Input placeholder="Criteria (what earns the marks)" value={section.criteria} disabled={locked} onChange={(e) => updateSection(index, { criteria: e.target.value })} />
+                                    {!locked && (
+                                        <button type="button" title="Remove section" className="p-2 text-muted-foreground hover:text-red-500" onClick={() => setSections(sections.filter((_, i) => i !== index))}>
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                            <li className="text-xs text-muted-foreground">Total: {formatMarks(sectionTotal)} marks</li>
+                        </ul>
+                    )}
+                    {!locked && (
+                        <div className="flex flex-wrap gap-2">
+                            <CustomButton
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                icon={<Plus className="h-4 w-4" />}
+                                onClick={() => setSections([...sections, { name: '', maxMarks: '', criteria: '' }])}
+                            >
+                                Add Section
+                            </CustomButton>
+                            <CustomButton size="sm" icon={<Save className="h-4 w-4" />} loading={isSaving} onClick={handleSave}>
+                                Save
+                            </CustomButton>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GradingPanel;
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Bold, Eye, Italic, Link2, Plus, Save, Trash2, X } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import InlineMarkdown from '@/components/InlineMarkdown';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentFormats } from '@/hooks/useDocumentFormats';
+import { SubmissionRules } from '@/lib/submissionRules';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface GuidelineTemplate {
+    id: string;
+    name: string;
+    guidelines: string[];
+    submissionRules: SubmissionRules;
+}
+
+interface GuidelinesEditorProps {
+    guidelines: string[];
+    rules: SubmissionRules;
+    onGuidelinesChange: (guidelines: string[]) => void;
+    onRulesChange: (rules: SubmissionRules) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Authoring of an assignment's submission guidelines: an ordered list of short texts with
+// inline formatting, the rules checked at submission, and the teacher's reusable templates
+const GuidelinesEditor: React.FC<GuidelinesEditorProps> = ({ guidelines, rules, onGuidelinesChange, onRulesChange }) => {
+    const { toast } = useToast();
+    const { formats } = useDocumentFormats();
+    const inputRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+    const [templates, setTemplates] = useState<GuidelineTemplate[]>([]);
+    const [templateId, setTemplateId] = useState('');
+    const [templateName, setTemplateName] = useState('');
+    const [showPreview, setShowPreview] = useState(false);
+    const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+    const fetchTemplates = useCallback(async () => {
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/guideline-templates`, { headers: authHeaders() });
+            setTemplates(response.data.templates);
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to load guideline templates."), variant: "destructive" });
+        }
+    }, [toast]);
+
+    useEffect(() => {
+        fetchTemplates();
+    }, [fetchTemplates]);
+
+    const updateGuideline = (index: number, text: string) =>
+        onGuidelinesChange(guidelines.map((g, i) => (i === index ? text : g)));
+
+    const moveGuideline = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= guidelines.length) return;
+        const next = [...guidelines];
+        [next[index], next[target]] = [next[target], next[index]];
+        onGuidelinesChange(next);
+    };
+
+    // Wraps the selected text of a guideline in markdown markers
+    const applyFormat = (index: number, kind: 'bold' | 'italic' | 'link') => {
+        const input = inputRefs.current[index];
+        const text = guidelines[index];
+        const start = input?.selectionStart ?? text.length;
+        const end = input?.selectionEnd ?? text.length;
+        const selected = text.slice(start, end);
+        const formatted = kind === 'bold'
+            ? `**${selected || 'bold text'}**`
+            : kind === 'italic'
+                ? `*${selected || 'italic text'}*`
+                : `[${selected || 'link text'}](https://)`;
+        updateGuideline(index, text.slice(0, start) + formatted + text.slice(end));
+        requestAnimationFrame(() => input?.focus());
+    };
+
+    const applyTemplate = (id: string) => {
+        setTemplateId(id);
+        const template = templates.find(t => t.id === id);
+        if (!template) return;
+        setTemplateName(template.name);
+        onGuidelinesChange([...template.guidelines]);
+        onRulesChange({ ...template.submissionRules, allowedFileTypes: [...template.submissionRules.allowedFileTypes] });
+    };
+
+    const saveTemplate = async (mode: 'create' | 'update') => {
+        if (!templateName.trim()) {
+            toast({ title: "Name required", description: "Give the template a name.", variant: "destructive" });
+            return;
+        }
+        const body = { name: templateName.trim(), guidelines, submissionRules: rules };
+        setIsSavingTemplate(true);
+        try {
+            const response = mode === 'update'
+                ? await axios.put(`${API_BASE_URL}/api/guideline-templates/${templateId}`, body, { headers: authHeaders() })
+                : await axios.post(`${API_BASE_URL}/api/guideline-templates`, body, { headers: authHeaders() });
+            toast({ title: "Template Saved", description: response.data.message, variant: "success" });
+            await fetchTemplates();
+            setTemplateId(response.data.template.id);
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to save the template."), variant: "destructive" });
+        } finally {
+            setIsSavingTemplate(false);
+        }
+    };
+
+    const deleteTemplate = async () => {
+        try {
+            await axios.delete(`${API_BASE_URL}/api/guideline-templates/${templateId}`, { headers: authHeaders() });
+            toast({ title: "Template Deleted", description: `"${templateName}" was removed. Assignments using it keep their guidelines.` });
+            setTemplateId('');
+            setTemplateName('');
+            await fetchTemplates();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to delete the template."), variant: "destructive" });
+        }
+    };
+
+    const toggleFormat = (extensions: string[], checked: boolean) => {
+        const types = extensions.map(ext => ext.slice(1));
+        const allowedFileTypes = checked
+            ? [...new Set([...rules.allowedFileTypes, ...types])]
+            : rules.allowedFileTypes.filter(ext => !types.includes(ext));
+        onRulesChange({ ...rules, allowedFileTypes });
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <select
+                    className="h-10 px-3 border border-input rounded-md bg-background text-foreground"
+                    value={templateId}
+                    onChange={(e) => applyTemplate(e.target.value)}
+                >
+                    <option value="">{templates.length ? 'Start from a template…' : 'No saved templates'}</option>
+                    {templates.map(template => (
+                        <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                </select>
+                <Input placeholder="Template name" value={templateName} onChange={(e) => setTemplateName(e.target.value)} />
+                <div className="flex gap-2">
+                    <CustomButton type="button" variant="outline" size="sm" icon={<Save className="h-4 w-4" />} loading={isSavingTemplate} onClick={() => saveTemplate('create')}>
+                        Save as New
+                    </CustomButton>
+                    {templateId && (
+                        <>
+                            <CustomButton type="button" variant="outline" size="sm" disabled={isSavingTemplate} onClick={() => saveTemplate('update')}>
+                                Update
+                            </CustomButton>
+                            <CustomButton type="button" variant="outline" size="sm" icon={<Trash2 className="h-4 w-4" />} onClick={deleteTemplate}>
+                                Delete
+                            </CustomButton>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs text-muted-foreground">
+                        Shown to students in this order. Use **bold**, *italic*, `code` and [links](https://…).
+                    </p>
+                    <button type="button" onClick={() => setShowPreview(!showPreview)} className="flex items-center gap-1 text-xs text-veri hover:underline">
+                        <Eye className="h-3 w-3" /> {showPreview ? 'Edit' : 'Preview'}
+                    </button>
+                </div>
+
+                {showPreview ? (
+                    <ol className="list-decimal pl-5 space-y-1 p-3 rounded-md bg-background/60 text-muted-foreground">
+                        {guidelines.filter(g => g.trim()).map((guideline, index) => (
+                            <li key={index}><InlineMarkdown text={guideline} /></li>
+                        ))}
+                    </ol>
+                ) : (
+                    <ol className="space-y-2">
+                        {guidelines.map((guideline, index) => (
+                            <li key={index} className="flex items-start gap-2">
+                                <span className="w-5 pt-2 text-right text-muted-foreground">{index + 1}.</span>
+                                <div className="flex-1">
+                                    <textarea
+                                        ref={(el) => { inputRefs.current[index] = el; }}
+                                        className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                                        rows={2}
+                                        value={guideline}
+                                        onChange={(e) => updateGuideline(index, e.target.value)}
+                                    />
+                                    <div className="flex gap-1 text-muted-foreground">
+                                        <button type="button" title="Bold" className="p-1 hover:text-foreground" onClick={() => applyFormat(index, 'bold')}><Bold className="h-3.5 w-3.5" /></button>
+                                        <button type="button" title="Italic" className="p-1 hover:text-foreground" onClick={() => applyFormat(index, 'italic')}><Italic className="h-3.5 w-3.5" /></button>
+                                        <button type="button" title="Link" className="p-1 hover:text-foreground" onClick={() => applyFormat(index, 'link')}><Link2 className="h-3.5 w-3.5" /></button>
+                                    </div>
+                                </div>
+                                <div className="flex flex-col text-muted-foreground">
+                                    <button type="button" title="Move up" className="p-1 hover:text-foreground disabled:opacity-30" disabled={index === 0} onClick={() => moveGuideline(index, -1)}><ArrowUp className="h-4 w-4" /></button>
+                                    <button type="button" title="Move down" className="p-1 hover:text-foreground disabled:opacity-30" disabled={index === guidelines.length - 1} onClick={() => moveGuideline(index, 1)}><ArrowDown className="h-4 w-4" /></button>
+                                    <button type="button" title="Remove" className="p-1 hover:text-red-500" onClick={() => onGuidelinesChange(guidelines.filter((_, i) => i !== index))}><X className="h-4 w-4" /></button>
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+                {!showPreview && (
+                    <CustomButton type="button" variant="outline" size="sm" className="mt-2" icon={<Plus className="h-4 w-4" />} onClick={() => onGuidelinesChange([...guidelines, ''])}>
+                        Add Guideline
+                    </CustomButton>
+                )}
+            </div>
+
+            <div className="space-y-3">
+                <p className="font-medium">Checked on submission</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="space-y-1">
+                        <span className="block text-muted-foreground">Minimum words</span>
+                        <Input type="number" min={1} placeholder="None" value={rules.minWords ?? ''} onChange={(e) => onRulesChange({ ...rules, minWords: toLimit(e.target.value) })} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-muted-foreground">Maximum words</span>
+                        <Input type="number" min={1} placeholder="None" value={rules.maxWords ?? ''} onChange={(e) => onRulesChange({ ...rules, maxWords: toLimit(e.target.value) })} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-muted-foreground">Page limit</span>
+                        <Input type="number" min={1} placeholder="None" value={rules.maxPages ?? ''} onChange={(e) => onRulesChange({ ...rules, maxPages: toLimit(e.target.value) })} />
+                    </label>
+                </div>
+                <div>
+                    <span className="block text-muted-foreground mb-1">Accepted file types (none checked = all supported types)</span>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {formats.map(format => (
+                            <label key={format.label} className="flex items-center gap-1.5">
+                                <input
+                                    type="checkbox"
+                                    className="h-4 w-4"
+                                    checked={format.extensions.every(ext => rules.allowedFileTypes.includes(ext.slice(1)))}
+                                    onChange={(e) => toggleFormat(format.extensions, e.target.checked)}
+                                />
+                                {format.label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GuidelinesEditor;
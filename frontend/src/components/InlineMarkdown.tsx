@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface InlineMarkdownProps {
+    text: string;
+}
+
+// **bold**, *italic*, `code` and [label](https://link); links other than http(s) and
+// mailto are shown as plain text
+const TOKEN = /\*\*(.+?)\*\*|\*(.+?)\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(TOKEN)) {
+        const index = match.index ?? 0;
+        if (index > last) nodes.push(text.slice(last, index));
+        const key = `${keyPrefix}-${index}`;
+        const [whole, bold, italic, code, label, href] = match;
+        if (bold !== undefined) {
+            nodes.push(<strong key={key} className="font-semibold text-foreground">{renderInline(bold, key)}</strong>);
+        } else if (italic !== undefined) {
+            nodes.push(<em key={key}>{renderInline(italic, key)}</em>);
+        } else if (code !== undefined) {
+            nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-muted text-xs">{code}</code>);
+        } else if (SAFE_LINK.test(href)) {
+            nodes.push(
+                <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-veri hover:underline">
+                    {label}
+                </a>
+            );
+        } else {
+            nodes.push(whole);
+        }
+        last = index + whole.length;
+    }
+    if (last < text.length) nodes.push(text.slice(last));
+    return nodes;
+};
+
+// Renders the small markdown subset used in submission guidelines. Text is never injected
+// as HTML, so guidelines cannot carry markup of their own.
+const InlineMarkdown: React.FC<InlineMarkdownProps> = ({ text }) => <>{renderInline(text, 'md')}</>;
+
+export default InlineMarkdown;
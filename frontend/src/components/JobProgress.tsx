@@ -0,0 +1,54 @@
+import React from 'react';
+import { Check, Loader2, Circle, X, Minus } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import type { JobStage } from '@/hooks/useJobProgress';
+
+interface JobProgressProps {
+    status: 'queued' | 'running' | 'succeeded' | 'failed';
+    progress: number;
+    stages: JobStage[];
+    className?: string;
+}
+
+const StageIcon: React.FC<{ status: JobStage['status'] }> = ({ status }) => {
+    switch (status) {
+        case 'done':
+            return <Check className="h-4 w-4 text-green-600" />;
+        case 'running':
+            return <Loader2 className="h-4 w-4 text-primary animate-spin" />;
+        case 'failed':
+            return <X className="h-4 w-4 text-destructive" />;
+        case 'skipped':
+            return <Minus className="h-4 w-4 text-muted-foreground" />;
+        default:
+            return <Circle className="h-4 w-4 text-muted-foreground" />;
+    }
+};
+
+// Overall and per-stage progress of a background plagiarism job
+const JobProgress: React.FC<JobProgressProps> = ({ status, progress, stages, className }) => (
+    <div className={cn("space-y-3", className)}>
+        <div className="flex justify-between text-sm">
+            <span className="font-medium">{status === 'queued' ? 'Waiting in queue...' : 'Checking for plagiarism...'}</span>
+            <span className="text-muted-foreground">{progress}%</span>
+        </div>
+        <Progress value={progress} className="h-2" />
+        <ul className="space-y-1.5 text-sm">
+            {stages.map(stage => (
+                <li
+                    key={stage.name}
+                    className={cn("flex items-center gap-2", stage.status === 'skipped' && "text-muted-foreground line-through")}
+                >
+                    <StageIcon status={stage.status} />
+                    <span className="flex-1">{stage.label}</span>
+                    {stage.status === 'running' && stage.total > 1 && (
+                        <span className="text-xs text-muted-foreground">{stage.completed} / {stage.total}</span>
+                    )}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+export default JobProgress;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Save } from 'lucide-react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { LatePenalty, LatePenaltyType } from '@/lib/latePolicy';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export interface LatePolicy extends LatePenalty {
+    canSubmitLate: boolean;
+    cutoff: string | null;
+}
+
+interface LatePolicyPanelProps {
+    assignmentId: string;
+    latePolicy: LatePolicy;
+    onSaved?: (latePolicy: LatePolicy) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+// When late submissions close and how much is taken off for lateness. Saving re-assesses
+// work that was already handed in late.
+const LatePolicyPanel: React.FC<LatePolicyPanelProps> = ({ assignmentId, latePolicy, onSaved }) => {
+    const { toast } = useToast();
+    const [cutoff, setCutoff] = useState('');
+    const [penaltyType, setPenaltyType] = useState<LatePenaltyType>('none');
+    const [penaltyValue, setPenaltyValue] = useState('');
+    const [maxPenalty, setMaxPenalty] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setCutoff(latePolicy.cutoff ? format(new Date(latePolicy.cutoff), "yyyy-MM-dd'T'HH:mm") : '');
+        setPenaltyType(latePolicy.penaltyType);
+        setPenaltyValue(latePolicy.penaltyValue ? latePolicy.penaltyValue.toString() : '');
+        setMaxPenalty(latePolicy.maxPenalty < 100 ? latePolicy.maxPenalty.toString() : '');
+    }, [latePolicy]);
+
+    const handleSave = async () => {
+        const value = penaltyType === 'none' ? 0 : Number(penaltyValue);
+        const cap = maxPenalty.trim() === '' ? 100 : Number(maxPenalty);
+        if (isNaN(value) || value < 0 || value > 100 || isNaN(cap) || cap < 0 || cap > 100) {
+            toast({ title: "Invalid Value", description: "Penalties are percentages between 0 and 100.", variant: "destructive" });
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/late-policy/${assignmentId}`,
+                {
+                    cutoff: cutoff ? new Date(cutoff).toISOString() : null,
+                    penaltyType,
+                    penaltyValue: value,
+                    maxPenalty: cap,
+                },
+                { headers: authHeaders() }
+            );
+            onSaved?.(response.data.latePolicy);
+            toast({ title: "Settings Saved", description: "Late policy updated.", variant: "success" });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({ title: "Error", description: message || "Failed to save the late policy.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold flex items-center gap-2 mb-1">
+                <Clock className="h-5 w-5 text-primary" /> Late Policy
+            </h3>
+            {!latePolicy.canSubmitLate ? (
+                <p className="text-xs text-muted-foreground">
+                    Late submissions are not allowed. Allow them by editing the assignment to set a late window and penalty.
+                </p>
+            ) : (
+                <>
+                    <p className="text-xs text-muted-foreground mb-3">
+                        Students with an extension get the same late window after their own deadline.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                        <label className="space-y-1">
+                            <span className="block">Accept late work until</span>
+                            <Input type="datetime-local" value={cutoff} onChange={(e) => setCutoff(e.target.value)} />
+                            <span className="block text-xs text-muted-foreground">Leave empty to keep late submissions open.</span>
+                        </label>
+                        <label className="space-y-1">
+                            <span className="block">Penalty</span>
+                            <select
+                                className="w-full h-10 px-3 border border-input rounded-md bg-background text-foreground"
+                                value={penaltyType}
+                                onChange={(e) => setPenaltyType(e.target.value as LatePenaltyType)}
+                            >
+                                <option value="none">No penalty</option>
+                                <option value="percent-per-day">Percent per day late</option>
+                                <option value="flat">Flat percent</option>
+                            </select>
+                        </label>
+                        {penaltyType !== 'none' && (
+                            <label className="space-y-1">
+                                <span className="block">{penaltyType === 'flat' ? 'Penalty (%)' : 'Penalty per day (%)'}</span>
+                                <Input type="number" min={0} max={100} value={penaltyValue} onChange={(e) => setPenaltyValue(e.target.value)} />
+                            </label>
+                        )}
+                        {penaltyType === 'percent-per-day' && (
+                            <label className="space-y-1">
+                                <span className="block">Maximum penalty (%)</span>
+                                <Input type="number" min={0} max={100} placeholder="100" value={maxPenalty} onChange={(e) => setMaxPenalty(e.target.value)} />
+                            </label>
+                        )}
+                    </div>
+                    <CustomButton size="sm" className="mt-3" icon={<Save className="h-4 w-4" />} loading={isSaving} onClick={handleSave}>
+                        Save
+                    </CustomButton>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default LatePolicyPanel;
@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Slider } from '@/components/ui/slider';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// ---------------------- Interfaces ----------------------
+
+interface LshPreview {
+    threshold: number;
+    bands: number;
+    rows: number;
+    source: 'custom' | 'threshold' | 'default';
+    numPermutations: number;
+    expectedRecall: number;
+    curve: { similarity: number; probability: number }[];
+}
+
+interface LshSettingsPanelProps {
+    assignmentId: string;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const chartConfig = {
+    probability: { label: 'Chance of being compared', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// ---------------------- Main Component ----------------------
+
+// Lets a teacher tune how aggressively LSH prunes pairs before the precise comparison,
+// previewing the S-curve (chance a pair is compared vs. its similarity) for the chosen threshold
+const LshSettingsPanel: React.FC<LshSettingsPanelProps> = ({ assignmentId }) => {
+    const { toast } = useToast();
+
+    const [preview, setPreview] = useState<LshPreview | null>(null);
+    const [threshold, setThreshold] = useState(0.5);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Load the assignment's saved configuration
+    useEffect(() => {
+        const loadSettings = async () => {
+            try {
+                const response = await axios.get(`${API_BASE_URL}/api/assignment/lsh-settings/${assignmentId}`, {
+                    headers: authHeaders(),
+                });
+                setPreview(response.data);
+                setThreshold(response.data.threshold);
+            } catch (error) {
+                console.error("Failed to load LSH settings:", error);
+            }
+        };
+        loadSettings();
+    }, [assignmentId]);
+
+    // Re-fetch the preview for the threshold being dragged
+    const loadPreview = useCallback(async (value: number) => {
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/assignment/lsh-preview`, {
+                params: { threshold: value },
+                headers: authHeaders(),
+            });
+            setPreview(response.data);
+        } catch (error) {
+            console.error("Failed to load LSH preview:", error);
+        }
+    }, []);
+
+    const handleSave = async (reset = false) => {
+        setIsSaving(true);
+        try {
+            const response = await axios.put(
+                `${API_BASE_URL}/api/assignment/lsh-settings/${assignmentId}`,
+                reset ? {} : { threshold },
+                { headers: authHeaders() }
+            );
+            setPreview(response.data);
+            setThreshold(response.data.threshold);
+            toast({
+                title: "Settings Saved",
+                description: `Using ${response.data.bands} bands × ${response.data.rows} rows for this assignment.`,
+                variant: "success",
+            });
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({
+                title: "Error",
+                description: message || "Failed to save LSH settings.",
+                variant: "destructive",
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!preview) return null;
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                <SlidersHorizontal className="h-5 w-5 text-primary" /> Candidate Selection (LSH)
+            </h3>
+            <p className="text-xs text-muted-foreground mb-4">
+                Pairs below the threshold are usually skipped before the full comparison. Lower thresholds compare more pairs.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                    <div>
+                        <div className="flex justify-between text-sm mb-2">
+                            <span>Similarity threshold</span>
+                            <strong>{Math.round(threshold * 100)}%</strong>
+                        </div>
+                        <Slider
+                            min={0.1}
+                            max={0.9}
+                            step={0.05}
+                            value={[threshold]}
+                            onValueChange={([value]) => setThreshold(value)}
+                            onValueCommit={([value]) => loadPreview(value)}
+                        />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                        <div className="bg-background rounded p-2">
+                            <p className="font-bold">{preview.bands}</p>
+                            <p className="text-xs text-muted-foreground">Bands</p>
+                        </div>
+                        <div className="bg-background rounded p-2">
+                            <p className="font-bold">{preview.rows}</p>
+                            <p className="text-xs text-muted-foreground">Rows / band</p>
+                        </div>
+                        <div className="bg-background rounded p-2">
+                            <p className="font-bold">{Math.round(preview.expectedRecall * 100)}%</p>
+                            <p className="text-xs text-muted-foreground">Recall at threshold</p>
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <CustomButton
+                            size="sm"
+                            onClick={() => handleSave()}
+                            loading={isSaving}
+                            disabled={isSaving}
+                            icon={<Save className="h-4 w-4" />}
+                        >
+                            Save
+                        </CustomButton>
+                        <CustomButton
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleSave(true)}
+                            disabled={isSaving || preview.source === 'default'}
+                            icon={<RotateCcw className="h-4 w-4" />}
+                        >
+                            Use Default
+                        </CustomButton>
+                    </div>
+                </div>
+
+                <ChartContainer config={chartConfig} className="h-[180px] w-full aspect-auto">
+                    <LineChart data={preview.curve} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                            dataKey="similarity"
+                            type="number"
+                            domain={[0, 1]}
+                            tickFormatter={(value) => `${Math.round(value * 100)}%`}
+                        />
+                        <YAxis domain={[0, 1]} width={36} tickFormatter={(value) => `${Math.round(value * 100)}%`} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ReferenceLine x={threshold} strokeDasharray="4 4" />
+                        <Line type="monotone" dataKey="probability" stroke="var(--color-probability)" dot={false} strokeWidth={2} />
+                    </LineChart>
+                </ChartContainer>
+            </div>
+        </div>
+    );
+};
+
+export default LshSettingsPanel;
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserMinus, Mail, XCircle, AlertCircle, Crown } from 'lucide-react';
+import CustomButton from './ui/CustomButton';
+import GlassmorphismCard from './ui/GlassmorphismCard';
+import { useToast } from '@/hooks/use-toast';
+import axios from 'axios';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ClassroomRole, ROLE_LABELS } from '@/lib/classroomRoles';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+type StaffRole = Exclude<ClassroomRole, 'owner'>;
+
+interface StaffMember {
+    userId: string;
+    name: string;
+    email: string;
+    role: StaffRole;
+}
+
+interface StaffInvite {
+    id: string;
+    email: string;
+    role: StaffRole;
+    expiresAt: string;
+}
+
+interface ManageStaffProps {
+    courseId: string;
+    canManageStaff: boolean;
+    onClose: () => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// Co-teachers and TAs of a classroom. Only the owner (manageStaff) can invite, re-role or remove staff.
+const ManageStaff = ({ courseId, canManageStaff, onClose }: ManageStaffProps) => {
+    const { toast } = useToast();
+    const [owner, setOwner] = useState<{ name: string; email: string } | null>(null);
+    const [staff, setStaff] = useState<StaffMember[]>([]);
+    const [invites, setInvites] = useState<StaffInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<StaffRole>('ta');
+    const [isInviting, setIsInviting] = useState(false);
+
+    const [memberToRemove, setMemberToRemove] = useState<StaffMember | null>(null);
+
+    const fetchStaff = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/courses/staff/${courseId}`, {
+                headers: authHeaders(),
+            });
+            setOwner(response.data.owner);
+            setStaff(response.data.staff);
+            setInvites(response.data.invites);
+        } catch (error) {
+            console.error("Error fetching staff:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to load classroom staff."),
+                variant: "destructive",
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [courseId, toast]);
+
+    useEffect(() => {
+        fetchStaff();
+    }, [fetchStaff]);
+
+    const handleInvite = async () => {
+        if (!inviteEmail.trim()) return;
+
+        setIsInviting(true);
+        try {
+            const response = await axios.post(`${API_BASE_URL}/api/courses/staff/invite`, {
+                classroomId: courseId,
+                email: inviteEmail.trim(),
+                role: inviteRole,
+            }, { headers: authHeaders() });
+
+            toast({ title: "Invitation sent", description: response.data.message });
+            setInviteEmail('');
+            await fetchStaff();
+        } catch (error) {
+            console.error("Error inviting staff:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to send the invitation."),
+                variant: "destructive",
+            });
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/courses/staff/role`, {
+                classroomId: courseId,
+                userId: member.userId,
+                role,
+            }, { headers: authHeaders() });
+
+            toast({ title: "Role updated", description: response.data.message });
+            await fetchStaff();
+        } catch (error) {
+            console.error("Error updating staff role:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to update the role."),
+                variant: "destructive",
+            });
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!memberToRemove) return;
+        try {
+            await axios.post(`${API_BASE_URL}/api/courses/staff/remove`, {
+                classroomId: courseId,
+                userId: memberToRemove.userId,
+            }, { headers: authHeaders() });
+
+            toast({ title: "Staff member removed", description: `${memberToRemove.name} no longer has access to this course.` });
+            await fetchStaff();
+        } catch (error) {
+            console.error("Error removing staff:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to remove the staff member."),
+                variant: "destructive",
+            });
+        } finally {
+            setMemberToRemove(null);
+        }
+    };
+
+    const handleRevokeInvite = async (invite: StaffInvite) => {
+        try {
+            await axios.post(`${API_BASE_URL}/api/courses/staff/revoke-invite`, {
+                classroomId: courseId,
+                inviteId: invite.id,
+            }, { headers: authHeaders() });
+
+            toast({ title: "Invitation cancelled", description: `The invitation to ${invite.email} was cancelled.` });
+            await fetchStaff();
+        } catch (error) {
+            console.error("Error revoking invite:", error);
+            toast({
+                title: "Error",
+                description: errorMessage(error, "Failed to cancel the invitation."),
+                variant: "destructive",
+            });
+        }
+    };
+
+    return (
+        <GlassmorphismCard className="p-6 w-full max-w-xl overflow-y-auto max-h-[90vh]">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold text-white">Course Staff</h2>
+                <button
+                    onClick={onClose}
+                    className="text-muted-foreground hover:text-foreground"
+                >
+                    <XCircle className="h-6 w-6" />
+                </button>
+            </div>
+
+            {canManageStaff && (
+                <form onSubmit={(e) => { e.preventDefault(); handleInvite(); }} className="space-y-4 mb-8 border-b border-border/50 pb-6">
+                    <h3 className="text-lg font-semibold text-white">Invite a Teacher</h3>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input
+                            type="email"
+                            className="flex-grow p-2 border border-border rounded-md bg-background text-foreground"
+                            placeholder="teacher@example.com"
+                            value={inviteEmail}
+                            onChange={(e) => setInviteEmail(e.target.value)}
+                            required
+                        />
+                        <select
+                            className="p-2 border border-border rounded-md bg-background text-foreground"
+                            value={inviteRole}
+                            onChange={(e) => setInviteRole(e.target.value as StaffRole)}
+                        >
+                            <option value="co-teacher">{ROLE_LABELS['co-teacher']}</option>
+                            <option value="ta">{ROLE_LABELS.ta}</option>
+                        </select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Co-teachers can manage assignments and students. Teaching assistants can view submissions, run checks and grade.
+                    </p>
+                    <CustomButton type="submit" loading={isInviting} icon={<Mail className="h-4 w-4" />}>
+                        Send Invitation
+                    </CustomButton>
+                </form>
+            )}
+
+            <div className="mb-8">
+                <h3 className="text-lg font-semibold text-white mb-4">Staff ({staff.length + 1})</h3>
+                {isLoading ? (
+                    <p className="text-white">Loading staff...</p>
+                ) : (
+                    <div className="space-y-3">
+                        {owner && (
+                            <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-md">
+                                <div>
+                                    <p className="font-medium text-white">{owner.name}</p>
+                                    <p className="text-sm text-muted-foreground">{owner.email}</p>
+                                </div>
+                                <span className="flex items-center gap-1 text-sm text-veri">
+                                    <Crown className="h-4 w-4" /> {ROLE_LABELS.owner}
+                                </span>
+                            </div>
+                        )}
+                        {staff.map(member => (
+                            <div key={member.userId} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-secondary/30 rounded-md">
+                                <div className="flex-grow mb-2 sm:mb-0">
+                                    <p className="font-medium text-white">{member.name}</p>
+                                    <p className="text-sm text-muted-foreground">{member.email}</p>
+                                </div>
+                                {canManageStaff ? (
+                                    <div className="flex flex-col sm:flex-row gap-2">
+                                        <select
+                                            className="p-2 text-sm border border-border rounded-md bg-background text-foreground"
+                                            value={member.role}
+                                            onChange={(e) => handleRoleChange(member, e.target.value as StaffRole)}
+                                        >
+                                            <option value="co-teacher">{ROLE_LABELS['co-teacher']}</option>
+                                            <option value="ta">{ROLE_LABELS.ta}</option>
+                                        </select>
+                                        <CustomButton
+                                            variant="destructive"
+                                            size="sm"
+                                            onClick={() => setMemberToRemove(member)}
+                                            icon={<UserMinus className="h-4 w-4" />}
+                                        >
+                                            Remove
+                                        </CustomButton>
+                                    </div>
+                                ) : (
+                                    <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {canManageStaff && (
+                <div>
+                    <h3 className="text-lg font-semibold text-white mb-4">Pending Invitations ({invites.length})</h3>
+                    {invites.length === 0 ? (
+                        <p className="text-muted-foreground">No pending invitations.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {invites.map(invite => (
+                                <div key={invite.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-secondary/30 rounded-md">
+                                    <div className="flex-grow mb-2 sm:mb-0">
+                                        <p className="font-medium text-white">{invite.email}</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {ROLE_LABELS[invite.role]} &middot; expires {new Date(invite.expiresAt).toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    <CustomButton variant="outline" size="sm" onClick={() => handleRevokeInvite(invite)}>
+                                        Cancel Invitation
+                                    </CustomButton>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <AlertDialog open={!!memberToRemove} onOpenChange={(open) => { if (!open) setMemberToRemove(null); }}>
+                <AlertDialogContent className="bg-background text-foreground rounded-lg shadow-xl p-6">
+                    <AlertDialogHeader className="flex flex-col items-center text-center">
+                        <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+                        <AlertDialogTitle className="text-2xl font-bold">Remove {memberToRemove?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-muted-foreground mt-2">
+                            {memberToRemove?.name} will lose access to this course, its assignments and submissions.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter className="flex flex-col sm:flex-row sm:justify-center gap-3 mt-6">
+                        <AlertDialogCancel asChild>
+                            <CustomButton variant="outline" className="w-full sm:w-auto">Cancel</CustomButton>
+                        </AlertDialogCancel>
+                        <AlertDialogAction asChild>
+                            <CustomButton variant="destructive" onClick={handleRemove} className="w-full sm:w-auto">
+                                Yes, Remove
+                            </CustomButton>
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </GlassmorphismCard>
+    );
+};
+
+export default ManageStaff;
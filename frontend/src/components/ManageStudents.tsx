@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { UserMinus, UserPlus, Ban, UserCheck, XCircle, AlertCircle } from 'lucide-react'; // Added AlertCircle for dialog icon
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { UserMinus, UserPlus, Ban, UserCheck, XCircle, AlertCircle, Upload, Download, Mail, Check } from 'lucide-react'; // Added AlertCircle for dialog icon
 import CustomButton from './ui/CustomButton';
 import GlassmorphismCard from './ui/GlassmorphismCard';
 import { useToast } from '@/hooks/use-toast';
@@ -14,6 +14,8 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog"; // Import Shadcn AlertDialog components
+import { downloadBlob, fileNameFromDisposition } from '@/lib/download';
+import ClassCodeSettings from './ClassCodeSettings';
 
 // Define the API base URL from your environment variables
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -23,8 +25,49 @@ interface Student {
     name: string;      // For blocked, this will default to email if backend doesn't send name
     email: string;
     status: 'active' | 'blocked';
+    studentNumber?: string | null;
 }
 
+// Invitation created by a roster import for an email without an account
+interface PendingInvite {
+    id: string;
+    name: string | null;
+    email: string;
+    studentNumber: string | null;
+    expiresAt: string;
+}
+
+// Student who asked to join with the class code while approval is required
+interface JoinRequest {
+    studentId: string;
+    name: string;
+    email: string;
+    requestedAt: string;
+}
+
+type RosterRowStatus = 'added' | 'already-enrolled' | 'blocked' | 'invited' | 'invalid' | 'duplicate' | 'not-a-student';
+
+interface RosterRowResult {
+    row: number;
+    name: string;
+    email: string;
+    status: RosterRowStatus;
+    message: string;
+}
+
+const ROSTER_STATUS_STYLES: Record<RosterRowStatus, string> = {
+    'added': 'text-green-400',
+    'already-enrolled': 'text-muted-foreground',
+    'invited': 'text-blue-400',
+    'blocked': 'text-red-400',
+    'invalid': 'text-red-400',
+    'duplicate': 'text-amber-400',
+    'not-a-student': 'text-amber-400',
+};
+
+const importErrorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
 // Interface to match the structure of blocked students received from your backend
 interface BlockedStudentBackend {
     userId: string;
@@ -48,6 +91,15 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
     const [blockedStudents, setBlockedStudents] = useState<Student[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isAddingStudent, setIsAddingStudent] = useState(false);
+    const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
+    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+
+    // Roster import/export
+    const rosterInputRef = useRef<HTMLInputElement>(null);
+    const [rosterFile, setRosterFile] = useState<File | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [importResults, setImportResults] = useState<RosterRowResult[] | null>(null);
 
     // State for the custom confirmation dialog
     const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -81,6 +133,7 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
                 name: s.name,
                 email: s.email,
                 status: 'active',
+                studentNumber: s.studentNumber,
             }));
 
             const mappedBlockedStudents: Student[] = fetchedBlockedStudents.map((s: BlockedStudentBackend) => ({
@@ -92,6 +145,8 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
 
             setActiveStudents(mappedActiveStudents);
             setBlockedStudents(mappedBlockedStudents);
+            setPendingInvites(response.data.pendingInvites || []);
+            setJoinRequests(response.data.pendingJoins || []);
 
         } catch (error: any) {
             console.error("Error fetching students:", error);
@@ -155,6 +210,103 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
         }
     };
 
+    const handleImportRoster = async () => {
+        if (!rosterFile) return;
+
+        setIsImporting(true);
+        try {
+            const formData = new FormData();
+            formData.append('classroomId', courseId);
+            formData.append('roster', rosterFile);
+
+            const response = await axios.post(`${API_BASE_URL}/api/courses/roster/import`, formData, {
+                headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+            });
+
+            const { summary, results } = response.data;
+            setImportResults(results);
+            toast({
+                title: "Roster imported",
+                description: `${summary.added || 0} added, ${summary.invited || 0} invited, ${results.length - (summary.added || 0) - (summary.invited || 0)} skipped.`,
+            });
+
+            setRosterFile(null);
+            if (rosterInputRef.current) rosterInputRef.current.value = '';
+            await fetchStudents();
+            if (onStudentsUpdated) {
+                await onStudentsUpdated();
+            }
+        } catch (error) {
+            console.error("Error importing roster:", error);
+            toast({
+                title: "Error",
+                description: importErrorMessage(error, "Failed to import the roster."),
+                variant: "destructive",
+            });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleExportRoster = async () => {
+        setIsExporting(true);
+        try {
+            const response = await axios.get(`${API_BASE_URL}/api/courses/roster/export/${courseId}`, {
+                headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+                responseType: 'blob',
+            });
+            downloadBlob(response.data, fileNameFromDisposition(response.headers['content-disposition'], 'roster.csv'));
+        } catch (error) {
+            console.error("Error exporting roster:", error);
+            toast({ title: "Error", description: "Failed to export the roster.", variant: "destructive" });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleRevokeInvite = async (invite: PendingInvite) => {
+        try {
+            await axios.post(`${API_BASE_URL}/api/courses/roster/revoke-invite`, {
+                classroomId: courseId,
+                inviteId: invite.id,
+            }, {
+                headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+            });
+            toast({ title: "Invitation cancelled", description: `The invitation to ${invite.email} was cancelled.` });
+            await fetchStudents();
+        } catch (error) {
+            console.error("Error cancelling invitation:", error);
+            toast({
+                title: "Error",
+                description: importErrorMessage(error, "Failed to cancel the invitation."),
+                variant: "destructive",
+            });
+        }
+    };
+
+    const handleJoinRequest = async (request: JoinRequest, decision: 'approve' | 'reject') => {
+        try {
+            const response = await axios.post(`${API_BASE_URL}/api/courses/join-requests/${decision}`, {
+                classroomId: courseId,
+                studentId: request.studentId,
+            }, {
+                headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+            });
+            toast({ title: decision === 'approve' ? "Request approved" : "Request declined", description: response.data.message });
+            await fetchStudents();
+            if (decision === 'approve' && onStudentsUpdated) {
+                await onStudentsUpdated();
+            }
+        } catch (error) {
+            console.error(`Error during join request ${decision}:`, error);
+            toast({
+                title: "Error",
+                description: importErrorMessage(error, "Failed to update the join request."),
+                variant: "destructive",
+            });
+        }
+    };
+
     // --- Confirmation Dialog Handlers ---
     const confirmActionHandler = (action: ConfirmationAction, student: Student) => {
         setConfirmAction(action);
@@ -290,6 +442,45 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
                 </button>
             </div>
 
+            <div className="space-y-4 mb-8 border-b border-border/50 pb-6">
+                <h3 className="text-lg font-semibold text-white">Class Code</h3>
+                <ClassCodeSettings courseId={courseId} />
+            </div>
+
+            {joinRequests.length > 0 && (
+                <div className="mb-8 border-b border-border/50 pb-6">
+                    <h3 className="text-lg font-semibold text-white mb-4">Join Requests ({joinRequests.length})</h3>
+                    <div className="space-y-3">
+                        {joinRequests.map(request => (
+                            <div key={request.studentId} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-secondary/30 rounded-md">
+                                <div className="flex-grow mb-2 sm:mb-0">
+                                    <p className="font-medium text-white">{request.name}</p>
+                                    <p className="text-sm text-muted-foreground">
+                                        {request.email} &middot; requested {new Date(request.requestedAt).toLocaleDateString()}
+                                    </p>
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <CustomButton
+                                        size="sm"
+                                        onClick={() => handleJoinRequest(request, 'approve')}
+                                        icon={<Check className="h-4 w-4" />}
+                                    >
+                                        Approve
+                                    </CustomButton>
+                                    <CustomButton
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleJoinRequest(request, 'reject')}
+                                    >
+                                        Decline
+                                    </CustomButton>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <form onSubmit={(e) => { e.preventDefault(); handleAddStudent(); }} className="space-y-4 mb-8 border-b border-border/50 pb-6">
                 <h3 className="text-lg font-semibold text-white">Add Existing Student</h3>
                 <div>
@@ -309,6 +500,64 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
                 </CustomButton>
             </form>
 
+            <div className="space-y-4 mb-8 border-b border-border/50 pb-6">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-white">Import Roster</h3>
+                    <CustomButton
+                        variant="outline"
+                        size="sm"
+                        onClick={handleExportRoster}
+                        loading={isExporting}
+                        icon={<Download className="h-4 w-4" />}
+                    >
+                        Export CSV
+                    </CustomButton>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    Upload a CSV with name, email and an optional student number. Students without an account are emailed an invitation.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                        ref={rosterInputRef}
+                        type="file"
+                        accept=".csv,text/csv"
+                        className="flex-grow text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-foreground"
+                        onChange={(e) => setRosterFile(e.target.files?.[0] || null)}
+                    />
+                    <CustomButton
+                        onClick={handleImportRoster}
+                        loading={isImporting}
+                        disabled={!rosterFile || isImporting}
+                        icon={<Upload className="h-4 w-4" />}
+                    >
+                        Import
+                    </CustomButton>
+                </div>
+
+                {importResults && (
+                    <div className="max-h-60 overflow-y-auto rounded-md border border-border/50">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-muted/50 text-xs uppercase text-muted-foreground">
+                                <tr>
+                                    <th className="px-3 py-2 text-left">Row</th>
+                                    <th className="px-3 py-2 text-left">Email</th>
+                                    <th className="px-3 py-2 text-left">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border/50">
+                                {importResults.map(result => (
+                                    <tr key={result.row}>
+                                        <td className="px-3 py-2 text-muted-foreground">{result.row}</td>
+                                        <td className="px-3 py-2 text-white">{result.email || '—'}</td>
+                                        <td className={`px-3 py-2 ${ROSTER_STATUS_STYLES[result.status]}`}>{result.message}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
             <div className="mb-8">
                 <h3 className="text-lg font-semibold text-white mb-4">Active Students ({activeStudents.length})</h3>
                 {isLoading ? (
@@ -321,7 +570,9 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
                             <div key={student.studentId} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-secondary/30 rounded-md">
                                 <div className="flex-grow mb-2 sm:mb-0">
                                     <p className="font-medium text-white">{student.name}</p>
-                                    <p className="text-sm text-muted-foreground">{student.email}</p>
+                                    <p className="text-sm text-muted-foreground">
+                                        {student.email}{student.studentNumber && ` · #${student.studentNumber}`}
+                                    </p>
                                 </div>
                                 <div className="flex flex-col sm:flex-row gap-2">
                                     <CustomButton
@@ -375,6 +626,29 @@ const ManageStudents = ({ courseId, onClose, onStudentsUpdated }: ManageStudents
                 )}
             </div>
 
+            {pendingInvites.length > 0 && (
+                <div className="mt-8">
+                    <h3 className="text-lg font-semibold text-white mb-4">Pending Invitations ({pendingInvites.length})</h3>
+                    <div className="space-y-3">
+                        {pendingInvites.map(invite => (
+                            <div key={invite.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-secondary/30 rounded-md">
+                                <div className="flex-grow mb-2 sm:mb-0">
+                                    <p className="font-medium text-white flex items-center gap-2">
+                                        <Mail className="h-4 w-4 text-muted-foreground" /> {invite.name || invite.email}
+                                    </p>
+                                    <p className="text-sm text-muted-foreground">
+                                        {invite.email} · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                                    </p>
+                                </div>
+                                <CustomButton variant="outline" size="sm" onClick={() => handleRevokeInvite(invite)}>
+                                    Cancel Invitation
+                                </CustomButton>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Custom Confirmation AlertDialog */}
             <AlertDialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
                 <AlertDialogContent className="bg-background text-foreground rounded-lg shadow-xl p-6">
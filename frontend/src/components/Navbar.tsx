@@ -37,13 +37,24 @@ const Navbar = () => {
     if (user?.role === 'teacher') {
       return [
         { name: 'Home', path: '/' },
+        { name: 'Dashboard', path: '/dashboard' },
         { name: 'Classroom', path: '/classroom' },
         { name: 'Upload & Check', path: '/upload-check' },
+        { name: 'Reference Library', path: '/reference-library' },
         { name: 'Online Check', path: '/online-check' },
         { name: 'Contact Us', path: '/contact' }
       ];
     }
     
+    // Items for admins
+    if (user?.role === 'admin') {
+      return [
+        { name: 'Home', path: '/' },
+        { name: 'Admin', path: '/admin' },
+        { name: 'Contact Us', path: '/contact' }
+      ];
+    }
+    
     // Items for students
     return [
       { name: 'Home', path: '/' },
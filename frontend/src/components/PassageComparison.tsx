@@ -0,0 +1,134 @@
+import React, { useRef } from 'react';
+
+// ---------------------- Interfaces ----------------------
+
+// Passage shared by two submissions, as character offsets (end exclusive) into both texts
+export interface MatchedPassage {
+    sourceStart: number;
+    sourceEnd: number;
+    matchedStart: number;
+    matchedEnd: number;
+    wordCount: number;
+}
+
+interface PassageComparisonProps {
+    sourceText: string;
+    matchedText: string;
+    passages: MatchedPassage[];
+    sourceLabel: string;
+    matchedLabel: string;
+}
+
+// Highlight colors cycled per passage so each pair is easy to tell apart
+const PASSAGE_COLORS = [
+    'bg-red-200 dark:bg-red-800/50',
+    'bg-amber-200 dark:bg-amber-800/50',
+    'bg-sky-200 dark:bg-sky-800/50',
+    'bg-lime-200 dark:bg-lime-800/50',
+    'bg-fuchsia-200 dark:bg-fuchsia-800/50',
+    'bg-teal-200 dark:bg-teal-800/50',
+];
+
+const getPassageColor = (index: number) => PASSAGE_COLORS[index % PASSAGE_COLORS.length];
+
+type Side = 'source' | 'matched';
+
+// ---------------------- Main Component ----------------------
+
+const PassageComparison: React.FC<PassageComparisonProps> = ({
+    sourceText,
+    matchedText,
+    passages,
+    sourceLabel,
+    matchedLabel,
+}) => {
+    const sourcePaneRef = useRef<HTMLDivElement>(null);
+    const matchedPaneRef = useRef<HTMLDivElement>(null);
+
+    // Scrolls the opposite pane to the counterpart of a clicked passage and flashes it
+    const jumpToCounterpart = (index: number, from: Side) => {
+        const targetPane = from === 'source' ? matchedPaneRef.current : sourcePaneRef.current;
+        const target = targetPane?.querySelector<HTMLElement>(`[data-passage="${index}"]`);
+        if (!targetPane || !target) return;
+
+        targetPane.scrollTo({
+            top: target.offsetTop - targetPane.clientHeight / 3,
+            behavior: 'smooth',
+        });
+        target.classList.add('ring-2', 'ring-primary');
+        setTimeout(() => target.classList.remove('ring-2', 'ring-primary'), 1200);
+    };
+
+    // Splits one side's text into plain and highlighted segments using that side's offsets
+    const renderSide = (text: string, side: Side) => {
+        const ranges = passages
+            .map((p, index) => ({
+                index,
+                start: side === 'source' ? p.sourceStart : p.matchedStart,
+                end: side === 'source' ? p.sourceEnd : p.matchedEnd,
+            }))
+            .sort((a, b) => a.start - b.start);
+
+        const segments: (string | JSX.Element)[] = [];
+        let cursor = 0;
+
+        ranges.forEach(({ index, start, end }) => {
+            if (end <= cursor) return; // Overlaps an earlier passage on this side
+            const from = Math.max(start, cursor);
+            if (from > cursor) {
+                segments.push(text.substring(cursor, from));
+            }
+            segments.push(
+                <mark
+                    key={`${side}-${index}`}
+                    data-passage={index}
+                    title={`Passage ${index + 1} (${passages[index].wordCount} words) — click to jump`}
+                    onClick={() => jumpToCounterpart(index, side)}
+                    className={`${getPassageColor(index)} rounded px-0.5 cursor-pointer text-foreground transition-shadow`}
+                >
+                    {text.substring(from, end)}
+                </mark>
+            );
+            cursor = end;
+        });
+
+        if (cursor < text.length) {
+            segments.push(text.substring(cursor));
+        }
+        return segments;
+    };
+
+    if (passages.length === 0) {
+        return <p className="text-muted-foreground">No aligned passages were found for this match.</p>;
+    }
+
+    return (
+        <div>
+            <p className="text-xs text-muted-foreground mb-2">
+                {passages.length} matching passage{passages.length === 1 ? '' : 's'}. Click a highlighted passage to jump to its counterpart.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                    <p className="font-medium text-xs mb-1 truncate">{sourceLabel}</p>
+                    <div
+                        ref={sourcePaneRef}
+                        className="relative bg-muted/30 p-3 rounded-lg border border-border text-xs whitespace-pre-wrap max-h-[320px] overflow-y-auto"
+                    >
+                        {renderSide(sourceText, 'source')}
+                    </div>
+                </div>
+                <div>
+                    <p className="font-medium text-xs mb-1 truncate">{matchedLabel}</p>
+                    <div
+                        ref={matchedPaneRef}
+                        className="relative bg-muted/30 p-3 rounded-lg border border-border text-xs whitespace-pre-wrap max-h-[320px] overflow-y-auto"
+                    >
+                        {renderSide(matchedText, 'matched')}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PassageComparison;
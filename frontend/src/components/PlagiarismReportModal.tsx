@@ -1,28 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import {
-    X, Download, Copy, ExternalLink, AlertCircle, BarChart, FileText, ListChecks, Save
+    X, Download, Copy, ExternalLink, AlertCircle, BarChart, FileText, ListChecks, Save, Columns
 } from 'lucide-react';
 import CustomButton from '@/components/ui/CustomButton';
+import PassageComparison, { MatchedPassage } from '@/components/PassageComparison';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import axios from 'axios';
+import { Annotation } from '@/lib/annotations';
 
 // Base API URL from environment variables
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
 // ---------------------- Interfaces ----------------------
 
+// Where a match was found: this assignment, the teacher's prior-submissions corpus or reference library
+interface MatchSource {
+    sourceType?: 'classmate' | 'corpus' | 'reference';
+    corpusEntryId?: string | null;
+    referenceDocumentId?: string | null;
+    sourceAssignmentTitle?: string | null;
+    sourceClassroomName?: string | null;
+    sourceTerm?: string | null;
+}
+
 // Represents a top match detail between students
-interface MatchDetail {
+interface MatchDetail extends MatchSource {
     matchedStudentId: string;
     matchedText: string;
     plagiarismPercent: number;
+    passages?: MatchedPassage[];
+    matchedFullText?: string | null; // Full text of the matched submission, for side-by-side view
     name?: string;
     email?: string;
 }
 
 // Represents a row entry in the "all matches" table
-interface AllMatchEntry {
+interface AllMatchEntry extends MatchSource {
     matchedStudentId: string;
     plagiarismPercent: number;
     name?: string;
@@ -43,6 +58,7 @@ interface StudentReportData {
     topMatches: MatchDetail[];
     allMatches: AllMatchEntry[];
     teacherRemark: string;
+    annotations: Annotation[];
     assignmentId: string;
 }
 
@@ -55,8 +71,31 @@ interface PlagiarismReportModalProps {
     onDownloadReport: () => void;
     isGeneratingPdf: boolean;
     onRemarkUpdated: (studentId: string, newRemark: string) => void;
+    canAnnotate: boolean;
+    onAnnotationsChange: (studentId: string, annotations: Annotation[]) => void;
 }
 
+// Describes where a match was submitted, e.g. "Essay 1 · Fall 2024"
+const getSourceLabel = (match: MatchSource) => {
+    if (match.sourceType === 'reference') return 'Reference library';
+    if (match.sourceType !== 'corpus') return 'This assignment';
+    return [match.sourceAssignmentTitle || 'Prior assignment', match.sourceTerm || match.sourceClassroomName]
+        .filter(Boolean)
+        .join(' · ');
+};
+
+// Corpus and reference matches point at documents outside this assignment;
+// returns the id and endpoint their full text is loaded from
+const getExternalSource = (match: MatchSource) => {
+    if (match.sourceType === 'corpus' && match.corpusEntryId) {
+        return { id: match.corpusEntryId, url: `${API_BASE_URL}/api/corpus/entry/${match.corpusEntryId}` };
+    }
+    if (match.sourceType === 'reference' && match.referenceDocumentId) {
+        return { id: match.referenceDocumentId, url: `${API_BASE_URL}/api/reference-library/${match.referenceDocumentId}` };
+    }
+    return null;
+};
+
 // ---------------------- Main Component ----------------------
 
 const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
@@ -67,18 +106,51 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
     onDownloadReport,
     isGeneratingPdf,
     onRemarkUpdated,
+    canAnnotate,
+    onAnnotationsChange,
 }) => {
     const { toast } = useToast();
 
     // Local state for teacher's remark and loading state
     const [currentRemark, setCurrentRemark] = useState(student.teacherRemark || 'No remarks');
     const [isSavingRemark, setIsSavingRemark] = useState(false);
+    const [selectedMatchIndex, setSelectedMatchIndex] = useState(0);
+    const [externalTexts, setExternalTexts] = useState<Record<string, string>>({});
+    const [textView, setTextView] = useState<'matches' | 'annotations'>('matches');
 
     // Update remark state when prop changes (e.g., on parent re-fetch)
     useEffect(() => {
         setCurrentRemark(student.teacherRemark || 'No remarks');
     }, [student.teacherRemark]);
 
+    // Loads the full text of corpus and reference matches for the side-by-side view
+    useEffect(() => {
+        const sources = student.topMatches
+            .filter(m => !m.matchedFullText)
+            .map(getExternalSource)
+            .filter((source): source is { id: string; url: string } => source !== null);
+        if (sources.length === 0) return;
+
+        const token = localStorage.getItem('token');
+        Promise.all(sources.map(({ id, url }) =>
+            axios.get(url, { headers: { Authorization: `Bearer ${token}` } })
+                .then(response => [id, response.data.extractedText as string] as const)
+                .catch(() => null)
+        )).then(results => {
+            const loaded: Record<string, string> = {};
+            results.forEach(result => { if (result) loaded[result[0]] = result[1]; });
+            setExternalTexts(loaded);
+        });
+    }, [student.topMatches]);
+
+    const topMatches = student.topMatches.map(match => {
+        const source = getExternalSource(match);
+        return {
+            ...match,
+            matchedFullText: match.matchedFullText ?? (source ? externalTexts[source.id] : null) ?? null,
+        };
+    });
+
     // Copies extracted text to clipboard
     const handleCopyText = (text: string | null) => {
         if (text) {
@@ -120,49 +192,39 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
         return 'text-red-600';
     };
 
-    // Highlights matched text segments inside the original submission
+    // Highlights the aligned passages of every top match inside the original submission
     const renderHighlightedText = (originalText: string, matches: MatchDetail[]) => {
-        if (!originalText || matches.length === 0) return originalText;
-
-        let segments: (string | JSX.Element)[] = [originalText];
-
-        matches.forEach(match => {
-            const matchLower = match.matchedText.toLowerCase();
-            const newSegments: (string | JSX.Element)[] = [];
-
-            segments.forEach(segment => {
-                if (typeof segment === 'string') {
-                    let lastIndex = 0;
-                    let matchStartIndex;
-                    const segmentLower = segment.toLowerCase();
-
-                    while ((matchStartIndex = segmentLower.indexOf(matchLower, lastIndex)) !== -1) {
-                        const matchEndIndex = matchStartIndex + match.matchedText.length;
-                        if (matchStartIndex > lastIndex) {
-                            newSegments.push(segment.substring(lastIndex, matchStartIndex));
-                        }
-                        newSegments.push(
-                            <mark
-                                key={`${match.matchedStudentId}-${matchStartIndex}`}
-                                title={`Matched with: ${match.name || 'Unknown'} (${match.plagiarismPercent}%)`}
-                                className="bg-red-300 dark:bg-red-700/50 rounded px-0.5"
-                            >
-                                {segment.substring(matchStartIndex, matchEndIndex)}
-                            </mark>
-                        );
-                        lastIndex = matchEndIndex;
-                    }
-                    if (lastIndex < segment.length) {
-                        newSegments.push(segment.substring(lastIndex));
-                    }
-                } else {
-                    newSegments.push(segment);
-                }
-            });
+        const ranges = matches
+            .flatMap(match => (match.passages || []).map(p => ({ match, start: p.sourceStart, end: p.sourceEnd })))
+            .sort((a, b) => a.start - b.start);
+
+        if (!originalText || ranges.length === 0) return originalText;
 
-            segments = newSegments;
+        const segments: (string | JSX.Element)[] = [];
+        let cursor = 0;
+
+        ranges.forEach(({ match, start, end }) => {
+            if (end <= cursor) return; // Already highlighted through another match
+            const from = Math.max(start, cursor);
+            if (from > cursor) {
+                segments.push(originalText.substring(cursor, from));
+            }
+            segments.push(
+                <mark
+                    key={`${match.matchedStudentId}-${from}`}
+                    title={`Matched with: ${match.name || 'Unknown'} (${match.plagiarismPercent}%)`}
+                    className="bg-red-300 dark:bg-red-700/50 rounded px-0.5"
+                >
+                    {originalText.substring(from, end)}
+                </mark>
+            );
+            cursor = end;
         });
 
+        if (cursor < originalText.length) {
+            segments.push(originalText.substring(cursor));
+        }
+
         return <>{segments}</>;
     };
 
@@ -308,6 +370,9 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
                                         <div className="flex justify-between mb-1">
                                             <span className="font-medium">
                                                 Match with: {match.name || 'Unknown'} ({match.email || 'N/A'})
+                                                <span className="block text-xs font-normal text-muted-foreground">
+                                                    Submitted in: {getSourceLabel(match)}
+                                                </span>
                                             </span>
                                             <span className={`font-bold ${getPlagiarismScoreColor(match.plagiarismPercent)}`}>
                                                 {match.plagiarismPercent}%
@@ -324,12 +389,66 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
                         )}
                     </div>
 
+                    {/* Side-by-side Matched Passages */}
+                    {student.extractedText && topMatches.some(m => m.matchedFullText && (m.passages || []).length > 0) && (
+                        <div className="mb-6">
+                            <h3 className="font-semibold text-lg mb-3 flex items-center">
+                                <Columns className="h-5 w-5 mr-2 text-primary" /> Matched Passages
+                            </h3>
+                            <div className="flex flex-wrap gap-2 mb-3">
+                                {topMatches.map((match, idx) => (
+                                    <CustomButton
+                                        key={idx}
+                                        size="sm"
+                                        variant={idx === selectedMatchIndex ? 'primary' : 'outline'}
+                                        onClick={() => setSelectedMatchIndex(idx)}
+                                        disabled={!match.matchedFullText}
+                                    >
+                                        {match.name || 'Unknown'} ({match.plagiarismPercent}%)
+                                    </CustomButton>
+                                ))}
+                            </div>
+                            {topMatches[selectedMatchIndex]?.matchedFullText ? (
+                                <PassageComparison
+                                    sourceText={student.extractedText}
+                                    matchedText={topMatches[selectedMatchIndex].matchedFullText}
+                                    passages={topMatches[selectedMatchIndex].passages || []}
+                                    sourceLabel={`${student.name} — ${student.documentName || 'Submission'}`}
+                                    matchedLabel={`${topMatches[selectedMatchIndex].name || 'Matched submission'} — ${getSourceLabel(topMatches[selectedMatchIndex])}`}
+                                />
+                            ) : (
+                                <p className="text-muted-foreground">The matched submission's text is not available.</p>
+                            )}
+                        </div>
+                    )}
+
                     {/* Extracted Submitted Text */}
                     <div className="mb-6">
-                        <h3 className="font-semibold text-lg mb-3 flex items-center">
-                            <FileText className="h-5 w-5 mr-2 text-primary" /> Submitted Text
-                        </h3>
-                        {student.extractedText ? (
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="font-semibold text-lg flex items-center">
+                                <FileText className="h-5 w-5 mr-2 text-primary" /> Submitted Text
+                            </h3>
+                            {student.extractedText && (
+                                <div className="flex gap-2">
+                                    <CustomButton size="sm" variant={textView === 'matches' ? 'primary' : 'outline'} onClick={() => setTextView('matches')}>
+                                        Matches
+                                    </CustomButton>
+                                    <CustomButton size="sm" variant={textView === 'annotations' ? 'primary' : 'outline'} onClick={() => setTextView('annotations')}>
+                                        Annotations ({student.annotations.length})
+                                    </CustomButton>
+                                </div>
+                            )}
+                        </div>
+                        {student.extractedText && textView === 'annotations' ? (
+                            <AnnotationsPanel
+                                assignmentId={student.assignmentId}
+                                studentUserId={student.studentUserId}
+                                text={student.extractedText}
+                                annotations={student.annotations}
+                                canAnnotate={canAnnotate}
+                                onChange={(annotations) => onAnnotationsChange(student.studentUserId, annotations)}
+                            />
+                        ) : student.extractedText ? (
                             <div className="relative bg-muted/30 p-4 rounded-lg border border-border">
                                 <div className="absolute top-2 right-2">
                                     <CustomButton variant="ghost" size="icon" onClick={() => handleCopyText(student.extractedText)}>
@@ -357,6 +476,7 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
                                         <tr>
                                             <th className="px-4 py-3">Student Name</th>
                                             <th className="px-4 py-3">Student Email</th>
+                                            <th className="px-4 py-3">Submitted In</th>
                                             <th className="px-4 py-3 text-right">Plagiarism %</th>
                                         </tr>
                                     </thead>
@@ -365,6 +485,7 @@ const PlagiarismReportModal: React.FC<PlagiarismReportModalProps> = ({
                                             <tr key={idx} className="bg-card border-b border-border hover:bg-muted/30">
                                                 <td className="px-4 py-3">{match.name || 'Unknown Student'}</td>
                                                 <td className="px-4 py-3 text-muted-foreground">{match.email || 'N/A'}</td>
+                                                <td className="px-4 py-3 text-muted-foreground">{getSourceLabel(match)}</td>
                                                 <td className={`px-4 py-3 text-right font-bold ${getPlagiarismScoreColor(match.plagiarismPercent)}`}>
                                                     {match.plagiarismPercent}%
                                                 </td>
@@ -1,10 +1,11 @@
 
 import { Navigate, useLocation } from 'react-router-dom';
-import { useAuth } from '@/context/AuthContext';
+import { useAuth, UserRole } from '@/context/AuthContext';
+import { homePathFor } from '@/lib/homePath';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'teacher' | 'student' | null;
+  requiredRole?: UserRole | null;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
@@ -21,8 +22,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 
   if (requiredRole && user?.role !== requiredRole) {
     // Redirect to appropriate dashboard if role doesn't match
-    const redirectPath = user?.role === 'teacher' ? '/classroom' : '/student-dashboard';
-    return <Navigate to={redirectPath} replace />;
+    return <Navigate to={homePathFor(user?.role)} replace />;
   }
 
   return <>{children}</>;
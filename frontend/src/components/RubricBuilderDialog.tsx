@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Save, X } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Rubric, formatMarks } from '@/lib/grading';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface RubricBuilderDialogProps {
+    rubric: Rubric | 'new' | null; // null keeps the dialog closed
+    onClose: () => void;
+    onSaved: (rubric: Rubric) => void;
+}
+
+interface LevelDraft {
+    label: string;
+    points: string;
+    descriptor: string;
+}
+
+interface CriterionDraft {
+    name: string;
+    description: string;
+    levels: LevelDraft[];
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+const newCriterion = (): CriterionDraft => ({
+    name: '',
+    description: '',
+    levels: [
+        { label: 'Excellent', points: '4', descriptor: '' },
+        { label: 'Good', points: '3', descriptor: '' },
+        { label: 'Fair', points: '2', descriptor: '' },
+        { label: 'Poor', points: '1', descriptor: '' },
+    ],
+});
+
+// Create or edit a rubric in the teacher's library. Assignments keep the copy they were
+// given when the rubric was attached, so edits here only affect later attachments.
+const RubricBuilderDialog: React.FC<RubricBuilderDialogProps> = ({ rubric, onClose, onSaved }) => {
+    const { toast } = useToast();
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [criteria, setCriteria] = useState<CriterionDraft[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!rubric) return;
+        if (rubric === 'new') {
+            setName('');
+            setDescription('');
+            setCriteria([newCriterion()]);
+            return;
+        }
+        setName(rubric.name);
+        setDescription(rubric.description);
+        setCriteria(rubric.criteria.map(c => ({
+            name: c.name,
+            description: c.description,
+            levels: c.levels.map(l => ({ label: l.label, points: l.points.toString(), descriptor: l.descriptor })),
+        })));
+    }, [rubric]);
+
+    const maxPoints = criteria.reduce((sum, c) => sum + Math.max(0, ...c.levels.map(l => Number(l.points) || 0)), 0);
+
+    const updateCriterion = (index: number, changes: Partial<CriterionDraft>) =>
+        setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+
+    const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<LevelDraft>) =>
+        updateCriterion(criterionIndex, {
+            levels: criteria[criterionIndex].levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)),
+        });
+
+    const handleSave = async () => {
+        if (!rubric) return;
+        const body = {
+            name: name.trim(),
+            description: description.trim(),
+            criteria: criteria.map(c => ({
+                name: c.name.trim(),
+                description: c.description.trim(),
+                levels: c.levels.map(l => ({ label: l.label.trim(), points: Number(l.points), descriptor: l.descriptor.trim() })),
+            })),
+        };
+
+        setIsSaving(true);
+        try {
+            const response = rubric === 'new'
+                ? await axios.post(`${API_BASE_URL}/api/rubrics`, body, { headers: authHeaders() })
+                : await axios.put(`${API_BASE_URL}/api/rubrics/${rubric.id}`, body, { headers: authHeaders() });
+            onSaved(response.data.rubric);
+            toast({ title: "Rubric Saved", description: `"${response.data.rubric.name}" is in your rubric library.`, variant: "success" });
+            onClose();
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to save the rubric."), variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!rubric} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{rubric === 'new' ? 'New Rubric' : 'Edit Rubric'}</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4 text-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <Input placeholder="Rubric name" value={name} onChange={(e) => setName(e.target.value)} />
+                        <Input placeholder="Description (optional)" value={description} onChange={(e) => setDescription(e.target.value)} />
+                    </div>
+
+                    {criteria.map((criterion, criterionIndex) => (
+                        <div key={criterionIndex} className="border border-border rounded-md p-3 space-y-2">
+                            <div className="flex gap-2 items-start">
+                                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    <Input placeholder="Criterion" value={criterion.name} onChange={(e) => updateCriterion(criterionIndex, { name: e.target.value })} />
+                                    <Input placeholder="What it assesses (optional)" value={criterion.description} onChange={(e) => updateCriterion(criterionIndex, { description: e.target.value })} />
+                                </div>
+                                <button type="button" title="Remove criterion" className="p-2 text-muted-foreground hover:text-red-500" onClick={() => setCriteria(criteria.filter((_, i) => i !== criterionIndex))}>
+                                    <X className="h-4 w-4" />
+                                </button>
+                            </div>
+                            <ul className="space-y-2 pl-2">
+                                {criterion.levels.map((level, levelIndex) => (
+                                    <li key={levelIndex} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_4fr_auto] gap-2 items-start">
+                                        <Input placeholder="Level" value={level.label} onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })} />
+                                        <Input type="number" min={0} placeholder="Points" value={level.points} onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: e.target.value })} />
+                                        <Input placeholder="Descriptor (what this level looks like)" value={level.descriptor} onChange={(e) => updateLevel(criterionIndex, levelIndex, { descriptor: e.target.value })} />
+                                        <button
+                                            type="button"
+                                            title="Remove level"
+                                            className="p-2 text-muted-foreground hover:text-red-500"
+                                            onClick={() => updateCriterion(criterionIndex, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <button
+                                type="button"
+                                className="text-xs text-primary hover:underline"
+                                onClick={() => updateCriterion(criterionIndex, { levels: [...criterion.levels, { label: '', points: '', descriptor: '' }] })}
+                            >
+                                + Add level
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className="flex items-center justify-between">
+                        <CustomButton type="button" variant="outline" size="sm" icon={<Plus className="h-4 w-4" />} onClick={() => setCriteria([...criteria, newCriterion()])}>
+                            Add Criterion
+                        </CustomButton>
+                        <span className="text-xs text-muted-foreground">Total: {formatMarks(maxPoints)} points</span>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <CustomButton variant="outline" onClick={onClose} disabled={isSaving}>Cancel</CustomButton>
+                    <CustomButton icon={<Save className="h-4 w-4" />} loading={isSaving} onClick={handleSave}>Save Rubric</CustomButton>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default RubricBuilderDialog;
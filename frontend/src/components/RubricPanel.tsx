@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, Link2, Pencil, Plus, Trash2, Unlink } from 'lucide-react';
+import axios from 'axios';
+import CustomButton from '@/components/ui/CustomButton';
+import RubricBuilderDialog from '@/components/RubricBuilderDialog';
+import { useToast } from '@/hooks/use-toast';
+import { GradingScheme, Rubric, formatMarks } from '@/lib/grading';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface RubricPanelProps {
+    assignmentId: string;
+    grading: GradingScheme;
+    locked: boolean; // Grades have been entered
+    canManage: boolean; // Attach rubrics and manage the library
+    onSaved: (grading: GradingScheme) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+// The rubric an assignment is graded with, and the teacher's rubric library to attach from
+const RubricPanel: React.FC<RubricPanelProps> = ({ assignmentId, grading, locked, canManage, onSaved }) => {
+    const { toast } = useToast();
+    const [rubrics, setRubrics] = useState<Rubric[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [editing, setEditing] = useState<Rubric | 'new' | null>(null);
+    const [isAttaching, setIsAttaching] = useState(false);
+
+    useEffect(() => {
+        if (!canManage) return;
+        axios.get(`${API_BASE_URL}/api/rubrics`, { headers: authHeaders() })
+            .then(response => setRubrics(response.data.rubrics))
+            .catch(error => console.error("Error fetching rubrics:", error));
+    }, [canManage]);
+
+    const attached = grading.rubric;
+    const selected = rubrics.find(r => r.id === selectedId);
+
+    const handleAttach = async () => {
+        if (!selectedId) return;
+        setIsAttaching(true);
+        try {
+            const response = await axios.put(`${API_BASE_URL}/api/assignment/grading/rubric/${assignmentId}`, { rubricId: selectedId }, { headers: authHeaders() });
+            onSaved(response.data.grading);
+            toast({ title: "Rubric Attached", description: response.data.message, variant: "success" });
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to attach the rubric."), variant: "destructive" });
+        } finally {
+            setIsAttaching(false);
+        }
+    };
+
+    const handleDetach = async () => {
+        setIsAttaching(true);
+        try {
+            const response = await axios.delete(`${API_BASE_URL}/api/assignment/grading/rubric/${assignmentId}`, { headers: authHeaders() });
+            onSaved(response.data.grading);
+            toast({ title: "Rubric Detached", description: response.data.message });
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to detach the rubric."), variant: "destructive" });
+        } finally {
+            setIsAttaching(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete "${selected.name}" from your rubric library?`)) return;
+        try {
+            await axios.delete(`${API_BASE_URL}/api/rubrics/${selected.id}`, { headers: authHeaders() });
+            setRubrics(rubrics.filter(r => r.id !== selected.id));
+            setSelectedId('');
+            toast({ title: "Rubric Deleted", description: "Assignments already using it keep their copy." });
+        } catch (error) {
+            toast({ title: "Error", description: errorMessage(error, "Failed to delete the rubric."), variant: "destructive" });
+        }
+    };
+
+    const handleSaved = (rubric: Rubric) => {
+        const others = rubrics.filter(r => r.id !== rubric.id);
+        setRubrics([...others, rubric].sort((a, b) => a.name.localeCompare(b.name)));
+        setSelectedId(rubric.id);
+    };
+
+    return (
+        <div className="bg-muted/30 p-4 rounded-lg">
+            <h3 className="text-lg font-semibold flex items-center gap-2 mb-1">
+                <ClipboardList className="h-5 w-5 text-primary" /> Rubric
+            </h3>
+            <p className="text-xs text-muted-foreground mb-3">
+                {attached
+                    ? `Graded with "${attached.name}" (${formatMarks(attached.maxPoints)} points). Students see the level and feedback for each criterion once grades are released.`
+                    : 'Attach a rubric to grade by criterion. Its total becomes the maximum marks.'}
+            </p>
+
+            {attached && (
+                <div className="overflow-x-auto mb-3">
+                    <table className="w-full text-sm border-collapse">
+                        <tbody>
+                            {attached.criteria.map(criterion => (
+                                <tr key={criterion.name} className="border-t border-border align-top">
+                                    <td className="py-2 pr-3 font-medium w-1/5">
+                                        {criterion.name}
+                                        {criterion.description && <span className="block text-xs font-normal text-muted-foreground">{criterion.description}</span>}
+                                    </td>
+                                    {criterion.levels.map(level => (
+                                        <td key={level.label} className="py-2 pr-3">
+                                            <span className="font-medium">{level.label}</span>{' '}
+                                            <span className="text-muted-foreground">({formatMarks(level.points)})</span>
+                                            {level.descriptor && <span className="block text-xs text-muted-foreground">{level.descriptor}</span>}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {canManage && (
+                <div className="space-y-2 text-sm">
+                    {locked && (
+                        <p className="text-xs text-amber-600">Grades have been entered, so the rubric can no longer change.</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            className="h-9 px-3 border border-input rounded-md bg-background text-foreground"
+                            value={selectedId}
+                            onChange={(e) => setSelectedId(e.target.value)}
+                        >
+                            <option value="">Your rubrics…</option>
+                            {rubrics.map(rubric => (
+                                <option key={rubric.id} value={rubric.id}>{rubric.name} ({formatMarks(rubric.maxPoints)} pts)</option>
+                            ))}
+                        </select>
+                        {selected && (
+                            <>
+                                {!locked && (
+                                    <CustomButton size="sm" icon={<Link2 className="h-4 w-4" />} loading={isAttaching} onClick={handleAttach}>
+                                        {attached ? 'Replace' : 'Attach'}
+                                    </CustomButton>
+                                )}
+                                <CustomButton variant="outline" size="sm" icon={<Pencil className="h-4 w-4" />} onClick={() => setEditing(selected)}>
+                                    Edit
+                                </CustomButton>
+                                <CustomButton variant="outline" size="sm" icon={<Trash2 className="h-4 w-4" />} onClick={handleDelete}>
+                                    Delete
+                                </CustomButton>
+                            </>
+                        )}
+                        <CustomButton variant="outline" size="sm" icon={<Plus className="h-4 w-4" />} onClick={() => setEditing('new')}>
+                            New Rubric
+                        </CustomButton>
+                        {attached && !locked && (
+                            <CustomButton variant="outline" size="sm" icon={<Unlink className="h-4 w-4" />} disabled={isAttaching} onClick={handleDetach}>
+                                Detach
+                            </CustomButton>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <RubricBuilderDialog rubric={editing} onClose={() => setEditing(null)} onSaved={handleSaved} />
+        </div>
+    );
+};
+
+export default RubricPanel;
@@ -11,7 +11,6 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Mail } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast'; // Import useToast
 
 interface ForgotPasswordModalProps {
   isOpen: boolean;
@@ -20,15 +19,12 @@ interface ForgotPasswordModalProps {
 
 const ForgotPasswordModal = ({ isOpen, onClose }: ForgotPasswordModalProps) => {
   const { resetPassword, isLoading } = useAuth();
-  const { toast } = useToast(); // Initialize toast
   const [email, setEmail] = useState('');
   const [error, setError] = useState<string | null>(null);
-  // const [isSubmitted, setIsSubmitted] = useState(false); // No longer needed for this logic
 
   const resetForm = () => {
     setEmail('');
     setError(null);
-    // setIsSubmitted(false); // No longer needed
   };
 
   const handleClose = () => {
@@ -47,19 +43,11 @@ const ForgotPasswordModal = ({ isOpen, onClose }: ForgotPasswordModalProps) => {
     }
 
     try {
-      // Call the resetPassword function from AuthContext.
-      // This function will now directly show the "Feature Not Available" toast.
+      // resetPassword shows its own toast (success or failure)
       await resetPassword(email);
-
-      // IMPORTANT: After resetPassword (which already shows the toast),
-      // we just close the modal. We don't set isSubmitted to true,
-      // as the email was not actually sent.
       handleClose();
-
     } catch (error) {
-      // The resetPassword function in AuthContext already handles its own toast,
-      // so we don't need additional toast here. Just close the modal.
-      handleClose();
+      // Keep the modal open so the email can be corrected
     }
   };
 
@@ -69,12 +57,10 @@ const ForgotPasswordModal = ({ isOpen, onClose }: ForgotPasswordModalProps) => {
         <DialogHeader>
           <DialogTitle>Reset Password</DialogTitle>
           <DialogDescription>
-            {/* Always show the prompt to enter email, as we won't have a "submitted" state */}
             Enter your email address and we'll send you instructions to reset your password.
           </DialogDescription>
         </DialogHeader>
 
-        {/* This entire section always remains as the input form */}
         <form onSubmit={handleSubmit} className="space-y-4 py-4">
           {error && (
             <div className="text-sm font-medium text-destructive mb-2">
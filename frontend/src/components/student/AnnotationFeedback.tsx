@@ -0,0 +1,44 @@
+import { MessageSquare } from 'lucide-react';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import { ANNOTATION_CATEGORIES, Annotation } from '@/lib/annotations';
+
+interface AnnotationFeedbackProps {
+  annotations: Annotation[]; // Released with grades, in text order per attempt
+}
+
+// Comments the teacher left on passages of the student's submitted text
+const AnnotationFeedback = ({ annotations }: AnnotationFeedbackProps) => {
+  const attempts = [...new Set(annotations.map(a => a.attemptNumber))];
+
+  return (
+    <GlassmorphismCard className="p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <MessageSquare className="h-5 w-5 text-veri" />
+        <h2 className="text-lg font-semibold">Comments on Your Submission</h2>
+      </div>
+
+      {attempts.map(attemptNumber => (
+        <div key={attemptNumber} className="mb-4 last:mb-0">
+          {attempts.length > 1 && (
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">Attempt #{attemptNumber}</h3>
+          )}
+          <ul className="space-y-3">
+            {annotations.filter(a => a.attemptNumber === attemptNumber).map(annotation => (
+              <li key={annotation.id} className="p-3 bg-muted/40 rounded-md">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${ANNOTATION_CATEGORIES[annotation.category].badge}`}>
+                  {ANNOTATION_CATEGORIES[annotation.category].label}
+                </span>
+                <blockquote className="mt-2 pl-3 border-l-2 border-border text-sm italic text-muted-foreground whitespace-pre-wrap">
+                  {annotation.quote}
+                </blockquote>
+                {annotation.comment && <p className="text-sm mt-2 whitespace-pre-wrap">{annotation.comment}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </GlassmorphismCard>
+  );
+};
+
+export default AnnotationFeedback;
@@ -3,6 +3,8 @@ import { Upload, X, AlertTriangle } from 'lucide-react';
 import CustomButton from '@/components/ui/CustomButton';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import { useToast } from '@/hooks/use-toast';
+import { useDocumentFormats } from '@/hooks/useDocumentFormats';
+import { SubmissionRules, allowedFormats, isAllowedFileType } from '@/lib/submissionRules';
 
 interface FileUploaderProps {
   isPastDeadline: boolean;
@@ -12,6 +14,8 @@ interface FileUploaderProps {
   selectedFile: File | null;
   isUploading: boolean;
   submissionMessage?: string;
+  attemptsRemaining?: number | null; // null/undefined = unlimited attempts
+  submissionRules?: SubmissionRules; // The teacher may narrow the accepted file types
 }
 
 const FileUploader = ({
@@ -22,45 +26,30 @@ const FileUploader = ({
   selectedFile,
   isUploading,
   submissionMessage,
+  attemptsRemaining,
+  submissionRules,
 }: FileUploaderProps) => {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const documentFormats = useDocumentFormats();
+
+  const restricted = (submissionRules?.allowedFileTypes.length ?? 0) > 0;
+  const formats = allowedFormats(documentFormats.formats, submissionRules);
+  const acceptList = restricted ? formats.flatMap((format) => format.extensions).join(',') : documentFormats.accept;
+  const formatSummary = restricted
+    ? formats.map((format) => `${format.label} (${format.extensions.join(', ')})`).join(', ')
+    : documentFormats.summary;
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
 
-      // Define allowed extensions and their corresponding MIME types
-      const allowedFileTypes: { [key: string]: string[] } = {
-        ".pdf": ["application/pdf"],
-        ".docx": ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
-        ".doc": ["application/msword"], 
-        ".jpg": ["image/jpeg"],
-        ".jpeg": ["image/jpeg"],
-        ".png": ["image/png"],
-      };
-
-      const fileExtension = file.name.split('.').pop()?.toLowerCase();
-      const fileType = file.type;
-
-      let isValidType = false;
-      // Corrected: Removed zero-width space character
-      if (fileExtension && allowedFileTypes[`\.${fileExtension}`]) { // Check by extension
-        isValidType = allowedFileTypes[`\.${fileExtension}`].includes(fileType);
-      } else { // Fallback check by MIME type if extension not matched or missing
-        for (const ext in allowedFileTypes) {
-          if (allowedFileTypes[ext].includes(fileType)) {
-            isValidType = true;
-            break;
-          }
-        }
-      }
-
-      // If neither extension nor MIME type match, it's invalid
-      if (!isValidType) {
+      // Checked by extension, falling back to the MIME type, against the formats the server can read
+      if (!documentFormats.isSupported(file) || !isAllowedFileType(file, submissionRules)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF, Word document (DOC, DOCX), or Image (JPG, JPEG, PNG) file.",
+          description: `Please upload one of: ${formatSummary}.`,
           variant: "destructive",
         });
         // Clear the selected file if it's invalid
@@ -106,7 +95,8 @@ const FileUploader = ({
   };
 
   // Determine if submission is allowed (considering deadline and canSubmitLate)
-  const isSubmissionAllowed = !isPastDeadline || (isPastDeadline && canSubmitLate);
+  const hasAttemptsLeft = attemptsRemaining === null || attemptsRemaining === undefined || attemptsRemaining > 0;
+  const isSubmissionAllowed = (!isPastDeadline || (isPastDeadline && canSubmitLate)) && hasAttemptsLeft;
 
   return (
     <GlassmorphismCard className="p-6">
@@ -117,6 +107,12 @@ const FileUploader = ({
         <p className="text-sm text-muted-foreground mb-4">{submissionMessage}</p>
       )}
 
+      {typeof attemptsRemaining === 'number' && hasAttemptsLeft && (
+        <p className="text-sm text-muted-foreground mb-4">
+          {attemptsRemaining} attempt{attemptsRemaining === 1 ? '' : 's'} remaining. Your latest attempt is the one that gets checked.
+        </p>
+      )}
+
       {isPastDeadline && (
         <div className="bg-amber-500/10 p-4 rounded-md mb-6">
           <div className="flex items-start gap-3">
@@ -145,8 +141,7 @@ const FileUploader = ({
               ref={fileInputRef}
               className="hidden"
               onChange={handleFileChange}
-              // Updated 'accept' attribute based on allowedExtensions
-              accept=".pdf,.docx,.doc,.jpg,.jpeg,.png,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,image/jpeg,image/png"
+              accept={acceptList}
             />
 
             <div className="flex flex-col items-center">
@@ -195,7 +190,7 @@ const FileUploader = ({
                     or click to browse from your computer
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Supported formats: **PDF, Word (DOC, DOCX), Images (JPG, JPEG, PNG)** (Max 10MB)
+                    {formatSummary ? `Supported formats: ${formatSummary} (Max 10MB)` : 'Max 10MB'}
                   </p>
                 </>
               )}
@@ -205,7 +200,11 @@ const FileUploader = ({
       ) : (
         <div className="border-2 border-dashed border-border rounded-md p-8 text-center bg-muted/5 mb-6">
           <p className="text-lg font-medium text-muted-foreground">Submissions Closed</p>
-          <p className="text-sm text-muted-foreground mt-2">The deadline has passed and late submissions are not allowed for this assignment.</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            {hasAttemptsLeft
+              ? "The deadline has passed and late submissions are not allowed for this assignment."
+              : "You have used all the attempts allowed for this assignment."}
+          </p>
         </div>
       )}
     </GlassmorphismCard>
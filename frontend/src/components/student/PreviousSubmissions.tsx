@@ -17,22 +17,28 @@ interface StudentSubmission {
     status?: 'processing' | 'checked' | 'error'; // Made optional to match StudentAssignmentView.tsx's PreviousSubmissionPropsType
     similarity?: number;
     late?: boolean;
+    latePenalty?: number; // Percent deducted for lateness
     score?: number;
     teacherRemark?: string;
     submitted: boolean;
+    hasOriginalFile?: boolean; // Submissions made before original files were stored have none
+    attemptNumber?: number;
+    isAssessed?: boolean; // The attempt the teacher checks
 }
 
 interface PreviousSubmissionsProps {
     submissions: StudentSubmission[];
     assignmentType: 'Assignment' | 'Exam';
-    // Removed onDownloadSubmission prop as the download button is removed
+    onViewSubmission?: (submission: StudentSubmission) => void;
+    onDownloadSubmission?: (submission: StudentSubmission) => void;
     // onDeleteSubmission?: (submissionId: string) => void; // If you add this functionality later
 }
 
 const PreviousSubmissions: React.FC<PreviousSubmissionsProps> = ({
     submissions,
     assignmentType,
-    // Removed onDownloadSubmission from destructuring
+    onViewSubmission,
+    onDownloadSubmission,
     // onDeleteSubmission,
 }) => {
 
@@ -59,9 +65,17 @@ const PreviousSubmissions: React.FC<PreviousSubmissionsProps> = ({
                                 <div className="flex-grow">
                                     <div className="flex items-center gap-2 mb-1">
                                         <FileText className="h-5 w-5 text-gray-500" />
-                                        <span className="font-medium text-lg">{submission.fileName}</span>
+                                        <span className="font-medium text-lg">
+                                            {submission.attemptNumber !== undefined && `Attempt ${submission.attemptNumber}: `}
+                                            {submission.fileName}
+                                        </span>
+                                        {submission.isAssessed && submissions.length > 1 && (
+                                            <Badge variant="secondary" className="ml-2">Assessed</Badge>
+                                        )}
                                         {submission.late && (
-                                            <Badge variant="destructive" className="ml-2">Late</Badge>
+                                            <Badge variant="destructive" className="ml-2">
+                                                {submission.latePenalty ? `Late (−${submission.latePenalty}%)` : 'Late'}
+                                            </Badge>
                                         )}
                                     </div>
                                     <p className="text-sm text-muted-foreground">
@@ -103,20 +117,16 @@ const PreviousSubmissions: React.FC<PreviousSubmissionsProps> = ({
                                     </div>
                                 </div>
                                 <div className="flex gap-2">
-                                    {/* Removed the Download Button as per requirement */}
-                                    {/*
-                                    <Button
-                                        variant="outline"
-                                        size="sm"
-                                        onClick={() => onDownloadSubmission(submission._id)}
-                                    >
-                                        <Download className="h-4 w-4 mr-2" /> Download
-                                    </Button>
-                                    */}
-                                    {/* Add a view button if you have a viewer service */}
-                                    {/* <Button variant="outline" size="sm">
-                                        <ExternalLink className="h-4 w-4 mr-2" /> View
-                                    </Button> */}
+                                    {submission.hasOriginalFile && onViewSubmission && (
+                                        <Button variant="outline" size="sm" onClick={() => onViewSubmission(submission)}>
+                                            <ExternalLink className="h-4 w-4 mr-2" /> View
+                                        </Button>
+                                    )}
+                                    {submission.hasOriginalFile && onDownloadSubmission && (
+                                        <Button variant="outline" size="sm" onClick={() => onDownloadSubmission(submission)}>
+                                            <Download className="h-4 w-4 mr-2" /> Download
+                                        </Button>
+                                    )}
                                     {/* {onDeleteSubmission && (
                                         <Button variant="destructive" size="sm" onClick={() => onDeleteSubmission(submission._id)}>
                                             Delete
@@ -0,0 +1,40 @@
+import { ClipboardList } from 'lucide-react';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import { CriterionScore, formatMarks } from '@/lib/grading';
+
+interface RubricFeedbackProps {
+  criterionScores: CriterionScore[]; // From the released grade
+}
+
+// The level reached and the teacher's feedback for each rubric criterion
+const RubricFeedback = ({ criterionScores }: RubricFeedbackProps) => {
+  return (
+    <GlassmorphismCard className="p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardList className="h-5 w-5 text-veri" />
+        <h2 className="text-lg font-semibold">Rubric Feedback</h2>
+      </div>
+
+      <div className="space-y-3">
+        {criterionScores.map(score => (
+          <div key={score.criterion} className="p-3 bg-muted/40 rounded-md">
+            <div className="flex justify-between items-start gap-3">
+              <div>
+                <span className="font-medium">{score.criterion}</span>
+                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-veri/10 text-veri">{score.level}</span>
+              </div>
+              <span className="text-sm whitespace-nowrap">
+                {formatMarks(score.points)}
+                {score.maxPoints !== null && <span className="text-muted-foreground">/{formatMarks(score.maxPoints)}</span>}
+              </span>
+            </div>
+            {score.descriptor && <p className="text-xs text-muted-foreground mt-1">{score.descriptor}</p>}
+            {score.feedback && <p className="text-sm mt-2 whitespace-pre-wrap">{score.feedback}</p>}
+          </div>
+        ))}
+      </div>
+    </GlassmorphismCard>
+  );
+};
+
+export default RubricFeedback;
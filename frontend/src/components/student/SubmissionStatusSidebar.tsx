@@ -1,6 +1,10 @@
 import { format, isValid } from 'date-fns';
-import { Check, AlertTriangle } from 'lucide-react';
+import { Check, AlertTriangle, ListChecks } from 'lucide-react';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import InlineMarkdown from '@/components/InlineMarkdown';
+import { LatePenalty, describeLatePenalty } from '@/lib/latePolicy';
+import { SubmissionRules, describeSubmissionRules } from '@/lib/submissionRules';
+import { Grade, formatMarks } from '@/lib/grading';
 
 interface Assignment {
     id: string;
@@ -24,15 +28,30 @@ interface Submission {
     score?: number;
 }
 
+// The student's own deadline: an extension replaces the assignment deadline, and late
+// work is accepted until lateCutoff (null = no cutoff) with the given penalty
+interface DeadlineDetails {
+    originalDeadline: Date;
+    extensionReason?: string | null;
+    hasExtension: boolean;
+    canSubmitLate: boolean;
+    lateCutoff: Date | null;
+    latePenalty: LatePenalty;
+}
+
 interface SubmissionStatusSidebarProps {
     assignment: Assignment;
     submissions: Submission[];
     submissionGuidelines: string[];
+    submissionRules?: SubmissionRules;
+    grade?: Grade | null;
     message: string;
+    deadlineDetails?: DeadlineDetails;
 }
 
-const SubmissionStatusSidebar = ({ assignment, submissions, submissionGuidelines, message }: SubmissionStatusSidebarProps) => {
+const SubmissionStatusSidebar = ({ assignment, submissions, submissionGuidelines, submissionRules, grade, message, deadlineDetails }: SubmissionStatusSidebarProps) => {
     const latestSubmission = submissions.length > 0 ? submissions[0] : null;
+    const requirements = describeSubmissionRules(submissionRules);
 
     return (
         <div>
@@ -58,13 +77,40 @@ const SubmissionStatusSidebar = ({ assignment, submissions, submissionGuidelines
                     </div>
 
                     <div className="flex justify-between items-center">
-                        <span className="text-sm text-muted-foreground">Due Date</span>
+                        <span className="text-sm text-muted-foreground">{deadlineDetails?.hasExtension ? 'Your Due Date' : 'Due Date'}</span>
                         <span className="text-sm font-medium">
                             {/* Added isValid check for assignment.deadline */}
                             {isValid(assignment.deadline) ? format(assignment.deadline, 'MMM d, h:mm a') : 'N/A'}
                         </span>
                     </div>
 
+                    {deadlineDetails?.hasExtension && (
+                        <div className="text-xs text-muted-foreground">
+                            Extended from {format(deadlineDetails.originalDeadline, 'MMM d, h:mm a')}
+                            {deadlineDetails.extensionReason && ` (${deadlineDetails.extensionReason})`}
+                        </div>
+                    )}
+
+                    {deadlineDetails && (
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">Late Submissions</span>
+                            <span className="text-sm font-medium text-right">
+                                {!deadlineDetails.canSubmitLate
+                                    ? 'Not accepted'
+                                    : deadlineDetails.lateCutoff
+                                        ? `Until ${format(deadlineDetails.lateCutoff, 'MMM d, h:mm a')}`
+                                        : 'Accepted'}
+                            </span>
+                        </div>
+                    )}
+
+                    {deadlineDetails?.canSubmitLate && deadlineDetails.latePenalty.penaltyType !== 'none' && (
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">Late Penalty</span>
+                            <span className="text-sm font-medium text-amber-500 text-right">{describeLatePenalty(deadlineDetails.latePenalty)}</span>
+                        </div>
+                    )}
+
                     {/* Conditional rendering for submittedAt, with isValid check */}
                     {assignment.submitted && assignment.submittedAt && (
                         <div className="flex justify-between items-center">
@@ -90,38 +136,48 @@ const SubmissionStatusSidebar = ({ assignment, submissions, submissionGuidelines
                                     {latestSubmission.similarity}%
                                 </span>
                             </div>
-
-                            {/* Ensure score is a number before display */}
-                            {assignment.type === 'Exam' && typeof latestSubmission.score === 'number' && (
-                                <div className="flex justify-between items-center">
-                                    <span className="text-sm text-muted-foreground">Exam Score</span>
-                                    <span className="text-sm font-medium text-veri">
-                                        {latestSubmission.score}/100
-                                    </span>
-                                </div>
-                            )}
                         </>
                     )}
+
+                    {grade && (
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">Marks</span>
+                            <span className="text-sm font-medium text-veri">
+                                {formatMarks(grade.finalScore)}/{formatMarks(grade.maxMarks)}
+                            </span>
+                        </div>
+                    )}
                 </div>
             </GlassmorphismCard>
 
             <GlassmorphismCard className="p-6">
                 <h3 className="text-md font-semibold mb-3">Submission Guidelines</h3>
+                {/* Requirements are checked when you submit; a file that breaks one is rejected */}
+                {requirements.length > 0 && (
+                    <ul className="space-y-2 text-sm mb-4 p-3 rounded-md bg-veri/5">
+                        {requirements.map(requirement => (
+                            <li key={requirement} className="flex items-start gap-2">
+                                <ListChecks className="h-4 w-4 text-veri mt-0.5 shrink-0" />
+                                <span>{requirement}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
                 {/* Render submission guidelines dynamically if provided, otherwise default */}
                 {submissionGuidelines && submissionGuidelines.length > 0 ? (
-                    <ul className="space-y-2 text-sm text-muted-foreground">
+                    <ol className="space-y-2 text-sm text-muted-foreground">
                         {submissionGuidelines.map((guideline, index) => (
                             <li key={index} className="flex items-start gap-2">
                                 <Check className="h-4 w-4 text-green-500 mt-0.5 shrink-0" />
-                                <span>{guideline}</span>
+                                <span><InlineMarkdown text={guideline} /></span>
                             </li>
                         ))}
-                    </ul>
+                    </ol>
                 ) : (
                     <ul className="space-y-2 text-sm text-muted-foreground">
                         <li className="flex items-start gap-2">
                             <Check className="h-4 w-4 text-green-500 mt-0.5 shrink-0" />
-                            <span>Submit files in PDF, Word, or Text format only</span>
+                            <span>Submit documents, slides or scanned images (PDF, Word, OpenDocument, RTF, PowerPoint, text and Markdown files)</span>
                         </li>
                         <li className="flex items-start gap-2">
                             <Check className="h-4 w-4 text-green-500 mt-0.5 shrink-0" />
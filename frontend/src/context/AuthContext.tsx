@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation, Location } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import api from '@/lib/api'; 
+import axios from 'axios';
+import api, { refreshAccessToken } from '@/lib/api'; 
+import { homePathFor } from '@/lib/homePath';
 
 // User role types
-export type UserRole = 'teacher' | 'student';
+export type UserRole = 'teacher' | 'student' | 'admin';
 
 // User object shape
 export interface User {
@@ -19,13 +21,16 @@ interface AuthContextType {
     user: User | null;
     isLoading: boolean;
     login: (email: string, password: string, role: UserRole) => Promise<void>;
-    googleLogin: (role: UserRole) => Promise<void>;
+    ssoLogin: () => void;
+    completeSsoLogin: (ticket: string, role?: UserRole) => Promise<void>;
     signup: (name: string, email: string, password: string, role: UserRole) => Promise<void>;
     logout: () => void;
     isAuthenticated: boolean;
     updateProfile: (updatedFields: Partial<User>) => Promise<void>;
     changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+    logoutAllDevices: () => Promise<void>;
     resetPassword: (email: string) => Promise<void>;
+    confirmPasswordReset: (token: string, newPassword: string) => Promise<void>;
 }
 
 // Create the auth context
@@ -36,8 +41,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [user, setUser] = useState<User | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const navigate = useNavigate();
+    const location = useLocation();
     const { toast } = useToast();
 
+    // After signing in, return to the page that sent the user to /auth (e.g. a join link)
+    const navigateAfterSignIn = (role: UserRole) => {
+        const from = (location.state as { from?: Location } | null)?.from;
+        navigate(from ? `${from.pathname}${from.search}` : homePathFor(role));
+    };
+
     // Decode JWT token to extract payload
     const parseJwt = (token: string) => {
         try {
@@ -58,6 +70,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser(null);
         localStorage.removeItem("veriwrite_user");
         localStorage.removeItem("token");
+        localStorage.removeItem("refreshToken");
         toast({
             title: "Session Expired",
             description: message,
@@ -84,12 +97,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             if (decodedToken && decodedToken.exp * 1000 > Date.now()) {
                 setUser(JSON.parse(savedUser));
             } else {
-                triggerSessionExpired("Your session has expired. Please log in again.");
+                // Access token expired while away: continue the session with the refresh token
+                refreshAccessToken()
+                    .then(() => setUser(JSON.parse(savedUser)))
+                    .catch(() => triggerSessionExpired("Your session has expired. Please log in again."))
+                    .finally(() => setIsLoading(false));
+                return;
             }
         }
         setIsLoading(false);
     }, [triggerSessionExpired]);
 
+    // Refresh the access token shortly before it expires, so requests sent with fetch
+    // (which the axios interceptor does not cover) keep a valid token
+    useEffect(() => {
+        if (!user) return;
+        const interval = setInterval(() => {
+            const token = localStorage.getItem('token');
+            const decodedToken = token ? parseJwt(token) : null;
+            if (decodedToken && decodedToken.exp * 1000 - Date.now() < 2 * 60 * 1000) {
+                refreshAccessToken().catch(() => {
+                    // The next API call reports the expired session
+                });
+            }
+        }, 60 * 1000);
+        return () => clearInterval(interval);
+    }, [user]);
+
     // Standard email/password login
     const login = async (email: string, password: string, role: UserRole) => {
         try {
@@ -113,9 +147,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setUser(newUser);
             localStorage.setItem("veriwrite_user", JSON.stringify(newUser));
             localStorage.setItem("token", data.token);
+            localStorage.setItem("refreshToken", data.refreshToken);
 
             toast({ title: "Login successful", description: `Welcome back, ${newUser.name}!` });
-            navigate(role === "teacher" ? "/classroom" : "/student-dashboard");
+            navigateAfterSignIn(newUser.role);
         } catch (error) {
             toast({
                 title: "Login failed",
@@ -127,31 +162,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
-    // Placeholder Google login logic (mocked)
-    const googleLogin = async (role: UserRole) => {
+    // Single sign-on: the backend redirects to the identity provider and back to /auth/callback
+    const ssoLogin = () => {
+        window.location.href = `${api.defaults.baseURL}/api/auth/oidc/start`;
+    };
+
+    // Finish single sign-on with the one-time ticket from /auth/callback (role only for new accounts)
+    const completeSsoLogin = async (ticket: string, role?: UserRole) => {
         try {
             setIsLoading(true);
-            await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulated delay
+            const response = await fetch(`${api.defaults.baseURL}/api/auth/oidc/exchange`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ticket, role }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Sign-in failed");
 
             const newUser: User = {
-                _id: Math.random().toString(36).substring(2, 9),
-                name: "Google User",
-                email: "google.user@example.com",
-                role
+                _id: data.user._id,
+                name: data.user.name,
+                email: data.user.email,
+                role: data.user.role,
             };
 
             setUser(newUser);
-            localStorage.setItem('veriwrite_user', JSON.stringify(newUser));
-            localStorage.setItem("token", "fake-google-token");
+            localStorage.setItem("veriwrite_user", JSON.stringify(newUser));
+            localStorage.setItem("token", data.token);
+            localStorage.setItem("refreshToken", data.refreshToken);
 
-            toast({ title: "Google login successful", description: `Welcome, ${newUser.name}!` });
-            navigate(role === 'teacher' ? '/classroom' : '/student-dashboard');
-        } catch {
+            toast({ title: "Login successful", description: `Welcome, ${newUser.name}!` });
+            navigate(homePathFor(newUser.role));
+        } catch (error) {
             toast({
-                title: "Google login failed",
-                description: "Could not authenticate with Google",
+                title: "Sign-in failed",
+                description: error instanceof Error ? error.message : "Unknown error",
                 variant: "destructive",
             });
+            throw error;
         } finally {
             setIsLoading(false);
         }
@@ -180,13 +229,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setUser(newUser);
             localStorage.setItem("veriwrite_user", JSON.stringify(newUser));
             localStorage.setItem("token", data.token);
+            localStorage.setItem("refreshToken", data.refreshToken);
 
             toast({
                 title: "Account created",
                 description: `Welcome to VeriWrite, ${name}!`,
             });
 
-            navigate(role === "teacher" ? "/classroom" : "/student-dashboard");
+            navigateAfterSignIn(newUser.role);
         } catch (error) {
             toast({
                 title: "Signup failed",
@@ -199,26 +249,26 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
-    // Logout and clean up local/session data
+    // Clear the signed-in user from state and storage
+    const clearSession = () => {
+        setUser(null);
+        localStorage.removeItem("veriwrite_user");
+        localStorage.removeItem("token");
+        localStorage.removeItem("refreshToken");
+    };
+
+    // Logout (ends this device's session) and clean up local/session data
     const logout = async () => {
         setIsLoading(true);
         const token = localStorage.getItem('token');
         try {
             if (token) {
-                await fetch(`${api.defaults.baseURL}/api/auth/logout`, {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        "Authorization": `Bearer ${token}`,
-                    },
-                });
+                await api.post(`/api/auth/logout`, { refreshToken: localStorage.getItem('refreshToken') });
             }
         } catch (error) {
             console.error("Logout error:", error);
         } finally {
-            setUser(null);
-            localStorage.removeItem("veriwrite_user");
-            localStorage.removeItem("token");
+            clearSession();
 
             toast({ title: "Logged out successfully" });
             navigate("/");
@@ -226,6 +276,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
+    // End every session of this account, including this one
+    const logoutAllDevices = async () => {
+        setIsLoading(true);
+        try {
+            await api.post(`/api/auth/logout-all`);
+            clearSession();
+
+            toast({ title: "Signed out of all devices" });
+            navigate("/auth");
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({
+                title: "Sign out failed",
+                description: message || (error instanceof Error ? error.message : "Unknown error"),
+                variant: "destructive",
+            });
+            return Promise.reject(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     // Update user profile info
     const updateProfile = async (updatedFields: Partial<User>) => {
         setIsLoading(true);
@@ -267,6 +339,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             const response = await api.put(`/api/auth/change-password`, { currentPassword, newPassword });
             if (response.status !== 200) throw new Error("Password change failed");
 
+            // Other sessions were signed out; this device continues with new tokens
+            localStorage.setItem("token", response.data.token);
+            localStorage.setItem("refreshToken", response.data.refreshToken);
+
             toast({
                 title: "Password changed",
                 description: "Your password has been updated.",
@@ -284,20 +360,43 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     };
 
-    // Placeholder for password reset feature
+    // Request a password reset link by email
     const resetPassword = async (email: string) => {
         setIsLoading(true);
         try {
-            await new Promise(resolve => setTimeout(resolve, 500));
+            const response = await api.post(`/api/auth/forgot-password`, { email });
             toast({
-                title: "Feature not available",
-                description: "Password reset will be added in future versions.",
+                title: "Check your email",
+                description: response.data.message,
             });
-            return Promise.resolve();
         } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+            toast({
+                title: "Password reset failed",
+                description: message || (error instanceof Error ? error.message : "Unknown error"),
+                variant: "destructive",
+            });
+            return Promise.reject(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Set a new password with the token from a reset link
+    const confirmPasswordReset = async (token: string, newPassword: string) => {
+        setIsLoading(true);
+        try {
+            const response = await api.post(`/api/auth/reset-password`, { token, newPassword });
+            toast({
+                title: "Password reset",
+                description: response.data.message,
+            });
+            navigate("/auth");
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
             toast({
-                title: "Unexpected error",
-                description: "An error occurred in resetPassword placeholder.",
+                title: "Password reset failed",
+                description: message || (error instanceof Error ? error.message : "Unknown error"),
                 variant: "destructive",
             });
             return Promise.reject(error);
@@ -310,13 +409,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         user,
         isLoading,
         login,
-        googleLogin,
+        ssoLogin,
+        completeSsoLogin,
         signup,
         logout,
         isAuthenticated: !!user,
         updateProfile,
         changePassword,
+        logoutAllDevices,
         resetPassword,
+        confirmPasswordReset,
     };
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { DocumentFormat, documentAccept, documentFormatSummary, isSupportedDocument } from '@/lib/fileFormats';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+const fetchDocumentFormats = async (): Promise<DocumentFormat[]> => {
+  const response = await axios.get(`${API_BASE_URL}/api/file-formats`);
+  return response.data.formats;
+};
+
+/**
+ * The document formats the server can read, fetched once per session.
+ * Until the list has loaded (or if it cannot be fetched) nothing is filtered on the
+ * client and the server's own check decides.
+ */
+export const useDocumentFormats = () => {
+  const { data: formats } = useQuery({
+    queryKey: ['document-formats'],
+    queryFn: fetchDocumentFormats,
+    staleTime: Infinity,
+  });
+
+  return {
+    formats: formats ?? [],
+    accept: formats ? documentAccept(formats) : undefined,
+    summary: formats ? documentFormatSummary(formats) : '',
+    isSupported: (file: File) => !formats || isSupportedDocument(file, formats),
+  };
+};
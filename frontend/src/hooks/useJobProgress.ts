@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import axios from 'axios';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+const POLL_INTERVAL_MS = 1500;
+
+export interface JobStage {
+  name: string;
+  label: string;
+  status: 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+  completed: number;
+  total: number;
+}
+
+export interface PlagiarismJob<TResult> {
+  id: string;
+  type: 'classroom-check' | 'upload-check' | 'online-check';
+  assignmentId: string | null;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  progress: number;
+  stages: JobStage[];
+  result: TResult | null;
+  error: string | null;
+}
+
+interface JobProgressOptions<TResult> {
+  onSucceeded?: (job: PlagiarismJob<TResult>) => void;
+  onFailed?: (job: PlagiarismJob<TResult>) => void;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+// Polls a background plagiarism job until it succeeds or fails
+export const useJobProgress = <TResult>({ onSucceeded, onFailed }: JobProgressOptions<TResult> = {}) => {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<PlagiarismJob<TResult> | null>(null);
+
+  // Keep the latest callbacks without restarting the polling loop
+  const callbacks = useRef({ onSucceeded, onFailed });
+  callbacks.current = { onSucceeded, onFailed };
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await axios.get<PlagiarismJob<TResult>>(`${API_BASE_URL}/api/jobs/${jobId}`, {
+          headers: authHeaders(),
+        });
+        if (cancelled) return;
+
+        const current = response.data;
+        setJob(current);
+        if (current.status === 'succeeded' || current.status === 'failed') {
+          setJobId(null);
+          if (current.status === 'succeeded') callbacks.current.onSucceeded?.(current);
+          else callbacks.current.onFailed?.(current);
+          return;
+        }
+      } catch (error) {
+        console.error("Error polling job status:", error);
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          setJobId(null);
+          return;
+        }
+        // Other errors are treated as transient; keep polling
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  // Starts following a job returned by one of the check endpoints
+  const trackJob = useCallback((id: string) => {
+    setJob(null);
+    setJobId(id);
+  }, []);
+
+  // Picks up a job that is still running, e.g. after the page was reloaded
+  const resumeActiveJob = useCallback(async (filter: { type?: PlagiarismJob<TResult>['type']; assignmentId?: string }) => {
+    try {
+      const response = await axios.get<PlagiarismJob<TResult>[]>(`${API_BASE_URL}/api/jobs`, {
+        headers: authHeaders(),
+        params: { ...filter, active: true },
+      });
+      const active = response.data[0];
+      if (active) trackJob(active.id);
+      return !!active;
+    } catch (error) {
+      console.error("Error looking up active jobs:", error);
+      return false;
+    }
+  }, [trackJob]);
+
+  return { job, isRunning: jobId !== null, trackJob, resumeActiveJob };
+};
@@ -0,0 +1,38 @@
+// Teacher annotations on a submission's extracted text (see backend utils/annotations)
+export type AnnotationCategory = 'citation-needed' | 'suspicious' | 'good-point' | 'comment';
+
+export interface Annotation {
+    id: string;
+    attemptNumber: number; // Offsets index this attempt's extracted text
+    start: number;
+    end: number;
+    quote: string;
+    category: AnnotationCategory;
+    comment: string;
+    authorName: string | null;
+    createdAt: string;
+}
+
+// Label and highlight colours of each category
+export const ANNOTATION_CATEGORIES: Record<AnnotationCategory, { label: string; highlight: string; badge: string }> = {
+    'citation-needed': {
+        label: 'Citation needed',
+        highlight: 'bg-orange-200/70 dark:bg-orange-500/30',
+        badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+    },
+    suspicious: {
+        label: 'Suspicious',
+        highlight: 'bg-red-200/70 dark:bg-red-500/30',
+        badge: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+    },
+    'good-point': {
+        label: 'Good point',
+        highlight: 'bg-green-200/70 dark:bg-green-500/30',
+        badge: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    },
+    comment: {
+        label: 'Comment',
+        highlight: 'bg-blue-200/70 dark:bg-blue-500/30',
+        badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+    },
+};
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 
 // Load base API URL
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -23,29 +23,79 @@ api.interceptors.request.use(
     (error) => Promise.reject(error)
 );
 
-// Global response handler for auth-related errors (401/403)
-api.interceptors.response.use(
-    (response) => response,
-    (error) => {
-        if (axios.isAxiosError(error) && error.response) {
-            const { status } = error.response;
-
-            if (status === 401 || status === 403) {
-                console.warn(`API Error: ${status} - Token expired or invalid.`);
-
-                // Trigger centralized logout/session expiry handler if available
-                if (typeof window !== 'undefined' && (window as any).triggerSessionExpired) {
-                    (window as any).triggerSessionExpired("Your session has expired. Please log in again.");
-                } else {
-                    // Fallback logout logic
-                    localStorage.removeItem('veriwrite_user');
-                    localStorage.removeItem('token');
-                    window.location.href = '/auth';
+// Only one refresh runs at a time; concurrent 401s wait for the same new token
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new access token (the refresh token rotates too).
+ * Resolves with the new access token; rejects when the session can no longer be refreshed.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        const refreshToken = localStorage.getItem('refreshToken');
+        refreshPromise = (async () => {
+            if (!refreshToken) throw new Error('No refresh token');
+            try {
+                const response = await axios.post(`${API_BASE_URL}/api/auth/refresh`, { refreshToken });
+                localStorage.setItem('token', response.data.token);
+                localStorage.setItem('refreshToken', response.data.refreshToken);
+                return response.data.token as string;
+            } catch (error) {
+                // Another tab may have rotated the token first; continue with the one it stored
+                const latest = localStorage.getItem('refreshToken');
+                if (latest && latest !== refreshToken) return localStorage.getItem('token') as string;
+                throw error;
+            }
+        })().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
+const sessionExpired = () => {
+    // Trigger centralized logout/session expiry handler if available
+    if (typeof window !== 'undefined' && (window as any).triggerSessionExpired) {
+        (window as any).triggerSessionExpired("Your session has expired. Please log in again.");
+    } else {
+        // Fallback logout logic
+        localStorage.removeItem('veriwrite_user');
+        localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
+        window.location.href = '/auth';
+    }
+};
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// On 401, refresh the access token once and replay the request; end the session if that fails
+const installRefreshInterceptor = (instance: AxiosInstance) => {
+    instance.interceptors.response.use(
+        (response) => response,
+        async (error: AxiosError) => {
+            const config = error.config as RetriableRequestConfig | undefined;
+            const isRefreshCall = config?.url?.includes('/api/auth/refresh');
+
+            if (error.response?.status === 401 && config && config.headers?.Authorization && !config._retried && !isRefreshCall) {
+                config._retried = true;
+                let token: string;
+                try {
+                    token = await refreshAccessToken();
+                } catch {
+                    console.warn('API Error: 401 - Session could not be refreshed.');
+                    sessionExpired();
+                    return Promise.reject(error);
                 }
+                config.headers.Authorization = `Bearer ${token}`;
+                return instance(config);
             }
+            return Promise.reject(error);
         }
-        return Promise.reject(error);
-    }
-);
+    );
+};
+
+installRefreshInterceptor(api);
+// Pages that call axios directly (with their own Authorization header) get the same retry
+installRefreshInterceptor(axios);
 
 export default api;
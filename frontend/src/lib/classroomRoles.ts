@@ -0,0 +1,18 @@
+// Classroom staff roles and permissions, as returned by the classroom and assignment APIs
+// (see backend/utils/classroomStaff.js)
+
+export type ClassroomRole = 'owner' | 'co-teacher' | 'ta';
+
+export type ClassroomPermission =
+    | 'view'
+    | 'grade'
+    | 'manageAssignments'
+    | 'manageStudents'
+    | 'manageStaff'
+    | 'deleteClassroom';
+
+export const ROLE_LABELS: Record<ClassroomRole, string> = {
+    owner: 'Owner',
+    'co-teacher': 'Co-teacher',
+    ta: 'Teaching Assistant',
+};
@@ -0,0 +1,31 @@
+// Save a file the API returned (axios responseType 'blob') under the given name
+export const downloadBlob = (data: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(data);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+};
+
+// File name from a Content-Disposition header, if the server sent one
+export const fileNameFromDisposition = (header: string | undefined, fallback: string) =>
+    header?.match(/filename="?([^"]+)"?/)?.[1] || fallback;
+
+// Types a browser tab may render. Anything else (HTML, SVG, ...) would run with the app's
+// origin and could read its tokens, so it is downloaded instead.
+const INLINE_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+// Open a submitted file in a new tab when it is safe to render, otherwise download it
+export const openBlob = (data: Blob, fileName: string, contentType?: string) => {
+    const type = (contentType || data.type).split(';')[0].trim().toLowerCase();
+    if (!INLINE_TYPES.includes(type)) {
+        downloadBlob(data, fileName);
+        return;
+    }
+    const url = window.URL.createObjectURL(new Blob([data], { type }));
+    window.open(url, '_blank');
+    setTimeout(() => window.URL.revokeObjectURL(url), 1000 * 60);
+};
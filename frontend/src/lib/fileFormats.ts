@@ -0,0 +1,28 @@
+// Document formats the backend can extract text from, as served by GET /api/file-formats
+// (see useDocumentFormats). Every upload picker derives its accept list from them.
+
+export interface DocumentFormat {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+// Value for an <input type="file"> accept attribute
+export const documentAccept = (formats: DocumentFormat[]) => formats
+  .flatMap((format) => [...format.extensions, ...format.mimeTypes])
+  .join(',');
+
+// Human-readable list for hints and error messages, e.g. "PDF (.pdf), Word (.docx), ..."
+export const documentFormatSummary = (formats: DocumentFormat[]) => formats
+  .map((format) => `${format.label} (${format.extensions.join(', ')})`)
+  .join(', ');
+
+// The extension decides, as on the server; the MIME type is only used when there is none
+export function isSupportedDocument(file: File, formats: DocumentFormat[]): boolean {
+  const dot = file.name.lastIndexOf('.');
+  if (dot !== -1) {
+    const extension = file.name.slice(dot).toLowerCase();
+    return formats.some((format) => format.extensions.includes(extension));
+  }
+  return formats.some((format) => format.mimeTypes.includes(file.type));
+}
@@ -0,0 +1,75 @@
+// Grading scheme and grades of an assignment (see backend utils/grading)
+export interface GradingSection {
+    name: string;
+    maxMarks: number;
+    criteria: string;
+}
+
+export interface RubricLevel {
+    label: string;
+    points: number;
+    descriptor: string;
+}
+
+export interface RubricCriterion {
+    name: string;
+    description: string;
+    levels: RubricLevel[]; // Best level first
+}
+
+// A rubric in the teacher's library (see backend utils/rubrics)
+export interface Rubric {
+    id: string;
+    name: string;
+    description: string;
+    criteria: RubricCriterion[];
+    maxPoints: number;
+    updatedAt: string;
+}
+
+// The copy of a rubric attached to an assignment
+export interface AttachedRubric {
+    rubricId: string | null;
+    name: string;
+    criteria: RubricCriterion[];
+    maxPoints: number;
+}
+
+export interface GradingScheme {
+    maxMarks: number;
+    sections: GradingSection[];
+    rubric: AttachedRubric | null;
+    released: boolean;
+    releasedAt: string | null;
+}
+
+export interface SectionMark {
+    section: string;
+    maxMarks: number | null;
+    scored: number;
+}
+
+export interface CriterionScore {
+    criterion: string;
+    level: string;
+    points: number;
+    maxPoints: number | null;
+    descriptor: string;
+    feedback: string;
+}
+
+export interface Grade {
+    attemptNumber: number | null;
+    score: number; // Raw marks before the late penalty
+    latePenalty: number;
+    finalScore: number;
+    maxMarks: number;
+    markDistribution: SectionMark[];
+    criterionScores: CriterionScore[];
+    graderName: string | null;
+    gradedAt: string | null;
+}
+
+export const DEFAULT_GRADING: GradingScheme = { maxMarks: 100, sections: [], rubric: null, released: false, releasedAt: null };
+
+export const formatMarks = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(2));
@@ -0,0 +1,5 @@
+import type { UserRole } from '@/context/AuthContext';
+
+// Landing page for each role after signing in
+export const homePathFor = (role?: UserRole) =>
+    role === 'admin' ? '/admin' : role === 'teacher' ? '/classroom' : '/student-dashboard';
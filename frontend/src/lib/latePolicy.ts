@@ -0,0 +1,15 @@
+// Late penalty settings of an assignment (see backend utils/deadlines)
+export type LatePenaltyType = 'none' | 'percent-per-day' | 'flat';
+
+export interface LatePenalty {
+    penaltyType: LatePenaltyType;
+    penaltyValue: number;
+    maxPenalty: number;
+}
+
+export const describeLatePenalty = ({ penaltyType, penaltyValue, maxPenalty }: LatePenalty): string => {
+    if (penaltyType === 'none' || !penaltyValue) return 'No penalty';
+    if (penaltyType === 'flat') return `${penaltyValue}% off the mark`;
+    const cap = maxPenalty < 100 ? `, up to ${maxPenalty}%` : '';
+    return `${penaltyValue}% off per day late${cap}`;
+};
@@ -0,0 +1,47 @@
+import { DocumentFormat } from '@/lib/fileFormats';
+
+// Submission rules of an assignment (see backend utils/submissionRules). Null limits and an
+// empty file type list are not enforced.
+export interface SubmissionRules {
+    minWords: number | null;
+    maxWords: number | null;
+    allowedFileTypes: string[]; // Extensions without the dot, e.g. "pdf"
+    maxPages: number | null;
+}
+
+export const EMPTY_SUBMISSION_RULES: SubmissionRules = {
+    minWords: null,
+    maxWords: null,
+    allowedFileTypes: [],
+    maxPages: null,
+};
+
+// The supported document formats a student may upload under these rules
+export const allowedFormats = (formats: DocumentFormat[], rules?: SubmissionRules | null) => {
+    const allowed = rules?.allowedFileTypes || [];
+    if (allowed.length === 0) return formats;
+    return formats
+        .map(format => ({ ...format, extensions: format.extensions.filter(ext => allowed.includes(ext.slice(1))) }))
+        .filter(format => format.extensions.length > 0);
+};
+
+export const isAllowedFileType = (file: File, rules?: SubmissionRules | null): boolean => {
+    const allowed = rules?.allowedFileTypes || [];
+    if (allowed.length === 0) return true;
+    const dot = file.name.lastIndexOf('.');
+    return dot !== -1 && allowed.includes(file.name.slice(dot + 1).toLowerCase());
+};
+
+// Requirements shown to students, one sentence each
+export const describeSubmissionRules = (rules?: SubmissionRules | null): string[] => {
+    if (!rules) return [];
+    const lines: string[] = [];
+    if (rules.minWords && rules.maxWords) lines.push(`Between ${rules.minWords} and ${rules.maxWords} words`);
+    else if (rules.minWords) lines.push(`At least ${rules.minWords} words`);
+    else if (rules.maxWords) lines.push(`At most ${rules.maxWords} words`);
+    if (rules.allowedFileTypes.length > 0) {
+        lines.push(`Accepted file types: ${rules.allowedFileTypes.map(ext => `.${ext}`).join(', ')}`);
+    }
+    if (rules.maxPages) lines.push(`At most ${rules.maxPages} page${rules.maxPages === 1 ? '' : 's'}`);
+    return lines;
+};
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import CustomButton from '@/components/ui/CustomButton';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// Landing page of an emailed classroom invitation (/invite/:token): staff invitations
+// are accepted with a teacher account, roster invitations with a student account
+const AcceptInvite = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setError(null);
+    setIsAccepting(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/courses/invites/accept`,
+        { token },
+        { headers: { Authorization: `Bearer ${localStorage.getItem('token')}` } }
+      );
+      toast({ title: 'Invitation accepted', description: response.data.message });
+      const classroomId = response.data.classroom.id;
+      navigate(response.data.role === 'student' ? `/student-course/${classroomId}` : `/classroom/${classroomId}`);
+    } catch (err) {
+      setError((axios.isAxiosError(err) ? err.response?.data?.error : undefined) || 'Could not accept the invitation');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground text-center">Loading...</p>;
+    }
+
+    if (!isAuthenticated) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Sign in with the account this invitation was sent to (or create one with that email) to accept it.
+          </p>
+          <Link to="/auth" state={{ from: location }} className="text-sm text-veri hover:underline">
+            Sign In
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          You have been invited to join a course. Accepting adds it to your {user?.role === 'student' ? 'dashboard' : 'classrooms'} as {user?.email}.
+        </p>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <CustomButton type="button" fullWidth loading={isAccepting} onClick={handleAccept}>
+          Accept Invitation
+        </CustomButton>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+      <main className="flex-grow pt-24 pb-16 px-6 relative">
+        <div className="container mx-auto max-w-md relative z-10">
+          <h1 className="text-3xl font-bold mb-8 text-center">Course Invitation</h1>
+
+          <GlassmorphismCard className="p-8 shadow-xl" intensity="heavy">
+            {renderContent()}
+          </GlassmorphismCard>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,475 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { Users, School, Search, ShieldOff, ShieldCheck, ArrowRightLeft, Globe, UserX } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import CustomButton from '@/components/ui/CustomButton';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth, UserRole } from '@/context/AuthContext';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface Overview {
+  users: Record<UserRole, number>;
+  suspended: number;
+  classrooms: number;
+  assignments: number;
+  serpApi: { used: number; limit: number };
+}
+
+interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  suspendedAt: string | null;
+  suspensionReason: string | null;
+  createdAt: string;
+}
+
+interface AdminClassroom {
+  id: string;
+  name: string;
+  classCode: string;
+  owner: { id: string; name: string; email: string; suspended: boolean } | null;
+  staff: number;
+  students: number;
+  assignments: number;
+  createdAt: string;
+}
+
+interface Page<T> {
+  items: T[];
+  page: number;
+  pages: number;
+  total: number;
+}
+
+interface SerpMonth {
+  year: number;
+  month: number;
+  count: number;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+const emptyPage = { items: [], page: 1, pages: 0, total: 0 };
+
+// Pager shown under the user and classroom lists
+const Pager = ({ page, pages, onChange }: { page: number; pages: number; onChange: (page: number) => void }) =>
+  pages > 1 ? (
+    <div className="flex items-center justify-end gap-3 mt-4 text-sm text-muted-foreground">
+      <CustomButton size="sm" variant="outline" disabled={page <= 1} onClick={() => onChange(page - 1)}>Previous</CustomButton>
+      <span>Page {page} of {pages}</span>
+      <CustomButton size="sm" variant="outline" disabled={page >= pages} onClick={() => onChange(page + 1)}>Next</CustomButton>
+    </div>
+  ) : null;
+
+const AdminDashboard = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [overview, setOverview] = useState<Overview | null>(null);
+
+  // Users tab
+  const [users, setUsers] = useState<Page<AdminUser>>(emptyPage);
+  const [userSearch, setUserSearch] = useState('');
+  const [userQuery, setUserQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [userPage, setUserPage] = useState(1);
+  const [userToSuspend, setUserToSuspend] = useState<AdminUser | null>(null);
+  const [suspensionReason, setSuspensionReason] = useState('');
+
+  // Classrooms tab
+  const [classrooms, setClassrooms] = useState<Page<AdminClassroom>>(emptyPage);
+  const [classroomSearch, setClassroomSearch] = useState('');
+  const [classroomQuery, setClassroomQuery] = useState('');
+  const [orphanedOnly, setOrphanedOnly] = useState(false);
+  const [classroomPage, setClassroomPage] = useState(1);
+  const [classroomToTransfer, setClassroomToTransfer] = useState<AdminClassroom | null>(null);
+  const [newOwnerEmail, setNewOwnerEmail] = useState('');
+  const [keepPreviousOwner, setKeepPreviousOwner] = useState(true);
+
+  const [serpUsage, setSerpUsage] = useState<{ limit: number; months: SerpMonth[] } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/admin/overview`, { headers: authHeaders() });
+      setOverview(response.data);
+    } catch (error) {
+      console.error("Error fetching admin overview:", error);
+      toast({ title: "Error", description: errorMessage(error, "Failed to load platform totals."), variant: "destructive" });
+    }
+  }, [toast]);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/admin/users`, {
+        headers: authHeaders(),
+        params: {
+          search: userQuery || undefined,
+          role: roleFilter === 'all' ? undefined : roleFilter,
+          status: statusFilter === 'all' ? undefined : statusFilter,
+          page: userPage,
+        },
+      });
+      setUsers({ items: response.data.users, page: response.data.page, pages: response.data.pages, total: response.data.total });
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      toast({ title: "Error", description: errorMessage(error, "Failed to load users."), variant: "destructive" });
+    }
+  }, [toast, userQuery, roleFilter, statusFilter, userPage]);
+
+  const fetchClassrooms = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/admin/classrooms`, {
+        headers: authHeaders(),
+        params: {
+          search: classroomQuery || undefined,
+          orphaned: orphanedOnly ? 'true' : undefined,
+          page: classroomPage,
+        },
+      });
+      setClassrooms({ items: response.data.classrooms, page: response.data.page, pages: response.data.pages, total: response.data.total });
+    } catch (error) {
+      console.error("Error fetching classrooms:", error);
+      toast({ title: "Error", description: errorMessage(error, "Failed to load classrooms."), variant: "destructive" });
+    }
+  }, [toast, classroomQuery, orphanedOnly, classroomPage]);
+
+  const fetchSerpUsage = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/admin/serp-usage`, { headers: authHeaders() });
+      setSerpUsage(response.data);
+    } catch (error) {
+      console.error("Error fetching SerpAPI usage:", error);
+      toast({ title: "Error", description: errorMessage(error, "Failed to load SerpAPI usage."), variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    fetchOverview();
+    fetchSerpUsage();
+  }, [fetchOverview, fetchSerpUsage]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  useEffect(() => {
+    fetchClassrooms();
+  }, [fetchClassrooms]);
+
+  const suspendUser = async () => {
+    if (!userToSuspend) return;
+    setIsSaving(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/admin/users/${userToSuspend.id}/suspend`,
+        { reason: suspensionReason },
+        { headers: authHeaders() }
+      );
+      toast({ title: "Account suspended", description: response.data.message });
+      setUserToSuspend(null);
+      setSuspensionReason('');
+      fetchUsers();
+      fetchOverview();
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to suspend the account."), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reactivateUser = async (target: AdminUser) => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/api/admin/users/${target.id}/reactivate`, {}, { headers: authHeaders() });
+      toast({ title: "Account reactivated", description: response.data.message });
+      fetchUsers();
+      fetchOverview();
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to reactivate the account."), variant: "destructive" });
+    }
+  };
+
+  const transferClassroom = async () => {
+    if (!classroomToTransfer || !newOwnerEmail.trim()) return;
+    setIsSaving(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/admin/classrooms/${classroomToTransfer.id}/transfer`,
+        { newOwnerEmail: newOwnerEmail.trim(), keepPreviousOwner },
+        { headers: authHeaders() }
+      );
+      toast({ title: "Ownership transferred", description: response.data.message });
+      setClassroomToTransfer(null);
+      setNewOwnerEmail('');
+      fetchClassrooms();
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to transfer the classroom."), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const statCards = overview ? [
+    { label: 'Teachers', value: overview.users.teacher, icon: <Users className="h-5 w-5 text-veri" /> },
+    { label: 'Students', value: overview.users.student, icon: <Users className="h-5 w-5 text-veri" /> },
+    { label: 'Classrooms', value: overview.classrooms, icon: <School className="h-5 w-5 text-veri" /> },
+    { label: 'Suspended', value: overview.suspended, icon: <UserX className="h-5 w-5 text-veri" /> },
+  ] : [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+
+      <main className="flex-grow container max-w-6xl mx-auto pt-28 pb-16 px-6">
+        <div className="mb-10">
+          <h1 className="text-3xl md:text-4xl font-bold mb-2">Admin Console</h1>
+          <p className="text-muted-foreground">Platform usage, accounts and classroom ownership.</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-10">
+          {statCards.map(card => (
+            <GlassmorphismCard key={card.label} className="p-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-veri/10 rounded-full">{card.icon}</div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">{card.label}</p>
+                  <h3 className="text-2xl font-bold">{card.value}</h3>
+                </div>
+              </div>
+            </GlassmorphismCard>
+          ))}
+        </div>
+
+        <Tabs defaultValue="users">
+          <TabsList className="mb-6">
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="classrooms">Classrooms</TabsTrigger>
+            <TabsTrigger value="serp">SerpAPI Usage</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="users">
+            <GlassmorphismCard className="shadow-lg" intensity="medium">
+              <form
+                className="flex flex-col md:flex-row gap-3 mb-6"
+                onSubmit={(e) => { e.preventDefault(); setUserPage(1); setUserQuery(userSearch.trim()); }}
+              >
+                <Input
+                  placeholder="Search by name or email"
+                  value={userSearch}
+                  onChange={(e) => setUserSearch(e.target.value)}
+                  className="md:flex-1"
+                />
+                <Select value={roleFilter} onValueChange={(value) => { setRoleFilter(value); setUserPage(1); }}>
+                  <SelectTrigger className="md:w-40"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All roles</SelectItem>
+                    <SelectItem value="teacher">Teachers</SelectItem>
+                    <SelectItem value="student">Students</SelectItem>
+                    <SelectItem value="admin">Admins</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setUserPage(1); }}>
+                  <SelectTrigger className="md:w-40"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any status</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="suspended">Suspended</SelectItem>
+                  </SelectContent>
+                </Select>
+                <CustomButton type="submit" icon={<Search className="h-4 w-4" />}>Search</CustomButton>
+              </form>
+
+              {users.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-10">No users match these filters.</p>
+              ) : (
+                <div className="space-y-3">
+                  {users.items.map(account => (
+                    <div key={account.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary/30 rounded-lg border border-border">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {account.name}
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-veri/10 text-veri capitalize">{account.role}</span>
+                          {account.suspendedAt && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">Suspended</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {account.email} · joined {format(new Date(account.createdAt), 'MMM d, yyyy')}
+                          {account.suspensionReason && ` · ${account.suspensionReason}`}
+                        </p>
+                      </div>
+                      {account.id !== user?._id && (
+                        account.suspendedAt ? (
+                          <CustomButton size="sm" variant="success" icon={<ShieldCheck className="h-4 w-4" />} onClick={() => reactivateUser(account)}>
+                            Reactivate
+                          </CustomButton>
+                        ) : (
+                          <CustomButton size="sm" variant="outline" icon={<ShieldOff className="h-4 w-4" />} onClick={() => setUserToSuspend(account)}>
+                            Suspend
+                          </CustomButton>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Pager page={users.page} pages={users.pages} onChange={setUserPage} />
+            </GlassmorphismCard>
+          </TabsContent>
+
+          <TabsContent value="classrooms">
+            <GlassmorphismCard className="shadow-lg" intensity="medium">
+              <form
+                className="flex flex-col md:flex-row md:items-center gap-3 mb-6"
+                onSubmit={(e) => { e.preventDefault(); setClassroomPage(1); setClassroomQuery(classroomSearch.trim()); }}
+              >
+                <Input
+                  placeholder="Search by name or class code"
+                  value={classroomSearch}
+                  onChange={(e) => setClassroomSearch(e.target.value)}
+                  className="md:flex-1"
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={orphanedOnly}
+                    onChange={(e) => { setOrphanedOnly(e.target.checked); setClassroomPage(1); }}
+                    className="h-4 w-4 text-veri"
+                  />
+                  Orphaned only
+                </label>
+                <CustomButton type="submit" icon={<Search className="h-4 w-4" />}>Search</CustomButton>
+              </form>
+
+              {classrooms.items.length === 0 ? (
+                <p className="text-muted-foreground text-center py-10">No classrooms match these filters.</p>
+              ) : (
+                <div className="space-y-3">
+                  {classrooms.items.map(classroom => (
+                    <div key={classroom.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-secondary/30 rounded-lg border border-border">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {classroom.name}
+                          <span className="ml-2 text-xs text-muted-foreground">{classroom.classCode}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {classroom.owner
+                            ? `${classroom.owner.name} (${classroom.owner.email})${classroom.owner.suspended ? ' · owner suspended' : ''}`
+                            : 'Owner account deleted'}
+                          {` · ${classroom.students} students · ${classroom.assignments} assignments · ${classroom.staff} staff`}
+                        </p>
+                      </div>
+                      <CustomButton
+                        size="sm"
+                        variant="outline"
+                        icon={<ArrowRightLeft className="h-4 w-4" />}
+                        onClick={() => { setClassroomToTransfer(classroom); setKeepPreviousOwner(!!classroom.owner && !classroom.owner.suspended); }}
+                      >
+                        Transfer Ownership
+                      </CustomButton>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Pager page={classrooms.page} pages={classrooms.pages} onChange={setClassroomPage} />
+            </GlassmorphismCard>
+          </TabsContent>
+
+          <TabsContent value="serp">
+            <GlassmorphismCard className="shadow-lg" intensity="medium">
+              <h3 className="text-lg font-semibold mb-4 flex items-center">
+                <Globe size={18} className="mr-2 text-veri" /> Online check searches per month
+              </h3>
+              {!serpUsage || serpUsage.months.length === 0 ? (
+                <p className="text-muted-foreground text-center py-10">No online checks have been run yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {serpUsage.months.map(m => (
+                    <div key={`${m.year}-${m.month}`}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{format(new Date(m.year, m.month - 1), 'MMMM yyyy')}</span>
+                        <span className="text-muted-foreground">{m.count} / {serpUsage.limit}</span>
+                      </div>
+                      <Progress value={Math.min((m.count / serpUsage.limit) * 100, 100)} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </GlassmorphismCard>
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Dialog open={!!userToSuspend} onOpenChange={(open) => !open && setUserToSuspend(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Suspend {userToSuspend?.name}?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            They will be signed out of every device and cannot sign in until the account is reactivated.
+          </p>
+          <Input
+            placeholder="Reason (optional, shown to admins)"
+            value={suspensionReason}
+            onChange={(e) => setSuspensionReason(e.target.value)}
+          />
+          <DialogFooter>
+            <CustomButton variant="outline" onClick={() => setUserToSuspend(null)}>Cancel</CustomButton>
+            <CustomButton variant="destructive" loading={isSaving} onClick={suspendUser}>Suspend Account</CustomButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!classroomToTransfer} onOpenChange={(open) => !open && setClassroomToTransfer(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer {classroomToTransfer?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            The new owner must have a teacher account. The classroom's corpus moves with it.
+          </p>
+          <Input
+            type="email"
+            placeholder="New owner's email"
+            value={newOwnerEmail}
+            onChange={(e) => setNewOwnerEmail(e.target.value)}
+          />
+          {classroomToTransfer?.owner && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={keepPreviousOwner}
+                onChange={(e) => setKeepPreviousOwner(e.target.checked)}
+                className="h-4 w-4 text-veri"
+              />
+              Keep {classroomToTransfer.owner.name} as a co-teacher
+            </label>
+          )}
+          <DialogFooter>
+            <CustomButton variant="outline" onClick={() => setClassroomToTransfer(null)}>Cancel</CustomButton>
+            <CustomButton loading={isSaving} disabled={!newOwnerEmail.trim()} onClick={transferClassroom}>Transfer</CustomButton>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminDashboard;
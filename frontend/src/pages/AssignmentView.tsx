@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Calendar, Users, ArrowLeft, FileText, Download, Eye, BarChart } from 'lucide-react';
+import { Calendar, Users, ArrowLeft, FileText, Download, Eye, BarChart, ExternalLink, History, Award } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 import Navbar from '@/components/Navbar';
@@ -9,7 +9,24 @@ import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import Footer from '@/components/Footer';
 import PlagiarismReportModal from '@/components/PlagiarismReportModal';
 import ExtractedTextModal from '@/components/ExtractedTextModal';
+import LshSettingsPanel from '@/components/LshSettingsPanel';
+import CorpusSettingsPanel from '@/components/CorpusSettingsPanel';
+import AttemptSettingsPanel from '@/components/AttemptSettingsPanel';
+import AttemptHistoryModal from '@/components/AttemptHistoryModal';
+import EditHistoryPanel, { AssignmentEdit } from '@/components/EditHistoryPanel';
+import LatePolicyPanel, { LatePolicy } from '@/components/LatePolicyPanel';
+import ExtensionsPanel from '@/components/ExtensionsPanel';
+import GradingPanel from '@/components/GradingPanel';
+import RubricPanel from '@/components/RubricPanel';
+import GradeDrawer from '@/components/GradeDrawer';
+import { MatchedPassage } from '@/components/PassageComparison';
+import JobProgress from '@/components/JobProgress';
+import { useJobProgress, PlagiarismJob } from '@/hooks/useJobProgress';
 import { format } from 'date-fns';
+import { ClassroomPermission } from '@/lib/classroomRoles';
+import { DEFAULT_GRADING, Grade, GradingScheme, formatMarks } from '@/lib/grading';
+import { Annotation } from '@/lib/annotations';
+import { openBlob } from '@/lib/download';
 
 // IMPORTANT: Replace 'fetch' with your custom 'api' instance from '@/lib/api'
 // import api from '@/lib/api'; // <--- Make sure you have this import
@@ -24,6 +41,16 @@ interface MatchDetail {
     email?: string;
 }
 
+// Where a match was found: this assignment, the teacher's prior-submissions corpus or reference library
+interface MatchSource {
+    sourceType?: 'classmate' | 'corpus' | 'reference';
+    corpusEntryId?: string | null;
+    referenceDocumentId?: string | null;
+    sourceAssignmentTitle?: string | null;
+    sourceClassroomName?: string | null;
+    sourceTerm?: string | null;
+}
+
 interface StudentSubmissionBackend {
     studentId: string; // This is the actual student's User ID
     name: string;
@@ -32,26 +59,34 @@ interface StudentSubmissionBackend {
     submittedDate: string | null;
     fileName: string;
     fileSize: number;
+    hasOriginalFile: boolean;
+    attemptCount: number;
+    checkedAttempt: number | null;
     extractedText: string | null;
     plagiarismPercent: number | string;
     wordCount: number;
     isChecked: boolean; // Indicates if plagiarism check has been run and results are available
     late: boolean;
+    latePenalty?: number;
+    extensionDeadline: string | null;
     teacherRemark: string; // ADDED: Teacher's remark from backend
+    grade?: Grade | null;
+    annotations?: Annotation[];
     minHashSignature: number[];
-    topMatches: {
+    topMatches: (MatchSource & {
         matchedStudentId: string;
         matchedText: string;
         plagiarismPercent: number;
+        passages?: MatchedPassage[];
         name?: string;
         email?: string;
-    }[];
-    allMatches: {
+    })[];
+    allMatches: (MatchSource & {
         matchedStudentId: string;
         plagiarismPercent: number;
         name?: string;
         email?: string;
-    }[];
+    })[];
 }
 
 interface Student {
@@ -59,25 +94,44 @@ interface Student {
     name: string;
     email: string;
     submissionDate: Date | null;
+    late: boolean; // Against the student's own deadline (extensions)
+    latePenalty: number; // Percent deducted for lateness
+    extensionDeadline: Date | null;
     documentName: string | null;
+    hasOriginalFile: boolean; // The uploaded document itself is stored and can be opened
+    attemptCount: number;
+    checkedAttempt: number | null; // Attempt pinned for checking; null = latest
     plagiarismScore: number | null;
     reportGenerated: boolean; // Based on isChecked from backend
     extractedText: string | null;
     wordCount: number;
-    topMatches: {
+    topMatches: (MatchSource & {
         matchedStudentId: string;
         matchedText: string;
         plagiarismPercent: number;
+        passages?: MatchedPassage[];
         name?: string;
         email?: string;
-    }[];
-    allMatches: {
+    })[];
+    allMatches: (MatchSource & {
         matchedStudentId: string;
         plagiarismPercent: number;
         name?: string;
         email?: string;
-    }[];
+    })[];
     teacherRemark: string; // ADDED: Teacher's remark for display and passing to modal
+    grade: Grade | null;
+    annotations: Annotation[]; // On the assessed attempt's text
+}
+
+// Result of a finished classroom plagiarism check job
+interface CheckResult {
+    message: string;
+    totalPairs: number;
+    pairsEvaluated: number;
+    pairsPruned: number;
+    corpus: { corpusSize: number; matchesFound: number } | null;
+    referencesMatched: number;
 }
 
 interface Assignment {
@@ -87,6 +141,11 @@ interface Assignment {
     type: 'Assignment' | 'Exam';
     description?: string;
     canSubmitLate: boolean;
+    latePolicy: LatePolicy;
+    maxAttempts: number | null;
+    grading: GradingScheme;
+    permissions: ClassroomPermission[]; // What the viewer's classroom role allows
+    editHistory: AssignmentEdit[];
 }
 
 interface Course {
@@ -139,6 +198,8 @@ const AssignmentView = () => {
     const [selectedStudentForReport, setSelectedStudentForReport] = useState<(Student & { assignmentId: string }) | null>(null);
     const [showExtractedTextModal, setShowExtractedTextModal] = useState(false);
     const [selectedStudentForExtractedText, setSelectedStudentForExtractedText] = useState<Student | null>(null);
+    const [selectedStudentForHistory, setSelectedStudentForHistory] = useState<Student | null>(null);
+    const [selectedStudentForGrading, setSelectedStudentForGrading] = useState<Student | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
@@ -210,6 +271,11 @@ const AssignmentView = () => {
                 type: data.assignmentType,
                 description: data.description,
                 canSubmitLate: data.canSubmitLate ?? true,
+                latePolicy: data.latePolicy,
+                maxAttempts: data.maxAttempts ?? null,
+                grading: data.grading || DEFAULT_GRADING,
+                permissions: data.permissions || [],
+                editHistory: data.editHistory || [],
             });
 
             // --- FIX: Ensure course name is correctly extracted ---
@@ -227,7 +293,13 @@ const AssignmentView = () => {
                 name: sub.name,
                 email: sub.email,
                 submissionDate: sub.submittedDate ? new Date(sub.submittedDate) : null,
+                late: !!sub.late,
+                latePenalty: sub.latePenalty || 0,
+                extensionDeadline: sub.extensionDeadline ? new Date(sub.extensionDeadline) : null,
                 documentName: sub.fileName,
+                hasOriginalFile: !!sub.hasOriginalFile,
+                attemptCount: sub.attemptCount || 0,
+                checkedAttempt: sub.checkedAttempt ?? null,
                 plagiarismScore: typeof sub.plagiarismPercent === 'number' ? sub.plagiarismPercent : null,
                 reportGenerated: sub.isChecked,
                 extractedText: sub.extractedText,
@@ -235,6 +307,8 @@ const AssignmentView = () => {
                 topMatches: sub.topMatches || [],
                 allMatches: sub.allMatches || [],
                 teacherRemark: sub.teacherRemark || '', // Ensure remark is initialized
+                grade: sub.grade || null,
+                annotations: sub.annotations || [],
             }));
             setStudents(mappedStudents);
 
@@ -255,6 +329,36 @@ const AssignmentView = () => {
         fetchAssignmentDetails();
     }, [fetchAssignmentDetails]);
 
+    // Plagiarism checks run as background jobs; follow their progress and refresh when done
+    const { job: checkJob, isRunning: isCheckJobRunning, trackJob, resumeActiveJob } = useJobProgress<CheckResult>({
+        onSucceeded: (job: PlagiarismJob<CheckResult>) => {
+            const data = job.result;
+            toast({
+                title: "Plagiarism check complete",
+                description: data && data.totalPairs !== undefined
+                    ? `Compared ${data.pairsEvaluated} of ${data.totalPairs} pairs (${data.pairsPruned} pruned by LSH).` +
+                      (data.corpus ? ` ${data.corpus.matchesFound} matches found in ${data.corpus.corpusSize} prior submissions.` : '') +
+                      (data.referencesMatched ? ` ${data.referencesMatched} reference documents matched.` : '')
+                    : data?.message || "Reports have been generated for submitted assignments.",
+                variant: "success",
+            });
+            fetchAssignmentDetails(); // Re-fetch to get updated plagiarism percentages and flags
+        },
+        onFailed: (job: PlagiarismJob<CheckResult>) => {
+            setError(job.error || "An unexpected error occurred during plagiarism check.");
+            toast({
+                title: "Plagiarism Check Failed",
+                description: job.error || "Failed to complete plagiarism check.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    // A check started before a reload keeps running on the server; pick its progress back up
+    useEffect(() => {
+        if (assignmentId) resumeActiveJob({ assignmentId });
+    }, [assignmentId, resumeActiveJob]);
+
     // Handler to update a student's remark in the local state
     const handleRemarkUpdated = useCallback(async (studentId: string, newRemark: string) => { // Made async
         setStudents(prevStudents =>
@@ -301,7 +405,7 @@ const AssignmentView = () => {
 
             toast({
                 title: "Plagiarism check initiated",
-                description: "Sending request to generate reports for all submitted assignments...",
+                description: "Queuing report generation for all submitted assignments...",
                 variant: "default",
             });
 
@@ -315,6 +419,14 @@ const AssignmentView = () => {
                 },
             });
 
+            // A check that is already running is followed instead of started twice
+            if (response.status === 409) {
+                const conflict = await response.json();
+                toast({ title: "Check already running", description: "Showing the progress of the running check.", variant: "info" });
+                trackJob(conflict.jobId);
+                return;
+            }
+
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({ message: response.statusText }));
                 let errorMessage = `Failed to initiate plagiarism check: ${errorData.error || errorData.message || 'Invalid request'}`;
@@ -331,14 +443,9 @@ const AssignmentView = () => {
                 throw new Error(errorMessage);
             }
 
+            // The check runs as a background job; results arrive through useJobProgress
             const data = await response.json();
-            toast({
-                title: "Plagiarism check complete",
-                description: data.message || "Reports have been generated for submitted assignments.",
-                variant: "success",
-            });
-
-            await fetchAssignmentDetails(); // Re-fetch to get updated plagiarism percentages and flags
+            trackJob(data.jobId);
 
         } catch (err) {
             console.error("Error during plagiarism check:", err);
@@ -419,6 +526,13 @@ const AssignmentView = () => {
     };
 
 
+    // Keeps a student's annotations current in the table and in any open modal
+    const handleAnnotationsChange = (studentUserId: string, annotations: Annotation[]) => {
+        setStudents(prev => prev.map(s => (s.studentUserId === studentUserId ? { ...s, annotations } : s)));
+        setSelectedStudentForReport(prev => (prev && prev.studentUserId === studentUserId ? { ...prev, annotations } : prev));
+        setSelectedStudentForExtractedText(prev => (prev && prev.studentUserId === studentUserId ? { ...prev, annotations } : prev));
+    };
+
     // Handler for viewing the full plagiarism report
     const handleViewReport = (student: Student) => {
         if (!student.reportGenerated) {
@@ -429,9 +543,17 @@ const AssignmentView = () => {
             });
             return;
         }
-        // Pass the assignmentId along with the student data
+        // Pass the assignmentId along with the student data, and attach each matched
+        // classmate's text so the modal can show the aligned passages side by side
+        // (corpus and reference text is loaded by the modal itself)
         if (assignmentId) {
-            setSelectedStudentForReport({ ...student, assignmentId: assignmentId });
+            const topMatches = student.topMatches.map(match => ({
+                ...match,
+                matchedFullText: match.sourceType === 'corpus' || match.sourceType === 'reference'
+                    ? null
+                    : students.find(s => s.studentUserId === match.matchedStudentId)?.extractedText ?? null,
+            }));
+            setSelectedStudentForReport({ ...student, topMatches, assignmentId: assignmentId });
             setShowReportModal(true);
         } else {
             toast({
@@ -442,6 +564,34 @@ const AssignmentView = () => {
         }
     };
 
+    // Opens the student's original document (formatting, images, handwriting) in a new tab;
+    // types that cannot be previewed safely are downloaded instead
+    const handleOpenOriginalFile = async (student: Student) => {
+        try {
+            const token = localStorage.getItem('token');
+            if (!token) {
+                throw new Error("Authentication token not found. Please log in.");
+            }
+
+            const response = await fetch(`${API_BASE_URL}/api/assignment/submission-file/${assignmentId}/${student.studentUserId}`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ error: response.statusText }));
+                throw new Error(errorData.error || "Failed to open the submitted file.");
+            }
+
+            openBlob(await response.blob(), student.documentName || 'submission', response.headers.get('Content-Type') || undefined);
+        } catch (err) {
+            console.error("Error opening submitted file:", err);
+            toast({
+                title: "Could not open file",
+                description: (err as Error).message,
+                variant: "destructive",
+            });
+        }
+    };
+
     // Handler for viewing just the extracted text
     const handleViewExtractedText = (student: Student) => {
         // Only allow viewing extracted text if a submission exists and text was extracted.
@@ -522,6 +672,7 @@ const AssignmentView = () => {
     const submittedCount = students.filter(s => s.submissionDate).length;
     const pendingCount = students.length - submittedCount;
     const checkedCount = students.filter(s => s.reportGenerated).length;
+    const gradedCount = students.filter(s => s.grade).length;
 
     return (
         <div className="min-h-screen flex flex-col">
@@ -604,18 +755,84 @@ const AssignmentView = () => {
                         </div>
                     </GlassmorphismCard>
 
+                    {/* Assignment settings are limited to owners and co-teachers */}
+                    {assignment.permissions.includes('manageAssignments') && (
+                        <div className="mb-8 space-y-4">
+                            <LshSettingsPanel assignmentId={assignment.id} />
+                            <CorpusSettingsPanel assignmentId={assignment.id} />
+                            <AttemptSettingsPanel
+                                assignmentId={assignment.id}
+                                maxAttempts={assignment.maxAttempts}
+                                onSaved={(maxAttempts) => setAssignment({ ...assignment, maxAttempts })}
+                            />
+                            <LatePolicyPanel
+                                assignmentId={assignment.id}
+                                latePolicy={assignment.latePolicy}
+                                onSaved={fetchAssignmentDetails}
+                            />
+                        </div>
+                    )}
+
+                    <div className="mb-8">
+                        <ExtensionsPanel
+                            assignmentId={assignment.id}
+                            deadline={assignment.deadline}
+                            students={students}
+                            canManage={assignment.permissions.includes('manageAssignments')}
+                            onChanged={fetchAssignmentDetails}
+                        />
+                    </div>
+
+                    <div className="mb-8">
+                        <GradingPanel
+                            assignmentId={assignment.id}
+                            grading={assignment.grading}
+                            gradedCount={gradedCount}
+                            submittedCount={submittedCount}
+                            canManage={assignment.permissions.includes('manageAssignments')}
+                            canGrade={assignment.permissions.includes('grade')}
+                            onSaved={(grading) => setAssignment({ ...assignment, grading })}
+                        />
+                    </div>
+
+                    {(assignment.grading.rubric || assignment.permissions.includes('manageAssignments')) && (
+                        <div className="mb-8">
+                            <RubricPanel
+                                assignmentId={assignment.id}
+                                grading={assignment.grading}
+                                locked={gradedCount > 0}
+                                canManage={assignment.permissions.includes('manageAssignments')}
+                                onSaved={(grading) => setAssignment({ ...assignment, grading })}
+                            />
+                        </div>
+                    )}
+
+                    {assignment.editHistory.length > 0 && (
+                        <div className="mb-8">
+                            <EditHistoryPanel edits={assignment.editHistory} />
+                        </div>
+                    )}
+
                     <div className="mb-6 flex items-center justify-between">
                         <h2 className="text-xl font-bold">Student Submissions</h2>
-                        <CustomButton
-                            onClick={handleCheckAllPlagiarism}
-                            loading={isCheckingAllPlagiarism}
-                            disabled={isCheckingAllPlagiarism}
-                            icon={<BarChart className="h-4 w-4" />}
-                        >
-                            {isCheckingAllPlagiarism ? 'Checking All...' : 'Check All Plagiarism'}
-                        </CustomButton>
+                        {assignment.permissions.includes('grade') && (
+                            <CustomButton
+                                onClick={handleCheckAllPlagiarism}
+                                loading={isCheckingAllPlagiarism || isCheckJobRunning}
+                                disabled={isCheckingAllPlagiarism || isCheckJobRunning}
+                                icon={<BarChart className="h-4 w-4" />}
+                            >
+                                {isCheckingAllPlagiarism || isCheckJobRunning ? 'Checking All...' : 'Check All Plagiarism'}
+                            </CustomButton>
+                        )}
                     </div>
 
+                    {isCheckJobRunning && checkJob && (
+                        <GlassmorphismCard className="mb-6 p-4">
+                            <JobProgress status={checkJob.status} progress={checkJob.progress} stages={checkJob.stages} />
+                        </GlassmorphismCard>
+                    )}
+
                     <div className="overflow-x-auto">
                         <div className="inline-block min-w-full align-middle">
                             <div className="overflow-hidden border border-border rounded-lg">
@@ -634,6 +851,9 @@ const AssignmentView = () => {
                                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                                                 Plagiarism
                                             </th>
+                                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                                Grade
+                                            </th>
                                             <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
                                                 Actions
                                             </th>
@@ -647,6 +867,11 @@ const AssignmentView = () => {
                                                         <div>
                                                             <div className="text-sm font-medium">{student.name}</div>
                                                             <div className="text-xs text-muted-foreground">{student.email}</div>
+                                                            {student.extensionDeadline && (
+                                                                <div className="text-xs text-blue-500">
+                                                                    Extended to {format(student.extensionDeadline, 'MMM d, p')}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </td>
@@ -658,11 +883,11 @@ const AssignmentView = () => {
                                                             </span>
                                                             <div className="text-xs text-muted-foreground mt-1">
                                                                 {format(student.submissionDate, 'MMM d,yyyy')}
-                                                                {/* --- ADDED: Display (Late) if applicable and assignment allows --- */}
-                                                                {assignment.canSubmitLate && student.submissionDate > assignment.deadline && (
-                                                                    <span className="text-red-500 ml-1">(Late)</span>
+                                                                {student.late && (
+                                                                    <span className="text-red-500 ml-1">
+                                                                        (Late{student.latePenalty > 0 && `, −${student.latePenalty}%`})
+                                                                    </span>
                                                                 )}
-                                                                {/* --- END ADDED --- */}
                                                             </div>
                                                         </div>
                                                     ) : (
@@ -674,15 +899,37 @@ const AssignmentView = () => {
                                                 <td className="px-6 py-4 whitespace-nowrap">
                                                     {/* Conditional rendering for "Submission" (file name) link */}
                                                     {student.documentName && student.documentName !== "No submission" ? (
-                                                        <CustomButton
-                                                            variant="link"
-                                                            size="sm"
-                                                            onClick={() => handleViewExtractedText(student)}
-                                                            className="p-0 h-auto text-sm"
-                                                        >
-                                                            <FileText className="h-4 w-4 mr-1.5 text-muted-foreground" />
-                                                            <span className="truncate max-w-[150px]">{student.documentName}</span>
-                                                        </CustomButton>
+                                                        <div className="flex items-center gap-2">
+                                                            <CustomButton
+                                                                variant="link"
+                                                                size="sm"
+                                                                onClick={() => handleViewExtractedText(student)}
+                                                                className="p-0 h-auto text-sm"
+                                                            >
+                                                                <FileText className="h-4 w-4 mr-1.5 text-muted-foreground" />
+                                                                <span className="truncate max-w-[150px]">{student.documentName}</span>
+                                                            </CustomButton>
+                                                            {student.hasOriginalFile && (
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => handleOpenOriginalFile(student)}
+                                                                    className="inline-flex items-center text-xs text-veri hover:underline"
+                                                                    title="Open the original submitted file"
+                                                                >
+                                                                    <ExternalLink className="h-3.5 w-3.5 mr-1" /> Original
+                                                                </button>
+                                                            )}
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => setSelectedStudentForHistory(student)}
+                                                                className="inline-flex items-center text-xs text-muted-foreground hover:text-foreground hover:underline"
+                                                                title="Submission history and differences between attempts"
+                                                            >
+                                                                <History className="h-3.5 w-3.5 mr-1" />
+                                                                {student.attemptCount} attempt{student.attemptCount === 1 ? '' : 's'}
+                                                                {student.checkedAttempt ? ` (checking #${student.checkedAttempt})` : ''}
+                                                            </button>
+                                                        </div>
                                                     ) : (
                                                         <span className="text-xs text-muted-foreground">No submission</span>
                                                     )}
@@ -690,44 +937,66 @@ const AssignmentView = () => {
                                                 <td className="px-6 py-4 whitespace-nowrap">
                                                     <PlagiarismBadge score={student.plagiarismScore} />
                                                 </td>
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                                    {student.grade ? (
+                                                        <span title={student.grade.latePenalty > 0 ? `${formatMarks(student.grade.score)} before the late penalty` : undefined}>
+                                                            <strong>{formatMarks(student.grade.finalScore)}</strong>
+                                                            <span className="text-muted-foreground">/{formatMarks(student.grade.maxMarks)}</span>
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-xs text-muted-foreground">{student.submissionDate ? 'Not graded' : '—'}</span>
+                                                    )}
+                                                </td>
                                                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                                    {/* Conditional rendering for "Actions" (View/Download plagiarism report buttons) */}
-                                                    {student.submissionDate && student.reportGenerated ? (
-                                                        <div className="flex justify-end gap-2">
+                                                    <div className="flex justify-end items-center gap-2">
+                                                        {student.submissionDate && assignment.permissions.includes('grade') && (
                                                             <CustomButton
                                                                 variant="outline"
                                                                 size="sm"
-                                                                icon={<Eye className="h-3.5 w-3.5" />}
-                                                                onClick={() => handleViewReport(student)}
+                                                                icon={<Award className="h-3.5 w-3.5" />}
+                                                                onClick={() => setSelectedStudentForGrading(student)}
                                                             >
-                                                                View
+                                                                Grade
                                                             </CustomButton>
-                                                            {/* --- HIDE DOWNLOAD REPORT BUTTON --- */}
-                                                            {showDownloadReportButton && ( // Only render if showDownloadReportButton is true
+                                                        )}
+                                                        {/* Conditional rendering for "Actions" (View/Download plagiarism report buttons) */}
+                                                        {student.submissionDate && student.reportGenerated ? (
+                                                            <div className="flex justify-end gap-2">
                                                                 <CustomButton
                                                                     variant="outline"
                                                                     size="sm"
-                                                                    icon={<Download className="h-3.5 w-3.5" />}
-                                                                    onClick={() => handleDownloadPlagiarismPdf(
-                                                                        student.studentUserId,
-                                                                        student.name,
-                                                                        assignment.title
-                                                                    )}
-                                                                    loading={isGeneratingPdf}
-                                                                    disabled={isGeneratingPdf}
+                                                                    icon={<Eye className="h-3.5 w-3.5" />}
+                                                                    onClick={() => handleViewReport(student)}
                                                                 >
-                                                                    {isGeneratingPdf ? 'Downloading...' : 'Download'}
+                                                                    View
                                                                 </CustomButton>
-                                                            )}
-                                                            {/* --- END HIDE --- */}
-                                                        </div>
-                                                    ) : (
-                                                        student.submissionDate ? (
-                                                            <span className="text-xs text-muted-foreground">Report pending</span>
+                                                                {/* --- HIDE DOWNLOAD REPORT BUTTON --- */}
+                                                                {showDownloadReportButton && ( // Only render if showDownloadReportButton is true
+                                                                    <CustomButton
+                                                                        variant="outline"
+                                                                        size="sm"
+                                                                        icon={<Download className="h-3.5 w-3.5" />}
+                                                                        onClick={() => handleDownloadPlagiarismPdf(
+                                                                            student.studentUserId,
+                                                                            student.name,
+                                                                            assignment.title
+                                                                        )}
+                                                                        loading={isGeneratingPdf}
+                                                                        disabled={isGeneratingPdf}
+                                                                    >
+                                                                        {isGeneratingPdf ? 'Downloading...' : 'Download'}
+                                                                    </CustomButton>
+                                                                )}
+                                                                {/* --- END HIDE --- */}
+                                                            </div>
                                                         ) : (
-                                                            <span className="text-xs text-muted-foreground italic">Not submitted</span>
-                                                        )
-                                                    )}
+                                                            student.submissionDate ? (
+                                                                <span className="text-xs text-muted-foreground">Report pending</span>
+                                                            ) : (
+                                                                <span className="text-xs text-muted-foreground italic">Not submitted</span>
+                                                            )
+                                                        )}
+                                                    </div>
                                                 </td>
                                             </tr>
                                         ))}
@@ -749,6 +1018,8 @@ const AssignmentView = () => {
                     onDownloadReport={() => handleDownloadPlagiarismPdf(selectedStudentForReport.studentUserId, selectedStudentForReport.name, assignment.title)}
                     isGeneratingPdf={isGeneratingPdf}
                     onRemarkUpdated={handleRemarkUpdated} // ADDED: Pass the callback here
+                    canAnnotate={assignment.permissions.includes('grade')}
+                    onAnnotationsChange={handleAnnotationsChange}
                 />
             )}
 
@@ -756,11 +1027,35 @@ const AssignmentView = () => {
             {showExtractedTextModal && selectedStudentForExtractedText && assignment && (
                 <ExtractedTextModal
                     student={selectedStudentForExtractedText}
+                    assignmentId={assignment.id}
                     assignmentTitle={assignment.title}
+                    canAnnotate={assignment.permissions.includes('grade')}
+                    onAnnotationsChange={handleAnnotationsChange}
                     onClose={() => setShowExtractedTextModal(false)}
                 />
             )}
 
+            {assignment && (
+                <GradeDrawer
+                    assignmentId={assignment.id}
+                    grading={assignment.grading}
+                    student={selectedStudentForGrading}
+                    onClose={() => setSelectedStudentForGrading(null)}
+                    onSaved={(studentUserId, grade) =>
+                        setStudents(prev => prev.map(s => (s.studentUserId === studentUserId ? { ...s, grade } : s)))
+                    }
+                />
+            )}
+
+            {selectedStudentForHistory && assignment && (
+                <AttemptHistoryModal
+                    assignmentId={assignment.id}
+                    student={selectedStudentForHistory}
+                    onClose={() => setSelectedStudentForHistory(null)}
+                    onAssessedAttemptChange={fetchAssignmentDetails}
+                />
+            )}
+
             <Footer />
         </div>
     );
@@ -4,14 +4,16 @@ import { useNavigate } from 'react-router-dom';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
-import { BookOpen, GraduationCap } from 'lucide-react';
+import { BookOpen, GraduationCap, KeyRound } from 'lucide-react';
 import ForgotPasswordModal from '@/components/auth/ForgotPasswordModal';
 import AuthForm from '@/components/AuthForm';
+import CustomButton from '@/components/ui/CustomButton';
+import api from '@/lib/api';
 
 type AuthMode = 'signin' | 'signup';
 
 const Auth = () => {
-  const { isAuthenticated, login, signup, isLoading } = useAuth();
+  const { isAuthenticated, login, signup, ssoLogin, isLoading } = useAuth();
   const navigate = useNavigate();
   
   const [mode, setMode] = useState<AuthMode>('signin');
@@ -20,11 +22,19 @@ const Auth = () => {
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const [ssoProvider, setSsoProvider] = useState<string | null>(null);
 
   useEffect(() => {
     if (isAuthenticated) navigate('/');
   }, [isAuthenticated, navigate]);
 
+  // Single sign-on is only offered when the backend has a provider configured
+  useEffect(() => {
+    api.get('/api/auth/oidc/config')
+      .then((response) => setSsoProvider(response.data.enabled ? response.data.providerName : null))
+      .catch(() => setSsoProvider(null));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (mode === 'signin') {
@@ -85,6 +95,30 @@ const Auth = () => {
               onSubmit={handleSubmit}
               onForgotPassword={() => setIsForgotPasswordOpen(true)}
             />
+
+            {ssoProvider && (
+              <div className="mt-6">
+                <div className="flex items-center gap-3 mb-4 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  or
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+                <CustomButton
+                  type="button"
+                  variant="outline"
+                  fullWidth
+                  icon={<KeyRound size={18} />}
+                  onClick={ssoLogin}
+                >
+                  Continue with {ssoProvider}
+                </CustomButton>
+                {mode === 'signup' && (
+                  <p className="text-xs text-muted-foreground mt-2 text-center">
+                    New accounts choose their role after signing in.
+                  </p>
+                )}
+              </div>
+            )}
           </GlassmorphismCard>
         </div>
       </main>
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BookOpen, GraduationCap } from 'lucide-react';
+import { useAuth, UserRole } from '@/context/AuthContext';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import CustomButton from '@/components/ui/CustomButton';
+
+// Return page of single sign-on (/auth/callback?ticket=...). Existing accounts are signed in
+// straight away; first-time users pick a role, which creates their account.
+const AuthCallback = () => {
+  const { completeSsoLogin, isLoading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const ticket = searchParams.get('ticket');
+  const needsRole = searchParams.get('needsRole') === 'true';
+
+  const [role, setRole] = useState<UserRole>('teacher');
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    // Tickets are single use, so exchange only once (effects run twice in development)
+    if (!ticket || needsRole || exchanged.current) return;
+    exchanged.current = true;
+    completeSsoLogin(ticket).catch((err: Error) => setError(err.message));
+  }, [ticket, needsRole, completeSsoLogin]);
+
+  const handleContinue = async () => {
+    try {
+      await completeSsoLogin(ticket!, role);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    }
+  };
+
+  const renderContent = () => {
+    if (error || !ticket) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-sm text-destructive">{error || 'This sign-in link is incomplete.'}</p>
+          <Link to="/auth" className="text-sm text-veri hover:underline">
+            Back to Sign In
+          </Link>
+        </div>
+      );
+    }
+
+    if (!needsRole) {
+      return <p className="text-sm text-muted-foreground text-center">Signing you in...</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Welcome, {searchParams.get('name')}! This is your first sign-in with {searchParams.get('email')}.
+          Choose how you will use VeriWrite.
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <button
+            type="button"
+            onClick={() => setRole('teacher')}
+            className={`flex items-center justify-center gap-2 p-3 rounded-lg border ${
+              role === 'teacher' ? 'border-veri bg-veri/10' : 'border-border bg-secondary/30'
+            }`}
+          >
+            <BookOpen size={18} />
+            <span>Teacher</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setRole('student')}
+            className={`flex items-center justify-center gap-2 p-3 rounded-lg border ${
+              role === 'student' ? 'border-veri bg-veri/10' : 'border-border bg-secondary/30'
+            }`}
+          >
+            <GraduationCap size={18} />
+            <span>Student</span>
+          </button>
+        </div>
+        <CustomButton type="button" fullWidth loading={isLoading} onClick={handleContinue}>
+          Create Account
+        </CustomButton>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+      <main className="flex-grow pt-24 pb-16 px-6 relative">
+        <div className="container mx-auto max-w-md relative z-10">
+          <h1 className="text-3xl font-bold mb-8 text-center">
+            {needsRole ? 'Finish Setting Up Your Account' : 'Signing In'}
+          </h1>
+
+          <GlassmorphismCard className="p-8 shadow-xl" intensity="heavy">
+            {renderContent()}
+          </GlassmorphismCard>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -11,6 +11,7 @@ import Navbar from '@/components/Navbar';
 import CustomButton from '@/components/ui/CustomButton';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import { useAuth } from '@/context/AuthContext';
+import { ClassroomRole, ROLE_LABELS } from '@/lib/classroomRoles';
 
 // Interface for classroom/course object
 interface Course {
@@ -21,6 +22,7 @@ interface Course {
   assignments: number;
   color: string;
   classCode?: string; 
+  role?: ClassroomRole; // Teacher's role in the classroom
 }
 
 const Classroom = () => {
@@ -109,6 +111,7 @@ const Classroom = () => {
         assignments: classroom.numAssignments,
         color: getRandomColorClass(),
         classCode: classroom.classCode,
+        role: classroom.role,
       }));
 
       setCourses(fetchedCourses);
@@ -228,6 +231,15 @@ const Classroom = () => {
     });
   };
 
+  // Copy the join link (opens the join page for the class code)
+  const handleCopyJoinLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/join/${classCodeToDisplay}`);
+    toast({
+      title: "Link copied",
+      description: "Join link copied to clipboard",
+    });
+  };
+
   // Prompt student to join a class (future modal logic pending)
   const handleJoinClass = () => {
     toast({
@@ -365,10 +377,14 @@ const Classroom = () => {
                 <CustomButton onClick={handleCopyCode} icon={<Copy className="h-4 w-4" />}>
                   Copy Code
                 </CustomButton>
+                <CustomButton variant="outline" onClick={handleCopyJoinLink} icon={<Copy className="h-4 w-4" />}>
+                  Copy Link
+                </CustomButton>
               </div>
 
               <p className="text-sm text-muted-foreground">
-                Students can use this code to join your course from the "Join Class" option.
+                Students can use this code from the "Join Class" option, or open the join link directly.
+                Expiry, usage limits and approval are set under Manage Students in the course.
               </p>
             </GlassmorphismCard>
           )}
@@ -391,7 +407,14 @@ const Classroom = () => {
                     <GlassmorphismCard className="overflow-hidden h-full flex flex-col">
                       {/* Gradient Header with course info */}
                       <div className={`bg-gradient-to-r ${course.color} p-6`}>
-                        <h3 className="text-xl font-bold mb-1 line-clamp-1">{course.name}</h3>
+                        <div className="flex items-start justify-between gap-2">
+                          <h3 className="text-xl font-bold mb-1 line-clamp-1">{course.name}</h3>
+                          {course.role && course.role !== 'owner' && (
+                            <span className="shrink-0 px-2 py-0.5 text-xs rounded-full bg-veri/10 text-veri">
+                              {ROLE_LABELS[course.role]}
+                            </span>
+                          )}
+                        </div>
                         <p className="text-sm text-muted-foreground line-clamp-2">{course.description}</p>
                       </div>
 
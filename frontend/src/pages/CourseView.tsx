@@ -2,7 +2,7 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   PlusCircle, FileText, Calendar, Users, ArrowLeft,
-  DownloadCloud, Trash2, UserPlus, XCircle
+  DownloadCloud, Trash2, UserPlus, XCircle, ShieldCheck, Pencil, Table2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import axios from 'axios';
@@ -12,7 +12,12 @@ import Navbar from '@/components/Navbar';
 import CustomButton from '@/components/ui/CustomButton';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import ManageStudents from '@/components/ManageStudents';
+import ManageStaff from '@/components/ManageStaff';
+import EditAssignmentDialog, { UpdatedTask } from '@/components/EditAssignmentDialog';
+import GuidelinesEditor from '@/components/GuidelinesEditor';
 import Footer from '@/components/Footer';
+import { ClassroomPermission, ClassroomRole, ROLE_LABELS } from '@/lib/classroomRoles';
+import { EMPTY_SUBMISSION_RULES, SubmissionRules } from '@/lib/submissionRules';
 
 // Define the API base URL from your environment variables
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -27,6 +32,8 @@ interface Assignment {
   description?: string;
   hasFile?: boolean;
   canSubmitLate: boolean; 
+  submissionGuidelines: string[];
+  submissionRules: SubmissionRules;
 }
 
 interface Course {
@@ -37,6 +44,8 @@ interface Course {
   color: string;
   numAssignments?: number;
   numExams?: number;
+  myRole: ClassroomRole;
+  permissions: ClassroomPermission[];
 }
 
 const CourseView = () => {
@@ -53,6 +62,7 @@ const CourseView = () => {
   const [description, setDescription] = useState('');
   const [assignmentFile, setAssignmentFile] = useState<File | null>(null);
   const [showManageStudents, setShowManageStudents] = useState(false);
+  const [showManageStaff, setShowManageStaff] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreatingAssignment, setIsCreatingAssignment] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -66,8 +76,14 @@ const CourseView = () => {
   const [assignmentToDelete, setAssignmentToDelete] = useState<{ id: string; type: 'assignment' | 'exam'; title: string } | null>(null);
   const [isDeletingAssignment, setIsDeletingAssignment] = useState(false); 
 
+  const [assignmentToEdit, setAssignmentToEdit] = useState<Assignment | null>(null);
+
   // NEW STATE FOR CAN SUBMIT LATE OPTION
   const [canSubmitLate, setCanSubmitLate] = useState(true); 
+  // Empty = unlimited resubmissions
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [guidelines, setGuidelines] = useState<string[]>([]);
+  const [submissionRules, setSubmissionRules] = useState<SubmissionRules>(EMPTY_SUBMISSION_RULES);
 
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -108,6 +124,8 @@ const CourseView = () => {
         color: 'from-blue-500/20 to-blue-600/20',
         numAssignments: data.numAssignments,
         numExams: data.numExams,
+        myRole: data.myRole,
+        permissions: data.permissions || [],
       });
 
       const fetchedAssignments: Assignment[] = data.tasks.map((task: any) => {
@@ -122,6 +140,8 @@ const CourseView = () => {
           description: task.description || '',
           hasFile: task.hasFile || false,
           canSubmitLate: task.canSubmitLate, 
+          submissionGuidelines: task.submissionGuidelines || [],
+          submissionRules: task.submissionRules || EMPTY_SUBMISSION_RULES,
         };
       });
       setAssignments(fetchedAssignments.sort((a, b) => b.deadline.getTime() - a.deadline.getTime()));
@@ -183,6 +203,23 @@ const CourseView = () => {
     }
   };
 
+  const handleAssignmentUpdated = (task: UpdatedTask) => {
+    setAssignments(prevAssignments =>
+      prevAssignments
+        .map(a => a.id === task.id ? {
+          ...a,
+          title: task.title,
+          description: task.description || '',
+          deadline: new Date(task.deadline),
+          hasFile: task.hasFile,
+          canSubmitLate: task.canSubmitLate,
+          submissionGuidelines: task.submissionGuidelines,
+          submissionRules: task.submissionRules,
+        } : a)
+        .sort((a, b) => b.deadline.getTime() - a.deadline.getTime())
+    );
+  };
+
   const handleDeleteCourse = () => {
     setShowDeleteConfirmation(true);
   };
@@ -353,6 +390,9 @@ const CourseView = () => {
       formData.append('deadline', assignmentDeadline);
       formData.append('description', description.trim());
       formData.append('canSubmitLate', String(canSubmitLate)); 
+      if (maxAttempts.trim()) formData.append('maxAttempts', maxAttempts.trim());
+      formData.append('submissionGuidelines', JSON.stringify(guidelines.map(g => g.trim()).filter(Boolean)));
+      formData.append('submissionRules', JSON.stringify(submissionRules));
       if (assignmentFile) {
         formData.append('file', assignmentFile);
       }
@@ -379,6 +419,8 @@ const CourseView = () => {
           description: response.data.task.description,
           hasFile: response.data.task.hasFile,
           canSubmitLate: response.data.task.canSubmitLate, 
+          submissionGuidelines: response.data.task.submissionGuidelines || [],
+          submissionRules: response.data.task.submissionRules || EMPTY_SUBMISSION_RULES,
         };
         setAssignments(prevAssignments =>
           [newTask, ...prevAssignments].sort((a, b) => b.deadline.getTime() - a.deadline.getTime())
@@ -398,6 +440,9 @@ const CourseView = () => {
       setAssignmentFile(null);
       setDescription('');
       setCanSubmitLate(true); 
+      setMaxAttempts('');
+      setGuidelines([]);
+      setSubmissionRules(EMPTY_SUBMISSION_RULES);
       if (fileInputRef.current) fileInputRef.current.value = '';
       setShowCreateAssignment(false);
 
@@ -453,6 +498,8 @@ const CourseView = () => {
     );
   }
 
+  const can = (permission: ClassroomPermission) => course.permissions.includes(permission);
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
@@ -470,7 +517,14 @@ const CourseView = () => {
                 Back to Classroom
               </CustomButton>
               <div>
-                <h1 className="text-3xl font-bold text-white">{course.name}</h1>
+                <div className="flex items-center gap-3">
+                  <h1 className="text-3xl font-bold text-white">{course.name}</h1>
+                  {course.myRole !== 'owner' && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-veri/10 text-veri">
+                      {ROLE_LABELS[course.myRole]}
+                    </span>
+                  )}
+                </div>
                 <p className="text-muted-foreground mt-1">{course.description}</p>
               </div>
             </div>
@@ -478,25 +532,45 @@ const CourseView = () => {
             <div className="flex flex-col sm:flex-row gap-3">
               <CustomButton
                 variant="outline"
-                onClick={() => setShowManageStudents(true)}
-                icon={<UserPlus className="h-4 w-4" />}
+                onClick={() => navigate(`/classroom/${courseId}/gradebook`)}
+                icon={<Table2 className="h-4 w-4" />}
               >
-                Manage Students
-              </CustomButton>
-              <CustomButton
-                onClick={() => setShowCreateAssignment(true)}
-                icon={<PlusCircle className="h-4 w-4" />}
-                disabled={isCreatingAssignment}
-              >
-                {isCreatingAssignment ? 'Creating...' : 'Create Assignment or Exam'}
+                Gradebook
               </CustomButton>
               <CustomButton
                 variant="outline"
-                onClick={handleDeleteCourse}
-                icon={<Trash2 className="h-4 w-4" />}
+                onClick={() => setShowManageStaff(true)}
+                icon={<ShieldCheck className="h-4 w-4" />}
               >
-                Delete Course
+                Staff
               </CustomButton>
+              {can('manageStudents') && (
+                <CustomButton
+                  variant="outline"
+                  onClick={() => setShowManageStudents(true)}
+                  icon={<UserPlus className="h-4 w-4" />}
+                >
+                  Manage Students
+                </CustomButton>
+              )}
+              {can('manageAssignments') && (
+                <CustomButton
+                  onClick={() => setShowCreateAssignment(true)}
+                  icon={<PlusCircle className="h-4 w-4" />}
+                  disabled={isCreatingAssignment}
+                >
+                  {isCreatingAssignment ? 'Creating...' : 'Create Assignment or Exam'}
+                </CustomButton>
+              )}
+              {can('deleteClassroom') && (
+                <CustomButton
+                  variant="outline"
+                  onClick={handleDeleteCourse}
+                  icon={<Trash2 className="h-4 w-4" />}
+                >
+                  Delete Course
+                </CustomButton>
+              )}
             </div>
           </div>
 
@@ -548,6 +622,16 @@ const CourseView = () => {
             </div>
           )}
 
+          {showManageStaff && (
+            <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
+              <ManageStaff
+                courseId={courseId || ''}
+                canManageStaff={can('manageStaff')}
+                onClose={() => setShowManageStaff(false)}
+              />
+            </div>
+          )}
+
           {showCreateAssignment && (
             <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
               <GlassmorphismCard className="p-6 w-full max-w-2xl overflow-y-auto max-h-[90vh]">
@@ -561,6 +645,9 @@ const CourseView = () => {
                         setAssignmentFile(null);
                         setDescription('');
                         setCanSubmitLate(true); 
+                        setMaxAttempts('');
+                        setGuidelines([]);
+                        setSubmissionRules(EMPTY_SUBMISSION_RULES);
                         if (fileInputRef.current) fileInputRef.current.value = '';
                     }}
                     className="text-muted-foreground hover:text-foreground"
@@ -647,6 +734,31 @@ const CourseView = () => {
                     <label htmlFor="canSubmitLate" className="text-sm font-medium text-white">Allow late submissions</label>
                   </div>
 
+                  <div>
+                    <label htmlFor="maxAttempts" className="block text-sm font-medium mb-1 text-white">Max Attempts</label>
+                    <input
+                      type="number"
+                      id="maxAttempts"
+                      min={1}
+                      className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                      placeholder="Unlimited"
+                      value={maxAttempts}
+                      onChange={(e) => setMaxAttempts(e.target.value)}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-white">Submission Guidelines</label>
+                    <div className="p-3 rounded-md bg-background/60">
+                      <GuidelinesEditor
+                        guidelines={guidelines}
+                        rules={submissionRules}
+                        onGuidelinesChange={setGuidelines}
+                        onRulesChange={setSubmissionRules}
+                      />
+                    </div>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium mb-1 text-white">Upload File (Optional)</label>
                     <div className="border border-dashed border-border rounded-md p-6 text-center bg-background/60">
@@ -704,6 +816,9 @@ const CourseView = () => {
                           setAssignmentFile(null);
                           setDescription('');
                           setCanSubmitLate(true); 
+                          setMaxAttempts('');
+                          setGuidelines([]);
+                          setSubmissionRules(EMPTY_SUBMISSION_RULES);
                           if (fileInputRef.current) fileInputRef.current.value = '';
                       }}
                       disabled={isCreatingAssignment}
@@ -719,6 +834,12 @@ const CourseView = () => {
             </div>
           )}
 
+          <EditAssignmentDialog
+            assignment={assignmentToEdit}
+            onClose={() => setAssignmentToEdit(null)}
+            onSaved={handleAssignmentUpdated}
+          />
+
           {/* Course Delete Confirmation Modal */}
           {showDeleteConfirmation && (
             <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4">
@@ -856,14 +977,26 @@ const CourseView = () => {
                       >
                         View {assignment.type === 'exam' ? 'Exam' : 'Assignment'}
                       </CustomButton>
-                      <CustomButton
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteAssignment(assignment.id, assignment.type, assignment.title)}
-                        icon={<Trash2 className="h-4 w-4" />}
-                      >
-                        Delete
-                      </CustomButton>
+                      {can('manageAssignments') && (
+                        <CustomButton
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAssignmentToEdit(assignment)}
+                          icon={<Pencil className="h-4 w-4" />}
+                        >
+                          Edit
+                        </CustomButton>
+                      )}
+                      {can('manageAssignments') && (
+                        <CustomButton
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteAssignment(assignment.id, assignment.type, assignment.title)}
+                          icon={<Trash2 className="h-4 w-4" />}
+                        >
+                          Delete
+                        </CustomButton>
+                      )}
                     </div>
                   </GlassmorphismCard>
                 ))}
@@ -875,14 +1008,18 @@ const CourseView = () => {
                 </div>
                 <h3 className="text-lg font-semibold mb-2 text-white">No assignments or exams yet</h3>
                 <p className="text-muted-foreground mb-6">
-                  Create your first assignment or exam to get started.
+                  {can('manageAssignments')
+                    ? 'Create your first assignment or exam to get started.'
+                    : 'Assignments and exams created for this course will appear here.'}
                 </p>
-                <CustomButton
-                  onClick={() => setShowCreateAssignment(true)}
-                  icon={<PlusCircle className="h-4 w-4" />}
-                >
-                  Create Assignment
-                </CustomButton>
+                {can('manageAssignments') && (
+                  <CustomButton
+                    onClick={() => setShowCreateAssignment(true)}
+                    icon={<PlusCircle className="h-4 w-4" />}
+                  >
+                    Create Assignment
+                  </CustomButton>
+                )}
               </div>
             )}
           </div>
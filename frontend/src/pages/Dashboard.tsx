@@ -1,250 +1,355 @@
-
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Search, Book, User, FileText, CheckCircle, Globe, AlertTriangle } from 'lucide-react';
 import Navbar from '@/components/Navbar';
-import CustomButton from '@/components/ui/CustomButton';
+import Footer from '@/components/Footer';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
-import { Search, BarChart4, FileText, User, Book, CheckCircle, ChevronRight, LogOut } from 'lucide-react';
-
-// Mock data for the dashboard
-const mockCourses = [
-  { id: 1, name: 'Introduction to Computer Science', students: 32, assignments: 8 },
-  { id: 2, name: 'Advanced Mathematics', students: 24, assignments: 12 },
-  { id: 3, name: 'English Literature', students: 28, assignments: 10 },
-  { id: 4, name: 'Biology 101', students: 35, assignments: 9 },
-];
-
-const mockAssignments = [
-  { id: 1, name: 'Final Essay', course: 'English Literature', due: '2023-06-10', submissions: 25, scanned: 18 },
-  { id: 2, name: 'Research Paper', course: 'Introduction to Computer Science', due: '2023-06-15', submissions: 30, scanned: 22 },
-  { id: 3, name: 'Problem Set 5', course: 'Advanced Mathematics', due: '2023-06-08', submissions: 20, scanned: 20 },
-  { id: 4, name: 'Lab Report', course: 'Biology 101', due: '2023-06-12', submissions: 33, scanned: 28 },
-];
+import { Input } from '@/components/ui/input';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// See backend utils/teacherDashboard
+interface DashboardAssignment {
+  id: string;
+  title: string;
+  type: 'Assignment' | 'Exam';
+  deadline: string;
+  classroomId: string;
+  classroomName: string;
+  assigned: number;
+  submitted: number;
+  late: number;
+  checked: number;
+  submissionRate: number | null;
+  lateRate: number | null;
+  averageSimilarity: number | null;
+  maxSimilarity: number | null;
+}
+
+interface FlaggedStudent {
+  studentId: string;
+  name: string;
+  email: string;
+  flaggedCount: number;
+  maxSimilarity: number;
+  assignments: string[];
+}
+
+interface DashboardData {
+  totals: {
+    classrooms: number;
+    students: number;
+    assignments: number;
+    submissions: number;
+    checked: number;
+    submissionRate: number | null;
+    lateRate: number | null;
+  };
+  assignments: DashboardAssignment[];
+  flaggedStudents: FlaggedStudent[];
+  flagThreshold: number;
+  checksThisMonth: { total: number; byType: Record<'classroom-check' | 'upload-check' | 'online-check', number> };
+  serpApi: { used: number; limit: number; remaining: number };
+}
+
+const CHART_ASSIGNMENTS = 12; // Most recent deadlines shown in the charts
+
+const ratesChartConfig = {
+  submissionRate: { label: 'Submitted', color: 'hsl(var(--primary))' },
+  lateRate: { label: 'Late', color: 'hsl(38 92% 50%)' },
+} satisfies ChartConfig;
+
+const similarityChartConfig = {
+  averageSimilarity: { label: 'Average similarity', color: 'hsl(var(--primary))' },
+  maxSimilarity: { label: 'Highest similarity', color: 'hsl(0 84% 60%)' },
+} satisfies ChartConfig;
 
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const percent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+const shortTitle = (title: string) => (title.length > 14 ? `${title.slice(0, 13)}…` : title);
+
+const similarityColor = (value: number | null) => {
+  if (value === null) return 'text-muted-foreground';
+  if (value <= 40) return 'text-green-600';
+  if (value <= 60) return 'text-amber-600';
+  if (value <= 80) return 'text-orange-600';
+  return 'text-red-600';
+};
+
+// Submission, lateness and similarity analytics across the teacher's classrooms
 const Dashboard = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredCourses, setFilteredCourses] = useState(mockCourses);
-  const [filteredAssignments, setFilteredAssignments] = useState(mockAssignments);
-  
-  // Handle search
-  useEffect(() => {
-    if (searchQuery) {
-      setFilteredCourses(mockCourses.filter(course => 
-        course.name.toLowerCase().includes(searchQuery.toLowerCase())
-      ));
-      setFilteredAssignments(mockAssignments.filter(assignment => 
-        assignment.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        assignment.course.toLowerCase().includes(searchQuery.toLowerCase())
-      ));
-    } else {
-      setFilteredCourses(mockCourses);
-      setFilteredAssignments(mockAssignments);
+  const [threshold, setThreshold] = useState('50');
+
+  const flagThreshold = Number(threshold) || 0;
+
+  const fetchDashboard = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/courses/dashboard`, {
+        headers: authHeaders(),
+        params: { threshold: flagThreshold },
+      });
+      setData(response.data);
+    } catch (error) {
+      console.error("Error fetching dashboard:", error);
+      toast({ title: "Error", description: "Failed to load the dashboard.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
     }
-  }, [searchQuery]);
+  }, [flagThreshold, toast]);
+
+  useEffect(() => {
+    fetchDashboard();
+  }, [fetchDashboard]);
 
   // Scroll to top on page load
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  const query = searchQuery.trim().toLowerCase();
+  const assignments = data?.assignments ?? [];
+  const filteredAssignments = assignments.filter(assignment =>
+    !query || assignment.title.toLowerCase().includes(query) || assignment.classroomName.toLowerCase().includes(query)
+  );
+  const chartData = assignments
+    .filter(assignment => new Date(assignment.deadline) <= new Date())
+    .slice(-CHART_ASSIGNMENTS)
+    .map(assignment => ({ ...assignment, label: shortTitle(assignment.title) }));
+
+  const stats = data ? [
+    {
+      title: 'Classrooms',
+      value: data.totals.classrooms,
+      detail: `${data.totals.assignments} assignments and exams`,
+      icon: <Book className="text-veri" size={24} />,
+    },
+    {
+      title: 'Students',
+      value: data.totals.students,
+      detail: `${data.totals.submissions} submissions`,
+      icon: <User className="text-veri" size={24} />,
+    },
+    {
+      title: 'Submission Rate',
+      value: percent(data.totals.submissionRate),
+      detail: `${percent(data.totals.lateRate)} submitted late`,
+      icon: <FileText className="text-veri" size={24} />,
+    },
+    {
+      title: 'Checks This Month',
+      value: data.checksThisMonth.total,
+      detail: `${data.checksThisMonth.byType['classroom-check']} classroom · ${data.checksThisMonth.byType['upload-check']} upload · ${data.checksThisMonth.byType['online-check']} online`,
+      icon: <CheckCircle className="text-veri" size={24} />,
+    },
+    {
+      title: 'Online Searches Left',
+      value: data.serpApi.remaining,
+      detail: `${data.serpApi.used} of ${data.serpApi.limit} used this month (shared)`,
+      icon: <Globe className="text-veri" size={24} />,
+    },
+  ] : [];
+
   return (
     <div className="min-h-screen flex flex-col bg-secondary/30">
       <Navbar />
-      
+
       <main className="flex-grow pt-24 pb-16 px-6">
         <div className="container max-w-6xl mx-auto">
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
-            <div className="opacity-0 animate-fade-in" style={{ animationFillMode: 'forwards' }}>
+            <div>
               <h1 className="text-3xl font-bold">Teacher Dashboard</h1>
-              <p className="text-muted-foreground">Manage your courses and check submissions for plagiarism</p>
+              <p className="text-muted-foreground">Submissions, lateness and similarity across your classrooms</p>
             </div>
-            
-            <div className="flex gap-4 opacity-0 animate-fade-in" style={{ animationDelay: '0.2s', animationFillMode: 'forwards' }}>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={18} />
-                <input 
-                  type="text" 
-                  placeholder="Search..." 
-                  className="pl-10 pr-4 py-2 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-veri/20 transition-all"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)} 
-                />
-              </div>
-              <CustomButton 
-                variant="outline" 
-                size="sm" 
-                icon={<LogOut size={16} />}
-              >
-                Logout
-              </CustomButton>
-            </div>
-          </div>
-          
-          {/* Dashboard Stats */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-            {[
-              { 
-                title: 'Total Courses', 
-                value: mockCourses.length, 
-                icon: <Book className="text-veri" size={24} />,
-                delay: '0.3s'
-              },
-              { 
-                title: 'Total Students', 
-                value: mockCourses.reduce((acc, course) => acc + course.students, 0), 
-                icon: <User className="text-veri" size={24} />,
-                delay: '0.4s'
-              },
-              { 
-                title: 'Assignments', 
-                value: mockAssignments.length, 
-                icon: <FileText className="text-veri" size={24} />,
-                delay: '0.5s'
-              },
-              { 
-                title: 'Scanned Documents', 
-                value: mockAssignments.reduce((acc, assignment) => acc + assignment.scanned, 0), 
-                icon: <CheckCircle className="text-veri" size={24} />,
-                delay: '0.6s'
-              }
-            ].map((stat, index) => (
-              <div 
-                key={index} 
-                className="opacity-0 animate-fade-in" 
-                style={{ animationDelay: stat.delay, animationFillMode: 'forwards' }}
-              >
-                <GlassmorphismCard intensity="light" className="p-6">
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <p className="text-muted-foreground text-sm">{stat.title}</p>
-                      <p className="text-3xl font-bold mt-1">{stat.value}</p>
-                    </div>
-                    <div className="p-3 rounded-full bg-veri/10">
-                      {stat.icon}
-                    </div>
-                  </div>
-                </GlassmorphismCard>
-              </div>
-            ))}
-          </div>
-          
-          {/* Recent Courses */}
-          <div className="mb-8 opacity-0 animate-fade-in" style={{ animationDelay: '0.7s', animationFillMode: 'forwards' }}>
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold">Your Courses</h2>
-              <a href="#" className="text-sm text-veri hover:underline flex items-center">
-                View All <ChevronRight size={16} />
-              </a>
-            </div>
-            <div className="bg-background rounded-lg border border-border overflow-hidden">
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b border-border bg-secondary/50">
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Course Name</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Students</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Assignments</th>
-                      <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-border">
-                    {filteredCourses.map((course) => (
-                      <tr key={course.id} className="hover:bg-secondary/30 transition-colors">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="font-medium">{course.name}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <User size={16} className="text-muted-foreground mr-2" />
-                            <span>{course.students}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <FileText size={16} className="text-muted-foreground mr-2" />
-                            <span>{course.assignments}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-right">
-                          <CustomButton variant="outline" size="sm">View Details</CustomButton>
-                        </td>
-                      </tr>
-                    ))}
-                    {filteredCourses.length === 0 && (
-                      <tr>
-                        <td colSpan={4} className="px-6 py-4 text-center text-muted-foreground">
-                          No courses found
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={18} />
+              <Input
+                className="pl-10"
+                placeholder="Search assignments..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
             </div>
           </div>
-          
-          {/* Recent Assignments */}
-          <div className="opacity-0 animate-fade-in" style={{ animationDelay: '0.8s', animationFillMode: 'forwards' }}>
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold">Recent Assignments</h2>
-              <a href="#" className="text-sm text-veri hover:underline flex items-center">
-                View All <ChevronRight size={16} />
-              </a>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {filteredAssignments.map((assignment) => (
-                <GlassmorphismCard key={assignment.id} className="p-6">
-                  <div className="flex justify-between">
-                    <div>
-                      <h3 className="font-semibold mb-1">{assignment.name}</h3>
-                      <p className="text-sm text-muted-foreground">{assignment.course}</p>
-                    </div>
-                    <CustomButton variant="outline" size="sm" icon={<BarChart4 size={16} />}>
-                      Check
-                    </CustomButton>
-                  </div>
-                  <div className="mt-4 pt-4 border-t border-border flex justify-between items-center">
-                    <div className="flex items-center gap-4">
-                      <div>
-                        <p className="text-xs text-muted-foreground">Due Date</p>
-                        <p className="text-sm">{new Date(assignment.due).toLocaleDateString()}</p>
-                      </div>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading dashboard...</p>
+          ) : !data ? (
+            <p className="text-muted-foreground">The dashboard could not be loaded.</p>
+          ) : (
+            <>
+              {/* Dashboard Stats */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+                {stats.map(stat => (
+                  <GlassmorphismCard key={stat.title} intensity="light" className="p-5">
+                    <div className="flex justify-between items-start gap-2">
                       <div>
-                        <p className="text-xs text-muted-foreground">Submissions</p>
-                        <p className="text-sm">{assignment.submissions}</p>
+                        <p className="text-muted-foreground text-sm">{stat.title}</p>
+                        <p className="text-3xl font-bold mt-1">{stat.value}</p>
                       </div>
-                      <div>
-                        <p className="text-xs text-muted-foreground">Scanned</p>
-                        <p className="text-sm">{assignment.scanned}</p>
+                      <div className="p-2 rounded-full bg-veri/10">
+                        {stat.icon}
                       </div>
                     </div>
-                    <div className={`px-2 py-1 rounded text-xs ${
-                      assignment.submissions === assignment.scanned 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-amber-100 text-amber-800'
-                    }`}>
-                      {assignment.submissions === assignment.scanned ? 'Complete' : 'In Progress'}
-                    </div>
-                  </div>
-                </GlassmorphismCard>
-              ))}
-              {filteredAssignments.length === 0 && (
-                <div className="col-span-2 text-center p-8 border border-border rounded-lg bg-secondary/30">
-                  <p className="text-muted-foreground">No assignments found</p>
+                    <p className="text-xs text-muted-foreground mt-2">{stat.detail}</p>
+                  </GlassmorphismCard>
+                ))}
+              </div>
+
+              {/* Charts */}
+              {chartData.length > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                  <GlassmorphismCard className="p-5">
+                    <h2 className="text-lg font-semibold mb-1">Submission and Late Rates</h2>
+                    <p className="text-xs text-muted-foreground mb-4">Past deadlines. Late rate is the share of submissions handed in late.</p>
+                    <ChartContainer config={ratesChartConfig} className="h-[260px] w-full aspect-auto">
+                      <BarChart data={chartData} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} interval={0} angle={-30} textAnchor="end" height={60} />
+                        <YAxis domain={[0, 100]} width={40} tickFormatter={(value) => `${value}%`} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="submissionRate" fill="var(--color-submissionRate)" radius={4} />
+                        <Bar dataKey="lateRate" fill="var(--color-lateRate)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </GlassmorphismCard>
+
+                  <GlassmorphismCard className="p-5">
+                    <h2 className="text-lg font-semibold mb-1">Similarity per Assignment</h2>
+                    <p className="text-xs text-muted-foreground mb-4">Of submissions checked for plagiarism.</p>
+                    <ChartContainer config={similarityChartConfig} className="h-[260px] w-full aspect-auto">
+                      <BarChart data={chartData} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} interval={0} angle={-30} textAnchor="end" height={60} />
+                        <YAxis domain={[0, 100]} width={40} tickFormatter={(value) => `${value}%`} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="averageSimilarity" fill="var(--color-averageSimilarity)" radius={4} />
+                        <Bar dataKey="maxSimilarity" fill="var(--color-maxSimilarity)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </GlassmorphismCard>
                 </div>
               )}
-            </div>
-          </div>
+
+              {/* Most-flagged Students */}
+              <div className="mb-8">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-4 gap-2">
+                  <h2 className="text-xl font-bold flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-amber-500" /> Most-flagged Students
+                  </h2>
+                  <label className="flex items-center gap-2 text-sm">
+                    <span className="whitespace-nowrap text-muted-foreground">Flag at similarity ≥</span>
+                    <Input type="number" min={0} max={100} className="w-20" value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+                    <span className="text-muted-foreground">%</span>
+                  </label>
+                </div>
+                <div className="bg-background rounded-lg border border-border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border bg-secondary/50 text-xs text-muted-foreground uppercase tracking-wider">
+                        <th className="px-6 py-3 text-left font-medium">Student</th>
+                        <th className="px-6 py-3 text-left font-medium">Flagged Submissions</th>
+                        <th className="px-6 py-3 text-left font-medium">Highest Similarity</th>
+                        <th className="px-6 py-3 text-left font-medium">Assignments</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {data.flaggedStudents.map(student => (
+                        <tr key={student.studentId} className="hover:bg-secondary/30 transition-colors">
+                          <td className="px-6 py-3">
+                            <div className="font-medium">{student.name}</div>
+                            <div className="text-xs text-muted-foreground">{student.email}</div>
+                          </td>
+                          <td className="px-6 py-3">{student.flaggedCount}</td>
+                          <td className={`px-6 py-3 font-medium ${similarityColor(student.maxSimilarity)}`}>{student.maxSimilarity}%</td>
+                          <td className="px-6 py-3 text-muted-foreground">{student.assignments.join(', ')}</td>
+                        </tr>
+                      ))}
+                      {data.flaggedStudents.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-6 py-4 text-center text-muted-foreground">
+                            No checked submissions at or above {data.flagThreshold}% similarity
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Assignments */}
+              <div>
+                <h2 className="text-xl font-bold mb-4">Assignments and Exams</h2>
+                <div className="bg-background rounded-lg border border-border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border bg-secondary/50 text-xs text-muted-foreground uppercase tracking-wider">
+                        <th className="px-6 py-3 text-left font-medium">Assignment</th>
+                        <th className="px-6 py-3 text-left font-medium">Deadline</th>
+                        <th className="px-6 py-3 text-left font-medium">Submitted</th>
+                        <th className="px-6 py-3 text-left font-medium">Late</th>
+                        <th className="px-6 py-3 text-left font-medium">Checked</th>
+                        <th className="px-6 py-3 text-left font-medium">Avg / Max Similarity</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {[...filteredAssignments].reverse().map(assignment => (
+                        <tr
+                          key={assignment.id}
+                          className="hover:bg-secondary/30 transition-colors cursor-pointer"
+                          onClick={() => navigate(`/classroom/${assignment.classroomId}/assignment/${assignment.id}`)}
+                        >
+                          <td className="px-6 py-3">
+                            <div className="font-medium">{assignment.title}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {assignment.classroomName} · {assignment.type}
+                            </div>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap">{format(new Date(assignment.deadline), 'MMM d, yyyy')}</td>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            {assignment.submitted}/{assignment.assigned}
+                            <span className="text-xs text-muted-foreground"> ({percent(assignment.submissionRate)})</span>
+                          </td>
+                          <td className="px-6 py-3">{assignment.late > 0 ? <span className="text-amber-600">{assignment.late}</span> : 0}</td>
+                          <td className="px-6 py-3">{assignment.checked}/{assignment.submitted}</td>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <span className={similarityColor(assignment.averageSimilarity)}>{percent(assignment.averageSimilarity)}</span>
+                            {' / '}
+                            <span className={similarityColor(assignment.maxSimilarity)}>{percent(assignment.maxSimilarity)}</span>
+                          </td>
+                        </tr>
+                      ))}
+                      {filteredAssignments.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center text-muted-foreground">
+                            No assignments found
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </main>
-      
-      {/* Simple footer */}
-      <footer className="bg-secondary py-6 px-6">
-        <div className="container mx-auto text-center">
-          <p className="text-muted-foreground text-sm">
-            © {new Date().getFullYear()} VeriWrite. All rights reserved.
-          </p>
-        </div>
-      </footer>
+
+      <Footer />
     </div>
   );
 };
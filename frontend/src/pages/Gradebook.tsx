@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { ArrowLeft, Download, FileSpreadsheet, Search, Table2 } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import CustomButton from '@/components/ui/CustomButton';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, fileNameFromDisposition } from '@/lib/download';
+import { formatMarks } from '@/lib/grading';
+import { format } from 'date-fns';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// See backend utils/gradebook
+interface GradebookTask {
+  id: string;
+  title: string;
+  type: 'Assignment' | 'Exam';
+  deadline: string;
+  maxMarks: number;
+  gradesReleased: boolean;
+}
+
+interface GradebookCell {
+  status: 'submitted' | 'missing' | 'pending';
+  late: boolean;
+  plagiarismPercent: number | null;
+  grade: number | null; // Final marks after any late penalty
+}
+
+interface GradebookStudent {
+  studentId: string;
+  name: string;
+  email: string;
+  studentNumber: string;
+  cells: GradebookCell[]; // In the order of tasks
+}
+
+type TypeFilter = 'all' | 'assignment' | 'exam';
+type StatusFilter = 'all' | 'missing' | 'late' | 'flagged' | 'ungraded';
+type ExportFormat = 'csv' | 'xlsx' | 'lms';
+
+const STATUS_FILTERS: Record<StatusFilter, string> = {
+  all: 'All students',
+  missing: 'Missing work',
+  late: 'Late work',
+  flagged: 'High similarity',
+  ungraded: 'Awaiting grades',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const matchesStatus = (cell: GradebookCell, filter: StatusFilter, threshold: number) => {
+  switch (filter) {
+    case 'missing': return cell.status === 'missing';
+    case 'late': return cell.late;
+    case 'flagged': return cell.plagiarismPercent !== null && cell.plagiarismPercent >= threshold;
+    case 'ungraded': return cell.status === 'submitted' && cell.grade === null;
+    default: return true;
+  }
+};
+
+const similarityColor = (percent: number) => {
+  if (percent <= 40) return 'text-green-600';
+  if (percent <= 60) return 'text-amber-600';
+  if (percent <= 80) return 'text-orange-600';
+  return 'text-red-600';
+};
+
+// Students × assignments and exams of one classroom, with exports for spreadsheets and LMS gradebooks
+const Gradebook = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [classroomName, setClassroomName] = useState('');
+  const [tasks, setTasks] = useState<GradebookTask[]>([]);
+  const [students, setStudents] = useState<GradebookStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [threshold, setThreshold] = useState('50');
+  const [search, setSearch] = useState('');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const fetchGradebook = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/courses/gradebook/${courseId}`, {
+        headers: authHeaders(),
+        params: typeFilter === 'all' ? {} : { type: typeFilter },
+      });
+      setClassroomName(response.data.classroomName);
+      setTasks(response.data.tasks);
+      setStudents(response.data.students);
+    } catch (error) {
+      console.error("Error fetching gradebook:", error);
+      toast({ title: "Error", description: "Failed to load the gradebook.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, typeFilter, toast]);
+
+  useEffect(() => {
+    fetchGradebook();
+  }, [fetchGradebook]);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(exportFormat);
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/courses/gradebook/export/${courseId}`, {
+        headers: authHeaders(),
+        params: { format: exportFormat, ...(typeFilter === 'all' ? {} : { type: typeFilter }) },
+        responseType: 'blob',
+      });
+      const fallback = exportFormat === 'xlsx' ? 'gradebook.xlsx' : 'gradebook.csv';
+      downloadBlob(response.data, fileNameFromDisposition(response.headers['content-disposition'], fallback));
+    } catch (error) {
+      console.error("Error exporting gradebook:", error);
+      toast({ title: "Error", description: "Failed to export the gradebook.", variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const flagThreshold = Number(threshold) || 0;
+  const query = search.trim().toLowerCase();
+  const visibleStudents = students.filter(student =>
+    (!query || [student.name, student.email, student.studentNumber].some(value => value.toLowerCase().includes(query))) &&
+    (statusFilter === 'all' || student.cells.some(cell => matchesStatus(cell, statusFilter, flagThreshold)))
+  );
+
+  const renderCell = (cell: GradebookCell, task: GradebookTask) => {
+    const highlighted = statusFilter !== 'all' && matchesStatus(cell, statusFilter, flagThreshold);
+    const base = `px-3 py-2 text-center align-top whitespace-nowrap ${highlighted ? 'bg-veri/10' : ''}`;
+    if (cell.status === 'missing') return <td key={task.id} className={base}><span className="text-red-500 font-medium">Missing</span></td>;
+    if (cell.status === 'pending') return <td key={task.id} className={base}><span className="text-muted-foreground">Not due</span></td>;
+    return (
+      <td key={task.id} className={base}>
+        <div className="font-medium">
+          {cell.grade !== null ? `${formatMarks(cell.grade)}/${formatMarks(task.maxMarks)}` : <span className="text-muted-foreground">Ungraded</span>}
+        </div>
+        <div className="text-xs flex justify-center gap-2">
+          {cell.plagiarismPercent !== null && (
+            <span className={similarityColor(cell.plagiarismPercent)}>{cell.plagiarismPercent}%</span>
+          )}
+          {cell.late && <span className="text-amber-500">Late</span>}
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow pt-24 pb-16 px-6">
+        <div className="container max-w-7xl mx-auto">
+          <Link to={`/classroom/${courseId}`} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
+            <ArrowLeft size={16} className="mr-1" /> Back to {classroomName || 'Classroom'}
+          </Link>
+
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-2">
+                <Table2 className="h-7 w-7 text-veri" /> Gradebook
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Status, lateness, similarity and grades for every student. Grades include late penalties.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <CustomButton variant="outline" icon={<Download className="h-4 w-4" />} loading={exporting === 'csv'} onClick={() => handleExport('csv')}>
+                CSV
+              </CustomButton>
+              <CustomButton variant="outline" icon={<FileSpreadsheet className="h-4 w-4" />} loading={exporting === 'xlsx'} onClick={() => handleExport('xlsx')}>
+                Excel
+              </CustomButton>
+              <CustomButton
+                variant="outline"
+                icon={<Download className="h-4 w-4" />}
+                loading={exporting === 'lms'}
+                onClick={() => handleExport('lms')}
+                title="Grades only, in the Canvas gradebook import layout"
+              >
+                LMS Import
+              </CustomButton>
+            </div>
+          </div>
+
+          <GlassmorphismCard className="p-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input className="pl-9" placeholder="Search students" value={search} onChange={(e) => setSearch(e.target.value)} />
+              </div>
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as TypeFilter)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Assignments and exams</SelectItem>
+                  <SelectItem value="assignment">Assignments only</SelectItem>
+                  <SelectItem value="exam">Exams only</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_FILTERS) as StatusFilter[]).map(key => (
+                    <SelectItem key={key} value={key}>{STATUS_FILTERS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {statusFilter === 'flagged' && (
+                <label className="flex items-center gap-2">
+                  <span className="whitespace-nowrap text-muted-foreground">Similarity ≥</span>
+                  <Input type="number" min={0} max={100} value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+                  <span className="text-muted-foreground">%</span>
+                </label>
+              )}
+            </div>
+          </GlassmorphismCard>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading gradebook...</p>
+          ) : tasks.length === 0 ? (
+            <p className="text-muted-foreground">No assignments or exams yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left sticky left-0 bg-muted z-10">Student</th>
+                    {tasks.map(task => (
+                      <th key={task.id} className="px-3 py-2 text-center font-medium min-w-[8rem]">
+                        <button
+                          type="button"
+                          className="hover:underline"
+                          onClick={() => navigate(`/classroom/${courseId}/assignment/${task.id}`)}
+                        >
+                          {task.title}
+                        </button>
+                        <span className="block text-xs font-normal text-muted-foreground">
+                          {task.type} · {format(new Date(task.deadline), 'MMM d')} · /{formatMarks(task.maxMarks)}
+                          {!task.gradesReleased && ' · unreleased'}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleStudents.map(student => (
+                    <tr key={student.studentId} className="border-t border-border hover:bg-muted/30">
+                      <td className="px-3 py-2 sticky left-0 bg-background z-10">
+                        <span className="font-medium">{student.name}</span>
+                        <span className="block text-xs text-muted-foreground">{student.studentNumber || student.email}</span>
+                      </td>
+                      {student.cells.map((cell, index) => renderCell(cell, tasks[index]))}
+                    </tr>
+                  ))}
+                  {visibleStudents.length === 0 && (
+                    <tr>
+                      <td colSpan={tasks.length + 1} className="px-3 py-6 text-center text-muted-foreground">
+                        No students match these filters.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Gradebook;
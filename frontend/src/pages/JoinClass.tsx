@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { useToast } from '@/hooks/use-toast';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import CustomButton from '@/components/ui/CustomButton';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface JoinPreview {
+  name: string;
+  description?: string;
+  teacherName: string | null;
+  requireApproval: boolean;
+  unavailableReason: string | null;
+  enrolled: boolean;
+  pending: boolean;
+  classroomId: string;
+}
+
+// Landing page of a shared join link (/join/:classCode): shows the class and joins it
+// (or asks the teacher to approve the request)
+const JoinClass = () => {
+  const { classCode } = useParams<{ classCode: string }>();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [preview, setPreview] = useState<JoinPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/studentcourses/join-preview/${classCode}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+      });
+      setPreview(response.data);
+    } catch (err) {
+      setError((axios.isAxiosError(err) ? err.response?.data?.error : undefined) || 'Could not load this class');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [classCode]);
+
+  useEffect(() => {
+    fetchPreview();
+  }, [fetchPreview]);
+
+  const handleJoin = async () => {
+    setError(null);
+    setIsJoining(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/studentcourses/join`,
+        { classCode },
+        { headers: { Authorization: `Bearer ${localStorage.getItem('token')}` } }
+      );
+      if (response.data.status === 'pending') {
+        toast({ title: 'Request sent', description: response.data.message });
+        setPreview(prev => prev && { ...prev, pending: true });
+      } else {
+        toast({ title: 'Success', description: response.data.message });
+        navigate(`/student-course/${response.data.classroomId}`);
+      }
+    } catch (err) {
+      setError((axios.isAxiosError(err) ? err.response?.data?.error : undefined) || 'Could not join the class');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground text-center">Loading...</p>;
+    }
+
+    if (!preview) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-sm text-destructive">{error}</p>
+          <Link to="/student-dashboard" className="text-sm text-veri hover:underline">
+            Back to Dashboard
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-xl font-semibold">{preview.name}</h2>
+          {preview.teacherName && <p className="text-sm text-muted-foreground">Taught by {preview.teacherName}</p>}
+          {preview.description && <p className="text-sm text-muted-foreground mt-2">{preview.description}</p>}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {preview.enrolled ? (
+          <CustomButton type="button" fullWidth onClick={() => navigate(`/student-course/${preview.classroomId}`)}>
+            Go to Class
+          </CustomButton>
+        ) : preview.pending ? (
+          <p className="text-sm text-muted-foreground">
+            Your request to join is waiting for the teacher's approval. The class will appear on your dashboard once it is approved.
+          </p>
+        ) : preview.unavailableReason ? (
+          <p className="text-sm text-destructive">{preview.unavailableReason}</p>
+        ) : (
+          <>
+            {preview.requireApproval && (
+              <p className="text-sm text-muted-foreground">The teacher approves new students before they can access this class.</p>
+            )}
+            <CustomButton type="button" fullWidth loading={isJoining} onClick={handleJoin}>
+              {preview.requireApproval ? 'Request to Join' : 'Join Class'}
+            </CustomButton>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+      <main className="flex-grow pt-24 pb-16 px-6 relative">
+        <div className="container mx-auto max-w-md relative z-10">
+          <h1 className="text-3xl font-bold mb-8 text-center">Join a Class</h1>
+
+          <GlassmorphismCard className="p-8 shadow-xl" intensity="heavy">
+            {renderContent()}
+          </GlassmorphismCard>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default JoinClass;
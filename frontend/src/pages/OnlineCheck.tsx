@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 import { Upload, ExternalLink, AlertCircle, CheckCircle, File, FileText, X, ImageIcon, Eye } from 'lucide-react';
 import Navbar from '@/components/Navbar';
@@ -6,9 +6,19 @@ import Footer from '@/components/Footer';
 import CustomButton from '@/components/ui/CustomButton';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import { cn } from '@/lib/utils';
+import { useDocumentFormats } from '@/hooks/useDocumentFormats';
+import JobProgress from '@/components/JobProgress';
+import { useJobProgress } from '@/hooks/useJobProgress';
+
+// Result of a finished online check job
+interface OnlineCheckResult {
+    score: number;
+    matches: Array<{ title: string; link: string; similarity: number; level: string }>;
+}
 
 const OnlineCheck = () => {
     const { toast } = useToast();
+    const documentFormats = useDocumentFormats();
     const [file, setFile] = useState<File | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -18,6 +28,45 @@ const OnlineCheck = () => {
         sources: Array<{ url: string; similarity: number; title: string; level: string }>;
     }>(null);
 
+    // The check runs as a background job on the server; follow it until it finishes
+    const { job, trackJob, resumeActiveJob } = useJobProgress<OnlineCheckResult>({
+        onSucceeded: (finished) => {
+            const result = finished.result;
+            setIsAnalyzing(false);
+            if (!result) return;
+            toast({
+                title: "Analysis Complete",
+                description: "We've completed the plagiarism analysis of your document.",
+            });
+
+            setResults({
+                score: result.score,
+                matches: result.matches.length,
+                sources: result.matches.map(match => ({
+                    url: match.link,
+                    similarity: match.similarity,
+                    title: match.title,
+                    level: match.level,
+                })),
+            });
+        },
+        onFailed: (failed) => {
+            setIsAnalyzing(false);
+            toast({
+                title: "Analysis Failed",
+                description: failed.error || "An error occurred during analysis.",
+                variant: "destructive"
+            });
+        },
+    });
+
+    // Resume following a check that was still running when the page was left
+    useEffect(() => {
+        resumeActiveJob({ type: 'online-check' }).then(found => {
+            if (found) setIsAnalyzing(true);
+        });
+    }, [resumeActiveJob]);
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             handleFile(e.target.files[0]);
@@ -25,18 +74,10 @@ const OnlineCheck = () => {
     };
 
     const handleFile = (newFile: File) => {
-        const acceptedTypes = [
-            'application/pdf',
-            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-            'text/plain',
-            'image/jpeg',
-            'image/png',
-            'image/jpg',
-        ];
-        if (!acceptedTypes.includes(newFile.type)) {
+        if (!documentFormats.isSupported(newFile)) {
             toast({
                 title: "Invalid file type",
-                description: "Only PDF, Word documents, text files, and images (PNG, JPG, JPEG) are supported.",
+                description: `Supported formats: ${documentFormats.summary}.`,
                 variant: "destructive"
             });
             return;
@@ -104,29 +145,21 @@ const OnlineCheck = () => {
                 body: formData,
             });
 
+            // Only one online check runs at a time; follow the one already running
+            if (response.status === 409) {
+                const conflict = await response.json();
+                toast({ title: "Check already running", description: "Showing the progress of the running check.", variant: "info" });
+                trackJob(conflict.jobId);
+                return;
+            }
+
             if (!response.ok) {
                 const errorData = await response.json();
                 throw new Error(errorData.error || 'Failed to analyze file');
             }
 
-            const result = await response.json();
-            console.log("Backend API Response:", result);
-            toast({
-                title: "Analysis Complete",
-                description: "We've completed the plagiarism analysis of your document.",
-            });
-
-            setResults({
-                score: result.score,
-                matches: result.matches.length,
-                sources: result.matches.map((match: any) => ({
-                    url: match.link,
-                    similarity: match.similarity,
-                    title: match.title,
-                    level: match.level,
-                })),
-            });
-
+            const queued = await response.json();
+            trackJob(queued.jobId);
         } catch (error: any) {
             console.error("Analysis Error:", error);
             toast({
@@ -134,7 +167,6 @@ const OnlineCheck = () => {
                 description: error.message || "An error occurred during analysis.",
                 variant: "destructive"
             });
-        } finally {
             setIsAnalyzing(false);
         }
     };
@@ -221,6 +253,9 @@ const OnlineCheck = () => {
                 return <FileText size={20} className="text-red-500" />;
             case 'docx':
             case 'doc':
+            case 'odt':
+            case 'rtf':
+            case 'pptx':
                 return <FileText size={20} className="text-blue-500" />;
             case 'jpg':
             case 'jpeg':
@@ -273,7 +308,7 @@ const OnlineCheck = () => {
                                     type="file"
                                     className="hidden"
                                     onChange={handleFileChange}
-                                    accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
+                                    accept={documentFormats.accept}
                                 />
 
                                 {!file ? (
@@ -286,7 +321,7 @@ const OnlineCheck = () => {
                                             {isDragging ? "Drop file here" : "Drag & drop file or click to browse"}
                                         </p>
                                         <p className="text-muted-foreground text-sm">
-                                            Supported formats: PDF, Word documents, text files, and images (Max 10MB)
+                                            Supported formats: PDF, Word, OpenDocument, RTF, PowerPoint, text and Markdown files, and images (Max 10MB)
                                         </p>
                                     </>
                                 ) : (
@@ -347,7 +382,13 @@ const OnlineCheck = () => {
                                     </div>
                                 )}
 
-                                {isAnalyzing && (
+                                {isAnalyzing && job && (
+                                    <div className="flex items-center justify-center h-60">
+                                        <JobProgress status={job.status} progress={job.progress} stages={job.stages} className="w-full max-w-sm" />
+                                    </div>
+                                )}
+
+                                {isAnalyzing && !job && (
                                     <div className="flex flex-col items-center justify-center h-60 text-center">
                                         <div className="w-16 h-16 relative mb-4">
                                             <div className="absolute top-0 left-0 w-full h-full border-4 border-veri/30 rounded-full"></div>
@@ -6,16 +6,27 @@ import Footer from '@/components/Footer';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { User, Mail, GraduationCap, BookOpen, Key } from 'lucide-react';
+import { User, Mail, GraduationCap, BookOpen, Key, LogOut } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import PasswordResetModal from '@/components/profile/PasswordResetModal';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 const Profile = () => {
-  const { user, updateProfile, isLoading } = useAuth();
+  const { user, updateProfile, logoutAllDevices, isLoading } = useAuth();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(user?.name || '');
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
+  const [isSignOutAllOpen, setIsSignOutAllOpen] = useState(false);
 
   // Scroll to top on page load
   useState(() => {
@@ -168,6 +179,13 @@ const Profile = () => {
                           <Key className="h-4 w-4 mr-2" />
                           Reset Password
                         </Button>
+                        <Button 
+                          variant="outline" 
+                          onClick={() => setIsSignOutAllOpen(true)}
+                        >
+                          <LogOut className="h-4 w-4 mr-2" />
+                          Sign Out of All Devices
+                        </Button>
                       </div>
                     </div>
                   )}
@@ -184,6 +202,25 @@ const Profile = () => {
         isOpen={isPasswordModalOpen}
         onClose={() => setIsPasswordModalOpen(false)}
       />
+
+      <AlertDialog open={isSignOutAllOpen} onOpenChange={setIsSignOutAllOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out of all devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This ends every session of your account, including this one. You will need to sign in again everywhere.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => logoutAllDevices().catch(() => { /* Error toast shown by logoutAllDevices */ })}
+            >
+              Sign Out Everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
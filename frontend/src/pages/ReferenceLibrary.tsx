@@ -0,0 +1,337 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { useToast } from '@/hooks/use-toast';
+import { Upload, FileText, Trash2, Eye, Pencil, Check, X, ArrowLeft, Library } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import CustomButton from '@/components/ui/CustomButton';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { useDocumentFormats } from '@/hooks/useDocumentFormats';
+import { format } from 'date-fns';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+interface ReferenceDocument {
+  id: string;
+  title: string;
+  category: string;
+  fileName: string;
+  fileSize: number;
+  wordCount: number;
+  createdAt: string;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'textbook': 'Textbook',
+  'model-answer': 'Model Answer',
+  'past-paper': 'Past Paper',
+  'essay-mill': 'Essay-Mill Sample',
+  'other': 'Other',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const ReferenceLibrary = () => {
+  const { toast } = useToast();
+  const documentFormats = useDocumentFormats();
+  const [documents, setDocuments] = useState<ReferenceDocument[]>([]);
+  const [categories, setCategories] = useState<string[]>(Object.keys(CATEGORY_LABELS));
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploadCategory, setUploadCategory] = useState('other');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [filter, setFilter] = useState('all');
+  const [viewing, setViewing] = useState<{ title: string; extractedText: string } | null>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/reference-library`, { headers: authHeaders() });
+      setDocuments(response.data.documents);
+      setCategories(response.data.categories);
+    } catch (error) {
+      console.error("Error fetching reference library:", error);
+      toast({ title: "Error", description: "Failed to load your reference library.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleFiles = (newFiles: File[]) => {
+    const validFiles = newFiles.filter(documentFormats.isSupported);
+
+    if (validFiles.length !== newFiles.length) {
+      toast({
+        title: "Invalid file type",
+        description: `Supported formats: ${documentFormats.summary}.`,
+        variant: "destructive"
+      });
+    }
+    if (validFiles.length > 0) {
+      setFiles(prev => [...prev, ...validFiles]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const uploadFiles = async () => {
+    if (files.length === 0) return;
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      formData.append("category", uploadCategory);
+
+      const response = await axios.post(`${API_BASE_URL}/api/reference-library/upload`, formData, {
+        headers: authHeaders(),
+      });
+
+      const failed: { fileName: string }[] = response.data.failed || [];
+      toast({
+        title: "Library Updated",
+        description: failed.length > 0
+          ? `${response.data.documents.length} added, ${failed.length} failed: ${failed.map(f => f.fileName).join(', ')}`
+          : `${response.data.documents.length} documents added to your reference library.`,
+        variant: failed.length > 0 ? "default" : "success",
+      });
+      setFiles([]);
+      await fetchDocuments();
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast({ title: "Error", description: message || "Failed to add documents.", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const updateDocument = async (id: string, changes: { title?: string; category?: string }) => {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/api/reference-library/${id}`, changes, { headers: authHeaders() });
+      setDocuments(prev => prev.map(doc => (doc.id === id ? { ...doc, ...response.data.document } : doc)));
+      setEditingId(null);
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast({ title: "Error", description: message || "Failed to update document.", variant: "destructive" });
+    }
+  };
+
+  const deleteDocument = async (doc: ReferenceDocument) => {
+    if (!window.confirm(`Remove "${doc.title}" from your reference library?`)) return;
+    try {
+      await axios.delete(`${API_BASE_URL}/api/reference-library/${doc.id}`, { headers: authHeaders() });
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+      toast({ title: "Removed", description: `"${doc.title}" was removed from your library.`, variant: "success" });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to delete document.", variant: "destructive" });
+    }
+  };
+
+  const viewDocument = async (doc: ReferenceDocument) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/reference-library/${doc.id}`, { headers: authHeaders() });
+      setViewing({ title: response.data.title, extractedText: response.data.extractedText });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to load document text.", variant: "destructive" });
+    }
+  };
+
+  const visibleDocuments = filter === 'all' ? documents : documents.filter(doc => doc.category === filter);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+
+      <main className="container max-w-6xl mx-auto pt-28 pb-16 px-6 relative">
+        <div className="relative z-10">
+          <Link to="/upload-check" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
+            <ArrowLeft size={16} className="mr-1" /> Back to Upload & Check
+          </Link>
+          <div className="text-center mb-12 animate-fade-in">
+            <h1 className="text-3xl md:text-4xl font-bold mb-4">Reference Library</h1>
+            <p className="text-muted-foreground max-w-2xl mx-auto">
+              Upload textbooks, model answers, past papers and known essay-mill samples once.
+              Every upload check and classroom plagiarism check you run is compared against them.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          {/* Upload Card */}
+          <GlassmorphismCard className="shadow-lg h-fit" intensity="medium">
+            <h3 className="text-lg font-semibold mb-4">Add Documents</h3>
+            <div
+              className={cn(
+                "h-40 border-2 border-dashed rounded-lg flex flex-col items-center justify-center cursor-pointer transition-all duration-300 text-center px-4",
+                isDragging ? "border-veri bg-veri/10" : "border-border hover:border-veri/50 hover:bg-secondary/50"
+              )}
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => document.getElementById('reference-upload')?.click()}
+            >
+              <input
+                id="reference-upload"
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => e.target.files && handleFiles(Array.from(e.target.files))}
+                accept={documentFormats.accept}
+              />
+              <Upload size={32} className="mb-2 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">Drag & drop or click to browse (documents, slides and images)</p>
+            </div>
+
+            {files.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {files.map((file, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm p-2 bg-secondary/30 rounded-md">
+                    <span className="truncate max-w-[200px]">{file.name}</span>
+                    <button
+                      onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      className="text-muted-foreground hover:text-destructive"
+                      aria-label="Remove file"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-4 space-y-3">
+              <Select value={uploadCategory} onValueChange={setUploadCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category] || category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <CustomButton fullWidth onClick={uploadFiles} loading={isUploading} disabled={files.length === 0 || isUploading}>
+                {isUploading ? "Adding..." : "Add to Library"}
+              </CustomButton>
+            </div>
+          </GlassmorphismCard>
+
+          {/* Library Card */}
+          <GlassmorphismCard className="md:col-span-2 shadow-lg" intensity="medium">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold flex items-center">
+                <Library size={18} className="mr-2 text-veri" /> Documents ({documents.length})
+              </h3>
+              <Select value={filter} onValueChange={setFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category] || category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <p className="text-muted-foreground text-center py-10">Loading library...</p>
+            ) : visibleDocuments.length === 0 ? (
+              <p className="text-muted-foreground text-center py-10">No reference documents yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {visibleDocuments.map(doc => (
+                  <div key={doc.id} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg border border-border">
+                    <div className="flex items-center min-w-0 flex-1">
+                      <FileText className="text-veri mr-3 shrink-0" size={20} />
+                      <div className="min-w-0 flex-1">
+                        {editingId === doc.id ? (
+                          <div className="flex items-center gap-2">
+                            <Input value={editTitle} onChange={(e) => setEditTitle(e.target.value)} className="h-8" />
+                            <CustomButton size="icon" variant="ghost" onClick={() => updateDocument(doc.id, { title: editTitle })}>
+                              <Check size={16} />
+                            </CustomButton>
+                            <CustomButton size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                              <X size={16} />
+                            </CustomButton>
+                          </div>
+                        ) : (
+                          <p className="font-medium truncate">{doc.title}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {doc.fileName} · {doc.wordCount} words · added {format(new Date(doc.createdAt), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 ml-3">
+                      <Select value={doc.category} onValueChange={(category) => updateDocument(doc.id, { category })}>
+                        <SelectTrigger className="h-8 w-40 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map(category => (
+                            <SelectItem key={category} value={category}>{CATEGORY_LABELS[category] || category}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <CustomButton size="icon" variant="ghost" onClick={() => viewDocument(doc)} aria-label="View text">
+                        <Eye size={16} />
+                      </CustomButton>
+                      <CustomButton
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => { setEditingId(doc.id); setEditTitle(doc.title); }}
+                        aria-label="Rename"
+                      >
+                        <Pencil size={16} />
+                      </CustomButton>
+                      <CustomButton size="icon" variant="ghost" onClick={() => deleteDocument(doc)} aria-label="Delete">
+                        <Trash2 size={16} className="text-destructive" />
+                      </CustomButton>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </GlassmorphismCard>
+        </div>
+      </main>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.title}</DialogTitle>
+          </DialogHeader>
+          <div className="text-sm whitespace-pre-wrap max-h-[60vh] overflow-y-auto bg-muted/30 p-4 rounded-lg">
+            {viewing?.extractedText}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ReferenceLibrary;
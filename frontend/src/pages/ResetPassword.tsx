@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
+import CustomButton from '@/components/ui/CustomButton';
+
+// Landing page of the emailed reset link (/reset-password?token=...)
+const ResetPassword = () => {
+  const { confirmPasswordReset, isLoading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+
+    try {
+      await confirmPasswordReset(token!, newPassword);
+    } catch (error) {
+      // Error is handled in the confirmPasswordReset function
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-background to-secondary/30">
+      <Navbar />
+      <main className="flex-grow pt-24 pb-16 px-6 relative">
+        <div className="container mx-auto max-w-md relative z-10">
+          <h1 className="text-3xl font-bold mb-8 text-center">Choose a New Password</h1>
+
+          <GlassmorphismCard className="p-8 shadow-xl" intensity="heavy">
+            {!token ? (
+              <div className="text-center space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  This reset link is incomplete. Request a new one from the sign in page.
+                </p>
+                <Link to="/auth" className="text-sm text-veri hover:underline">
+                  Back to Sign In
+                </Link>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <div className="text-sm font-medium text-destructive">
+                    {error}
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="newPassword" className="block text-sm font-medium mb-1">New Password</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-3 text-muted-foreground">
+                      <Lock size={18} />
+                    </span>
+                    <input
+                      id="newPassword"
+                      type="password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      className="w-full pl-10 p-3 bg-secondary/30 rounded-lg border border-border focus:border-veri/50 focus:outline-none"
+                      placeholder="••••••••"
+                      required
+                      minLength={8}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium mb-1">Confirm New Password</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-3 text-muted-foreground">
+                      <Lock size={18} />
+                    </span>
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="w-full pl-10 p-3 bg-secondary/30 rounded-lg border border-border focus:border-veri/50 focus:outline-none"
+                      placeholder="••••••••"
+                      required
+                      minLength={8}
+                    />
+                  </div>
+                </div>
+
+                <CustomButton type="submit" fullWidth loading={isLoading}>
+                  Reset Password
+                </CustomButton>
+              </form>
+            )}
+          </GlassmorphismCard>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -11,10 +11,17 @@ import CustomButton from '@/components/ui/CustomButton';
 // Sub-components
 import AssignmentDetails from '@/components/student/AssignmentDetails';
 import ExamResult from '@/components/student/ExamResult';
+import RubricFeedback from '@/components/student/RubricFeedback';
+import AnnotationFeedback from '@/components/student/AnnotationFeedback';
 import FileUploader from '@/components/student/FileUploader';
 import PreviousSubmissions from '@/components/student/PreviousSubmissions';
 import SubmissionStatusSidebar from '@/components/student/SubmissionStatusSidebar';
 import TeachersRemark from '@/components/student/TeachersRemark'; // Ensure this path is correct
+import { LatePenalty } from '@/lib/latePolicy';
+import { SubmissionRules } from '@/lib/submissionRules';
+import { Grade } from '@/lib/grading';
+import { Annotation } from '@/lib/annotations';
+import { downloadBlob, openBlob } from '@/lib/download';
 
 // INTERFACES
 interface StudentSubmission {
@@ -24,15 +31,14 @@ interface StudentSubmission {
     submittedAt: string;
     plagiarismPercent?: number | null;
     teacherRemark?: string | null; // Changed to allow null
-    score?: number;
-    markDistribution?: {
-        section: string;
-        maxMarks: number;
-        scored: number;
-    }[];
+    score?: number; // Released final marks, on the graded attempt only
     status?: 'processing' | 'checked' | 'error'; // Keeping this as optional as per the error analysis
     late: boolean;
+    latePenalty?: number;
     submitted: boolean;
+    hasOriginalFile?: boolean;
+    attemptNumber: number;
+    isAssessed: boolean; // The attempt the teacher checks; remarks and similarity belong to it
 }
 
 interface AssignmentDetailsResponse {
@@ -46,15 +52,26 @@ interface AssignmentDetailsResponse {
     description?: string;
     type: 'Assignment' | 'Exam';
     deadline: string;
+    effectiveDeadline: string; // The student's own deadline (extensions)
+    extension: { deadline: string; reason: string } | null;
+    lateCutoff: string | null;
+    latePolicy: LatePenalty;
     deadlinePassed: boolean;
+    submissionsClosed: boolean;
     canSubmitLate: boolean;
     message: string;
     submissionGuidelines: string[];
+    submissionRules?: SubmissionRules;
     questionFile?: {
         originalName: string;
         contentType: string;
     };
-    submissions: StudentSubmission[];
+    submissions: StudentSubmission[]; // One entry per attempt, newest first
+    maxAttempts: number | null;
+    attemptsUsed: number;
+    gradesReleased: boolean;
+    grade: Grade | null; // Only once the teacher releases grades
+    annotations?: Annotation[]; // Likewise
     submissionStatus: 'Submitted' | 'Pending' | 'Not Submitted' | 'Overdue' | 'Submitted (Late)';
     submittedAt: string | null;
     fileName: string | null;
@@ -73,9 +90,13 @@ interface PreviousSubmissionPropsType {
     status?: 'processing' | 'checked' | 'error'; // Made optional to match the incoming data
     similarity?: number | null;
     late?: boolean;
+    latePenalty?: number;
     score?: number;
     teacherRemark?: string;
     submitted: boolean;
+    hasOriginalFile?: boolean;
+    attemptNumber?: number;
+    isAssessed?: boolean;
 }
 
 // Ensure this matches the props expected by AssignmentDetails component
@@ -345,6 +366,55 @@ const StudentAssignmentView: React.FC = () => {
         }
     }, [assignmentId, questionFileDisplayName, assignment?.questionFile?.contentType, toast, API_BASE_URL, getAuthToken, navigate]);
 
+    // Opens the student's own submitted document in a new tab, or downloads it
+    const handleOpenSubmissionFile = useCallback(async (fileName: string, download: boolean, attemptNumber?: number) => {
+        const token = getAuthToken();
+        if (!token) {
+            toast({
+                title: "Authentication Required",
+                description: "Please log in to open your submission.",
+                variant: "destructive",
+            });
+            navigate('/login');
+            return;
+        }
+
+        try {
+            const response = await axios.get(
+                `${API_BASE_URL}/api/studentassignment/submission-file/${assignmentId}`,
+                {
+                    headers: {
+                        Authorization: `Bearer ${token}`,
+                    },
+                    params: { download: download || undefined, attempt: attemptNumber },
+                    responseType: 'blob',
+                }
+            );
+
+            if (download) {
+                downloadBlob(response.data, fileName);
+            } else {
+                openBlob(response.data, fileName, response.headers['content-type']);
+            }
+        } catch (err) {
+            console.error("Error opening submitted file:", err);
+            let errorMessage = "Could not open your submitted file. Please try again.";
+            // Blob responses carry the JSON error body as a Blob
+            if (axios.isAxiosError(err) && err.response?.data instanceof Blob) {
+                try {
+                    errorMessage = JSON.parse(await err.response.data.text()).error || errorMessage;
+                } catch {
+                    // Not JSON: keep the generic message
+                }
+            }
+            toast({
+                title: download ? "Download Failed" : "View Failed",
+                description: errorMessage,
+                variant: "destructive",
+            });
+        }
+    }, [assignmentId, toast, API_BASE_URL, getAuthToken, navigate]);
+
 
     const handleSubmit = async () => {
         const token = getAuthToken();
@@ -402,7 +472,8 @@ const StudentAssignmentView: React.FC = () => {
                     description: errorMessage,
                     variant: "destructive",
                 });
-                if (err.response.status === 401 || err.response.status === 403) {
+                // 403 here means the deadline passed or no attempts are left, not an expired session
+                if (err.response.status === 401) {
                     navigate('/login');
                 }
             } else {
@@ -418,7 +489,6 @@ const StudentAssignmentView: React.FC = () => {
         }
     };
 
-    // Removed handleDownloadSubmission as it's no longer used or passed to PreviousSubmissions
 
     if (loading) {
         return (
@@ -491,7 +561,7 @@ const StudentAssignmentView: React.FC = () => {
         id: assignment.assignmentId,
         title: assignment.title,
         description: assignment.description,
-        deadline: new Date(assignment.deadline),
+        deadline: new Date(assignment.effectiveDeadline || assignment.deadline),
         submitted: assignment.submissionStatus.includes('Submitted'),
         submittedAt: validSubmittedAtDate,
         submissionLate: assignment.latestSubmissionIsLate,
@@ -510,14 +580,17 @@ const StudentAssignmentView: React.FC = () => {
         status: sub.status, // This is now correctly handled as optional in PreviousSubmissionPropsType
         similarity: sub.plagiarismPercent,
         late: sub.late,
+        latePenalty: sub.latePenalty,
         score: sub.score,
         teacherRemark: sub.teacherRemark || undefined,
         submitted: sub.submitted,
+        hasOriginalFile: sub.hasOriginalFile,
+        attemptNumber: sub.attemptNumber,
+        isAssessed: sub.isAssessed,
     }));
 
-    const latestSubmission = submissions.length > 0
-        ? submissions[0]
-        : undefined;
+    // Remarks and similarity are shown for the attempt the teacher assessed (normally the latest)
+    const latestSubmission = submissions.find(sub => sub.isAssessed) ?? submissions[0];
 
     return (
         <div className="min-h-screen flex flex-col">
@@ -571,20 +644,28 @@ const StudentAssignmentView: React.FC = () => {
                                 <TeachersRemark remark={latestSubmission.teacherRemark || "No remarks"} />
                             )}
 
-                            {/* Only show ExamResult if it's an Exam and there's a valid latest submission with a score */}
-                            {assignment.type === 'Exam' && latestSubmission && typeof latestSubmission.score === 'number' && (
-                                <ExamResult submission={latestSubmission} />
+                            {/* Released marks, for assignments and exams alike */}
+                            {assignment.grade && (
+                                <ExamResult grade={assignment.grade} assignmentType={assignment.type} />
+                            )}
+                            {assignment.grade && assignment.grade.criterionScores.length > 0 && (
+                                <RubricFeedback criterionScores={assignment.grade.criterionScores} />
+                            )}
+                            {assignment.annotations && assignment.annotations.length > 0 && (
+                                <AnnotationFeedback annotations={assignment.annotations} />
                             )}
 
                             {/* FileUploader component */}
                             <FileUploader
                                 isPastDeadline={assignment.deadlinePassed}
-                                canSubmitLate={assignment.canSubmitLate}
+                                canSubmitLate={assignment.canSubmitLate && !assignment.submissionsClosed}
                                 onFileSelect={setSelectedFile}
                                 onSubmit={handleSubmit}
                                 selectedFile={selectedFile}
                                 isUploading={isUploading}
                                 submissionMessage={assignment.message}
+                                attemptsRemaining={assignment.maxAttempts ? Math.max(0, assignment.maxAttempts - assignment.attemptsUsed) : null}
+                                submissionRules={assignment.submissionRules}
                             />
 
                             {/* Conditionally render PreviousSubmissions ONLY if there are valid, filtered submissions */}
@@ -592,7 +673,8 @@ const StudentAssignmentView: React.FC = () => {
                                 <PreviousSubmissions
                                     submissions={filteredAndMappedSubmissions}
                                     assignmentType={assignment.type}
-                                    // onDownloadSubmission is removed as per your request
+                                    onViewSubmission={(submission) => handleOpenSubmissionFile(submission.fileName, false, submission.attemptNumber)}
+                                    onDownloadSubmission={(submission) => handleOpenSubmissionFile(submission.fileName, true, submission.attemptNumber)}
                                 />
                             )}
                         </div>
@@ -602,7 +684,17 @@ const StudentAssignmentView: React.FC = () => {
                                 assignment={assignmentDetailsProps}
                                 submissions={filteredAndMappedSubmissions}
                                 submissionGuidelines={assignment.submissionGuidelines}
+                                submissionRules={assignment.submissionRules}
+                                grade={assignment.grade}
                                 message={assignment.message}
+                                deadlineDetails={{
+                                    originalDeadline: new Date(assignment.deadline),
+                                    hasExtension: !!assignment.extension,
+                                    extensionReason: assignment.extension?.reason,
+                                    canSubmitLate: assignment.canSubmitLate,
+                                    lateCutoff: assignment.lateCutoff ? new Date(assignment.lateCutoff) : null,
+                                    latePenalty: assignment.latePolicy,
+                                }}
                             />
                         </div>
                     </div>
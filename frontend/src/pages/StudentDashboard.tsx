@@ -137,8 +137,9 @@ const StudentDashboard = () => {
         }
       );
 
+      // Classes that require approval answer with status "pending" until the teacher accepts
       toast({
-        title: "Success",
+        title: response.data.status === 'pending' ? "Request sent" : "Success",
         description: response.data.message || "You have successfully joined a new class!",
       });
 
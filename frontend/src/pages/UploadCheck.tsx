@@ -1,32 +1,68 @@
 import { useState, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, FileText, AlertCircle, CheckCircle, FileDown, Eye, Trash2, ImageIcon } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Upload, FileText, AlertCircle, CheckCircle, FileDown, Eye, Trash2, ImageIcon, Library } from 'lucide-react';
 import Navbar from '@/components/Navbar';
 import CustomButton from '@/components/ui/CustomButton';
 import GlassmorphismCard from '@/components/ui/GlassmorphismCard';
 import { cn } from '@/lib/utils';
+import { useDocumentFormats } from '@/hooks/useDocumentFormats';
 import Footer from '@/components/Footer';
+import JobProgress from '@/components/JobProgress';
+import { useJobProgress } from '@/hooks/useJobProgress';
+
+interface ComparisonResult {
+  file1: string;
+  file2: string;
+  source?: 'reference';
+  referenceCategory?: string;
+  similarity: string;
+  level: string;
+  text1: { text: string; highlight: boolean }[];
+  text2: { text: string; highlight: boolean }[];
+}
 
 const UploadCheck = () => {
   const { toast } = useToast();
+  const documentFormats = useDocumentFormats();
   const [isDragging, setIsDragging] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  const [results, setResults] = useState<null | {
-    file1: string;
-    file2: string;
-    similarity: string;
-    level: string;
-    text1: { text: string; highlight: boolean }[];
-    text2: { text: string; highlight: boolean }[];
-  }[]>(null);
+  const [results, setResults] = useState<ComparisonResult[] | null>(null);
+
+  // The check runs as a background job on the server; follow it until it finishes
+  const { job, trackJob, resumeActiveJob } = useJobProgress<{ results: ComparisonResult[] }>({
+    onSucceeded: (finished) => {
+      setResults(finished.result?.results || []);
+      setIsAnalyzing(false);
+      toast({
+        title: "Success",
+        description: "Plagiarism analysis completed.",
+      });
+    },
+    onFailed: (failed) => {
+      setIsAnalyzing(false);
+      toast({
+        title: "Error",
+        description: failed.error || "An unexpected error occurred during analysis.",
+        variant: "destructive",
+      });
+    },
+  });
 
   // Scroll to top on component mount (optional, but good for consistent user experience)
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  // Resume following a check that was still running when the page was left
+  useEffect(() => {
+    resumeActiveJob({ type: 'upload-check' }).then(found => {
+      if (found) setIsAnalyzing(true);
+    });
+  }, [resumeActiveJob]);
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
@@ -52,21 +88,12 @@ const UploadCheck = () => {
   };
 
   const handleFiles = (newFiles: File[]) => {
-    const acceptedTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-      'image/png',
-      'image/jpeg',
-      'image/jpg',
-    ];
-    const validFiles = newFiles.filter(file => acceptedTypes.includes(file.type));
+    const validFiles = newFiles.filter(documentFormats.isSupported);
 
     if (validFiles.length !== newFiles.length) {
       toast({
         title: "Invalid file type",
-        description: "Only PDF, Word documents, text files, and images (PNG, JPG, JPEG) are supported.",
+        description: `Supported formats: ${documentFormats.summary}.`,
         variant: "destructive"
       });
     }
@@ -109,6 +136,15 @@ const UploadCheck = () => {
         },
       });
 
+      // Only one upload check runs at a time; follow the one already running
+      if (uploadResponse.status === 409) {
+        const conflict = await uploadResponse.json();
+        toast({ title: "Check already running", description: "Showing the progress of the running check.", variant: "info" });
+        setResults(null);
+        trackJob(conflict.jobId);
+        return;
+      }
+
       if (!uploadResponse.ok) {
         let errorDetails = "Failed to upload files.";
         try {
@@ -122,12 +158,8 @@ const UploadCheck = () => {
       }
 
       const uploadData = await uploadResponse.json();
-      setResults(uploadData.results);
-
-      toast({
-        title: "Success",
-        description: "Plagiarism analysis completed.",
-      });
+      setResults(null);
+      trackJob(uploadData.jobId);
     } catch (error: any) {
       console.error("Error during plagiarism analysis:", error);
       toast({
@@ -135,7 +167,6 @@ const UploadCheck = () => {
         description: error.message || "An unexpected error occurred during analysis.",
         variant: "destructive",
       });
-    } finally {
       setIsAnalyzing(false);
     }
   };
@@ -242,9 +273,12 @@ const UploadCheck = () => {
           <div className="text-center mb-12 animate-fade-in">
             <h1 className="text-3xl md:text-4xl font-bold mb-4">Upload & Check Documents</h1>
             <p className="text-muted-foreground max-w-2xl mx-auto">
-              Upload your documents to check for plagiarism against our comprehensive database.
-              We support PDF, Word documents, text files, and images.
+              Upload your documents to check them against each other and your reference library.
+              We support PDF, Word, OpenDocument, RTF, PowerPoint, text and Markdown files, and images.
             </p>
+            <Link to="/reference-library" className="inline-flex items-center mt-4 text-veri hover:underline">
+              <Library size={16} className="mr-1" /> Manage Reference Library
+            </Link>
           </div>
         </div>
 
@@ -269,7 +303,7 @@ const UploadCheck = () => {
                   multiple
                   className="hidden"
                   onChange={handleFileChange}
-                  accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
+                  accept={documentFormats.accept}
                 />
 
                 <Upload size={40} className={cn(
@@ -280,7 +314,7 @@ const UploadCheck = () => {
                   {isDragging ? "Drop files here" : "Drag & drop files or click to browse"}
                 </p>
                 <p className="text-muted-foreground text-sm">
-                  Supports PDF, Word documents, text files, and images (Max 10MB)
+                  Supports PDF, Word, OpenDocument, RTF, PowerPoint, text and Markdown files, and images (Max 10MB)
                 </p>
               </div>
 
@@ -353,7 +387,13 @@ const UploadCheck = () => {
                   </div>
                 )}
 
-                {isAnalyzing && (
+                {isAnalyzing && job && (
+                  <div className="flex items-center justify-center h-60">
+                    <JobProgress status={job.status} progress={job.progress} stages={job.stages} className="w-full max-w-sm" />
+                  </div>
+                )}
+
+                {isAnalyzing && !job && (
                   <div className="flex flex-col items-center justify-center h-60 text-center">
                     <div className="w-16 h-16 relative mb-4">
                       <div className="absolute top-0 left-0 w-full h-full border-4 border-veri/30 rounded-full"></div>
@@ -372,7 +412,9 @@ const UploadCheck = () => {
                         <h4 className="font-medium mb-4">Comparison {index + 1}</h4>
                         <div className="flex justify-between items-center mb-2">
                           <span className="font-medium">Files Compared:</span>
-                          <span>{result.file1} vs {result.file2}</span>
+                          <span>
+                            {result.file1} vs {result.source === 'reference' ? `Reference: ${result.file2}` : result.file2}
+                          </span>
                         </div>
                         <div className="flex justify-between items-center mb-2">
                           <span className="font-medium">Similarity:</span>